@@ -0,0 +1,236 @@
+// API de auditoría
+// Registro de quién cambió qué en el panel (productos, compras, usuarios), con los datos antes y después,
+// y de los intentos de login (para detectar ataques de fuerza bruta)
+
+const express = require('express');
+const router = express.Router();
+const pool = require('../db/connection');
+const { verificarAutenticacion, verificarPermiso } = require('../middleware/auth');
+const {
+  VENTANA_MINUTOS,
+  BLOQUEO_MINUTOS,
+  MAX_FALLOS_USUARIO,
+  MAX_FALLOS_IP,
+  MOTIVOS_SIN_FALLO
+} = require('../middleware/limiteLogin');
+
+// Paginación del registro
+const POR_PAGINA_DEFECTO = 50;
+const POR_PAGINA_MAXIMO = 200;
+
+// Entidades que se auditan (sirven para validar el filtro)
+const ENTIDADES_AUDITADAS = ['producto', 'compra', 'usuario', 'rol', 'caja', 'cupon'];
+
+// Arma el WHERE del registro a partir de los query params
+// Devuelve un mensaje de error si algún filtro es inválido
+function construirFiltrosAuditoria(query) {
+  const { usuario_id, usuario, accion, entidad, entidad_id, fecha_desde, fecha_hasta } = query;
+  const condiciones = [];
+  const params = [];
+
+  if (usuario_id) {
+    const usuarioId = parseInt(usuario_id);
+    if (isNaN(usuarioId)) return { error: 'usuario_id debe ser un número' };
+    params.push(usuarioId);
+    condiciones.push(`a.usuario_id = $${params.length}`);
+  }
+
+  // Búsqueda por nombre de usuario (también encuentra registros de usuarios ya borrados)
+  if (usuario && String(usuario).trim()) {
+    params.push(`%${String(usuario).trim()}%`);
+    condiciones.push(`a.usuario_nombre ILIKE $${params.length}`);
+  }
+
+  if (accion) {
+    params.push(accion);
+    condiciones.push(`a.accion = $${params.length}`);
+  }
+
+  if (entidad) {
+    if (!ENTIDADES_AUDITADAS.includes(entidad)) {
+      return { error: `La entidad debe ser ${ENTIDADES_AUDITADAS.map(e => `"${e}"`).join(', ')}` };
+    }
+    params.push(entidad);
+    condiciones.push(`a.entidad = $${params.length}`);
+  }
+
+  if (entidad_id) {
+    const entidadId = parseInt(entidad_id);
+    if (isNaN(entidadId)) return { error: 'entidad_id debe ser un número' };
+    params.push(entidadId);
+    condiciones.push(`a.entidad_id = $${params.length}`);
+  }
+
+  if (fecha_desde) {
+    params.push(fecha_desde);
+    condiciones.push(`a.fecha >= $${params.length}`);
+  }
+
+  if (fecha_hasta) {
+    params.push(fecha_hasta);
+    condiciones.push(`a.fecha <= $${params.length}`);
+  }
+
+  return {
+    where: condiciones.length > 0 ? `WHERE ${condiciones.join(' AND ')}` : '',
+    params
+  };
+}
+
+// 📜 GET /api/auditoria - Listar el registro de actividad (paginado, del más nuevo al más viejo)
+// Solo usuarios con permiso 'ver_auditoria' pueden hacer esto
+// Query params: pagina, por_pagina, usuario_id, usuario, accion, entidad, entidad_id, fecha_desde, fecha_hasta
+router.get('/', verificarAutenticacion, verificarPermiso('ver_auditoria'), async (req, res) => {
+  try {
+    const pagina = Math.max(parseInt(req.query.pagina) || 1, 1);
+    const porPagina = Math.min(Math.max(parseInt(req.query.por_pagina) || POR_PAGINA_DEFECTO, 1), POR_PAGINA_MAXIMO);
+
+    const filtros = construirFiltrosAuditoria(req.query);
+    if (filtros.error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: filtros.error
+      });
+    }
+
+    const cantidad = await pool.query(
+      `SELECT COUNT(*) FROM auditoria a ${filtros.where}`,
+      filtros.params
+    );
+
+    const params = [...filtros.params, porPagina, (pagina - 1) * porPagina];
+    const result = await pool.query(
+      `SELECT a.id, a.usuario_id, a.usuario_nombre, u.nombre_completo AS usuario_nombre_completo,
+              a.accion, a.entidad, a.entidad_id, a.datos_anteriores, a.datos_nuevos, a.ip, a.fecha
+       FROM auditoria a
+       LEFT JOIN users u ON u.id = a.usuario_id
+       ${filtros.where}
+       ORDER BY a.fecha DESC, a.id DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    // Acciones que existen en el registro, para armar el filtro del panel
+    const acciones = await pool.query('SELECT DISTINCT accion FROM auditoria ORDER BY accion');
+
+    const total = parseInt(cantidad.rows[0].count);
+
+    res.json({
+      success: true,
+      registros: result.rows,
+      acciones: acciones.rows.map(a => a.accion),
+      paginacion: {
+        pagina,
+        por_pagina: porPagina,
+        total,
+        total_paginas: Math.max(Math.ceil(total / porPagina), 1)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error al obtener la auditoría:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener el registro de actividad'
+    });
+  }
+});
+
+// 🔑 GET /api/auditoria/intentos-login - Listar los intentos de login (paginado, del más nuevo al más viejo)
+// Solo usuarios con permiso 'ver_auditoria' pueden hacer esto
+// Query params: pagina, por_pagina, username, ip, solo_fallidos
+// También devuelve los usuarios e IPs que están bloqueados en este momento
+router.get('/intentos-login', verificarAutenticacion, verificarPermiso('ver_auditoria'), async (req, res) => {
+  try {
+    const pagina = Math.max(parseInt(req.query.pagina) || 1, 1);
+    const porPagina = Math.min(Math.max(parseInt(req.query.por_pagina) || POR_PAGINA_DEFECTO, 1), POR_PAGINA_MAXIMO);
+    const { username, ip, solo_fallidos } = req.query;
+
+    const condiciones = [];
+    const filtrosParams = [];
+
+    if (username && String(username).trim()) {
+      filtrosParams.push(`%${String(username).trim()}%`);
+      condiciones.push(`i.username ILIKE $${filtrosParams.length}`);
+    }
+
+    if (ip && String(ip).trim()) {
+      filtrosParams.push(`%${String(ip).trim()}%`);
+      condiciones.push(`i.ip ILIKE $${filtrosParams.length}`);
+    }
+
+    // La contraseña correcta que espera el código de verificación no es un fallo
+    if (solo_fallidos === 'true') {
+      condiciones.push("i.exitoso = false AND i.motivo <> 'falta_2fa'");
+    }
+
+    const where = condiciones.length > 0 ? `WHERE ${condiciones.join(' AND ')}` : '';
+
+    const cantidad = await pool.query(
+      `SELECT COUNT(*) FROM intentos_login i ${where}`,
+      filtrosParams
+    );
+
+    const params = [...filtrosParams, porPagina, (pagina - 1) * porPagina];
+    const result = await pool.query(
+      `SELECT i.id, i.username, i.user_id, u.nombre_completo AS usuario_nombre_completo,
+              i.ip, i.exitoso, i.motivo, i.fecha
+       FROM intentos_login i
+       LEFT JOIN users u ON u.id = i.user_id
+       ${where}
+       ORDER BY i.fecha DESC, i.id DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    // Bloqueos activos: mismo criterio que middleware/limiteLogin.js
+    // (fallos dentro de la ventana, y para los usuarios solo los posteriores a su último login exitoso)
+    const bloqueos = await pool.query(
+      `SELECT 'usuario' AS tipo, LOWER(f.username) AS valor, COUNT(*)::int AS fallos,
+              MAX(f.fecha) + INTERVAL '${BLOQUEO_MINUTOS} minutes' AS hasta
+       FROM intentos_login f
+       WHERE f.exitoso = false AND f.motivo <> ALL($3::varchar[])
+         AND f.fecha > NOW() - INTERVAL '${VENTANA_MINUTOS} minutes'
+         AND f.fecha > COALESCE(
+           (SELECT MAX(ok.fecha) FROM intentos_login ok
+            WHERE LOWER(ok.username) = LOWER(f.username) AND ok.exitoso = true),
+           '-infinity'
+         )
+       GROUP BY LOWER(f.username)
+       HAVING COUNT(*) >= $1 AND MAX(f.fecha) + INTERVAL '${BLOQUEO_MINUTOS} minutes' > NOW()
+       UNION ALL
+       SELECT 'ip' AS tipo, f.ip AS valor, COUNT(*)::int AS fallos,
+              MAX(f.fecha) + INTERVAL '${BLOQUEO_MINUTOS} minutes' AS hasta
+       FROM intentos_login f
+       WHERE f.exitoso = false AND f.motivo <> ALL($3::varchar[]) AND f.ip IS NOT NULL
+         AND f.fecha > NOW() - INTERVAL '${VENTANA_MINUTOS} minutes'
+       GROUP BY f.ip
+       HAVING COUNT(*) >= $2 AND MAX(f.fecha) + INTERVAL '${BLOQUEO_MINUTOS} minutes' > NOW()
+       ORDER BY hasta DESC`,
+      [MAX_FALLOS_USUARIO, MAX_FALLOS_IP, MOTIVOS_SIN_FALLO]
+    );
+
+    const total = parseInt(cantidad.rows[0].count);
+
+    res.json({
+      success: true,
+      registros: result.rows,
+      bloqueos: bloqueos.rows,
+      paginacion: {
+        pagina,
+        por_pagina: porPagina,
+        total,
+        total_paginas: Math.max(Math.ceil(total / porPagina), 1)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error al obtener los intentos de login:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener los intentos de login'
+    });
+  }
+});
+
+module.exports = router;
@@ -24,20 +24,126 @@ const express = require('express');
 const router = express.Router();
 const pool = require('../db/connection');
 const bcrypt = require('bcrypt');
-const jwt = require('jsonwebtoken');
+const { registrarAuditoria } = require('../middleware/auditoria');
+const { verificarAutenticacion } = require('../middleware/auth');
+const {
+  hashearToken,
+  generarRefreshToken,
+  obtenerRolesYPermisos,
+  firmarAccessToken,
+  crearSesion,
+  revocarSesiones
+} = require('../middleware/sesiones');
+const {
+  MAX_FALLOS_USUARIO,
+  verificarLimiteLogin,
+  registrarIntentoLogin,
+  limpiarIntentosViejos
+} = require('../middleware/limiteLogin');
+const {
+  verificarSegundoFactor,
+  generarCodigosRecuperacion,
+  contarCodigosRecuperacion,
+  usuarioRequiere2fa,
+  iniciarConfiguracion2fa,
+  activar2fa,
+  desactivar2fa,
+  firmarDesafio2fa,
+  verificarDesafio2fa
+} = require('../middleware/dosFactores');
 
 /**
- * JWT_SECRET: La clave secreta para firmar tokens
- * 
  * ¿QUÉ ES UN TOKEN JWT?
  * Un JWT es como un pase VIP digital. Cuando el usuario inicia sesión,
  * le damos un token que demuestra quién es. Este token es como una firma
  * digital que solo nosotros podemos verificar.
  * 
- * La leemos desde las variables de entorno (.env) por seguridad.
- * Si no existe, usamos una por defecto (solo para desarrollo).
+ * SESIONES (middleware/sesiones.js):
+ * El JWT (access token) dura solo 15 minutos. Junto con él entregamos un
+ * refresh token que dura la sesión entera y sirve para pedir un JWT nuevo
+ * en POST /api/auth/refresh. La sesión vive en la base de datos, así que se
+ * puede cerrar desde el servidor (logout, "cerrar todas las sesiones" o
+ * desactivar al usuario) y el JWT deja de servir en la próxima petición.
+ */
+
+// Los intentos contra un mismo usuario se procesan de a uno (hasta el final de la transacción):
+// así no se pueden mandar 100 intentos en paralelo para esquivar el límite
+async function bloquearIntentosDeUsuario(client, username) {
+  await client.query("SELECT pg_advisory_xact_lock(hashtext('login:' || LOWER($1)))", [username]);
+}
+
+// Respuesta 429 cuando el usuario o la IP tienen que esperar (ver middleware/limiteLogin.js)
+function responderLimite(res, limite) {
+  res.set('Retry-After', String(limite.segundos));
+  return res.status(429).json({
+    success: false,
+    mensaje: limite.motivo === 'bloqueado'
+      ? `Demasiados intentos fallidos. El acceso está bloqueado por ${Math.ceil(limite.segundos / 60)} minuto(s).`
+      : `Demasiados intentos seguidos. Esperá ${limite.segundos} segundo(s) antes de volver a intentar.`,
+    bloqueado: limite.motivo === 'bloqueado',
+    bloqueado_hasta: limite.hasta,
+    reintentar_en: limite.segundos
+  });
+}
+
+const MENSAJE_DESAFIO_VENCIDO = 'La verificación venció. Volvé a ingresar tu usuario y contraseña';
+
+/**
+ * Termina un login ya verificado (contraseña y, si corresponde, el código de verificación):
+ * abre la sesión, genera los tokens, lo deja en la auditoría y responde.
+ * "extra" se agrega a la respuesta (por ejemplo, los códigos de recuperación recién generados)
  */
-const JWT_SECRET = process.env.JWT_SECRET || 'sanpaholmes-secret-key-2025';
+async function completarLogin(req, res, user, recordar, extra = {}) {
+  // Paso 5: Obtenemos los roles y permisos del usuario
+  // Un usuario puede tener múltiples roles (admin, vendedor, etc.)
+  // y los permisos definen qué puede hacer (ver_compras, gestionar_productos, etc.)
+  const rolesYPermisos = await obtenerRolesYPermisos(pool, user.id);
+  const { roles, permisos } = rolesYPermisos;
+
+  // Paso 6: Abrimos una sesión en la base de datos
+  // Nos devuelve el refresh token, que el frontend guarda para renovar el JWT
+  const { sesionId, refreshToken } = await crearSesion(pool, req, user, recordar !== false);
+
+  // Paso 7: Generamos el token JWT (access token)
+  // 
+  // ¿CÓMO FUNCIONA JWT?
+  // 1. Tomamos datos del usuario (userId, username, roles, permisos) y el id de la sesión
+  // 2. Los "firmamos" con nuestra clave secreta (JWT_SECRET)
+  // 3. El resultado es un string largo que solo nosotros podemos verificar
+  // 4. Este token se envía en cada petición futura para identificar al usuario
+  // 
+  // El token tiene 3 partes separadas por puntos:
+  // Header.Payload.Signature
+  // Expira en 15 minutos: después el frontend pide otro con el refresh token
+  const token = firmarAccessToken(user, rolesYPermisos, sesionId);
+
+  // Paso 8: Dejamos registrado el inicio de sesión en la auditoría
+  // Esta ruta no pasa por verificarAutenticacion, así que le pasamos el usuario a mano
+  await registrarAuditoria(pool, req, {
+    accion: 'iniciar_sesion',
+    entidad: 'usuario',
+    entidadId: user.id,
+    usuario: { userId: user.id, username: user.username }
+  });
+
+  // Paso 9: Respondemos con éxito
+  // Enviamos el token y los datos del usuario al frontend
+  res.json({
+    success: true,
+    mensaje: 'Inicio de sesión exitoso',
+    token: token,
+    refresh_token: refreshToken,
+    usuario: {
+      id: user.id,
+      username: user.username,
+      nombre_completo: user.nombre_completo,
+      email: user.email,
+      roles: roles,
+      permisos: permisos
+    },
+    ...extra
+  });
+}
 
 /**
  * ============================================================================
@@ -48,20 +154,31 @@ const JWT_SECRET = process.env.JWT_SECRET || 'sanpaholmes-secret-key-2025';
  * 
  * ¿QUÉ HACE?
  * 1. Recibe username y password del usuario
- * 2. Busca el usuario en la base de datos
- * 3. Verifica que la contraseña sea correcta
- * 4. Obtiene los roles y permisos del usuario
- * 5. Genera un token JWT
- * 6. Devuelve el token y los datos del usuario
+ * 2. Revisa que el usuario o la IP no estén bloqueados por demasiados intentos fallidos
+ * 3. Busca el usuario en la base de datos y verifica que la contraseña sea correcta
+ *    (cada intento queda registrado en intentos_login)
+ * 4. Si el usuario tiene verificación en dos pasos (o su rol la exige), responde
+ *    con un "desafío" y el login sigue en POST /api/auth/login/2fa
+ * 5. Obtiene los roles y permisos del usuario
+ * 6. Abre una sesión y genera el access token JWT y el refresh token
+ * 7. Devuelve los tokens y los datos del usuario
  * 
  * EJEMPLO DE PETICIÓN:
  * POST http://localhost:3000/api/auth/login
- * Body: { "username": "admin", "password": "admin123" }
+ * Body: { "username": "admin", "password": "admin123", "recordar": true }
+ * 
+ * "recordar" es opcional (por defecto true): la sesión dura 30 días, o 12 horas si es false
+ * 
+ * PROTECCIÓN CONTRA FUERZA BRUTA (middleware/limiteLogin.js):
+ * Después de 2 fallos seguidos hay que esperar cada vez más entre intentos, y con 5 fallos
+ * en 15 minutos la cuenta queda bloqueada 15 minutos (lo mismo para una IP con 20 fallos).
+ * Mientras tanto se responde 429 con el header Retry-After y "bloqueado_hasta".
  * 
  * EJEMPLO DE RESPUESTA:
  * {
  *   "success": true,
  *   "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   "refresh_token": "9f2c...",
  *   "usuario": {
  *     "id": 1,
  *     "username": "admin",
@@ -74,7 +191,7 @@ router.post('/login', async (req, res) => {
   try {
     // Paso 1: Extraemos username y password del body de la petición
     // req.body contiene los datos que envió el frontend
-    const { username, password } = req.body;
+    const { username, password, recordar = true } = req.body;
 
     // Paso 2: Validación básica - verificamos que vengan los datos
     if (!username || !password) {
@@ -84,110 +201,377 @@ router.post('/login', async (req, res) => {
       });
     }
 
-    // Paso 3: Buscamos el usuario en la base de datos
-    // pool.query ejecuta una consulta SQL en PostgreSQL
-    // $1 es un parámetro que se reemplaza por el valor de username
-    // Esto previene ataques de SQL Injection (muy importante para seguridad)
-    const userResult = await pool.query(
-      'SELECT * FROM users WHERE username = $1 AND activo = true',
-      [username]
-    );
+    // Paso 3: Revisamos los intentos y la contraseña dentro de una transacción
+    const ip = req.ip || null;
+    const client = await pool.connect();
+    let user;
 
-    // Si no encontramos ningún usuario, respondemos con error 401
-    if (userResult.rows.length === 0) {
+    try {
+      await client.query('BEGIN');
+      await bloquearIntentosDeUsuario(client, username);
+
+      // Paso 3a: ¿El usuario o la IP están bloqueados, o tienen que esperar antes de reintentar?
+      const limite = await verificarLimiteLogin(client, username, ip);
+
+      if (!limite.permitido) {
+        await registrarIntentoLogin(client, { username, ip, exitoso: false, motivo: 'bloqueado' });
+        await client.query('COMMIT');
+        return responderLimite(res, limite);
+      }
+
+      // Paso 3b: Buscamos el usuario en la base de datos
+      // $1 es un parámetro que se reemplaza por el valor de username
+      // Esto previene ataques de SQL Injection (muy importante para seguridad)
+      const userResult = await client.query(
+        'SELECT * FROM users WHERE username = $1 AND activo = true',
+        [username]
+      );
+      user = userResult.rows[0];
+
+      // Paso 4: Verificamos la contraseña
+      // bcrypt.compare compara la contraseña ingresada con el hash guardado
+      // 
+      // ¿POR QUÉ USAR BCRYPT?
+      // Nunca guardamos contraseñas en texto plano por seguridad.
+      // bcrypt convierte "admin123" en algo como:
+      // "$2b$10$XQ9Z8N9k1K2L3M4N5O6P7Q..."
+      // Es un proceso de un solo sentido: puedes crear el hash pero no revertirlo
+      const passwordValida = user ? await bcrypt.compare(password, user.password_hash) : false;
+
+      if (!passwordValida) {
+        await registrarIntentoLogin(client, {
+          username,
+          userId: user ? user.id : null,
+          ip,
+          exitoso: false,
+          motivo: user ? 'password_incorrecto' : 'usuario_inexistente'
+        });
+        await client.query('COMMIT');
+
+        // Avisamos cuántos intentos quedan antes del bloqueo (igual exista o no el usuario)
+        const intentosRestantes = Math.max(MAX_FALLOS_USUARIO - (limite.fallosUsuario + 1), 0);
+        return res.status(401).json({
+          success: false,
+          mensaje: 'Usuario o contraseña incorrectos',
+          intentos_restantes: intentosRestantes
+        });
+      }
+
+      // Paso 4b: ¿Falta la verificación en dos pasos?
+      // La contraseña correcta todavía no cuenta como login exitoso: si no, alcanzaría con
+      // volver a poner la contraseña para reiniciar la cuenta de códigos incorrectos
+      if (user.totp_activado || await usuarioRequiere2fa(client, user.id)) {
+        await registrarIntentoLogin(client, { username, userId: user.id, ip, exitoso: false, motivo: 'falta_2fa' });
+        await client.query('COMMIT');
+
+        return res.json({
+          success: true,
+          mensaje: user.totp_activado
+            ? 'Ingresá el código de tu app autenticadora'
+            : 'Tu rol exige verificación en dos pasos: configurala para continuar',
+          requiere_2fa: true,
+          configurar_2fa: !user.totp_activado,
+          desafio: firmarDesafio2fa(user, recordar !== false)
+        });
+      }
+
+      await registrarIntentoLogin(client, { username, userId: user.id, ip, exitoso: true, motivo: 'ok' });
+      await limpiarIntentosViejos(client);
+      await client.query('COMMIT');
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await completarLogin(req, res, user, recordar);
+
+  } catch (error) {
+    // Si algo sale mal, capturamos el error y respondemos con 500
+    console.error('Error en login:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al iniciar sesión'
+    });
+  }
+});
+
+/**
+ * ============================================================================
+ * ENDPOINT: POST /api/auth/login/2fa
+ * ============================================================================
+ * 
+ * Segundo paso del login para usuarios con verificación en dos pasos.
+ * Recibe el "desafío" que devolvió /login (dura 5 minutos) y el código de
+ * 6 dígitos de la app autenticadora, o uno de los códigos de recuperación.
+ * 
+ * Los códigos incorrectos cuentan como intentos fallidos (mismo límite que la contraseña).
+ * 
+ * EJEMPLO DE PETICIÓN:
+ * POST http://localhost:3000/api/auth/login/2fa
+ * Body: { "desafio": "eyJhbGciOi...", "codigo": "123456" }
+ * 
+ * Responde igual que /login. Si se usó un código de recuperación, agrega
+ * "codigos_recuperacion_restantes".
+ */
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { codigo } = req.body;
+    const desafio = verificarDesafio2fa(req.body.desafio);
+
+    if (!desafio) {
       return res.status(401).json({
         success: false,
-        mensaje: 'Usuario o contraseña incorrectos'
+        mensaje: MENSAJE_DESAFIO_VENCIDO,
+        desafio_vencido: true
       });
     }
 
-    // Obtenemos el primer (y único) resultado
-    const user = userResult.rows[0];
+    if (!codigo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Falta el código de verificación'
+      });
+    }
 
-    // Paso 4: Verificamos la contraseña
-    // bcrypt.compare compara la contraseña ingresada con el hash guardado
-    // 
-    // ¿POR QUÉ USAR BCRYPT?
-    // Nunca guardamos contraseñas en texto plano por seguridad.
-    // bcrypt convierte "admin123" en algo como:
-    // "$2b$10$XQ9Z8N9k1K2L3M4N5O6P7Q..."
-    // Es un proceso de un solo sentido: puedes crear el hash pero no revertirlo
-    const passwordValida = await bcrypt.compare(password, user.password_hash);
+    const ip = req.ip || null;
+    const client = await pool.connect();
+    let user;
+    let metodo;
 
-    if (!passwordValida) {
+    try {
+      await client.query('BEGIN');
+      await bloquearIntentosDeUsuario(client, desafio.username);
+
+      const limite = await verificarLimiteLogin(client, desafio.username, ip);
+      if (!limite.permitido) {
+        await registrarIntentoLogin(client, { username: desafio.username, userId: desafio.userId, ip, exitoso: false, motivo: 'bloqueado' });
+        await client.query('COMMIT');
+        return responderLimite(res, limite);
+      }
+
+      const userResult = await client.query(
+        'SELECT * FROM users WHERE id = $1 AND activo = true FOR UPDATE',
+        [desafio.userId]
+      );
+      user = userResult.rows[0];
+
+      // Si mientras tanto lo desactivaron o le restablecieron la verificación, hay que empezar de nuevo
+      if (!user || !user.totp_activado) {
+        await client.query('ROLLBACK');
+        return res.status(401).json({
+          success: false,
+          mensaje: MENSAJE_DESAFIO_VENCIDO,
+          desafio_vencido: true
+        });
+      }
+
+      metodo = await verificarSegundoFactor(client, user, codigo);
+
+      if (!metodo) {
+        await registrarIntentoLogin(client, { username: user.username, userId: user.id, ip, exitoso: false, motivo: 'codigo_2fa_incorrecto' });
+        await client.query('COMMIT');
+
+        return res.status(401).json({
+          success: false,
+          mensaje: 'El código de verificación es incorrecto',
+          intentos_restantes: Math.max(MAX_FALLOS_USUARIO - (limite.fallosUsuario + 1), 0)
+        });
+      }
+
+      await registrarIntentoLogin(client, { username: user.username, userId: user.id, ip, exitoso: true, motivo: 'ok' });
+      await limpiarIntentosViejos(client);
+      await client.query('COMMIT');
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Avisamos cuántos códigos de recuperación le quedan, para que genere otros antes de quedarse sin ninguno
+    const extra = metodo === 'recuperacion'
+      ? { codigos_recuperacion_restantes: await contarCodigosRecuperacion(pool, user.id) }
+      : {};
+
+    await completarLogin(req, res, user, desafio.recordar, extra);
+
+  } catch (error) {
+    console.error('Error en la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al iniciar sesión'
+    });
+  }
+});
+
+/**
+ * ============================================================================
+ * ENDPOINT: POST /api/auth/login/2fa/configurar
+ * ============================================================================
+ * 
+ * Para usuarios cuyo rol exige verificación en dos pasos pero todavía no la
+ * configuraron: con el desafío de /login devuelve el QR para escanear con la
+ * app autenticadora. Después se confirma en POST /api/auth/login/2fa/activar.
+ * 
+ * EJEMPLO DE RESPUESTA:
+ * {
+ *   "success": true,
+ *   "secreto": "JBSWY3DPEHPK3PXP...",
+ *   "otpauth_url": "otpauth://totp/SanpaHolmes:admin?secret=...",
+ *   "qr": "data:image/png;base64,..."
+ * }
+ */
+router.post('/login/2fa/configurar', async (req, res) => {
+  try {
+    const desafio = verificarDesafio2fa(req.body.desafio);
+
+    if (!desafio) {
       return res.status(401).json({
         success: false,
-        mensaje: 'Usuario o contraseña incorrectos'
+        mensaje: MENSAJE_DESAFIO_VENCIDO,
+        desafio_vencido: true
       });
     }
 
-    // Paso 5: Obtenemos los roles del usuario
-    // Un usuario puede tener múltiples roles (admin, vendedor, etc.)
-    // Hacemos un JOIN entre las tablas users, user_roles y roles
-    const rolesResult = await pool.query(
-      `SELECT r.id, r.nombre
-       FROM roles r
-       JOIN user_roles ur ON r.id = ur.role_id
-       WHERE ur.user_id = $1`,
-      [user.id]
+    const userResult = await pool.query(
+      'SELECT * FROM users WHERE id = $1 AND activo = true',
+      [desafio.userId]
     );
+    const user = userResult.rows[0];
 
-    // Paso 6: Obtenemos los permisos del usuario
-    // Los permisos definen qué puede hacer el usuario
-    // (ver_ventas, gestionar_productos, etc.)
-    const permisosResult = await pool.query(
-      `SELECT DISTINCT p.nombre
-       FROM permisos p
-       JOIN role_permisos rp ON p.id = rp.permiso_id
-       JOIN user_roles ur ON rp.role_id = ur.role_id
-       WHERE ur.user_id = $1`,
-      [user.id]
-    );
+    if (!user) {
+      return res.status(401).json({
+        success: false,
+        mensaje: MENSAJE_DESAFIO_VENCIDO,
+        desafio_vencido: true
+      });
+    }
 
-    // Convertimos los resultados en arrays simples de strings
-    const roles = rolesResult.rows.map(r => r.nombre);
-    const permisos = permisosResult.rows.map(p => p.nombre);
-
-    // Paso 7: Generamos el token JWT
-    // 
-    // ¿CÓMO FUNCIONA JWT?
-    // 1. Tomamos datos del usuario (userId, username, roles, permisos)
-    // 2. Los "firmamos" con nuestra clave secreta (JWT_SECRET)
-    // 3. El resultado es un string largo que solo nosotros podemos verificar
-    // 4. Este token se envía en cada petición futura para identificar al usuario
-    // 
-    // El token tiene 3 partes separadas por puntos:
-    // Header.Payload.Signature
-    const token = jwt.sign(
-      {
-        userId: user.id,
-        username: user.username,
-        roles: roles,
-        permisos: permisos
-      },
-      JWT_SECRET,
-      { expiresIn: '24h' } // El token expira en 24 horas
-    );
+    if (user.totp_activado) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Ya tenés la verificación en dos pasos configurada'
+      });
+    }
+
+    const configuracion = await iniciarConfiguracion2fa(pool, user);
 
-    // Paso 8: Respondemos con éxito
-    // Enviamos el token y los datos del usuario al frontend
     res.json({
       success: true,
-      mensaje: 'Inicio de sesión exitoso',
-      token: token,
-      usuario: {
-        id: user.id,
-        username: user.username,
-        nombre_completo: user.nombre_completo,
-        email: user.email,
-        roles: roles,
-        permisos: permisos
-      }
+      ...configuracion
     });
 
   } catch (error) {
-    // Si algo sale mal, capturamos el error y respondemos con 500
-    console.error('Error en login:', error);
+    console.error('Error al configurar la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al configurar la verificación en dos pasos'
+    });
+  }
+});
+
+/**
+ * ============================================================================
+ * ENDPOINT: POST /api/auth/login/2fa/activar
+ * ============================================================================
+ * 
+ * Confirma la configuración hecha durante el login con el primer código de la
+ * app y termina el login. Responde igual que /login más "codigos_recuperacion"
+ * (10 códigos que se muestran una sola vez).
+ * 
+ * EJEMPLO DE PETICIÓN:
+ * POST http://localhost:3000/api/auth/login/2fa/activar
+ * Body: { "desafio": "eyJhbGciOi...", "codigo": "123456" }
+ */
+router.post('/login/2fa/activar', async (req, res) => {
+  try {
+    const { codigo } = req.body;
+    const desafio = verificarDesafio2fa(req.body.desafio);
+
+    if (!desafio) {
+      return res.status(401).json({
+        success: false,
+        mensaje: MENSAJE_DESAFIO_VENCIDO,
+        desafio_vencido: true
+      });
+    }
+
+    const ip = req.ip || null;
+    const client = await pool.connect();
+    let user;
+    let codigosRecuperacion;
+
+    try {
+      await client.query('BEGIN');
+      await bloquearIntentosDeUsuario(client, desafio.username);
+
+      const limite = await verificarLimiteLogin(client, desafio.username, ip);
+      if (!limite.permitido) {
+        await registrarIntentoLogin(client, { username: desafio.username, userId: desafio.userId, ip, exitoso: false, motivo: 'bloqueado' });
+        await client.query('COMMIT');
+        return responderLimite(res, limite);
+      }
+
+      const userResult = await client.query(
+        'SELECT * FROM users WHERE id = $1 AND activo = true FOR UPDATE',
+        [desafio.userId]
+      );
+      user = userResult.rows[0];
+
+      if (!user) {
+        await client.query('ROLLBACK');
+        return res.status(401).json({
+          success: false,
+          mensaje: MENSAJE_DESAFIO_VENCIDO,
+          desafio_vencido: true
+        });
+      }
+
+      if (user.totp_activado) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: 'Ya tenés la verificación en dos pasos configurada'
+        });
+      }
+
+      codigosRecuperacion = await activar2fa(client, user, codigo);
+
+      if (!codigosRecuperacion) {
+        await registrarIntentoLogin(client, { username: user.username, userId: user.id, ip, exitoso: false, motivo: 'codigo_2fa_incorrecto' });
+        await client.query('COMMIT');
+
+        return res.status(401).json({
+          success: false,
+          mensaje: 'El código no es válido. Revisá que la hora del teléfono esté bien y probá con el próximo código',
+          intentos_restantes: Math.max(MAX_FALLOS_USUARIO - (limite.fallosUsuario + 1), 0)
+        });
+      }
+
+      await registrarAuditoria(client, req, {
+        accion: 'activar_2fa',
+        entidad: 'usuario',
+        entidadId: user.id,
+        usuario: { userId: user.id, username: user.username }
+      });
+      await registrarIntentoLogin(client, { username: user.username, userId: user.id, ip, exitoso: true, motivo: 'ok' });
+      await client.query('COMMIT');
+
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await completarLogin(req, res, user, desafio.recordar, { codigos_recuperacion: codigosRecuperacion });
+
+  } catch (error) {
+    console.error('Error al activar la verificación en dos pasos:', error);
     res.status(500).json({
       success: false,
       mensaje: 'Error al iniciar sesión'
@@ -208,6 +592,7 @@ router.post('/login', async (req, res) => {
  * 
  * REQUIERE AUTENTICACIÓN:
  * Sí - El usuario debe enviar su token JWT en el header Authorization
+ * (verificarAutenticacion también revisa que la sesión no se haya cerrado)
  * 
  * EJEMPLO DE PETICIÓN:
  * GET http://localhost:3000/api/auth/me
@@ -226,36 +611,10 @@ router.post('/login', async (req, res) => {
  *   }
  * }
  */
-router.get('/me', async (req, res) => {
+router.get('/me', verificarAutenticacion, async (req, res) => {
   try {
-    // Paso 1: Extraemos el token del header Authorization
-    // El formato es: "Bearer <token>"
-    const authHeader = req.headers.authorization;
-
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        mensaje: 'No se proporcionó token de autenticación'
-      });
-    }
-
-    // Quitamos "Bearer " para obtener solo el token
-    const token = authHeader.substring(7);
-
-    // Paso 2: Verificamos el token
-    // jwt.verify verifica que:
-    // - El token fue firmado con nuestra clave secreta
-    // - El token no ha expirado
-    // - El token no ha sido modificado
-    let decoded;
-    try {
-      decoded = jwt.verify(token, JWT_SECRET);
-    } catch (error) {
-      return res.status(401).json({
-        success: false,
-        mensaje: 'Token inválido o expirado'
-      });
-    }
+    // Paso 1 y 2: verificarAutenticacion ya validó el token y que la sesión siga abierta
+    const decoded = req.usuario;
 
     // Paso 3: Obtenemos los datos actualizados del usuario
     const userResult = await pool.query(
@@ -273,30 +632,15 @@ router.get('/me', async (req, res) => {
     const user = userResult.rows[0];
 
     // Paso 4: Obtenemos roles y permisos actualizados
-    const rolesResult = await pool.query(
-      `SELECT r.nombre
-       FROM roles r
-       JOIN user_roles ur ON r.id = ur.role_id
-       WHERE ur.user_id = $1`,
-      [user.id]
-    );
-
-    const permisosResult = await pool.query(
-      `SELECT DISTINCT p.nombre
-       FROM permisos p
-       JOIN role_permisos rp ON p.id = rp.permiso_id
-       JOIN user_roles ur ON rp.role_id = ur.role_id
-       WHERE ur.user_id = $1`,
-      [user.id]
-    );
+    const { roles, permisos } = await obtenerRolesYPermisos(pool, user.id);
 
     // Paso 5: Respondemos con los datos del usuario
     res.json({
       success: true,
       usuario: {
         ...user,
-        roles: rolesResult.rows.map(r => r.nombre),
-        permisos: permisosResult.rows.map(p => p.nombre)
+        roles,
+        permisos
       }
     });
 
@@ -325,20 +669,14 @@ router.get('/me', async (req, res) => {
  *   "password_actual": "admin123",
  *   "password_nueva": "nuevaPassword123"
  * }
+ * 
+ * Al cambiar la contraseña se cierran las demás sesiones del usuario (queda abierta solo esta)
  */
-router.post('/cambiar-password', async (req, res) => {
-  try {
-    // Verificamos autenticación
-    const authHeader = req.headers.authorization;
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return res.status(401).json({
-        success: false,
-        mensaje: 'No autorizado'
-      });
-    }
+router.post('/cambiar-password', verificarAutenticacion, async (req, res) => {
+  const client = await pool.connect();
 
-    const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, JWT_SECRET);
+  try {
+    const decoded = req.usuario;
 
     const { password_actual, password_nueva } = req.body;
 
@@ -386,11 +724,21 @@ router.post('/cambiar-password', async (req, res) => {
     // El número 10 es el "salt rounds" - qué tan fuerte es la encriptación
     const nuevoHash = await bcrypt.hash(password_nueva, 10);
 
-    // Actualizamos en la base de datos
-    await pool.query(
+    // Actualizamos en la base de datos y lo dejamos en la auditoría (sin las contraseñas)
+    // Las dos cosas van en una transacción: o se guardan juntas o no se guarda ninguna
+    await client.query('BEGIN');
+    await client.query(
       'UPDATE users SET password_hash = $1 WHERE id = $2',
       [nuevoHash, user.id]
     );
+    await revocarSesiones(client, user.id, { excepto: decoded.sid });
+    await registrarAuditoria(client, req, {
+      accion: 'cambiar_password',
+      entidad: 'usuario',
+      entidadId: user.id,
+      usuario: { userId: user.id, username: user.username }
+    });
+    await client.query('COMMIT');
 
     res.json({
       success: true,
@@ -398,11 +746,517 @@ router.post('/cambiar-password', async (req, res) => {
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Error al cambiar contraseña:', error);
     res.status(500).json({
       success: false,
       mensaje: 'Error al cambiar contraseña'
     });
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * ============================================================================
+ * ENDPOINT: POST /api/auth/refresh
+ * ============================================================================
+ * 
+ * Cambia un refresh token por un access token nuevo (y un refresh token nuevo).
+ * 
+ * ¿POR QUÉ ROTAMOS EL REFRESH TOKEN?
+ * Cada refresh token sirve una sola vez: al usarlo se reemplaza por otro.
+ * Si alguien copia uno viejo, ya no le sirve.
+ * 
+ * Los roles y permisos se vuelven a leer de la base, así que un cambio hecho
+ * por el admin se aplica como mucho en 15 minutos sin volver a loguearse.
+ * 
+ * EJEMPLO DE PETICIÓN:
+ * POST http://localhost:3000/api/auth/refresh
+ * Body: { "refresh_token": "9f2c..." }
+ * 
+ * EJEMPLO DE RESPUESTA:
+ * {
+ *   "success": true,
+ *   "token": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   "refresh_token": "b71e...",
+ *   "usuario": { "id": 1, "username": "admin", "roles": ["admin"], "permisos": [...] }
+ * }
+ */
+router.post('/refresh', async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { refresh_token } = req.body;
+
+    if (!refresh_token || typeof refresh_token !== 'string') {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Falta el refresh_token'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Bloqueamos la sesión: dos renovaciones simultáneas con el mismo token no pueden ganar las dos
+    const sesionResult = await client.query(
+      `SELECT s.id, u.id AS user_id, u.username, u.nombre_completo, u.email
+       FROM sesiones s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.refresh_token_hash = $1 AND s.revocada_en IS NULL AND s.expira_en > NOW() AND u.activo = true
+       FOR UPDATE OF s`,
+      [hashearToken(refresh_token)]
+    );
+
+    if (sesionResult.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(401).json({
+        success: false,
+        mensaje: 'La sesión venció o fue cerrada, volvé a iniciar sesión'
+      });
+    }
+
+    const sesion = sesionResult.rows[0];
+    const user = {
+      id: sesion.user_id,
+      username: sesion.username,
+      nombre_completo: sesion.nombre_completo,
+      email: sesion.email
+    };
+
+    // Rotamos el refresh token
+    const nuevoRefreshToken = generarRefreshToken();
+    await client.query(
+      'UPDATE sesiones SET refresh_token_hash = $1, ultimo_uso = NOW() WHERE id = $2',
+      [hashearToken(nuevoRefreshToken), sesion.id]
+    );
+
+    const rolesYPermisos = await obtenerRolesYPermisos(client, user.id);
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      token: firmarAccessToken(user, rolesYPermisos, sesion.id),
+      refresh_token: nuevoRefreshToken,
+      usuario: {
+        ...user,
+        roles: rolesYPermisos.roles,
+        permisos: rolesYPermisos.permisos
+      }
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al renovar la sesión:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al renovar la sesión'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * ============================================================================
+ * ENDPOINT: POST /api/auth/logout
+ * ============================================================================
+ * 
+ * Cierra la sesión en el servidor: el refresh token y los access tokens de
+ * esta sesión dejan de servir. No requiere un access token válido (puede
+ * haber vencido), alcanza con el refresh token.
+ * 
+ * EJEMPLO DE PETICIÓN:
+ * POST http://localhost:3000/api/auth/logout
+ * Body: { "refresh_token": "9f2c..." }
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const { refresh_token } = req.body;
+
+    // Si el token no existe o ya estaba cerrado, para el usuario es lo mismo: la sesión está cerrada
+    if (refresh_token && typeof refresh_token === 'string') {
+      await pool.query(
+        'UPDATE sesiones SET revocada_en = NOW() WHERE refresh_token_hash = $1 AND revocada_en IS NULL',
+        [hashearToken(refresh_token)]
+      );
+    }
+
+    res.json({
+      success: true,
+      mensaje: 'Sesión cerrada'
+    });
+
+  } catch (error) {
+    console.error('Error al cerrar sesión:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al cerrar la sesión'
+    });
+  }
+});
+
+/**
+ * ============================================================================
+ * ENDPOINT: POST /api/auth/cerrar-sesiones
+ * ============================================================================
+ * 
+ * Cierra TODAS las sesiones del usuario, incluida la actual (por ejemplo si
+ * se olvidó la sesión abierta en otra computadora). Queda en la auditoría.
+ * Para cerrar las sesiones de otro usuario está POST /api/usuarios/:id/cerrar-sesiones.
+ * 
+ * REQUIERE AUTENTICACIÓN: Sí
+ */
+router.post('/cerrar-sesiones', verificarAutenticacion, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const cantidad = await revocarSesiones(client, req.usuario.userId);
+    await registrarAuditoria(client, req, {
+      accion: 'cerrar_sesiones',
+      entidad: 'usuario',
+      entidadId: req.usuario.userId,
+      despues: { sesiones_cerradas: cantidad }
+    });
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: `Se cerraron ${cantidad} ${cantidad === 1 ? 'sesión' : 'sesiones'}`,
+      sesiones_cerradas: cantidad
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al cerrar las sesiones:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al cerrar las sesiones'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * ============================================================================
+ * VERIFICACIÓN EN DOS PASOS DE MI CUENTA: /api/auth/2fa
+ * ============================================================================
+ * 
+ * Desde el panel, cada usuario puede activar la verificación en dos pasos
+ * (aunque su rol no la exija), generar códigos de recuperación nuevos o
+ * desactivarla. Todas requieren autenticación.
+ * 
+ * GET  /api/auth/2fa                        → estado actual
+ * POST /api/auth/2fa/configurar             → QR para escanear (secreto pendiente)
+ * POST /api/auth/2fa/activar                → { codigo } confirma y devuelve los códigos de recuperación
+ * POST /api/auth/2fa/codigos-recuperacion   → { codigo } genera códigos nuevos (los viejos dejan de servir)
+ * POST /api/auth/2fa/desactivar             → { password, codigo } (no se puede si el rol la exige)
+ */
+
+// Usuario completo de la sesión (con el secreto TOTP), o null si ya no existe
+async function obtenerUsuarioDeSesion(db, req, { bloquear = false } = {}) {
+  const result = await db.query(
+    `SELECT * FROM users WHERE id = $1 AND activo = true${bloquear ? ' FOR UPDATE' : ''}`,
+    [req.usuario.userId]
+  );
+  return result.rows[0] || null;
+}
+
+// Antes de pedir la contraseña o el código en estas rutas se revisa el límite de intentos, igual que en el login:
+// con un access token robado no se pueden probar códigos hasta dar con uno. Toma el mismo lock que el login
+// (antes de bloquear la fila del usuario) y devuelve el resultado de verificarLimiteLogin
+async function verificarLimiteDeSesion(client, req) {
+  await bloquearIntentosDeUsuario(client, req.usuario.username);
+  const limite = await verificarLimiteLogin(client, req.usuario.username, req.ip || null);
+  if (!limite.permitido) {
+    await registrarIntentoLogin(client, {
+      username: req.usuario.username, userId: req.usuario.userId, ip: req.ip || null, exitoso: false, motivo: 'bloqueado'
+    });
+  }
+  return limite;
+}
+
+// Registra una contraseña o un código incorrecto en estas rutas y responde (el fallo se confirma, no se deshace)
+async function responderFalloDeSesion(client, req, res, user, limite, { motivo, status, mensaje }) {
+  await registrarIntentoLogin(client, { username: user.username, userId: user.id, ip: req.ip || null, exitoso: false, motivo });
+  await client.query('COMMIT');
+
+  return res.status(status).json({
+    success: false,
+    mensaje,
+    intentos_restantes: Math.max(MAX_FALLOS_USUARIO - (limite.fallosUsuario + 1), 0)
+  });
+}
+
+// 🔐 GET /api/auth/2fa - Estado de la verificación en dos pasos del usuario
+router.get('/2fa', verificarAutenticacion, async (req, res) => {
+  try {
+    const user = await obtenerUsuarioDeSesion(pool, req);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    res.json({
+      success: true,
+      activado: user.totp_activado,
+      requerido: await usuarioRequiere2fa(pool, user.id),
+      codigos_recuperacion_restantes: user.totp_activado ? await contarCodigosRecuperacion(pool, user.id) : 0
+    });
+
+  } catch (error) {
+    console.error('Error al obtener la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener la verificación en dos pasos'
+    });
+  }
+});
+
+// 📷 POST /api/auth/2fa/configurar - Generar el QR para la app autenticadora
+router.post('/2fa/configurar', verificarAutenticacion, async (req, res) => {
+  try {
+    const user = await obtenerUsuarioDeSesion(pool, req);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    if (user.totp_activado) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Ya tenés la verificación en dos pasos activada'
+      });
+    }
+
+    const configuracion = await iniciarConfiguracion2fa(pool, user);
+
+    res.json({
+      success: true,
+      ...configuracion
+    });
+
+  } catch (error) {
+    console.error('Error al configurar la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al configurar la verificación en dos pasos'
+    });
+  }
+});
+
+// ✅ POST /api/auth/2fa/activar - Confirmar con el primer código de la app
+router.post('/2fa/activar', verificarAutenticacion, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const user = await obtenerUsuarioDeSesion(client, req, { bloquear: true });
+    if (!user) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    if (user.totp_activado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Ya tenés la verificación en dos pasos activada'
+      });
+    }
+
+    if (!user.totp_secreto) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Primero hay que generar el código QR'
+      });
+    }
+
+    const codigos = await activar2fa(client, user, req.body.codigo);
+    if (!codigos) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El código no es válido. Revisá que la hora del teléfono esté bien y probá con el próximo código'
+      });
+    }
+
+    await registrarAuditoria(client, req, {
+      accion: 'activar_2fa',
+      entidad: 'usuario',
+      entidadId: user.id
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Verificación en dos pasos activada',
+      codigos_recuperacion: codigos
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al activar la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al activar la verificación en dos pasos'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🔄 POST /api/auth/2fa/codigos-recuperacion - Generar códigos de recuperación nuevos
+router.post('/2fa/codigos-recuperacion', verificarAutenticacion, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+
+    const limite = await verificarLimiteDeSesion(client, req);
+    if (!limite.permitido) {
+      await client.query('COMMIT');
+      return responderLimite(res, limite);
+    }
+
+    const user = await obtenerUsuarioDeSesion(client, req, { bloquear: true });
+    if (!user || !user.totp_activado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'No tenés la verificación en dos pasos activada'
+      });
+    }
+
+    if (!await verificarSegundoFactor(client, user, req.body.codigo)) {
+      return responderFalloDeSesion(client, req, res, user, limite, {
+        motivo: 'codigo_2fa_incorrecto',
+        status: 400,
+        mensaje: 'El código de verificación es incorrecto'
+      });
+    }
+
+    const codigos = await generarCodigosRecuperacion(client, user.id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'regenerar_codigos_2fa',
+      entidad: 'usuario',
+      entidadId: user.id
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Se generaron códigos de recuperación nuevos',
+      codigos_recuperacion: codigos
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al generar códigos de recuperación:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al generar los códigos de recuperación'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🚫 POST /api/auth/2fa/desactivar - Desactivar la verificación en dos pasos
+// Pide la contraseña y un código: con solo un token robado no se puede sacar
+router.post('/2fa/desactivar', verificarAutenticacion, async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { password, codigo } = req.body;
+
+    if (!password || !codigo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Faltan la contraseña y/o el código de verificación'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const limite = await verificarLimiteDeSesion(client, req);
+    if (!limite.permitido) {
+      await client.query('COMMIT');
+      return responderLimite(res, limite);
+    }
+
+    const user = await obtenerUsuarioDeSesion(client, req, { bloquear: true });
+    if (!user || !user.totp_activado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'No tenés la verificación en dos pasos activada'
+      });
+    }
+
+    if (await usuarioRequiere2fa(client, user.id)) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Tu rol exige verificación en dos pasos: no se puede desactivar'
+      });
+    }
+
+    if (!await bcrypt.compare(password, user.password_hash)) {
+      // 400 y no 401: apiFetch toma los 401 como token vencido, renueva la sesión y reintenta (contaría dos fallos)
+      return responderFalloDeSesion(client, req, res, user, limite, {
+        motivo: 'password_incorrecto',
+        status: 400,
+        mensaje: 'La contraseña es incorrecta'
+      });
+    }
+
+    if (!await verificarSegundoFactor(client, user, codigo)) {
+      return responderFalloDeSesion(client, req, res, user, limite, {
+        motivo: 'codigo_2fa_incorrecto',
+        status: 400,
+        mensaje: 'El código de verificación es incorrecto'
+      });
+    }
+
+    await desactivar2fa(client, user.id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'desactivar_2fa',
+      entidad: 'usuario',
+      entidadId: user.id
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Verificación en dos pasos desactivada'
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al desactivar la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al desactivar la verificación en dos pasos'
+    });
+  } finally {
+    client.release();
   }
 });
 
@@ -0,0 +1,514 @@
+// API de cajas (apertura y cierre de caja)
+// Cada vendedor abre su caja con el cambio inicial. Los pagos en efectivo que cobra quedan en su caja
+// (ver registrarPago en api/compras.js) y los reembolsos en efectivo que hace salen de ella, los retiros de efectivo se registran acá y al cerrar se cuentan
+// los billetes: el arqueo (esperado, contado y diferencia) queda guardado en la caja.
+// Cada uno opera su propia caja; con 'supervisar_cajas' se ven todas y se pueden cerrar las que quedaron abiertas.
+
+const express = require('express');
+const router = express.Router();
+const pool = require('../db/connection');
+const { verificarAutenticacion, verificarPermiso } = require('../middleware/auth');
+const { registrarAuditoria } = require('../middleware/auditoria');
+
+// Billetes y monedas que se cuentan al cerrar
+const DENOMINACIONES = [20000, 10000, 2000, 1000, 500, 200, 100, 50, 20, 10, 5, 2, 1];
+
+// Paginación del historial de cajas
+const POR_PAGINA_DEFECTO = 20;
+const POR_PAGINA_MAXIMO = 100;
+
+// Columnas de una caja que se devuelven en las respuestas (con los nombres de quien la abrió y la cerró)
+const COLUMNAS_CAJA = `c.id, c.usuario_id, ua.username AS usuario, ua.nombre_completo AS usuario_nombre_completo,
+  c.monto_inicial, c.abierta_en, c.cerrada_en, c.cerrada_por, uc.username AS cerrada_por_usuario,
+  c.cantidad_ventas, c.monto_ventas, c.monto_retiros, c.monto_reembolsos, c.monto_esperado, c.monto_contado, c.diferencia,
+  c.conteo, c.nota_cierre`;
+
+const FROM_CAJAS = `FROM cajas c
+  LEFT JOIN users ua ON ua.id = c.usuario_id
+  LEFT JOIN users uc ON uc.id = c.cerrada_por`;
+
+const puedeSupervisar = (req) => req.usuario.permisos.includes('supervisar_cajas');
+
+// Convierte a número un monto en pesos (con hasta 2 decimales), o null si no es válido
+function leerMonto(valor) {
+  const monto = typeof valor === 'number' ? valor : parseFloat(valor);
+  if (!Number.isFinite(monto) || monto < 0) return null;
+  return Math.round(monto * 100) / 100;
+}
+
+// Suma el conteo de billetes ({ "1000": 3, "500": 2 }) y lo devuelve limpio
+// Devuelve { error } si hay una denominación que no existe o una cantidad inválida
+function sumarConteo(conteo) {
+  if (!conteo || typeof conteo !== 'object' || Array.isArray(conteo)) {
+    return { error: 'El conteo debe indicar la cantidad de cada billete, por ejemplo { "1000": 3 }' };
+  }
+
+  const limpio = {};
+  let total = 0;
+  for (const [denominacion, cantidad] of Object.entries(conteo)) {
+    if (!DENOMINACIONES.includes(Number(denominacion))) {
+      return { error: `Denominación inválida: ${denominacion}` };
+    }
+    if (!Number.isInteger(cantidad) || cantidad < 0) {
+      return { error: `La cantidad de billetes de $${denominacion} debe ser un número entero` };
+    }
+    if (cantidad > 0) {
+      limpio[denominacion] = cantidad;
+      total += Number(denominacion) * cantidad;
+    }
+  }
+
+  return { conteo: limpio, total };
+}
+
+// Ventas en efectivo, retiros, reembolsos y efectivo que debería haber en una caja en este momento
+// Solo cuentan los movimientos registrados: los pagos no anulados que entraron y los reembolsos que salieron
+// (cancelar una compra cobrada registra el reembolso de lo cobrado, ver reembolsarAlCancelar en api/compras.js)
+async function calcularTotalesCaja(db, cajaId) {
+  const result = await db.query(
+    `SELECT c.monto_inicial, v.cantidad_ventas, v.monto_ventas,
+            (SELECT COALESCE(SUM(r.monto), 0) FROM cajas_retiros r WHERE r.caja_id = c.id) AS monto_retiros,
+            (SELECT COALESCE(SUM(re.monto), 0) FROM reembolsos re WHERE re.caja_id = c.id) AS monto_reembolsos
+     FROM cajas c
+     CROSS JOIN (
+       SELECT COUNT(*)::int AS cantidad_ventas, COALESCE(SUM(pg.monto), 0) AS monto_ventas
+       FROM pagos pg
+       WHERE pg.caja_id = $1 AND pg.anulado_en IS NULL
+     ) v
+     WHERE c.id = $1`,
+    [cajaId]
+  );
+
+  const fila = result.rows[0];
+  const montoInicial = parseFloat(fila.monto_inicial);
+  const montoVentas = parseFloat(fila.monto_ventas);
+  const montoRetiros = parseFloat(fila.monto_retiros);
+  const montoReembolsos = parseFloat(fila.monto_reembolsos);
+
+  return {
+    cantidad_ventas: fila.cantidad_ventas,
+    monto_ventas: montoVentas,
+    monto_retiros: montoRetiros,
+    monto_reembolsos: montoReembolsos,
+    monto_esperado: Math.round((montoInicial + montoVentas - montoRetiros - montoReembolsos) * 100) / 100
+  };
+}
+
+// Una caja con sus retiros, sus ventas en efectivo y, si sigue abierta, los totales hasta ahora
+async function obtenerCajaConDetalle(db, cajaId) {
+  const caja = await db.query(`SELECT ${COLUMNAS_CAJA} ${FROM_CAJAS} WHERE c.id = $1`, [cajaId]);
+  if (caja.rows.length === 0) return null;
+
+  const retiros = await db.query(
+    `SELECT r.id, r.monto, r.motivo, r.fecha, u.username AS usuario
+     FROM cajas_retiros r
+     LEFT JOIN users u ON u.id = r.usuario_id
+     WHERE r.caja_id = $1
+     ORDER BY r.fecha, r.id`,
+    [cajaId]
+  );
+
+  // Cada pago en efectivo que entró en la caja (una compra pagada en partes solo aporta su parte en efectivo)
+  const ventas = await db.query(
+    `SELECT pg.id, pg.compra_id, co.comprador_nombre, co.comprador_mesa, pg.monto, co.estado, pg.fecha, pg.anulado_en
+     FROM pagos pg
+     JOIN compras co ON co.id = pg.compra_id
+     WHERE pg.caja_id = $1
+     ORDER BY pg.fecha, pg.id`,
+    [cajaId]
+  );
+
+  // Reembolsos en efectivo que salieron de la caja
+  const reembolsos = await db.query(
+    `SELECT re.id, re.compra_id, co.comprador_nombre, re.monto, re.motivo, co.estado, re.fecha
+     FROM reembolsos re
+     JOIN compras co ON co.id = re.compra_id
+     WHERE re.caja_id = $1
+     ORDER BY re.fecha, re.id`,
+    [cajaId]
+  );
+
+  const resultado = { ...caja.rows[0], retiros: retiros.rows, ventas: ventas.rows, reembolsos: reembolsos.rows };
+
+  if (!resultado.cerrada_en) {
+    Object.assign(resultado, await calcularTotalesCaja(db, cajaId));
+  }
+
+  return resultado;
+}
+
+// 💵 GET /api/cajas/actual - Caja abierta del usuario logueado (null si no tiene)
+router.get('/actual', verificarAutenticacion, verificarPermiso('operar_caja'), async (req, res) => {
+  try {
+    const abierta = await pool.query(
+      'SELECT id FROM cajas WHERE usuario_id = $1 AND cerrada_en IS NULL',
+      [req.usuario.userId]
+    );
+
+    res.json({
+      success: true,
+      caja: abierta.rows.length > 0 ? await obtenerCajaConDetalle(pool, abierta.rows[0].id) : null,
+      denominaciones: DENOMINACIONES
+    });
+
+  } catch (error) {
+    console.error('Error al obtener la caja actual:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener la caja'
+    });
+  }
+});
+
+// 🔓 POST /api/cajas - Abrir una caja
+// Body: { monto_inicial: 5000 }
+router.post('/', verificarAutenticacion, verificarPermiso('operar_caja'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const montoInicial = leerMonto(req.body.monto_inicial);
+    if (montoInicial === null) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El monto inicial debe ser un número mayor o igual a 0'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const abierta = await client.query(
+      'SELECT id FROM cajas WHERE usuario_id = $1 AND cerrada_en IS NULL',
+      [req.usuario.userId]
+    );
+
+    if (abierta.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Ya tenés una caja abierta. Cerrala antes de abrir otra'
+      });
+    }
+
+    const result = await client.query(
+      'INSERT INTO cajas (usuario_id, monto_inicial) VALUES ($1, $2) RETURNING id',
+      [req.usuario.userId, montoInicial]
+    );
+
+    const caja = await obtenerCajaConDetalle(client, result.rows[0].id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'abrir',
+      entidad: 'caja',
+      entidadId: caja.id,
+      despues: caja
+    });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      mensaje: 'Caja abierta',
+      caja
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    // Dos aperturas simultáneas del mismo usuario: la segunda choca con idx_cajas_abierta_usuario
+    if (error.code === '23505') {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Ya tenés una caja abierta. Cerrala antes de abrir otra'
+      });
+    }
+    console.error('Error al abrir la caja:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al abrir la caja'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 📋 GET /api/cajas - Historial de cajas (paginado, de la más nueva a la más vieja)
+// Cada uno ve las suyas; con 'supervisar_cajas' se ven las de todos
+// Query params: pagina, por_pagina, usuario_id, estado ('abierta' | 'cerrada')
+router.get('/', verificarAutenticacion, verificarPermiso('operar_caja'), async (req, res) => {
+  try {
+    const pagina = Math.max(parseInt(req.query.pagina) || 1, 1);
+    const porPagina = Math.min(Math.max(parseInt(req.query.por_pagina) || POR_PAGINA_DEFECTO, 1), POR_PAGINA_MAXIMO);
+    const { usuario_id, estado } = req.query;
+
+    const condiciones = [];
+    const filtrosParams = [];
+
+    if (!puedeSupervisar(req)) {
+      filtrosParams.push(req.usuario.userId);
+      condiciones.push(`c.usuario_id = $${filtrosParams.length}`);
+    } else if (usuario_id) {
+      const usuarioId = parseInt(usuario_id);
+      if (isNaN(usuarioId)) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'usuario_id debe ser un número'
+        });
+      }
+      filtrosParams.push(usuarioId);
+      condiciones.push(`c.usuario_id = $${filtrosParams.length}`);
+    }
+
+    if (estado) {
+      if (!['abierta', 'cerrada'].includes(estado)) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'El estado debe ser "abierta" o "cerrada"'
+        });
+      }
+      condiciones.push(estado === 'abierta' ? 'c.cerrada_en IS NULL' : 'c.cerrada_en IS NOT NULL');
+    }
+
+    const where = condiciones.length > 0 ? `WHERE ${condiciones.join(' AND ')}` : '';
+
+    const cantidad = await pool.query(`SELECT COUNT(*) FROM cajas c ${where}`, filtrosParams);
+
+    const params = [...filtrosParams, porPagina, (pagina - 1) * porPagina];
+    const result = await pool.query(
+      `SELECT ${COLUMNAS_CAJA}
+       ${FROM_CAJAS}
+       ${where}
+       ORDER BY c.abierta_en DESC, c.id DESC
+       LIMIT $${params.length - 1} OFFSET $${params.length}`,
+      params
+    );
+
+    const total = parseInt(cantidad.rows[0].count);
+
+    res.json({
+      success: true,
+      cajas: result.rows,
+      paginacion: {
+        pagina,
+        por_pagina: porPagina,
+        total,
+        total_paginas: Math.max(Math.ceil(total / porPagina), 1)
+      }
+    });
+
+  } catch (error) {
+    console.error('Error al obtener las cajas:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener las cajas'
+    });
+  }
+});
+
+// 🔍 GET /api/cajas/:id - Arqueo de una caja: retiros, ventas en efectivo y totales
+router.get('/:id', verificarAutenticacion, verificarPermiso('operar_caja'), async (req, res) => {
+  try {
+    const caja = await obtenerCajaConDetalle(pool, req.params.id);
+
+    if (!caja || (caja.usuario_id !== req.usuario.userId && !puedeSupervisar(req))) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Caja no encontrada'
+      });
+    }
+
+    res.json({
+      success: true,
+      caja
+    });
+
+  } catch (error) {
+    console.error('Error al obtener la caja:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener la caja'
+    });
+  }
+});
+
+// 💸 POST /api/cajas/:id/retiros - Registrar un retiro de efectivo (por ejemplo, para llevar billetes grandes a la tesorería)
+// Solo en la caja propia y abierta
+// Body: { monto: 20000, motivo: 'Entrega a tesorería' }
+router.post('/:id/retiros', verificarAutenticacion, verificarPermiso('operar_caja'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const monto = leerMonto(req.body.monto);
+    const motivo = typeof req.body.motivo === 'string' ? req.body.motivo.trim() : '';
+
+    if (!monto) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El monto del retiro debe ser mayor a 0'
+      });
+    }
+
+    if (!motivo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Es obligatorio indicar el motivo del retiro'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Bloqueamos la caja para que no se cierre mientras registramos el retiro
+    const actual = await client.query(
+      'SELECT id, usuario_id, cerrada_en FROM cajas WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0 || actual.rows[0].usuario_id !== req.usuario.userId) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Caja no encontrada'
+      });
+    }
+
+    if (actual.rows[0].cerrada_en) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La caja ya está cerrada'
+      });
+    }
+
+    const totales = await calcularTotalesCaja(client, id);
+    if (monto > totales.monto_esperado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `No hay tanto efectivo en la caja (debería haber $${totales.monto_esperado})`
+      });
+    }
+
+    const retiro = await client.query(
+      `INSERT INTO cajas_retiros (caja_id, monto, motivo, usuario_id)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, caja_id, monto, motivo, fecha`,
+      [id, monto, motivo, req.usuario.userId]
+    );
+
+    await registrarAuditoria(client, req, {
+      accion: 'registrar_retiro',
+      entidad: 'caja',
+      entidadId: parseInt(id),
+      despues: retiro.rows[0]
+    });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      mensaje: 'Retiro registrado',
+      caja: await obtenerCajaConDetalle(pool, id)
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al registrar el retiro:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al registrar el retiro'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🔒 POST /api/cajas/:id/cerrar - Cerrar una caja contando el efectivo
+// Calcula el esperado (inicial + ventas en efectivo - retiros), lo compara con lo contado y guarda el arqueo
+// La caja propia, o cualquiera con 'supervisar_cajas' (por ejemplo, una que quedó abierta al final del turno)
+// Body: { conteo: { "1000": 12, "500": 7 }, nota: 'opcional' }
+router.post('/:id/cerrar', verificarAutenticacion, verificarPermiso('operar_caja'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const nota = typeof req.body.nota === 'string' ? req.body.nota.trim() : '';
+
+    const contado = sumarConteo(req.body.conteo);
+    if (contado.error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: contado.error
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Bloqueamos la caja: los cobros en efectivo que llegan mientras tanto esperan y ya no entran en ella
+    const actual = await client.query(
+      'SELECT id, usuario_id, cerrada_en FROM cajas WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0 || (actual.rows[0].usuario_id !== req.usuario.userId && !puedeSupervisar(req))) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Caja no encontrada'
+      });
+    }
+
+    if (actual.rows[0].cerrada_en) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La caja ya está cerrada'
+      });
+    }
+
+    const cajaAntes = await obtenerCajaConDetalle(client, id);
+    const totales = await calcularTotalesCaja(client, id);
+    const diferencia = Math.round((contado.total - totales.monto_esperado) * 100) / 100;
+
+    await client.query(
+      `UPDATE cajas
+       SET cerrada_en = NOW(), cerrada_por = $1, cantidad_ventas = $2, monto_ventas = $3, monto_retiros = $4,
+           monto_reembolsos = $5, monto_esperado = $6, monto_contado = $7, diferencia = $8, conteo = $9, nota_cierre = $10
+       WHERE id = $11`,
+      [
+        req.usuario.userId, totales.cantidad_ventas, totales.monto_ventas, totales.monto_retiros, totales.monto_reembolsos,
+        totales.monto_esperado, contado.total, diferencia, JSON.stringify(contado.conteo), nota || null, id
+      ]
+    );
+
+    const caja = await obtenerCajaConDetalle(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'cerrar',
+      entidad: 'caja',
+      entidadId: parseInt(id),
+      antes: cajaAntes,
+      despues: caja
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: diferencia === 0
+        ? 'Caja cerrada: el efectivo coincide'
+        : `Caja cerrada con una diferencia de $${diferencia}`,
+      caja
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al cerrar la caja:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al cerrar la caja'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
@@ -1,20 +1,23 @@
 // API de compras
-// Acá se registran las compras, se valida el stock y se guarda el comprobante como Base64
+// Acá se registran las compras, se valida el stock y se guarda el comprobante (ver storage/)
 
 const express = require('express');
 const router = express.Router();
 const pool = require('../db/connection');
 const multer = require('multer');
-const { verificarAutenticacion, verificarPermiso } = require('../middleware/auth');
+const crypto = require('crypto');
+const { verificarAutenticacion, verificarPermiso, sesionVigente } = require('../middleware/auth');
+const { registrarAuditoria } = require('../middleware/auditoria');
+const { guardarComprobante, obtenerComprobante, eliminarComprobante, decodificarDataUrl } = require('../storage');
 
 // Configuración de multer para mantener archivo en MEMORIA (no en disco)
-// Esto es necesario porque Vercel serverless no permite escribir en disco
+// El archivo después se guarda con el driver de comprobantes configurado (storage/)
 const storage = multer.memoryStorage();
 
 const upload = multer({
   storage: storage,
   limits: { 
-    fileSize: 3 * 1024 * 1024 // Máximo 3MB (más seguro para Base64 en PostgreSQL)
+    fileSize: 3 * 1024 * 1024 // Máximo 3MB
   },
   fileFilter: (req, file, cb) => {
     const tiposPermitidos = /jpeg|jpg|png|webp/;
@@ -28,10 +31,718 @@ const upload = multer({
   }
 });
 
+// Máquina de estados de una compra
+// Para cada estado, a qué estados se puede pasar (se permite volver un paso atrás para corregir errores)
+const TRANSICIONES_ESTADO = {
+  pendiente: ['pagado', 'cancelado'],
+  pagado: ['preparando', 'listo', 'pendiente', 'cancelado'],
+  preparando: ['listo', 'pagado', 'cancelado'],
+  listo: ['entregado', 'preparando', 'cancelado'],
+  entregado: ['listo'],
+  cancelado: []
+};
+
+// Orden "hacia adelante" de los estados (cancelado queda afuera)
+const ORDEN_ESTADOS = ['pendiente', 'pagado', 'preparando', 'listo', 'entregado'];
+
+// Estados de la verificación del comprobante de una transferencia
+// (las compras en efectivo tienen verificacion_estado = NULL)
+const ESTADOS_VERIFICACION = ['pendiente', 'aprobado', 'rechazado'];
+
+// Los booleanos viejos (abonado/listo/entregado) se derivan del estado
+// Los seguimos guardando para que el export a Google Sheets y los scripts viejos sigan funcionando
+function banderasDeEstado(estado) {
+  const posicion = ORDEN_ESTADOS.indexOf(estado);
+  return {
+    abonado: posicion >= ORDEN_ESTADOS.indexOf('pagado'),
+    listo: posicion >= ORDEN_ESTADOS.indexOf('listo'),
+    entregado: posicion >= ORDEN_ESTADOS.indexOf('entregado')
+  };
+}
+
+// Registra una transición en compras_estado_historial (usuarioId es null cuando la hace el comprador)
+async function registrarHistorialEstado(client, compraId, estadoAnterior, estadoNuevo, usuarioId, nota) {
+  await client.query(
+    `INSERT INTO compras_estado_historial (compra_id, estado_anterior, estado_nuevo, usuario_id, nota)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [compraId, estadoAnterior, estadoNuevo, usuarioId || null, nota || null]
+  );
+}
+
+// Columnas de una compra que se devuelven en las respuestas
+// El comprobante no viaja en los listados: solo se indica si existe y se descarga con GET /:id/comprobante
+const COLUMNAS_COMPRA = `id, comprador_nombre, comprador_telefono, comprador_mesa, metodo_pago, total, fecha,
+  estado, abonado, listo, entregado, detalles_pedido, token_seguimiento, motivo_cancelacion, cancelado_en,
+  verificacion_estado, verificado_por, verificado_en, motivo_rechazo,
+  abonado_por, abonado_en, listo_por, listo_en, entregado_por, entregado_en, creado_por, monto_recibido,
+  monto_pagado, (total - monto_pagado) AS saldo, monto_reembolsado, (total - monto_reembolsado) AS total_neto,
+  cupon_id, descuento, (total + descuento) AS subtotal,
+  (SELECT cu.codigo FROM cupones cu WHERE cu.id = cupon_id) AS cupon_codigo,
+  (SELECT ua.username FROM users ua WHERE ua.id = abonado_por) AS abonado_por_usuario,
+  (SELECT ul.username FROM users ul WHERE ul.id = listo_por) AS listo_por_usuario,
+  (SELECT ue.username FROM users ue WHERE ue.id = entregado_por) AS entregado_por_usuario,
+  (comprobante_archivo IS NOT NULL OR comprobante_clave IS NOT NULL) AS tiene_comprobante,
+  (comprobante_miniatura_clave IS NOT NULL) AS tiene_miniatura`;
+
+// Pasa una compra a otro estado (no cancelado) actualizando los booleanos viejos y quién hizo cada paso:
+// al marcarse abonado/listo/entregado se guarda el usuario y la hora, y al volver atrás se borran
+// No toca los pagos: quien la pasa a 'pagado' verifica antes que estén cubiertos (ver PAGOS más abajo)
+// Se usa dentro de una transacción, con el client que la abrió
+async function actualizarEstadoCompra(client, compraId, estado, usuarioId) {
+  const banderas = banderasDeEstado(estado);
+
+  const result = await client.query(
+    `UPDATE compras
+     SET estado = $1, abonado = $2, listo = $3, entregado = $4,
+         abonado_por = CASE WHEN NOT $2::boolean THEN NULL WHEN abonado THEN abonado_por ELSE $5 END,
+         abonado_en = CASE WHEN NOT $2::boolean THEN NULL WHEN abonado THEN abonado_en ELSE NOW() END,
+         listo_por = CASE WHEN NOT $3::boolean THEN NULL WHEN listo THEN listo_por ELSE $5 END,
+         listo_en = CASE WHEN NOT $3::boolean THEN NULL WHEN listo THEN listo_en ELSE NOW() END,
+         entregado_por = CASE WHEN NOT $4::boolean THEN NULL WHEN entregado THEN entregado_por ELSE $5 END,
+         entregado_en = CASE WHEN NOT $4::boolean THEN NULL WHEN entregado THEN entregado_en ELSE NOW() END
+     WHERE id = $6
+     RETURNING ${COLUMNAS_COMPRA}`,
+    [estado, banderas.abonado, banderas.listo, banderas.entregado, usuarioId, compraId]
+  );
+
+  return result.rows[0];
+}
+
+// Envía un archivo (comprobante o miniatura) con headers de caché
+// Los comprobantes no cambian nunca, así que el navegador los puede guardar
+function enviarArchivo(req, res, contenido, tipo, etag) {
+  res.set({
+    'Content-Type': tipo,
+    'Content-Length': contenido.length,
+    'Cache-Control': 'private, max-age=86400',
+    'ETag': etag
+  });
+
+  if (req.headers['if-none-match'] === etag) {
+    return res.status(304).end();
+  }
+
+  res.send(contenido);
+}
+
+// Devuelve a productos.stock las cantidades de una compra (al cancelarla o eliminarla)
+// Las unidades que ya se repusieron con un reembolso no se vuelven a sumar, y los combos devuelven
+// los componentes con los que se vendieron (ver COMBOS más abajo)
+// Se usa dentro de una transacción, con el client que la abrió
+async function devolverStock(client, compraId) {
+  await client.query(
+    `UPDATE productos p
+     SET stock = p.stock + d.cantidad
+     FROM (
+       SELECT COALESCE(dcc.producto_id, m.producto_id) AS producto_id,
+              SUM(m.cantidad * COALESCE(dcc.cantidad, 1)) AS cantidad
+       FROM (
+         SELECT producto_id, cantidad FROM detalle_compra WHERE compra_id = $1
+         UNION ALL
+         SELECT rd.producto_id, -rd.cantidad
+         FROM reembolsos_detalle rd
+         JOIN reembolsos r ON r.id = rd.reembolso_id
+         WHERE r.compra_id = $1
+       ) m
+       LEFT JOIN detalle_compra_componentes dcc ON dcc.compra_id = $1 AND dcc.combo_id = m.producto_id
+       GROUP BY COALESCE(dcc.producto_id, m.producto_id)
+     ) d
+     WHERE p.id = d.producto_id AND d.cantidad > 0`,
+    [compraId]
+  );
+}
+
+// ========== IDEMPOTENCIA DE POST /api/compras ==========
+// El comprador manda un header Idempotency-Key único por intento de compra.
+// Si la conexión se corta y vuelve a tocar "Enviar", el reintento con la misma clave
+// devuelve la respuesta original en lugar de crear otra compra (y descontar stock dos veces).
+// Solo se guardan las compras creadas: si la primera petición falló, el reintento se procesa de nuevo.
+// Cada clave vale dentro de su ámbito: la ruta (checkout público o mostrador) y, en el mostrador, el vendedor.
+// Así una clave repetida en otra ruta o por otro usuario nunca devuelve la compra de otra persona.
+
+// Cuánto tiempo se recuerda una clave
+const HORAS_VIGENCIA_IDEMPOTENCIA = 24;
+
+// Ámbitos de las claves: { ruta, usuarioId } (usuarioId es null en el checkout público)
+const ambitoCheckout = () => ({ ruta: 'publica', usuarioId: null });
+const ambitoMostrador = (req) => ({ ruta: 'mostrador', usuarioId: req.usuario.userId });
+
+// Busca la respuesta guardada para una clave (null si no existe o todavía no terminó)
+async function obtenerRespuestaIdempotente(db, ambito, clave) {
+  const result = await db.query(
+    `SELECT estado_http, respuesta FROM compras_idempotencia
+     WHERE ruta = $1 AND usuario_id IS NOT DISTINCT FROM $2 AND clave = $3 AND respuesta IS NOT NULL
+       AND creado_en > NOW() - make_interval(hours => $4)`,
+    [ambito.ruta, ambito.usuarioId, clave, HORAS_VIGENCIA_IDEMPOTENCIA]
+  );
+  return result.rows[0] || null;
+}
+
+// Repite la respuesta original avisando que es una repetición
+function repetirRespuesta(res, guardada) {
+  res.set('Idempotent-Replayed', 'true');
+  res.status(guardada.estado_http).json(guardada.respuesta);
+}
+
+// Reserva la clave dentro de la transacción: si llega otra petición con la misma clave
+// mientras esta se procesa, queda esperando acá y después repite nuestra respuesta
+// Devuelve false si la clave ya estaba usada (el que llama hace el ROLLBACK y responde con responderClaveEnUso)
+async function reservarClaveIdempotencia(client, ambito, clave) {
+  try {
+    // Una clave vencida se puede volver a usar
+    await client.query(
+      `DELETE FROM compras_idempotencia
+       WHERE ruta = $1 AND usuario_id IS NOT DISTINCT FROM $2 AND clave = $3
+         AND creado_en <= NOW() - make_interval(hours => $4)`,
+      [ambito.ruta, ambito.usuarioId, clave, HORAS_VIGENCIA_IDEMPOTENCIA]
+    );
+    await client.query(
+      'INSERT INTO compras_idempotencia (ruta, usuario_id, clave) VALUES ($1, $2, $3)',
+      [ambito.ruta, ambito.usuarioId, clave]
+    );
+    return true;
+  } catch (error) {
+    if (error.code !== '23505') throw error; // 23505 = clave duplicada
+    return false;
+  }
+}
+
+// Responde a una clave ya usada: con la respuesta original, o 409 si la primera petición todavía no terminó
+async function responderClaveEnUso(res, ambito, clave) {
+  const guardada = await obtenerRespuestaIdempotente(pool, ambito, clave);
+  if (guardada) {
+    return repetirRespuesta(res, guardada);
+  }
+  return res.status(409).json({
+    success: false,
+    mensaje: 'Esta compra ya se está procesando. Esperá unos segundos antes de reintentar.'
+  });
+}
+
+// Guarda la respuesta de una compra creada para repetirla si llega un reintento con la misma clave
+async function guardarRespuestaIdempotente(client, ambito, clave, compraId, respuesta) {
+  await client.query(
+    `UPDATE compras_idempotencia
+     SET compra_id = $1, estado_http = 201, respuesta = $2
+     WHERE ruta = $3 AND usuario_id IS NOT DISTINCT FROM $4 AND clave = $5`,
+    [compraId, JSON.stringify(respuesta), ambito.ruta, ambito.usuarioId, clave]
+  );
+}
+
+// Nombre que queda en las ventas de mostrador si el vendedor no anota uno
+const NOMBRE_COMPRADOR_MOSTRADOR = 'Mostrador';
+
+// ========== COMBOS ==========
+// Un combo (productos.es_combo) no tiene stock propio: al venderlo se descuentan sus componentes (combos_componentes).
+// Cada compra guarda la receta con la que se vendió cada combo (detalle_compra_componentes), así al cancelarla,
+// editarla o reembolsarla se repone lo mismo que se descontó aunque el combo haya cambiado después.
+
+// Receta actual de los combos de la lista: Map combo_id → [{ producto_id, cantidad }] (los demás productos no aparecen)
+async function obtenerRecetasCombos(db, idsProductos) {
+  const result = await db.query(
+    `SELECT cc.combo_id, cc.producto_id, cc.cantidad
+     FROM combos_componentes cc
+     JOIN productos p ON p.id = cc.combo_id
+     WHERE cc.combo_id = ANY($1::int[]) AND p.es_combo
+     ORDER BY cc.combo_id, cc.producto_id`,
+    [idsProductos]
+  );
+  return agruparRecetas(result.rows);
+}
+
+// Receta con la que se vendió cada combo de una compra
+async function obtenerRecetasCompra(db, compraId) {
+  const result = await db.query(
+    `SELECT combo_id, producto_id, cantidad FROM detalle_compra_componentes
+     WHERE compra_id = $1
+     ORDER BY combo_id, producto_id`,
+    [compraId]
+  );
+  return agruparRecetas(result.rows);
+}
+
+function agruparRecetas(filas) {
+  const recetas = new Map();
+  for (const fila of filas) {
+    if (!recetas.has(fila.combo_id)) recetas.set(fila.combo_id, []);
+    recetas.get(fila.combo_id).push({ producto_id: fila.producto_id, cantidad: fila.cantidad });
+  }
+  return recetas;
+}
+
+// Pasa cantidades por producto vendido a unidades de stock: cada combo se reemplaza por sus componentes
+// Devuelve un Map producto_id → unidades que se descuentan del stock
+function unidadesDeStock(cantidadesPorProducto, recetas) {
+  const unidades = new Map();
+  for (const [productoId, cantidad] of cantidadesPorProducto) {
+    const componentes = recetas.get(productoId) || [{ producto_id: productoId, cantidad: 1 }];
+    for (const componente of componentes) {
+      unidades.set(componente.producto_id, (unidades.get(componente.producto_id) || 0) + cantidad * componente.cantidad);
+    }
+  }
+  return unidades;
+}
+
+// Guarda con qué receta se vendió cada combo de la compra (solo los combos que quedan en cantidadesPorProducto)
+async function guardarRecetasCompra(client, compraId, recetas, cantidadesPorProducto) {
+  for (const [comboId, componentes] of recetas) {
+    if (!cantidadesPorProducto.has(comboId)) continue;
+
+    for (const componente of componentes) {
+      await client.query(
+        `INSERT INTO detalle_compra_componentes (compra_id, combo_id, producto_id, cantidad)
+         VALUES ($1, $2, $3, $4)`,
+        [compraId, comboId, componente.producto_id, componente.cantidad]
+      );
+    }
+  }
+}
+
+// ========== PRODUCTOS DE UNA COMPRA NUEVA ==========
+// Pasos compartidos por la compra pública (POST /) y la venta en mostrador (POST /mostrador)
+
+// Unifica las cantidades por producto (por si el mismo producto viene repetido)
+// Devuelve un Map producto_id → cantidad, o null si algún ítem es inválido
+function agruparProductos(productosArray) {
+  const cantidadesPorProducto = new Map();
+  for (const item of productosArray) {
+    const productoId = parseInt(item?.producto_id);
+    const cantidad = Number(item?.cantidad);
+
+    if (!Number.isInteger(productoId) || !Number.isInteger(cantidad) || cantidad < 1) {
+      return null;
+    }
+
+    cantidadesPorProducto.set(productoId, (cantidadesPorProducto.get(productoId) || 0) + cantidad);
+  }
+  return cantidadesPorProducto;
+}
+
+// Busca todos los productos de una sola vez (con los componentes de los combos) y los bloquea hasta el COMMIT:
+// otra compra que quiera las mismas unidades espera acá y después ve el stock ya descontado
+// (siempre en el mismo orden para evitar deadlocks). Después valida el stock y calcula el total
+// con los precios bloqueados.
+// Devuelve { idsProductos, productosPorId, total, recetas, unidades } o { status, error }
+async function reservarProductos(client, cantidadesPorProducto) {
+  const idsProductos = [...cantidadesPorProducto.keys()].sort((a, b) => a - b);
+  const recetas = await obtenerRecetasCombos(client, idsProductos);
+  const unidades = unidadesDeStock(cantidadesPorProducto, recetas);
+
+  const idsABloquear = [...new Set([...idsProductos, ...unidades.keys()])].sort((a, b) => a - b);
+  const productosDb = await client.query(
+    `SELECT id, nombre, categoria, precio, stock, activo, es_combo FROM productos
+     WHERE id = ANY($1::int[])
+     ORDER BY id
+     FOR UPDATE`,
+    [idsABloquear]
+  );
+  const productosPorId = new Map(productosDb.rows.map(p => [p.id, p]));
+
+  let total = 0;
+  for (const productoId of idsProductos) {
+    const producto = productosPorId.get(productoId);
+    const cantidad = cantidadesPorProducto.get(productoId);
+
+    if (!producto || !producto.activo) {
+      return { status: 404, error: `El producto con ID ${productoId} no existe o no está disponible` };
+    }
+
+    if (producto.es_combo && !recetas.has(productoId)) {
+      return { status: 400, error: `El combo ${producto.nombre} no tiene productos cargados` };
+    }
+
+    total += producto.precio * cantidad;
+  }
+
+  // El stock se valida sobre lo que realmente se descuenta (los componentes en el caso de los combos)
+  for (const [productoId, cantidad] of unidades) {
+    const producto = productosPorId.get(productoId);
+
+    if (!producto.activo) {
+      return { status: 400, error: `${producto.nombre} no está disponible en este momento` };
+    }
+
+    if (producto.stock < cantidad) {
+      return { status: 400, error: `No hay suficiente stock de ${producto.nombre}. Stock disponible: ${producto.stock}` };
+    }
+  }
+
+  return { idsProductos, productosPorId, total, recetas, unidades };
+}
+
+// Registra el detalle de la compra (con la receta de los combos) y descuenta el stock
+// de los productos que bloqueó reservarProductos
+async function registrarDetalleCompra(client, compraId, reserva, cantidadesPorProducto) {
+  for (const productoId of reserva.idsProductos) {
+    const producto = reserva.productosPorId.get(productoId);
+    const cantidad = cantidadesPorProducto.get(productoId);
+    const subtotal = producto.precio * cantidad;
+
+    await client.query(
+      `INSERT INTO detalle_compra (compra_id, producto_id, cantidad, precio_unitario, subtotal)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [compraId, productoId, cantidad, producto.precio, subtotal]
+    );
+  }
+
+  await guardarRecetasCompra(client, compraId, reserva.recetas, cantidadesPorProducto);
+
+  // Las filas están bloqueadas desde reservarProductos y la base rechaza un stock negativo
+  for (const productoId of [...reserva.unidades.keys()].sort((a, b) => a - b)) {
+    await client.query(
+      'UPDATE productos SET stock = stock - $1 WHERE id = $2',
+      [reserva.unidades.get(productoId), productoId]
+    );
+  }
+}
+
+// ========== PAGOS ==========
+// Una compra puede tener varios pagos (por ejemplo, una parte en efectivo y el resto por transferencia)
+// y se da por pagada recién cuando cubren el total. compras.monto_pagado y compras.metodo_pago
+// resumen los pagos vigentes y se recalculan cada vez que se registra o se anula uno.
+
+const METODOS_PAGO = ['efectivo', 'transferencia'];
+
+// Columnas de un pago que se devuelven en las respuestas (el comprobante se descarga aparte)
+const COLUMNAS_PAGO = `pg.id, pg.compra_id, pg.metodo, pg.monto, pg.fecha, pg.caja_id, pg.anulado_en,
+  pg.usuario_id, (SELECT u.username FROM users u WHERE u.id = pg.usuario_id) AS usuario,
+  (SELECT ua.username FROM users ua WHERE ua.id = pg.anulado_por) AS anulado_por_usuario,
+  (pg.comprobante_clave IS NOT NULL) AS tiene_comprobante`;
+
+// Redondea a centavos (los montos llegan de la base como texto y se suman en JS)
+function redondearMonto(monto) {
+  return Math.round(monto * 100) / 100;
+}
+
+// Recalcula compras.monto_pagado y compras.metodo_pago a partir de los pagos vigentes
+// (sin pagos, la compra conserva el método que eligió el comprador)
+async function actualizarResumenPagos(client, compraId) {
+  await client.query(
+    `UPDATE compras c
+     SET monto_pagado = p.pagado,
+         metodo_pago = COALESCE(p.metodo, c.metodo_pago)
+     FROM (
+       SELECT COALESCE(SUM(monto), 0) AS pagado,
+              CASE WHEN COUNT(DISTINCT metodo) > 1 THEN 'mixto' ELSE MIN(metodo) END AS metodo
+       FROM pagos
+       WHERE compra_id = $1 AND anulado_en IS NULL
+     ) p
+     WHERE c.id = $1`,
+    [compraId]
+  );
+}
+
+// Registra un pago y actualiza el resumen de la compra
+// El efectivo entra en la caja abierta de quien lo cobra (ver api/cajas.js); el FOR SHARE espera
+// a que termine un cierre de esa caja que esté en curso
+// Se usa dentro de una transacción, con el client que la abrió
+async function registrarPago(client, compraId, { metodo, monto, usuarioId, comprobante }) {
+  let cajaId = null;
+  if (metodo === 'efectivo' && usuarioId) {
+    const caja = await client.query(
+      'SELECT id FROM cajas WHERE usuario_id = $1 AND cerrada_en IS NULL FOR SHARE',
+      [usuarioId]
+    );
+    cajaId = caja.rows[0]?.id || null;
+  }
+
+  const result = await client.query(
+    `INSERT INTO pagos (compra_id, metodo, monto, usuario_id, caja_id,
+                        comprobante_driver, comprobante_clave, comprobante_tipo, comprobante_miniatura_clave)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+     RETURNING id`,
+    [
+      compraId, metodo, monto, usuarioId || null, cajaId,
+      comprobante?.comprobante_driver || null,
+      comprobante?.comprobante_clave || null,
+      comprobante?.comprobante_tipo || null,
+      comprobante?.comprobante_miniatura_clave || null
+    ]
+  );
+
+  await actualizarResumenPagos(client, compraId);
+
+  const pago = await client.query(`SELECT ${COLUMNAS_PAGO} FROM pagos pg WHERE pg.id = $1`, [result.rows[0].id]);
+  return pago.rows[0];
+}
+
+// Anula los pagos vigentes de una compra (cuando vuelve a 'pendiente': la plata no se cobró o se devolvió)
+async function anularPagos(client, compraId, usuarioId) {
+  await client.query(
+    `UPDATE pagos SET anulado_en = NOW(), anulado_por = $2
+     WHERE compra_id = $1 AND anulado_en IS NULL`,
+    [compraId, usuarioId]
+  );
+  await actualizarResumenPagos(client, compraId);
+}
+
+// Pagos de una compra, del primero al último (incluye los anulados)
+async function obtenerPagos(db, compraId) {
+  const result = await db.query(
+    `SELECT ${COLUMNAS_PAGO} FROM pagos pg WHERE pg.compra_id = $1 ORDER BY pg.fecha, pg.id`,
+    [compraId]
+  );
+  return result.rows;
+}
+
+// ========== CUPONES ==========
+// Los cupones se cargan desde el panel (ver api/cupones.js) y el comprador los ingresa en el checkout.
+// El descuento se reparte entre los productos a los que aplica el cupón y queda guardado en compras_descuentos:
+// compras.total es lo que se cobra (ya descontado) y compras.descuento lo que se descontó.
+
+// Busca un cupón por código y verifica que se pueda usar ahora (activo, vigente y con usos disponibles)
+// Con bloquear = true la fila queda bloqueada hasta el COMMIT: dos compras simultáneas no pasan el límite de usos
+// Devuelve { cupon } o { status, error }
+async function buscarCuponVigente(db, codigo, bloquear = false) {
+  const result = await db.query(
+    `SELECT id, codigo, descripcion, tipo, valor, producto_id, categoria, usos_maximos, valido_desde, valido_hasta, activo
+     FROM cupones WHERE codigo = $1 ${bloquear ? 'FOR UPDATE' : ''}`,
+    [codigo]
+  );
+  const cupon = result.rows[0];
+
+  if (!cupon || !cupon.activo) {
+    return { status: 404, error: `El cupón ${codigo} no existe o ya no está disponible` };
+  }
+
+  const ahora = new Date();
+  if (cupon.valido_desde && ahora < cupon.valido_desde) {
+    return { status: 400, error: 'El cupón todavía no está vigente' };
+  }
+  if (cupon.valido_hasta && ahora > cupon.valido_hasta) {
+    return { status: 400, error: 'El cupón está vencido' };
+  }
+
+  // Los usos son las compras no canceladas que lo usaron
+  if (cupon.usos_maximos) {
+    const usos = await db.query(
+      "SELECT COUNT(*)::int AS usos FROM compras WHERE cupon_id = $1 AND estado <> 'cancelado'",
+      [cupon.id]
+    );
+    if (usos.rows[0].usos >= cupon.usos_maximos) {
+      return { status: 400, error: 'El cupón ya alcanzó su límite de usos' };
+    }
+  }
+
+  return { cupon };
+}
+
+// Productos de la compra (con su categoría y subtotal) a partir de lo que bloqueó reservarProductos
+function lineasDeReserva(reserva, cantidadesPorProducto) {
+  return reserva.idsProductos.map(productoId => {
+    const producto = reserva.productosPorId.get(productoId);
+    return {
+      producto_id: productoId,
+      producto_nombre: producto.nombre,
+      categoria: producto.categoria,
+      subtotal: producto.precio * cantidadesPorProducto.get(productoId)
+    };
+  });
+}
+
+// Calcula el descuento de un cupón sobre los productos de la compra
+// El porcentaje o el monto fijo se aplica sobre la suma de los productos alcanzados (nunca más que esa suma)
+// y se reparte entre ellos en proporción a su subtotal; el último se lleva la diferencia del redondeo.
+// Devuelve { lineas: [{ producto_id, producto_nombre, monto }], total } o { error }
+function calcularDescuento(cupon, lineas) {
+  const alcanzadas = lineas.filter(linea => {
+    if (cupon.producto_id) return linea.producto_id === cupon.producto_id;
+    if (cupon.categoria) return linea.categoria === cupon.categoria;
+    return true;
+  });
+
+  const base = redondearMonto(alcanzadas.reduce((suma, linea) => suma + linea.subtotal, 0));
+  if (base <= 0) {
+    return { error: 'El cupón no aplica a ningún producto del pedido' };
+  }
+
+  const valor = parseFloat(cupon.valor);
+  const total = cupon.tipo === 'porcentaje' ? redondearMonto(base * valor / 100) : Math.min(valor, base);
+
+  let repartido = 0;
+  const descuentos = alcanzadas.map((linea, indice) => {
+    const monto = indice === alcanzadas.length - 1
+      ? redondearMonto(total - repartido)
+      : redondearMonto(total * linea.subtotal / base);
+    repartido = redondearMonto(repartido + monto);
+    return { producto_id: linea.producto_id, producto_nombre: linea.producto_nombre, monto };
+  });
+
+  return { lineas: descuentos.filter(linea => linea.monto > 0), total };
+}
+
+// Guarda cuánto se descontó de cada producto de la compra
+async function registrarDescuentos(client, compraId, cupon, descuento) {
+  for (const linea of descuento.lineas) {
+    await client.query(
+      `INSERT INTO compras_descuentos (compra_id, cupon_id, codigo, producto_id, monto)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [compraId, cupon.id, cupon.codigo, linea.producto_id, linea.monto]
+    );
+  }
+}
+
+// ========== REEMBOLSOS ==========
+// Devolver plata de una compra ya cobrada (toda o una parte, por ejemplo por un producto que faltó) sin tocar
+// sus productos: cada reembolso queda registrado aparte y compras.monto_reembolsado los resume.
+// Opcionalmente se reponen al stock algunas unidades de los productos de la compra.
+
+// Estados en los que la compra ya está cobrada y se le puede devolver plata
+const ESTADOS_REEMBOLSABLES = ['pagado', 'preparando', 'listo', 'entregado'];
+
+// Columnas de un reembolso que se devuelven en las respuestas (con los productos que volvieron al stock)
+const COLUMNAS_REEMBOLSO = `r.id, r.compra_id, r.metodo, r.monto, r.motivo, r.fecha, r.caja_id,
+  r.usuario_id, (SELECT u.username FROM users u WHERE u.id = r.usuario_id) AS usuario,
+  COALESCE((
+    SELECT json_agg(json_build_object('producto_id', rd.producto_id, 'producto_nombre', p.nombre, 'cantidad', rd.cantidad) ORDER BY rd.id)
+    FROM reembolsos_detalle rd
+    JOIN productos p ON p.id = rd.producto_id
+    WHERE rd.reembolso_id = r.id
+  ), '[]'::json) AS productos_repuestos`;
+
+// Reembolsos de una compra, del primero al último
+async function obtenerReembolsos(db, compraId) {
+  const result = await db.query(
+    `SELECT ${COLUMNAS_REEMBOLSO} FROM reembolsos r WHERE r.compra_id = $1 ORDER BY r.fecha, r.id`,
+    [compraId]
+  );
+  return result.rows;
+}
+
+// Al cancelar una compra se devuelve lo que queda cobrado (pagos menos reembolsos anteriores) con reembolsos:
+// primero el efectivo que se cobró, que sale de la caja abierta de quien cancela, y el resto por transferencia.
+// Así la caja registra la salida del efectivo en lugar de ignorar los pagos de las compras canceladas.
+// Devuelve los reembolsos registrados. Se usa dentro de una transacción, con la compra bloqueada
+async function reembolsarAlCancelar(client, compraId, usuarioId, motivo) {
+  const result = await client.query(
+    `SELECT c.monto_pagado - c.monto_reembolsado AS disponible,
+            COALESCE((SELECT SUM(pg.monto) FROM pagos pg
+                      WHERE pg.compra_id = c.id AND pg.anulado_en IS NULL AND pg.metodo = 'efectivo'), 0)
+            - COALESCE((SELECT SUM(r.monto) FROM reembolsos r
+                        WHERE r.compra_id = c.id AND r.metodo = 'efectivo'), 0) AS efectivo_cobrado
+     FROM compras c
+     WHERE c.id = $1`,
+    [compraId]
+  );
+
+  const disponible = redondearMonto(parseFloat(result.rows[0].disponible));
+  if (!(disponible > 0)) return [];
+
+  const efectivo = redondearMonto(Math.min(disponible, Math.max(parseFloat(result.rows[0].efectivo_cobrado), 0)));
+  const partes = [
+    { metodo: 'efectivo', monto: efectivo },
+    { metodo: 'transferencia', monto: redondearMonto(disponible - efectivo) }
+  ].filter(parte => parte.monto > 0);
+
+  const reembolsos = [];
+  for (const parte of partes) {
+    let cajaId = null;
+    if (parte.metodo === 'efectivo') {
+      const caja = await client.query(
+        'SELECT id FROM cajas WHERE usuario_id = $1 AND cerrada_en IS NULL FOR SHARE',
+        [usuarioId]
+      );
+      cajaId = caja.rows[0]?.id || null;
+    }
+
+    const insertado = await client.query(
+      `INSERT INTO reembolsos (compra_id, metodo, monto, motivo, usuario_id, caja_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [compraId, parte.metodo, parte.monto, `Compra cancelada: ${motivo}`, usuarioId, cajaId]
+    );
+    reembolsos.push((await client.query(
+      `SELECT ${COLUMNAS_REEMBOLSO} FROM reembolsos r WHERE r.id = $1`,
+      [insertado.rows[0].id]
+    )).rows[0]);
+  }
+
+  await client.query(
+    'UPDATE compras SET monto_reembolsado = monto_reembolsado + $1 WHERE id = $2',
+    [disponible, compraId]
+  );
+
+  return reembolsos;
+}
+
+// Unidades de cada producto de la compra y cuántas ya volvieron al stock con reembolsos anteriores
+async function obtenerUnidadesReponibles(db, compraId) {
+  const result = await db.query(
+    `SELECT d.producto_id, p.nombre AS producto_nombre, d.cantidad, d.precio_unitario,
+            COALESCE((
+              SELECT SUM(rd.cantidad)
+              FROM reembolsos_detalle rd
+              JOIN reembolsos r ON r.id = rd.reembolso_id
+              WHERE r.compra_id = $1 AND rd.producto_id = d.producto_id
+            ), 0)::int AS repuestas
+     FROM (
+       SELECT producto_id, SUM(cantidad)::int AS cantidad, MAX(precio_unitario) AS precio_unitario
+       FROM detalle_compra
+       WHERE compra_id = $1
+       GROUP BY producto_id
+     ) d
+     JOIN productos p ON p.id = d.producto_id
+     ORDER BY p.nombre`,
+    [compraId]
+  );
+  return result.rows;
+}
+
+// ========== EVENTOS EN VIVO (Server-Sent Events) ==========
+// Los paneles de vendedores abiertos se suscriben a GET /api/compras/stream
+// y reciben cada compra nueva, cambio o eliminación sin tener que recargar
+// Nota: los suscriptores viven en memoria de este proceso (en Vercel cada instancia tiene los suyos)
+const suscriptoresCompras = new Set();
+
+// Envía un evento a todos los paneles conectados
+function emitirEventoCompra(tipo, datos) {
+  const mensaje = `event: ${tipo}\ndata: ${JSON.stringify(datos)}\n\n`;
+  for (const suscriptor of suscriptoresCompras) {
+    suscriptor.write(mensaje);
+  }
+}
+
+// Obtiene una compra con sus detalles, en el mismo formato que GET /api/compras
+async function obtenerCompraConDetalles(db, id) {
+  const compra = await db.query(`SELECT ${COLUMNAS_COMPRA} FROM compras WHERE id = $1`, [id]);
+  if (compra.rows.length === 0) return null;
+
+  const detalles = await db.query(
+    `SELECT dc.*, p.nombre as producto_nombre
+     FROM detalle_compra dc
+     JOIN productos p ON dc.producto_id = p.id
+     WHERE dc.compra_id = $1`,
+    [id]
+  );
+
+  const descuentos = await db.query(
+    `SELECT cd.producto_id, p.nombre AS producto_nombre, cd.codigo, cd.monto
+     FROM compras_descuentos cd
+     JOIN productos p ON cd.producto_id = p.id
+     WHERE cd.compra_id = $1
+     ORDER BY cd.id`,
+    [id]
+  );
+
+  return { ...compra.rows[0], detalles: detalles.rows, descuentos: descuentos.rows };
+}
+
+// Emite el estado actual de una compra sin frenar la respuesta si algo falla
+async function notificarCompraActualizada(tipo, id) {
+  if (suscriptoresCompras.size === 0) return;
+  try {
+    const compra = await obtenerCompraConDetalles(pool, id);
+    if (compra) emitirEventoCompra(tipo, compra);
+  } catch (error) {
+    console.error('Error al emitir evento de compra:', error);
+  }
+}
+
 // 🛍️ POST /api/compras - Crear una nueva compra
 // Esta ruta es pública, cualquier comprador puede usarla
 router.post('/', upload.single('comprobante'), async (req, res) => {
   const client = await pool.connect(); // Usamos una transacción
+  let comprobanteGuardado = null; // Para borrarlo si la compra no se llega a registrar
 
   try {
     console.log('=== INICIO POST /api/compras ===');
@@ -43,6 +754,29 @@ router.post('/', upload.single('comprobante'), async (req, res) => {
     }
 
     const { comprador_nombre, comprador_telefono, comprador_mesa, metodo_pago, productos, detalles_pedido } = req.body;
+    // Cupón de descuento (opcional): se valida más abajo, con los productos ya bloqueados
+    const codigoCupon = typeof req.body.codigo_cupon === 'string' && req.body.codigo_cupon.trim()
+      ? req.body.codigo_cupon.trim().toUpperCase()
+      : null;
+
+    // Clave de idempotencia (opcional para no romper clientes viejos)
+    const claveIdempotencia = req.get('Idempotency-Key') || null;
+    const ambitoClave = ambitoCheckout();
+    if (claveIdempotencia && !/^[A-Za-z0-9_-]{8,100}$/.test(claveIdempotencia)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El header Idempotency-Key debe tener entre 8 y 100 caracteres (letras, números, - o _)'
+      });
+    }
+
+    // Si esta compra ya se registró, devolvemos la misma respuesta
+    if (claveIdempotencia) {
+      const guardada = await obtenerRespuestaIdempotente(pool, ambitoClave, claveIdempotencia);
+      if (guardada) {
+        console.log('Reintento con Idempotency-Key ya procesada:', claveIdempotencia);
+        return repetirRespuesta(res, guardada);
+      }
+    }
 
     console.log('comprador_nombre:', comprador_nombre);
     console.log('comprador_mesa:', comprador_mesa);
@@ -104,209 +838,2000 @@ router.post('/', upload.single('comprobante'), async (req, res) => {
       });
     }
 
+    const cantidadesPorProducto = agruparProductos(productosArray);
+    if (!cantidadesPorProducto) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Cada producto debe tener un producto_id y una cantidad entera mayor a 0'
+      });
+    }
+
     // Iniciamos la transacción
     await client.query('BEGIN');
 
-    // 1️⃣ Validamos el stock de cada producto
-    for (const item of productosArray) {
-      const { producto_id, cantidad } = item;
+    // Reservamos la clave dentro de la transacción (un reintento simultáneo espera y repite nuestra respuesta)
+    if (claveIdempotencia && !(await reservarClaveIdempotencia(client, ambitoClave, claveIdempotencia))) {
+      await client.query('ROLLBACK');
+      return responderClaveEnUso(res, ambitoClave, claveIdempotencia);
+    }
 
-      const producto = await client.query(
-        'SELECT id, nombre, precio, stock FROM productos WHERE id = $1 AND activo = true',
-        [producto_id]
-      );
+    // 1️⃣ y 2️⃣ Bloqueamos los productos, validamos el stock y calculamos el total
+    const reserva = await reservarProductos(client, cantidadesPorProducto);
+    if (reserva.error) {
+      await client.query('ROLLBACK');
+      return res.status(reserva.status).json({
+        success: false,
+        mensaje: reserva.error
+      });
+    }
 
-      if (producto.rows.length === 0) {
+    // Si usó un cupón, lo bloqueamos (para no pasar su límite de usos) y calculamos el descuento
+    let cupon = null;
+    let descuento = null;
+    if (codigoCupon) {
+      const vigente = await buscarCuponVigente(client, codigoCupon, true);
+      if (vigente.error) {
         await client.query('ROLLBACK');
-        return res.status(404).json({
+        return res.status(vigente.status).json({
           success: false,
-          mensaje: `El producto con ID ${producto_id} no existe o no está disponible`
+          mensaje: vigente.error
         });
       }
+      cupon = vigente.cupon;
 
-      if (producto.rows[0].stock < cantidad) {
+      descuento = calcularDescuento(cupon, lineasDeReserva(reserva, cantidadesPorProducto));
+      if (descuento.error) {
         await client.query('ROLLBACK');
         return res.status(400).json({
           success: false,
-          mensaje: `No hay suficiente stock de ${producto.rows[0].nombre}. Stock disponible: ${producto.rows[0].stock}`
+          mensaje: descuento.error
         });
       }
     }
-
-    // 2️⃣ Calculamos el total
-    let total = 0;
-    for (const item of productosArray) {
-      const producto = await client.query(
-        'SELECT precio FROM productos WHERE id = $1',
-        [item.producto_id]
-      );
-      total += producto.rows[0].precio * item.cantidad;
-    }
+    const montoDescuento = descuento ? descuento.total : 0;
+    const total = redondearMonto(reserva.total - montoDescuento);
 
     // 3️⃣ Registramos la compra
-    // Si hay archivo, lo convertimos a Base64 con el formato data:image/jpeg;base64,...
-    let comprobante_archivo = null;
+    // Si hay archivo, lo guardamos (con su miniatura) en el almacenamiento de comprobantes
     if (req.file) {
-      console.log('Convirtiendo archivo a Base64...');
-      console.log('Buffer size:', req.file.buffer.length);
-      
-      try {
-        const base64String = req.file.buffer.toString('base64');
-        comprobante_archivo = `data:${req.file.mimetype};base64,${base64String}`;
-        console.log('Base64 length:', comprobante_archivo.length);
-        
-        // Verificar que no exceda 10MB en Base64 (límite razonable para PostgreSQL TEXT)
-        if (comprobante_archivo.length > 10 * 1024 * 1024) {
-          await client.query('ROLLBACK');
-          return res.status(400).json({
-            success: false,
-            mensaje: 'El archivo es demasiado grande. Por favor usá una imagen más pequeña o de menor calidad.'
-          });
-        }
-      } catch (conversionError) {
-        console.error('Error al convertir a Base64:', conversionError);
-        await client.query('ROLLBACK');
-        return res.status(500).json({
-          success: false,
-          mensaje: 'Error al procesar el archivo'
-        });
-      }
+      console.log('Guardando comprobante...');
+      comprobanteGuardado = await guardarComprobante(req.file.buffer, req.file.mimetype);
+      console.log('Comprobante guardado:', comprobanteGuardado.comprobante_driver, comprobanteGuardado.comprobante_clave);
     }
 
+    // Token secreto para que el comprador pueda seguir su pedido desde cualquier dispositivo
+    const token_seguimiento = crypto.randomBytes(24).toString('hex');
+
     console.log('Insertando compra en BD...');
     const compra = await client.query(
-      `INSERT INTO compras (comprador_nombre, comprador_telefono, comprador_mesa, metodo_pago, comprobante_archivo, total, detalles_pedido)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING *`,
-      [comprador_nombre, comprador_telefono || null, mesaNormalizada, metodo_pago, comprobante_archivo, total, detalles_pedido || null]
+      `INSERT INTO compras (comprador_nombre, comprador_telefono, comprador_mesa, metodo_pago, total, detalles_pedido, token_seguimiento,
+                            verificacion_estado, comprobante_driver, comprobante_clave, comprobante_tipo, comprobante_miniatura_clave,
+                            cupon_id, descuento)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+       RETURNING ${COLUMNAS_COMPRA}`,
+      [
+        comprador_nombre, comprador_telefono || null, mesaNormalizada, metodo_pago, total, detalles_pedido || null, token_seguimiento,
+        // Las transferencias quedan esperando que un vendedor revise el comprobante
+        metodo_pago === 'transferencia' ? 'pendiente' : null,
+        comprobanteGuardado?.comprobante_driver || null,
+        comprobanteGuardado?.comprobante_clave || null,
+        comprobanteGuardado?.comprobante_tipo || null,
+        comprobanteGuardado?.comprobante_miniatura_clave || null,
+        cupon ? cupon.id : null,
+        montoDescuento
+      ]
     );
     console.log('Compra insertada con ID:', compra.rows[0].id);
 
+    // Toda compra arranca como 'pendiente'
+    await registrarHistorialEstado(client, compra.rows[0].id, null, 'pendiente', null, null);
+
     // 4️⃣ Registramos el detalle de la compra y descontamos stock
-    for (const item of productosArray) {
-      const { producto_id, cantidad } = item;
+    await registrarDetalleCompra(client, compra.rows[0].id, reserva, cantidadesPorProducto);
 
-      // Obtenemos el precio actual del producto
-      const producto = await client.query(
-        'SELECT precio FROM productos WHERE id = $1',
-        [producto_id]
-      );
+    if (cupon) {
+      await registrarDescuentos(client, compra.rows[0].id, cupon, descuento);
+    }
+
+    const respuesta = {
+      success: true,
+      mensaje: 'Compra registrada exitosamente',
+      compra: compra.rows[0]
+    };
+
+    // Guardamos la respuesta para repetirla si llega un reintento con la misma clave
+    if (claveIdempotencia) {
+      await guardarRespuestaIdempotente(client, ambitoClave, claveIdempotencia, compra.rows[0].id, respuesta);
+    }
+
+    // Confirmamos la transacción
+    await client.query('COMMIT');
+
+    res.status(201).json(respuesta);
+
+    notificarCompraActualizada('compra_creada', compra.rows[0].id);
+
+  } catch (error) {
+    // Si hay algún error, revertimos todo (incluido el comprobante ya guardado)
+    await client.query('ROLLBACK');
+    if (comprobanteGuardado) {
+      eliminarComprobante(
+        comprobanteGuardado.comprobante_driver,
+        comprobanteGuardado.comprobante_clave,
+        comprobanteGuardado.comprobante_miniatura_clave
+      ).catch(err => console.error('No se pudo borrar el comprobante huérfano:', err));
+    }
+
+    // 23514 = se violó productos_stock_check: el stock no alcanzó (no debería pasar con las filas bloqueadas)
+    if (error.code === '23514') {
+      return res.status(409).json({
+        success: false,
+        mensaje: 'El stock de uno de los productos cambió mientras se procesaba la compra. Intentá nuevamente.'
+      });
+    }
+
+    console.error('Error al crear compra:', error);
+    console.error('Error stack:', error.stack);
+    console.error('Error message:', error.message);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al procesar la compra',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🎟️ POST /api/compras/cupon - Validar un cupón antes de comprar
+// Esta ruta es pública: el checkout la usa para mostrar el descuento. No reserva nada: al crear la compra
+// el cupón se vuelve a validar (puede haberse agotado o vencido en el medio)
+// Body: { codigo, productos: [{ producto_id, cantidad }] }
+router.post('/cupon', async (req, res) => {
+  try {
+    const codigo = typeof req.body.codigo === 'string' ? req.body.codigo.trim().toUpperCase() : '';
+    if (!codigo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Ingresá el código del cupón'
+      });
+    }
+
+    const cantidadesPorProducto = Array.isArray(req.body.productos) && req.body.productos.length > 0
+      ? agruparProductos(req.body.productos)
+      : null;
+    if (!cantidadesPorProducto) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Cada producto debe tener un producto_id y una cantidad entera mayor a 0'
+      });
+    }
+
+    const vigente = await buscarCuponVigente(pool, codigo);
+    if (vigente.error) {
+      return res.status(vigente.status).json({
+        success: false,
+        mensaje: vigente.error
+      });
+    }
+    const { cupon } = vigente;
+
+    // Mismos productos y precios que usaría la compra (sin bloquearlos ni mirar el stock)
+    const idsProductos = [...cantidadesPorProducto.keys()].sort((a, b) => a - b);
+    const productosDb = await pool.query(
+      `SELECT id, nombre, categoria, precio FROM productos
+       WHERE id = ANY($1::int[]) AND activo = true`,
+      [idsProductos]
+    );
+    const reserva = {
+      idsProductos: productosDb.rows.map(p => p.id).sort((a, b) => a - b),
+      productosPorId: new Map(productosDb.rows.map(p => [p.id, p]))
+    };
+    const lineas = lineasDeReserva(reserva, cantidadesPorProducto);
+    const subtotal = redondearMonto(lineas.reduce((suma, linea) => suma + linea.subtotal, 0));
+
+    const descuento = calcularDescuento(cupon, lineas);
+    if (descuento.error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: descuento.error
+      });
+    }
+
+    res.json({
+      success: true,
+      mensaje: `Cupón ${cupon.codigo} aplicado`,
+      cupon: {
+        codigo: cupon.codigo,
+        descripcion: cupon.descripcion,
+        tipo: cupon.tipo,
+        valor: cupon.valor
+      },
+      subtotal,
+      descuento: descuento.total,
+      total: redondearMonto(subtotal - descuento.total),
+      lineas: descuento.lineas
+    });
+
+  } catch (error) {
+    console.error('Error al validar cupón:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al validar el cupón'
+    });
+  }
+});
+
+// 🧾 POST /api/compras/mostrador - Venta en el mostrador (pantalla /vendor/pos)
+// El vendedor carga el pedido de quien compra en persona: la compra queda pagada en el momento, a nombre del vendedor
+// (y en su caja abierta si es en efectivo). Una transferencia se da por verificada: el vendedor la ve en el teléfono.
+// Se puede pagar con un solo método (metodo_pago) o repartido en varios pagos que sumen el total (pagos)
+// Solo usuarios con permiso 'crear_compra'. Acepta el mismo header Idempotency-Key que POST /api/compras
+// Body: { productos: [{ producto_id, cantidad }], metodo_pago, pagos: [{ metodo, monto }], monto_recibido,
+//         comprador_nombre, comprador_mesa, detalles_pedido }
+router.post('/mostrador', verificarAutenticacion, verificarPermiso('crear_compra'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { productos, metodo_pago, pagos, detalles_pedido } = req.body;
+    const compradorNombre = typeof req.body.comprador_nombre === 'string' && req.body.comprador_nombre.trim()
+      ? req.body.comprador_nombre.trim()
+      : NOMBRE_COMPRADOR_MOSTRADOR;
+    const mesa = req.body.comprador_mesa ? parseInt(req.body.comprador_mesa) : null;
+
+    const claveIdempotencia = req.get('Idempotency-Key') || null;
+    const ambitoClave = ambitoMostrador(req);
+    if (claveIdempotencia && !/^[A-Za-z0-9_-]{8,100}$/.test(claveIdempotencia)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El header Idempotency-Key debe tener entre 8 y 100 caracteres (letras, números, - o _)'
+      });
+    }
+
+    if (claveIdempotencia) {
+      const guardada = await obtenerRespuestaIdempotente(pool, ambitoClave, claveIdempotencia);
+      if (guardada) {
+        return repetirRespuesta(res, guardada);
+      }
+    }
+
+    if (mesa !== null && (isNaN(mesa) || mesa < 1 || mesa > 50)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El número de mesa debe estar entre 1 y 50'
+      });
+    }
+
+    // Pago repartido: cada parte con su método y su monto (que sumen el total se valida con el total calculado)
+    let pagosPedidos = null;
+    if (pagos !== undefined && pagos !== null) {
+      if (!Array.isArray(pagos) || pagos.length === 0) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'pagos debe ser una lista con al menos un pago'
+        });
+      }
+      pagosPedidos = pagos.map(pago => ({ metodo: pago?.metodo, monto: redondearMonto(parseFloat(pago?.monto)) }));
+      if (pagosPedidos.some(pago => !METODOS_PAGO.includes(pago.metodo) || !(pago.monto > 0))) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'Cada pago debe tener un método ("efectivo" o "transferencia") y un monto mayor a 0'
+        });
+      }
+    } else if (!METODOS_PAGO.includes(metodo_pago)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El método de pago debe ser "efectivo" o "transferencia"'
+      });
+    }
+
+    const metodosUsados = pagosPedidos ? [...new Set(pagosPedidos.map(pago => pago.metodo))] : [metodo_pago];
+
+    // Con cuánto pagó en efectivo (opcional): sirve para calcular el vuelto
+    let montoRecibido = null;
+    if (metodosUsados.includes('efectivo') && req.body.monto_recibido !== undefined && req.body.monto_recibido !== null && req.body.monto_recibido !== '') {
+      montoRecibido = parseFloat(req.body.monto_recibido);
+      if (isNaN(montoRecibido) || montoRecibido < 0) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'El monto recibido debe ser un número mayor o igual a 0'
+        });
+      }
+    }
+
+    if (!Array.isArray(productos) || productos.length === 0) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Debe incluir al menos un producto'
+      });
+    }
+
+    const cantidadesPorProducto = agruparProductos(productos);
+    if (!cantidadesPorProducto) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Cada producto debe tener un producto_id y una cantidad entera mayor a 0'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    if (claveIdempotencia && !(await reservarClaveIdempotencia(client, ambitoClave, claveIdempotencia))) {
+      await client.query('ROLLBACK');
+      return responderClaveEnUso(res, ambitoClave, claveIdempotencia);
+    }
+
+    const reserva = await reservarProductos(client, cantidadesPorProducto);
+    if (reserva.error) {
+      await client.query('ROLLBACK');
+      return res.status(reserva.status).json({
+        success: false,
+        mensaje: reserva.error
+      });
+    }
+    const total = redondearMonto(reserva.total);
+
+    const pagosVenta = pagosPedidos || [{ metodo: metodo_pago, monto: total }];
+    const sumaPagos = redondearMonto(pagosVenta.reduce((suma, pago) => suma + pago.monto, 0));
+    if (sumaPagos !== total) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `Los pagos suman $${sumaPagos} y el total de la venta es $${total}`
+      });
+    }
+
+    const montoEfectivo = redondearMonto(
+      pagosVenta.filter(pago => pago.metodo === 'efectivo').reduce((suma, pago) => suma + pago.monto, 0)
+    );
+    if (montoRecibido !== null && montoRecibido < montoEfectivo) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `El monto recibido no alcanza: hay que cobrar $${montoEfectivo} en efectivo`
+      });
+    }
+
+    const banderas = banderasDeEstado('pagado');
+    const token_seguimiento = crypto.randomBytes(24).toString('hex');
+    const conTransferencia = metodosUsados.includes('transferencia');
+
+    const compra = await client.query(
+      `INSERT INTO compras (comprador_nombre, comprador_mesa, metodo_pago, total, detalles_pedido, token_seguimiento,
+                            estado, abonado, listo, entregado, abonado_por, abonado_en, creado_por, monto_recibido,
+                            verificacion_estado, verificado_por, verificado_en)
+       VALUES ($1, $2, $3, $4, $5, $6, 'pagado', $7, $8, $9, $10, NOW(), $10, $11,
+               CASE WHEN $12::boolean THEN 'aprobado' END,
+               CASE WHEN $12::boolean THEN $10::int END,
+               CASE WHEN $12::boolean THEN NOW() END)
+       RETURNING id`,
+      [
+        compradorNombre, mesa, metodosUsados.length > 1 ? 'mixto' : metodosUsados[0], total, detalles_pedido || null,
+        token_seguimiento, banderas.abonado, banderas.listo, banderas.entregado, req.usuario.userId, montoRecibido,
+        conTransferencia
+      ]
+    );
+    const compraId = compra.rows[0].id;
+
+    const pagosRegistrados = [];
+    for (const pago of pagosVenta) {
+      pagosRegistrados.push(await registrarPago(client, compraId, { ...pago, usuarioId: req.usuario.userId }));
+    }
+
+    await registrarHistorialEstado(client, compraId, null, 'pagado', req.usuario.userId, 'Venta en mostrador');
+    await registrarDetalleCompra(client, compraId, reserva, cantidadesPorProducto);
+
+    const compraCreada = await obtenerCompraConDetalles(client, compraId);
+
+    await registrarAuditoria(client, req, {
+      accion: 'crear',
+      entidad: 'compra',
+      entidadId: compraId,
+      despues: compraCreada
+    });
+
+    const respuesta = {
+      success: true,
+      mensaje: 'Venta registrada',
+      compra: compraCreada,
+      pagos: pagosRegistrados,
+      vuelto: montoRecibido !== null ? redondearMonto(montoRecibido - montoEfectivo) : null,
+      aviso: pagosRegistrados.some(pago => pago.metodo === 'efectivo' && !pago.caja_id)
+        ? 'No tenés una caja abierta: este cobro no va a quedar en ningún arqueo'
+        : undefined
+    };
+
+    if (claveIdempotencia) {
+      await guardarRespuestaIdempotente(client, ambitoClave, claveIdempotencia, compraId, respuesta);
+    }
 
-      const precio_unitario = producto.rows[0].precio;
-      const subtotal = precio_unitario * cantidad;
+    await client.query('COMMIT');
+
+    res.status(201).json(respuesta);
+
+    notificarCompraActualizada('compra_creada', compraId);
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+
+    // 23514 = se violó productos_stock_check (no debería pasar con las filas bloqueadas)
+    if (error.code === '23514') {
+      return res.status(409).json({
+        success: false,
+        mensaje: 'El stock de uno de los productos cambió mientras se procesaba la venta. Intentá nuevamente.'
+      });
+    }
+
+    console.error('Error al registrar venta en mostrador:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al registrar la venta'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🔎 GET /api/compras/seguimiento/:token - Seguimiento público de un pedido
+// Esta ruta es pública: el token funciona como contraseña del pedido
+// Devuelve solo lo que el comprador necesita ver (sin teléfono ni comprobante)
+router.get('/seguimiento/:token', async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    // Validamos el formato antes de ir a la base de datos
+    if (!/^[a-f0-9]{32,64}$/.test(token)) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Pedido no encontrado'
+      });
+    }
+
+    const compra = await pool.query(
+      `SELECT id, comprador_nombre, comprador_mesa, metodo_pago, total, fecha, estado, detalles_pedido, motivo_cancelacion,
+              verificacion_estado, motivo_rechazo
+       FROM compras
+       WHERE token_seguimiento = $1`,
+      [token]
+    );
+
+    if (compra.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Pedido no encontrado'
+      });
+    }
+
+    const detalle = await pool.query(
+      `SELECT p.nombre AS producto_nombre, dc.cantidad, dc.precio_unitario, dc.subtotal
+       FROM detalle_compra dc
+       JOIN productos p ON dc.producto_id = p.id
+       WHERE dc.compra_id = $1
+       ORDER BY dc.id`,
+      [compra.rows[0].id]
+    );
+
+    // Del historial solo mostramos los estados y cuándo cambiaron (no quién)
+    const historial = await pool.query(
+      `SELECT estado_nuevo AS estado, fecha
+       FROM compras_estado_historial
+       WHERE compra_id = $1
+       ORDER BY fecha, id`,
+      [compra.rows[0].id]
+    );
+
+    // El estado cambia todo el tiempo, no queremos que se cachee
+    res.set('Cache-Control', 'no-cache, no-store, must-revalidate');
+
+    res.json({
+      success: true,
+      pedido: {
+        ...compra.rows[0],
+        productos: detalle.rows,
+        historial: historial.rows
+      }
+    });
+
+  } catch (error) {
+    console.error('Error al obtener seguimiento de pedido:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener el pedido'
+    });
+  }
+});
+
+// 📡 GET /api/compras/stream - Eventos en vivo de compras (Server-Sent Events)
+// Eventos: compra_creada, compra_actualizada (con la compra completa) y compra_eliminada ({ id })
+// La sesión se vuelve a revisar en cada latido: si se cerró (logout, "cerrar todas las sesiones",
+// usuario desactivado) se corta la conexión y el panel, al reconectar, vuelve al login
+router.get('/stream', verificarAutenticacion, verificarPermiso('ver_compras'), (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  // Le decimos al navegador cada cuánto reintentar si se corta
+  res.write('retry: 5000\n\n');
+  suscriptoresCompras.add(res);
+
+  const cerrar = () => {
+    clearInterval(latido);
+    suscriptoresCompras.delete(res);
+  };
+
+  // Comentario periódico para que proxies y celulares no corten la conexión por inactividad
+  const latido = setInterval(async () => {
+    try {
+      const vigente = await sesionVigente(pool, req.usuario.sid, req.usuario.userId);
+      if (res.writableEnded || res.destroyed) return; // El panel se desconectó mientras consultábamos
+      if (!vigente) {
+        cerrar();
+        return res.end();
+      }
+    } catch (error) {
+      // Si no se pudo consultar la base, mejor cortar: el panel reconecta y se vuelve a revisar todo
+      console.error('Error al revisar la sesión del stream de compras:', error);
+      cerrar();
+      if (!res.writableEnded) res.end();
+      return;
+    }
+    res.write(': ping\n\n');
+  }, 25000);
+
+  req.on('close', cerrar);
+});
+
+// Paginación del listado de compras
+const POR_PAGINA_DEFECTO = 20;
+const POR_PAGINA_MAXIMO = 100;
+
+// Ordenamientos permitidos para el listado (nunca se arma el ORDER BY con texto del cliente)
+const ORDENES_COMPRAS = {
+  fecha_desc: 'c.fecha DESC, c.id DESC',
+  fecha_asc: 'c.fecha ASC, c.id ASC',
+  total_desc: 'c.total DESC, c.id DESC',
+  total_asc: 'c.total ASC, c.id ASC',
+  mesa_asc: 'c.comprador_mesa ASC NULLS LAST, c.fecha DESC'
+};
+
+// Arma el WHERE del listado de compras a partir de los query params
+// Devuelve un mensaje de error si algún filtro es inválido
+// usuarioId es el usuario logueado, para ?atendido_por=yo
+function construirFiltrosCompras(query, usuarioId) {
+  const { fecha_desde, fecha_hasta, mesa, estado, metodo_pago, verificacion, total_min, total_max, producto_id, atendido_por, q } = query;
+  const condiciones = [];
+  const params = [];
+
+  if (fecha_desde) {
+    params.push(fecha_desde);
+    condiciones.push(`c.fecha >= $${params.length}`);
+  }
+
+  if (fecha_hasta) {
+    params.push(fecha_hasta);
+    condiciones.push(`c.fecha <= $${params.length}`);
+  }
+
+  if (mesa) {
+    const mesaNumero = parseInt(mesa);
+    if (isNaN(mesaNumero)) return { error: 'La mesa debe ser un número' };
+    params.push(mesaNumero);
+    condiciones.push(`c.comprador_mesa = $${params.length}`);
+  }
+
+  // Se pueden pedir varios estados separados por coma: ?estado=pagado,preparando
+  if (estado) {
+    const estados = String(estado).split(',').map(e => e.trim()).filter(Boolean);
+    const invalido = estados.find(e => !TRANSICIONES_ESTADO[e]);
+    if (invalido) return { error: `Estado inválido: ${invalido}` };
+    params.push(estados);
+    condiciones.push(`c.estado = ANY($${params.length}::varchar[])`);
+  }
+
+  // 'mixto' son las compras pagadas en partes con los dos métodos
+  if (metodo_pago) {
+    if (![...METODOS_PAGO, 'mixto'].includes(metodo_pago)) {
+      return { error: 'El método de pago debe ser "efectivo", "transferencia" o "mixto"' };
+    }
+    params.push(metodo_pago);
+    condiciones.push(`c.metodo_pago = $${params.length}`);
+  }
+
+  // Estado de la verificación de la transferencia (la cola de verificación usa ?verificacion=pendiente)
+  if (verificacion) {
+    if (!ESTADOS_VERIFICACION.includes(verificacion)) {
+      return { error: `La verificación debe ser ${ESTADOS_VERIFICACION.map(v => `"${v}"`).join(', ')}` };
+    }
+    params.push(verificacion);
+    condiciones.push(`c.verificacion_estado = $${params.length}`);
+  }
+
+  if (total_min) {
+    if (isNaN(parseFloat(total_min))) return { error: 'total_min debe ser un número' };
+    params.push(parseFloat(total_min));
+    condiciones.push(`c.total >= $${params.length}`);
+  }
+
+  if (total_max) {
+    if (isNaN(parseFloat(total_max))) return { error: 'total_max debe ser un número' };
+    params.push(parseFloat(total_max));
+    condiciones.push(`c.total <= $${params.length}`);
+  }
+
+  // Compras que incluyen un producto determinado
+  if (producto_id) {
+    const productoId = parseInt(producto_id);
+    if (isNaN(productoId)) return { error: 'producto_id debe ser un número' };
+    params.push(productoId);
+    condiciones.push(`EXISTS (SELECT 1 FROM detalle_compra dq WHERE dq.compra_id = c.id AND dq.producto_id = $${params.length})`);
+  }
+
+  // Compras en las que intervino un usuario: las cobró, las marcó listas o las entregó
+  // Con ?atendido_por=yo son las del usuario logueado ("mis pedidos" del panel)
+  if (atendido_por) {
+    const atendidoPorId = atendido_por === 'yo' ? usuarioId : parseInt(atendido_por);
+    if (!atendidoPorId) return { error: 'atendido_por debe ser un id de usuario o "yo"' };
+    params.push(atendidoPorId);
+    condiciones.push(`$${params.length} IN (c.abonado_por, c.listo_por, c.entregado_por)`);
+  }
+
+  // Búsqueda libre: número de pedido, mesa, nombre, teléfono, aclaraciones o nombre de producto
+  if (q && String(q).trim()) {
+    const texto = String(q).trim();
+    params.push(`%${texto}%`);
+    const like = `$${params.length}`;
+    const alternativas = [
+      `c.comprador_nombre ILIKE ${like}`,
+      `c.comprador_telefono ILIKE ${like}`,
+      `c.detalles_pedido ILIKE ${like}`,
+      `EXISTS (SELECT 1 FROM detalle_compra dq JOIN productos pq ON dq.producto_id = pq.id
+               WHERE dq.compra_id = c.id AND pq.nombre ILIKE ${like})`
+    ];
+
+    // "15", "#15" o "SH-15" también buscan por número de pedido o de mesa
+    const numero = texto.replace(/^(#|SH-)/i, '');
+    if (/^\d+$/.test(numero)) {
+      params.push(parseInt(numero));
+      alternativas.push(`c.id = $${params.length}`, `c.comprador_mesa = $${params.length}`);
+    }
+
+    condiciones.push(`(${alternativas.join(' OR ')})`);
+  }
+
+  return {
+    where: condiciones.length > 0 ? `WHERE ${condiciones.join(' AND ')}` : '',
+    params
+  };
+}
+
+// 📋 GET /api/compras - Listar compras (paginado)
+// Solo usuarios con permiso 'ver_compras' pueden hacer esto
+// Query params: pagina, por_pagina, orden, estado, metodo_pago, verificacion, mesa, total_min, total_max,
+// producto_id, atendido_por, q (búsqueda libre), fecha_desde, fecha_hasta
+router.get('/', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    const pagina = Math.max(parseInt(req.query.pagina) || 1, 1);
+    const porPagina = Math.min(Math.max(parseInt(req.query.por_pagina) || POR_PAGINA_DEFECTO, 1), POR_PAGINA_MAXIMO);
+    const orden = req.query.orden || 'fecha_desc';
+
+    if (!ORDENES_COMPRAS[orden]) {
+      return res.status(400).json({
+        success: false,
+        mensaje: `Orden inválido. Opciones: ${Object.keys(ORDENES_COMPRAS).join(', ')}`
+      });
+    }
+
+    const filtros = construirFiltrosCompras(req.query, req.usuario.userId);
+    if (filtros.error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: filtros.error
+      });
+    }
+
+    // Total de resultados y monto (sin contar canceladas) para el resumen del panel
+    const resumen = await pool.query(
+      `SELECT COUNT(*) AS cantidad,
+              COALESCE(SUM(c.total) FILTER (WHERE c.estado <> 'cancelado'), 0) AS monto_total
+       FROM compras c
+       ${filtros.where}`,
+      filtros.params
+    );
+
+    // La página pedida con sus detalles en una sola consulta
+    const params = [...filtros.params, porPagina, (pagina - 1) * porPagina];
+    const result = await pool.query(
+      `SELECT c.*, COALESCE(d.detalles, '[]'::json) AS detalles, COALESCE(cd.descuentos, '[]'::json) AS descuentos
+       FROM (
+         SELECT ${COLUMNAS_COMPRA}
+         FROM compras c
+         ${filtros.where}
+         ORDER BY ${ORDENES_COMPRAS[orden]}
+         LIMIT $${params.length - 1} OFFSET $${params.length}
+       ) c
+       LEFT JOIN LATERAL (
+         SELECT json_agg(json_build_object(
+                  'id', dc.id,
+                  'compra_id', dc.compra_id,
+                  'producto_id', dc.producto_id,
+                  'producto_nombre', p.nombre,
+                  'cantidad', dc.cantidad,
+                  'precio_unitario', dc.precio_unitario,
+                  'subtotal', dc.subtotal
+                ) ORDER BY dc.id) AS detalles
+         FROM detalle_compra dc
+         JOIN productos p ON dc.producto_id = p.id
+         WHERE dc.compra_id = c.id
+       ) d ON true
+       LEFT JOIN LATERAL (
+         SELECT json_agg(json_build_object(
+                  'producto_id', cd.producto_id,
+                  'producto_nombre', p.nombre,
+                  'codigo', cd.codigo,
+                  'monto', cd.monto
+                ) ORDER BY cd.id) AS descuentos
+         FROM compras_descuentos cd
+         JOIN productos p ON cd.producto_id = p.id
+         WHERE cd.compra_id = c.id
+       ) cd ON true
+       ORDER BY ${ORDENES_COMPRAS[orden]}`,
+      params
+    );
+
+    const total = parseInt(resumen.rows[0].cantidad);
+
+    res.json({
+      success: true,
+      compras: result.rows,
+      paginacion: {
+        pagina,
+        por_pagina: porPagina,
+        total,
+        total_paginas: Math.max(Math.ceil(total / porPagina), 1)
+      },
+      monto_total: parseFloat(resumen.rows[0].monto_total)
+    });
+
+  } catch (error) {
+    console.error('Error al obtener compras:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener las compras'
+    });
+  }
+});
+
+// 🔍 GET /api/compras/:id - Obtener detalle de una compra específica
+// Solo usuarios con permiso 'ver_compras' pueden hacer esto
+router.get('/:id', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    // Obtenemos la compra
+    const compra = await pool.query(
+      `SELECT ${COLUMNAS_COMPRA} FROM compras WHERE id = $1`,
+      [id]
+    );
+
+    if (compra.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    // Obtenemos el detalle de la compra con los nombres de los productos
+    const detalle = await pool.query(
+      `SELECT dc.*, p.nombre as producto_nombre
+       FROM detalle_compra dc
+       JOIN productos p ON dc.producto_id = p.id
+       WHERE dc.compra_id = $1`,
+      [id]
+    );
+
+    res.json({
+      success: true,
+      compra: compra.rows[0],
+      detalle: detalle.rows
+    });
+
+  } catch (error) {
+    console.error('Error al obtener detalle de compra:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener el detalle de la compra'
+    });
+  }
+});
+
+// 🧾 GET /api/compras/:id/comprobante - Descargar el comprobante de transferencia
+// Solo usuarios con permiso 'ver_compras' pueden hacer esto
+// Devuelve la imagen tal cual (no JSON) para usarla directamente en un <img> o abrirla en otra pestaña
+router.get('/:id/comprobante', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      'SELECT comprobante_archivo, comprobante_driver, comprobante_clave, comprobante_tipo FROM compras WHERE id = $1',
+      [id]
+    );
+
+    const compra = result.rows[0];
+    if (!compra || (!compra.comprobante_clave && !compra.comprobante_archivo)) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'La compra no tiene comprobante'
+      });
+    }
+
+    // Comprobante en el almacenamiento configurado
+    if (compra.comprobante_clave) {
+      const archivo = await obtenerComprobante(compra.comprobante_driver, compra.comprobante_clave);
+      if (!archivo) {
+        return res.status(404).json({
+          success: false,
+          mensaje: 'No se encontró el archivo del comprobante'
+        });
+      }
+      return enviarArchivo(req, res, archivo.contenido, compra.comprobante_tipo || archivo.tipo, `"${compra.comprobante_clave}"`);
+    }
+
+    // Compras viejas que guardaban la ruta del archivo en lugar del contenido
+    if (!compra.comprobante_archivo.startsWith('data:')) {
+      return res.redirect(compra.comprobante_archivo);
+    }
+
+    // Compras viejas con el comprobante en Base64 (todavía sin migrar con scripts/migrar-comprobantes.js)
+    const archivo = decodificarDataUrl(compra.comprobante_archivo);
+    if (!archivo) {
+      return res.status(500).json({
+        success: false,
+        mensaje: 'El comprobante guardado tiene un formato inválido'
+      });
+    }
+
+    const etag = `"comprobante-${id}-${crypto.createHash('sha1').update(archivo.contenido).digest('hex')}"`;
+    enviarArchivo(req, res, archivo.contenido, archivo.tipo, etag);
+
+  } catch (error) {
+    console.error('Error al obtener comprobante:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener el comprobante'
+    });
+  }
+});
+
+// 🖼️ GET /api/compras/:id/comprobante/miniatura - Miniatura del comprobante para el listado del panel
+// Solo usuarios con permiso 'ver_compras' pueden hacer esto
+router.get('/:id/comprobante/miniatura', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const result = await pool.query(
+      'SELECT comprobante_driver, comprobante_miniatura_clave FROM compras WHERE id = $1',
+      [id]
+    );
+
+    const compra = result.rows[0];
+    const archivo = compra?.comprobante_miniatura_clave
+      ? await obtenerComprobante(compra.comprobante_driver, compra.comprobante_miniatura_clave)
+      : null;
+
+    if (!archivo) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'La compra no tiene miniatura de comprobante'
+      });
+    }
+
+    enviarArchivo(req, res, archivo.contenido, 'image/jpeg', `"${compra.comprobante_miniatura_clave}"`);
+
+  } catch (error) {
+    console.error('Error al obtener miniatura del comprobante:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener la miniatura del comprobante'
+    });
+  }
+});
+
+// 🔄 PUT /api/compras/:id/productos - Actualizar productos de una compra
+// Solo usuarios con permiso 'editar_compras' pueden hacer esto
+// Los precios los calcula el servidor: las líneas que ya estaban conservan el precio al que se vendieron
+// y los productos nuevos toman el precio actual. El stock se ajusta según la diferencia de cantidades
+// (los combos que ya estaban usan la receta con la que se vendieron y los nuevos la actual).
+// El nuevo total no puede quedar por debajo de lo cobrado, y si queda saldo por cobrar la compra vuelve a 'pendiente'.
+router.put('/:id/productos', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+  const client = await pool.connect();
+  
+  try {
+    const { id } = req.params;
+    const { productos } = req.body; // Array: [{producto_id, cantidad}]
+
+    // Validar que se envíen productos
+    if (!Array.isArray(productos) || productos.length === 0) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Debe enviar al menos un producto'
+      });
+    }
+
+    // Unificamos las cantidades por producto (por si el mismo producto viene repetido)
+    const cantidadesNuevas = new Map();
+    for (const prod of productos) {
+      const productoId = parseInt(prod.producto_id);
+      const cantidad = Number(prod.cantidad);
+
+      if (!Number.isInteger(productoId) || !Number.isInteger(cantidad) || cantidad < 1) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'Cada producto debe tener un producto_id y una cantidad entera mayor a 0'
+        });
+      }
+
+      cantidadesNuevas.set(productoId, (cantidadesNuevas.get(productoId) || 0) + cantidad);
+    }
+
+    await client.query('BEGIN');
+
+    // Bloqueamos la compra para que nadie la cambie mientras la editamos
+    const compra = await client.query(
+      'SELECT id, estado, monto_pagado, monto_reembolsado, descuento FROM compras WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+    if (compra.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    // Una compra cancelada ya devolvió su stock: no se puede editar
+    if (compra.rows[0].estado === 'cancelado') {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'No se pueden editar los productos de una compra cancelada'
+      });
+    }
+
+    // Los reembolsos se calcularon sobre estos productos (y pueden haber repuesto stock): no se tocan más
+    if (parseFloat(compra.rows[0].monto_reembolsado) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La compra tiene reembolsos: no se pueden editar sus productos'
+      });
+    }
+
+    // El descuento del cupón se repartió entre estos productos: cambiarlos lo dejaría mal calculado
+    if (parseFloat(compra.rows[0].descuento) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La compra tiene un cupón aplicado: no se pueden editar sus productos'
+      });
+    }
+
+    // Cómo estaba la compra antes de editarla, para la auditoría
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    // Cantidades y precios que tiene hoy la compra, por producto
+    const detalleActual = await client.query(
+      `SELECT producto_id, SUM(cantidad) AS cantidad, MAX(precio_unitario) AS precio_unitario
+       FROM detalle_compra
+       WHERE compra_id = $1
+       GROUP BY producto_id`,
+      [id]
+    );
+    const cantidadesAnteriores = new Map();
+    const preciosAnteriores = new Map();
+    for (const fila of detalleActual.rows) {
+      cantidadesAnteriores.set(fila.producto_id, parseInt(fila.cantidad));
+      preciosAnteriores.set(fila.producto_id, fila.precio_unitario);
+    }
+
+    // Unidades de stock antes y después: los combos que ya estaban conservan su receta y los nuevos usan la actual
+    const recetasAnteriores = await obtenerRecetasCompra(client, id);
+    const recetasNuevas = new Map(recetasAnteriores);
+    const idsAgregados = [...cantidadesNuevas.keys()].filter(productoId => !cantidadesAnteriores.has(productoId));
+    for (const [comboId, componentes] of await obtenerRecetasCombos(client, idsAgregados)) {
+      recetasNuevas.set(comboId, componentes);
+    }
+    const unidadesAnteriores = unidadesDeStock(cantidadesAnteriores, recetasAnteriores);
+    const unidadesNuevas = unidadesDeStock(cantidadesNuevas, recetasNuevas);
+
+    // Bloqueamos todos los productos involucrados (siempre en el mismo orden para evitar deadlocks)
+    const idsInvolucrados = [...new Set([
+      ...cantidadesAnteriores.keys(), ...cantidadesNuevas.keys(), ...unidadesAnteriores.keys(), ...unidadesNuevas.keys()
+    ])].sort((a, b) => a - b);
+    const productosDb = await client.query(
+      'SELECT id, nombre, precio, stock, activo, es_combo FROM productos WHERE id = ANY($1::int[]) ORDER BY id FOR UPDATE',
+      [idsInvolucrados]
+    );
+    const productosPorId = new Map(productosDb.rows.map(p => [p.id, p]));
+
+    // Validamos los productos de la compra antes de tocar nada
+    for (const productoId of cantidadesNuevas.keys()) {
+      const producto = productosPorId.get(productoId);
+
+      if (!producto) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({
+          success: false,
+          mensaje: `Producto con ID ${productoId} no encontrado`
+        });
+      }
+
+      // Un producto que no estaba en la compra solo se puede agregar si está disponible
+      if (!cantidadesAnteriores.has(productoId) && !producto.activo) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `El producto ${producto.nombre} no está disponible`
+        });
+      }
+
+      if (producto.es_combo && !recetasNuevas.has(productoId)) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `El combo ${producto.nombre} no tiene productos cargados`
+        });
+      }
+    }
+
+    // Líneas nuevas del detalle con sus precios y el total que queda
+    const lineas = [...cantidadesNuevas].map(([productoId, cantidad]) => {
+      const precio_unitario = preciosAnteriores.has(productoId)
+        ? parseFloat(preciosAnteriores.get(productoId))
+        : parseFloat(productosPorId.get(productoId).precio);
+      return { productoId, cantidad, precio_unitario, subtotal: precio_unitario * cantidad };
+    });
+    const nuevoTotal = redondearMonto(lineas.reduce((suma, linea) => suma + linea.subtotal, 0));
+
+    // Lo cobrado no puede superar el nuevo total: la plata de más se devuelve anulando el pago
+    // (y volviéndolo a registrar por el monto correcto) o con un reembolso sin sacar los productos
+    const pagado = parseFloat(compra.rows[0].monto_pagado);
+    if (nuevoTotal < pagado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `Ya se cobraron $${pagado} y el nuevo total es $${nuevoTotal}. ` +
+          'Anulá los pagos que sobran o registrá un reembolso por la diferencia en lugar de sacar productos',
+        monto_pagado: pagado,
+        nuevoTotal
+      });
+    }
+
+    // Calculamos la diferencia de stock de cada producto (los componentes, en el caso de los combos)
+    const diferencias = new Map();
+    for (const productoId of new Set([...unidadesAnteriores.keys(), ...unidadesNuevas.keys()])) {
+      const producto = productosPorId.get(productoId);
+      const diferencia = (unidadesNuevas.get(productoId) || 0) - (unidadesAnteriores.get(productoId) || 0);
+
+      if (diferencia > 0 && producto.stock < diferencia) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `No hay suficiente stock de ${producto.nombre}. Stock disponible: ${producto.stock}`
+        });
+      }
+
+      if (diferencia !== 0) {
+        diferencias.set(productoId, diferencia);
+      }
+    }
+
+    // Ajustamos el stock: se reservan las unidades agregadas y se devuelven las quitadas
+    for (const productoId of [...diferencias.keys()].sort((a, b) => a - b)) {
+      await client.query(
+        'UPDATE productos SET stock = stock - $1 WHERE id = $2',
+        [diferencias.get(productoId), productoId]
+      );
+    }
+
+    // Reemplazamos el detalle con los precios calculados acá (y la receta de los combos que quedan)
+    await client.query('DELETE FROM detalle_compra WHERE compra_id = $1', [id]);
+    await client.query('DELETE FROM detalle_compra_componentes WHERE compra_id = $1', [id]);
+    await guardarRecetasCompra(client, id, recetasNuevas, cantidadesNuevas);
+
+    for (const linea of lineas) {
+      await client.query(
+        `INSERT INTO detalle_compra (compra_id, producto_id, cantidad, precio_unitario, subtotal)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [id, linea.productoId, linea.cantidad, linea.precio_unitario, linea.subtotal]
+      );
+    }
+
+    // Actualizar el total de la compra
+    await client.query(
+      'UPDATE compras SET total = $1 WHERE id = $2',
+      [nuevoTotal, id]
+    );
+
+    // Si con el nuevo total falta cobrar, la compra deja de estar pagada (los pagos que tenga se conservan)
+    const estadoAnterior = compra.rows[0].estado;
+    if (nuevoTotal > pagado && estadoAnterior !== 'pendiente') {
+      await actualizarEstadoCompra(client, id, 'pendiente', req.usuario.userId);
+      await registrarHistorialEstado(
+        client, id, estadoAnterior, 'pendiente', req.usuario.userId,
+        `Se editaron los productos y quedan $${redondearMonto(nuevoTotal - pagado)} por cobrar`
+      );
+    }
+
+    await registrarAuditoria(client, req, {
+      accion: 'editar_productos',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: await obtenerCompraConDetalles(client, id)
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Productos actualizados correctamente',
+      nuevoTotal: nuevoTotal
+    });
+
+    notificarCompraActualizada('compra_actualizada', id);
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al actualizar productos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al actualizar los productos'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 📊 GET /api/compras/estadisticas/ventas - Obtener estadísticas de ventas
+// Solo usuarios con permiso 'ver_compras' pueden hacer esto
+router.get('/estadisticas/ventas', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    // Las compras canceladas no cuentan como ventas
+    // Total de ventas, cuánto se cobró, cuánto falta cobrar y cuánto se devolvió (monto_neto = total - reembolsos)
+    // monto_total ya tiene restados los descuentos de cupones (monto_descuentos)
+    const totalVentas = await pool.query(
+      `SELECT COUNT(*) as total, SUM(total) as monto_total,
+              COALESCE(SUM(descuento), 0) as monto_descuentos,
+              COALESCE(SUM(monto_pagado), 0) as monto_cobrado, COALESCE(SUM(total - monto_pagado), 0) as saldo_pendiente,
+              COALESCE(SUM(monto_reembolsado), 0) as monto_reembolsado,
+              COALESCE(SUM(total - monto_reembolsado), 0) as monto_neto
+       FROM compras WHERE estado <> 'cancelado'`
+    );
+
+    // Cobrado por método de pago: se suman los pagos (una compra pagada en partes cuenta en los dos métodos)
+    // y se restan los reembolsos hechos con ese método
+    const ventasPorMetodo = await pool.query(
+      `SELECT COALESCE(pg.metodo, r.metodo) as metodo_pago,
+              COALESCE(pg.cantidad, 0) as cantidad, COALESCE(pg.cantidad_pagos, 0) as cantidad_pagos,
+              COALESCE(pg.monto, 0) as monto, COALESCE(r.monto, 0) as monto_reembolsado,
+              COALESCE(pg.monto, 0) - COALESCE(r.monto, 0) as monto_neto
+       FROM (
+         SELECT pg.metodo, COUNT(DISTINCT pg.compra_id) as cantidad, COUNT(*) as cantidad_pagos, SUM(pg.monto) as monto
+         FROM pagos pg
+         JOIN compras c ON c.id = pg.compra_id
+         WHERE c.estado <> 'cancelado' AND pg.anulado_en IS NULL
+         GROUP BY pg.metodo
+       ) pg
+       FULL JOIN (
+         SELECT r.metodo, SUM(r.monto) as monto
+         FROM reembolsos r
+         JOIN compras c ON c.id = r.compra_id
+         WHERE c.estado <> 'cancelado'
+         GROUP BY r.metodo
+       ) r ON r.metodo = pg.metodo`
+    );
+
+    // Productos más vendidos (sin las unidades que volvieron al stock con un reembolso)
+    // El monto de cada producto ya tiene restado lo que se le descontó con cupones
+    const productosMasVendidos = await pool.query(
+      `SELECT p.nombre, SUM(v.cantidad) as cantidad_vendida, SUM(v.monto) as monto_total
+       FROM (
+         SELECT dc.producto_id, dc.cantidad, dc.subtotal as monto
+         FROM detalle_compra dc
+         JOIN compras c ON dc.compra_id = c.id
+         WHERE c.estado <> 'cancelado'
+         UNION ALL
+         SELECT rd.producto_id, -rd.cantidad, -rd.cantidad * rd.precio_unitario
+         FROM reembolsos_detalle rd
+         JOIN reembolsos r ON r.id = rd.reembolso_id
+         JOIN compras c ON r.compra_id = c.id
+         WHERE c.estado <> 'cancelado'
+         UNION ALL
+         SELECT cd.producto_id, 0, -cd.monto
+         FROM compras_descuentos cd
+         JOIN compras c ON cd.compra_id = c.id
+         WHERE c.estado <> 'cancelado'
+       ) v
+       JOIN productos p ON v.producto_id = p.id
+       GROUP BY p.id, p.nombre
+       HAVING SUM(v.cantidad) > 0
+       ORDER BY cantidad_vendida DESC
+       LIMIT 10`
+    );
+
+    // Cuánto se descontó con cada cupón
+    const descuentosPorCupon = await pool.query(
+      `SELECT cd.codigo, COUNT(DISTINCT cd.compra_id) as usos, SUM(cd.monto) as monto
+       FROM compras_descuentos cd
+       JOIN compras c ON cd.compra_id = c.id
+       WHERE c.estado <> 'cancelado'
+       GROUP BY cd.codigo
+       ORDER BY monto DESC`
+    );
+
+    res.json({
+      success: true,
+      estadisticas: {
+        total_ventas: totalVentas.rows[0],
+        ventas_por_metodo: ventasPorMetodo.rows,
+        productos_mas_vendidos: productosMasVendidos.rows,
+        descuentos_por_cupon: descuentosPorCupon.rows
+      }
+    });
+
+  } catch (error) {
+    console.error('Error al obtener estadísticas:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener las estadísticas'
+    });
+  }
+});
+
+// 💵 GET /api/compras/estadisticas/vendedores - Resumen de lo cobrado por cada vendedor
+// Para la entrega de caja al cerrar el turno: suma los pagos según quién los cobró
+// Query params: fecha_desde, fecha_hasta (sobre la hora de cada pago)
+router.get('/estadisticas/vendedores', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    const { fecha_desde, fecha_hasta } = req.query;
+    const condiciones = ["c.estado <> 'cancelado'", 'pg.anulado_en IS NULL'];
+    const params = [];
+
+    if (fecha_desde) {
+      params.push(fecha_desde);
+      condiciones.push(`pg.fecha >= $${params.length}`);
+    }
+
+    if (fecha_hasta) {
+      params.push(fecha_hasta);
+      condiciones.push(`pg.fecha <= $${params.length}`);
+    }
+
+    // Los pagos cobrados antes de que se registrara quién cobró quedan en una fila sin usuario
+    const result = await pool.query(
+      `SELECT pg.usuario_id, u.username, u.nombre_completo,
+              COUNT(DISTINCT pg.compra_id)::int AS cantidad,
+              COALESCE(SUM(pg.monto) FILTER (WHERE pg.metodo = 'efectivo'), 0) AS monto_efectivo,
+              COALESCE(SUM(pg.monto) FILTER (WHERE pg.metodo = 'transferencia'), 0) AS monto_transferencia,
+              COALESCE(SUM(pg.monto), 0) AS monto_total,
+              MIN(pg.fecha) AS primer_cobro,
+              MAX(pg.fecha) AS ultimo_cobro
+       FROM pagos pg
+       JOIN compras c ON c.id = pg.compra_id
+       LEFT JOIN users u ON u.id = pg.usuario_id
+       WHERE ${condiciones.join(' AND ')}
+       GROUP BY pg.usuario_id, u.username, u.nombre_completo
+       ORDER BY monto_efectivo DESC, monto_total DESC`,
+      params
+    );
+
+    res.json({
+      success: true,
+      vendedores: result.rows.map(fila => ({
+        ...fila,
+        monto_efectivo: parseFloat(fila.monto_efectivo),
+        monto_transferencia: parseFloat(fila.monto_transferencia),
+        monto_total: parseFloat(fila.monto_total)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Error al obtener el resumen por vendedor:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener el resumen por vendedor'
+    });
+  }
+});
+
+// 🔄 PATCH /api/compras/:id/estado - Cambiar el estado de una compra
+// Solo se permiten las transiciones definidas en TRANSICIONES_ESTADO
+// Marcar pagada una compra en efectivo registra el cobro de lo que falta; volver a 'pendiente' anula los pagos
+// Body: { estado: 'pagado', nota: 'opcional' }
+router.patch('/:id/estado', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { estado, nota } = req.body;
+
+    if (!estado || !TRANSICIONES_ESTADO[estado]) {
+      return res.status(400).json({
+        success: false,
+        mensaje: `Estado inválido. Los estados posibles son: ${Object.keys(TRANSICIONES_ESTADO).join(', ')}`
+      });
+    }
+
+    // Cancelar implica devolver stock y dejar un motivo, así que tiene su propia ruta
+    if (estado === 'cancelado') {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Para cancelar una compra usá POST /api/compras/:id/cancelar con el motivo'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Bloqueamos la fila para que dos vendedores no cambien el estado al mismo tiempo
+    const actual = await client.query(
+      'SELECT id, estado, metodo_pago, verificacion_estado, total, monto_pagado, monto_reembolsado FROM compras WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const estadoActual = actual.rows[0].estado;
+
+    if (!TRANSICIONES_ESTADO[estadoActual].includes(estado)) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `No se puede pasar una compra de "${estadoActual}" a "${estado}"`,
+        transiciones_permitidas: TRANSICIONES_ESTADO[estadoActual]
+      });
+    }
+
+    // Una transferencia solo se da por pagada aprobando su comprobante
+    if (estado === 'pagado' && actual.rows[0].metodo_pago === 'transferencia' && actual.rows[0].verificacion_estado !== 'aprobado') {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La transferencia todavía no fue verificada. Aprobá el comprobante con POST /api/compras/:id/verificacion'
+      });
+    }
+
+    // Solo se puede dar por cobrado en el acto lo que se paga en efectivo: el resto se registra como pago
+    const cobrar = estadoActual === 'pendiente' && estado === 'pagado';
+    const saldo = redondearMonto(parseFloat(actual.rows[0].total) - parseFloat(actual.rows[0].monto_pagado));
+    if (cobrar && saldo > 0 && actual.rows[0].metodo_pago !== 'efectivo') {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `Falta cobrar $${saldo}. Registrá los pagos con POST /api/compras/:id/pagos`,
+        saldo
+      });
+    }
+
+    // Volver a 'pendiente' anula los pagos, y una compra con reembolsos ya devolvió parte de esa plata
+    if (estado === 'pendiente' && parseFloat(actual.rows[0].monto_reembolsado) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La compra tiene reembolsos: no puede volver a pendiente'
+      });
+    }
+
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    let pagoRegistrado = null;
+    if (cobrar && saldo > 0) {
+      pagoRegistrado = await registrarPago(client, id, { metodo: 'efectivo', monto: saldo, usuarioId: req.usuario.userId });
+    }
+
+    if (estado === 'pendiente') {
+      await anularPagos(client, id, req.usuario.userId);
+    }
+
+    const compraActualizada = await actualizarEstadoCompra(client, id, estado, req.usuario.userId);
+
+    await registrarHistorialEstado(client, id, estadoActual, estado, req.usuario.userId, nota);
+
+    await registrarAuditoria(client, req, {
+      accion: 'cambiar_estado',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: await obtenerCompraConDetalles(client, id)
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Estado actualizado correctamente',
+      compra: compraActualizada,
+      // Cobro en efectivo sin caja abierta: la plata no va a aparecer en ningún arqueo
+      aviso: pagoRegistrado && !pagoRegistrado.caja_id
+        ? 'No tenés una caja abierta: este cobro no va a quedar en ningún arqueo'
+        : undefined
+    });
+
+    notificarCompraActualizada('compra_actualizada', id);
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al actualizar estado:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al actualizar el estado de la compra'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// ❌ POST /api/compras/:id/cancelar - Cancelar una compra y devolver el stock
+// La compra queda guardada como 'cancelado' (no se borra) y deja de contar en las estadísticas
+// Si ya estaba cobrada, lo cobrado se devuelve con reembolsos (ver reembolsarAlCancelar)
+// Body: { motivo: 'Pedido duplicado' }
+router.post('/:id/cancelar', verificarAutenticacion, verificarPermiso('eliminar_compras'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const motivo = typeof req.body.motivo === 'string' ? req.body.motivo.trim() : '';
+
+    if (!motivo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Es obligatorio indicar el motivo de la cancelación'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const actual = await client.query(
+      'SELECT id, estado FROM compras WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const estadoActual = actual.rows[0].estado;
+
+    if (!TRANSICIONES_ESTADO[estadoActual].includes('cancelado')) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: estadoActual === 'cancelado'
+          ? 'La compra ya está cancelada'
+          : `No se puede cancelar una compra en estado "${estadoActual}"`
+      });
+    }
+
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    // Devolvemos al stock lo que se había descontado al comprar
+    await devolverStock(client, id);
+
+    // Y la plata que se había cobrado
+    const reembolsos = await reembolsarAlCancelar(client, id, req.usuario.userId, motivo);
+
+    const banderas = banderasDeEstado('cancelado');
+
+    const result = await client.query(
+      `UPDATE compras
+       SET estado = 'cancelado', abonado = $1, listo = $2, entregado = $3,
+           motivo_cancelacion = $4, cancelado_en = NOW()
+       WHERE id = $5
+       RETURNING ${COLUMNAS_COMPRA}`,
+      [banderas.abonado, banderas.listo, banderas.entregado, motivo, id]
+    );
+
+    await registrarHistorialEstado(client, id, estadoActual, 'cancelado', req.usuario.userId, motivo);
+
+    await registrarAuditoria(client, req, {
+      accion: 'cancelar',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: await obtenerCompraConDetalles(client, id)
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: reembolsos.length > 0
+        ? 'Compra cancelada: se devolvió el stock y se registró la devolución de lo cobrado'
+        : 'Compra cancelada y stock devuelto',
+      compra: result.rows[0],
+      reembolsos,
+      aviso: reembolsos.some(r => r.metodo === 'efectivo' && !r.caja_id)
+        ? 'No tenés una caja abierta: el efectivo devuelto no va a quedar en ningún arqueo'
+        : undefined
+    });
+
+    notificarCompraActualizada('compra_actualizada', id);
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al cancelar compra:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al cancelar la compra'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🔎 POST /api/compras/:id/verificacion - Aprobar o rechazar el comprobante de una transferencia
+// Solo usuarios con permiso 'editar_compras' pueden hacer esto
+// Body: { resultado: 'aprobado' | 'rechazado', motivo: 'El monto no coincide' }
+// Aprobar una transferencia registra el pago de lo que faltaba cobrar y pasa la compra a 'pagado'.
+// Rechazarla anula los pagos si ya estaba pagada y deja el motivo visible para el comprador.
+router.post('/:id/verificacion', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { resultado } = req.body;
+    const motivo = typeof req.body.motivo === 'string' ? req.body.motivo.trim() : '';
+
+    if (!['aprobado', 'rechazado'].includes(resultado)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El resultado debe ser "aprobado" o "rechazado"'
+      });
+    }
+
+    if (resultado === 'rechazado' && !motivo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Es obligatorio indicar el motivo del rechazo'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const actual = await client.query(
+      'SELECT id, estado, verificacion_estado, total, monto_pagado, monto_reembolsado FROM compras WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const { estado: estadoActual, verificacion_estado } = actual.rows[0];
+
+    // Se verifica el comprobante que subió el comprador al pagar por transferencia
+    // (aunque después haya pagado una parte con otro método)
+    if (!verificacion_estado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Solo se verifican las compras pagadas por transferencia'
+      });
+    }
+
+    // Un pedido que ya se está preparando (o cancelado) no se vuelve a verificar: en ese caso hay que cancelarlo
+    if (!['pendiente', 'pagado'].includes(estadoActual)) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `No se puede verificar la transferencia de una compra en estado "${estadoActual}"`
+      });
+    }
+
+    // Rechazar anula los pagos, y una compra con reembolsos ya devolvió parte de esa plata
+    if (resultado === 'rechazado' && parseFloat(actual.rows[0].monto_reembolsado) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La compra tiene reembolsos: no se puede rechazar la transferencia'
+      });
+    }
+
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    await client.query(
+      `UPDATE compras
+       SET verificacion_estado = $1, verificado_por = $2, verificado_en = NOW(), motivo_rechazo = $3
+       WHERE id = $4`,
+      [resultado, req.usuario.userId, resultado === 'rechazado' ? motivo : null, id]
+    );
+
+    // Aprobada: la transferencia cubre lo que faltaba y la compra queda pagada. Rechazada: vuelve a esperar el pago.
+    const saldo = redondearMonto(parseFloat(actual.rows[0].total) - parseFloat(actual.rows[0].monto_pagado));
+    if (resultado === 'aprobado' && saldo > 0) {
+      await registrarPago(client, id, { metodo: 'transferencia', monto: saldo, usuarioId: req.usuario.userId });
+    }
+
+    const estadoNuevo = resultado === 'aprobado' ? 'pagado' : 'pendiente';
+    if (estadoNuevo === 'pendiente' && estadoActual === 'pagado') {
+      await anularPagos(client, id, req.usuario.userId);
+    }
+    if (estadoNuevo !== estadoActual) {
+      await actualizarEstadoCompra(client, id, estadoNuevo, req.usuario.userId);
+      await registrarHistorialEstado(
+        client, id, estadoActual, estadoNuevo, req.usuario.userId,
+        resultado === 'aprobado' ? 'Transferencia verificada' : `Transferencia rechazada: ${motivo}`
+      );
+    }
+
+    const compra = await obtenerCompraConDetalles(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'verificar_transferencia',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: compra
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: resultado === 'aprobado' ? 'Transferencia aprobada' : 'Transferencia rechazada',
+      compra
+    });
+
+    notificarCompraActualizada('compra_actualizada', id);
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al verificar transferencia:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al verificar la transferencia'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 💳 GET /api/compras/:id/pagos - Pagos de una compra (incluye los anulados)
+router.get('/:id/pagos', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const compra = await pool.query('SELECT total, monto_pagado FROM compras WHERE id = $1', [id]);
+    if (compra.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const total = parseFloat(compra.rows[0].total);
+    const pagado = parseFloat(compra.rows[0].monto_pagado);
+
+    res.json({
+      success: true,
+      pagos: await obtenerPagos(pool, id),
+      total,
+      monto_pagado: pagado,
+      saldo: redondearMonto(total - pagado)
+    });
+
+  } catch (error) {
+    console.error('Error al obtener pagos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener los pagos de la compra'
+    });
+  }
+});
+
+// 💳 POST /api/compras/:id/pagos - Registrar un pago (o una parte del pago) de una compra
+// Solo usuarios con permiso 'editar_compras' pueden hacer esto
+// Acepta multipart/form-data con el campo 'comprobante' (opcional, por ejemplo la captura de una transferencia)
+// Body: { metodo: 'efectivo' | 'transferencia', monto: 5000 } (sin monto se cobra todo lo que falta)
+// Cuando los pagos cubren el total, una compra pendiente pasa a 'pagado'
+router.post('/:id/pagos', verificarAutenticacion, verificarPermiso('editar_compras'), upload.single('comprobante'), async (req, res) => {
+  const client = await pool.connect();
+  let comprobanteGuardado = null;
+
+  try {
+    const { id } = req.params;
+    const { metodo } = req.body;
+    const montoPedido = req.body.monto !== undefined && req.body.monto !== null && req.body.monto !== ''
+      ? redondearMonto(parseFloat(req.body.monto))
+      : null;
+
+    if (!METODOS_PAGO.includes(metodo)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El método de pago debe ser "efectivo" o "transferencia"'
+      });
+    }
+
+    if (montoPedido !== null && !(montoPedido > 0)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El monto debe ser un número mayor a 0'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const actual = await client.query(
+      'SELECT id, estado, total, monto_pagado FROM compras WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const estadoActual = actual.rows[0].estado;
+
+    if (estadoActual === 'cancelado') {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'No se pueden registrar pagos de una compra cancelada'
+      });
+    }
+
+    const saldo = redondearMonto(parseFloat(actual.rows[0].total) - parseFloat(actual.rows[0].monto_pagado));
+    if (saldo <= 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La compra ya está paga'
+      });
+    }
+
+    const monto = montoPedido ?? saldo;
+    if (monto > saldo) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `El pago ($${monto}) supera lo que falta cobrar ($${saldo})`
+      });
+    }
+
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    if (req.file) {
+      comprobanteGuardado = await guardarComprobante(req.file.buffer, req.file.mimetype);
+    }
+
+    const pago = await registrarPago(client, id, {
+      metodo,
+      monto,
+      usuarioId: req.usuario.userId,
+      comprobante: comprobanteGuardado
+    });
+
+    // Con este pago se completó el total: la compra queda pagada
+    const completa = monto === saldo;
+    if (completa && estadoActual === 'pendiente') {
+      await actualizarEstadoCompra(client, id, 'pagado', req.usuario.userId);
+      await registrarHistorialEstado(client, id, estadoActual, 'pagado', req.usuario.userId, 'Pago completo');
+    }
+
+    const compra = await obtenerCompraConDetalles(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'registrar_pago',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: { ...compra, pago }
+    });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      mensaje: completa ? 'Pago registrado: la compra está paga' : `Pago registrado. Falta cobrar $${redondearMonto(saldo - monto)}`,
+      pago,
+      compra,
+      aviso: pago.metodo === 'efectivo' && !pago.caja_id
+        ? 'No tenés una caja abierta: este cobro no va a quedar en ningún arqueo'
+        : undefined
+    });
+
+    notificarCompraActualizada('compra_actualizada', id);
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (comprobanteGuardado) {
+      eliminarComprobante(
+        comprobanteGuardado.comprobante_driver,
+        comprobanteGuardado.comprobante_clave,
+        comprobanteGuardado.comprobante_miniatura_clave
+      ).catch(err => console.error('No se pudo borrar el comprobante huérfano:', err));
+    }
+    console.error('Error al registrar pago:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al registrar el pago'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🚫 POST /api/compras/:id/pagos/:pagoId/anular - Anular un pago cargado por error
+// Solo usuarios con permiso 'editar_compras' pueden hacer esto
+// El pago queda guardado como anulado. Si la compra estaba pagada y deja de estar cubierta, vuelve a 'pendiente'.
+// Una compra que ya se está preparando no se toca: para devolver la plata hay que cancelarla
+router.post('/:id/pagos/:pagoId/anular', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id, pagoId } = req.params;
+
+    await client.query('BEGIN');
+
+    const actual = await client.query('SELECT id, estado, monto_reembolsado FROM compras WHERE id = $1 FOR UPDATE', [id]);
+    if (actual.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const estadoActual = actual.rows[0].estado;
+    if (!['pendiente', 'pagado'].includes(estadoActual)) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `No se pueden anular pagos de una compra en estado "${estadoActual}"`
+      });
+    }
+
+    // Lo que se devolvió con un reembolso salió de estos pagos
+    if (parseFloat(actual.rows[0].monto_reembolsado) > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La compra tiene reembolsos: no se pueden anular sus pagos'
+      });
+    }
+
+    const pago = await client.query(
+      'SELECT id, anulado_en FROM pagos WHERE id = $1 AND compra_id = $2',
+      [pagoId, id]
+    );
+    if (pago.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Pago no encontrado'
+      });
+    }
+
+    if (pago.rows[0].anulado_en) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El pago ya está anulado'
+      });
+    }
 
-      // Insertamos el detalle
-      await client.query(
-        `INSERT INTO detalle_compra (compra_id, producto_id, cantidad, precio_unitario, subtotal)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [compra.rows[0].id, producto_id, cantidad, precio_unitario, subtotal]
-      );
+    const compraAntes = await obtenerCompraConDetalles(client, id);
 
-      // Descontamos el stock
-      await client.query(
-        'UPDATE productos SET stock = stock - $1 WHERE id = $2',
-        [cantidad, producto_id]
-      );
+    await client.query(
+      'UPDATE pagos SET anulado_en = NOW(), anulado_por = $1 WHERE id = $2',
+      [req.usuario.userId, pagoId]
+    );
+    await actualizarResumenPagos(client, id);
+
+    // Sin este pago la compra ya no está cubierta: vuelve a esperar el pago
+    let compra = await obtenerCompraConDetalles(client, id);
+    if (estadoActual === 'pagado' && parseFloat(compra.saldo) > 0) {
+      await actualizarEstadoCompra(client, id, 'pendiente', req.usuario.userId);
+      await registrarHistorialEstado(client, id, estadoActual, 'pendiente', req.usuario.userId, 'Pago anulado');
+      compra = await obtenerCompraConDetalles(client, id);
     }
 
-    // Confirmamos la transacción
+    await registrarAuditoria(client, req, {
+      accion: 'anular_pago',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: { ...compra, pago_anulado: parseInt(pagoId) }
+    });
+
     await client.query('COMMIT');
 
-    res.status(201).json({
+    res.json({
       success: true,
-      mensaje: 'Compra registrada exitosamente',
-      compra: compra.rows[0]
+      mensaje: 'Pago anulado',
+      compra
     });
 
+    notificarCompraActualizada('compra_actualizada', id);
+
   } catch (error) {
-    // Si hay algún error, revertimos todo
     await client.query('ROLLBACK');
-    console.error('Error al crear compra:', error);
-    console.error('Error stack:', error.stack);
-    console.error('Error message:', error.message);
+    console.error('Error al anular pago:', error);
     res.status(500).json({
       success: false,
-      mensaje: 'Error al procesar la compra',
-      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+      mensaje: 'Error al anular el pago'
     });
   } finally {
     client.release();
   }
 });
 
-// 📋 GET /api/compras - Listar todas las compras
-// Solo usuarios con permiso 'ver_compras' pueden hacer esto
-router.get('/', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+// 🧾 GET /api/compras/:id/pagos/:pagoId/comprobante - Descargar el comprobante de un pago
+// Devuelve la imagen tal cual (no JSON), igual que el comprobante de la compra
+router.get('/:id/pagos/:pagoId/comprobante', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
   try {
-    const { fecha_desde, fecha_hasta, mesa } = req.query;
-
-    // Armamos la consulta según los filtros
-    let query = 'SELECT * FROM compras WHERE 1=1';
-    const params = [];
+    const { id, pagoId } = req.params;
 
-    if (fecha_desde) {
-      params.push(fecha_desde);
-      query += ` AND fecha >= $${params.length}`;
-    }
+    const result = await pool.query(
+      `SELECT comprobante_driver, comprobante_clave, comprobante_tipo
+       FROM pagos WHERE id = $1 AND compra_id = $2`,
+      [pagoId, id]
+    );
 
-    if (fecha_hasta) {
-      params.push(fecha_hasta);
-      query += ` AND fecha <= $${params.length}`;
-    }
+    const pago = result.rows[0];
+    const archivo = pago?.comprobante_clave
+      ? await obtenerComprobante(pago.comprobante_driver, pago.comprobante_clave)
+      : null;
 
-    if (mesa) {
-      params.push(mesa);
-      query += ` AND comprador_mesa = $${params.length}`;
+    if (!archivo) {
+      return res.status(404).json({
+        success: false,
+        mensaje: 'El pago no tiene comprobante'
+      });
     }
 
-    query += ' ORDER BY fecha DESC';
-
-    const result = await pool.query(query, params);
-
-    // Para cada compra, obtenemos sus detalles
-    const comprasConDetalles = await Promise.all(
-      result.rows.map(async (compra) => {
-        const detallesResult = await pool.query(
-          `SELECT dc.*, p.nombre as producto_nombre
-           FROM detalle_compra dc
-           JOIN productos p ON dc.producto_id = p.id
-           WHERE dc.compra_id = $1`,
-          [compra.id]
-        );
-        
-        return {
-          ...compra,
-          detalles: detallesResult.rows
-        };
-      })
-    );
-
-    res.json({
-      success: true,
-      compras: comprasConDetalles
-    });
+    enviarArchivo(req, res, archivo.contenido, pago.comprobante_tipo || archivo.tipo, `"${pago.comprobante_clave}"`);
 
   } catch (error) {
-    console.error('Error al obtener compras:', error);
+    console.error('Error al obtener comprobante del pago:', error);
     res.status(500).json({
       success: false,
-      mensaje: 'Error al obtener las compras'
+      mensaje: 'Error al obtener el comprobante'
     });
   }
 });
 
-// 🔍 GET /api/compras/:id - Obtener detalle de una compra específica
-// Solo usuarios con permiso 'ver_compras' pueden hacer esto
-router.get('/:id', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+// 💸 GET /api/compras/:id/reembolsos - Reembolsos de una compra
+// Devuelve también cuánto se puede devolver todavía y las unidades de cada producto que se pueden reponer
+router.get('/:id/reembolsos', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Obtenemos la compra
     const compra = await pool.query(
-      'SELECT * FROM compras WHERE id = $1',
+      'SELECT total, monto_pagado, monto_reembolsado FROM compras WHERE id = $1',
       [id]
     );
-
     if (compra.rows.length === 0) {
       return res.status(404).json({
         success: false,
@@ -314,252 +2839,357 @@ router.get('/:id', verificarAutenticacion, verificarPermiso('ver_compras'), asyn
       });
     }
 
-    // Obtenemos el detalle de la compra con los nombres de los productos
-    const detalle = await pool.query(
-      `SELECT dc.*, p.nombre as producto_nombre
-       FROM detalle_compra dc
-       JOIN productos p ON dc.producto_id = p.id
-       WHERE dc.compra_id = $1`,
-      [id]
-    );
+    const pagado = parseFloat(compra.rows[0].monto_pagado);
+    const reembolsado = parseFloat(compra.rows[0].monto_reembolsado);
 
     res.json({
       success: true,
-      compra: compra.rows[0],
-      detalle: detalle.rows
+      reembolsos: await obtenerReembolsos(pool, id),
+      total: parseFloat(compra.rows[0].total),
+      monto_pagado: pagado,
+      monto_reembolsado: reembolsado,
+      disponible: redondearMonto(pagado - reembolsado),
+      productos: await obtenerUnidadesReponibles(pool, id)
     });
 
   } catch (error) {
-    console.error('Error al obtener detalle de compra:', error);
+    console.error('Error al obtener reembolsos:', error);
     res.status(500).json({
       success: false,
-      mensaje: 'Error al obtener el detalle de la compra'
+      mensaje: 'Error al obtener los reembolsos de la compra'
     });
   }
 });
 
-// 🔄 PUT /api/compras/:id/productos - Actualizar productos de una compra
-// Solo usuarios con permiso 'editar_compras' pueden hacer esto
-router.put('/:id/productos', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+// 💸 POST /api/compras/:id/reembolsos - Devolver plata de una compra (todo o una parte)
+// Solo usuarios con permiso 'reembolsar_compras' pueden hacer esto
+// Body: { monto: 1500, metodo: 'efectivo' | 'transferencia', motivo: 'Faltó una empanada',
+//         reponer: [{ producto_id: 3, cantidad: 1 }] } (reponer es opcional: unidades que vuelven al stock)
+// No se puede devolver más de lo cobrado. El efectivo sale de la caja abierta de quien hace el reembolso.
+router.post('/:id/reembolsos', verificarAutenticacion, verificarPermiso('reembolsar_compras'), async (req, res) => {
   const client = await pool.connect();
-  
+
   try {
     const { id } = req.params;
-    const { productos } = req.body; // Array: [{producto_id, cantidad, precio_unitario, subtotal}]
+    const { metodo, reponer } = req.body;
+    const motivo = typeof req.body.motivo === 'string' ? req.body.motivo.trim() : '';
+    const monto = redondearMonto(parseFloat(req.body.monto));
+
+    if (!METODOS_PAGO.includes(metodo)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El método del reembolso debe ser "efectivo" o "transferencia"'
+      });
+    }
+
+    if (!(monto > 0)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El monto debe ser un número mayor a 0'
+      });
+    }
+
+    if (!motivo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Es obligatorio indicar el motivo del reembolso'
+      });
+    }
+
+    // Unificamos las unidades a reponer por producto (por si el mismo producto viene repetido)
+    const unidadesAReponer = new Map();
+    if (reponer !== undefined && reponer !== null) {
+      if (!Array.isArray(reponer)) {
+        return res.status(400).json({
+          success: false,
+          mensaje: 'reponer debe ser una lista de { producto_id, cantidad }'
+        });
+      }
+
+      for (const item of reponer) {
+        const productoId = parseInt(item?.producto_id);
+        const cantidad = Number(item?.cantidad);
+
+        if (!Number.isInteger(productoId) || !Number.isInteger(cantidad) || cantidad < 1) {
+          return res.status(400).json({
+            success: false,
+            mensaje: 'Cada producto a reponer debe tener un producto_id y una cantidad entera mayor a 0'
+          });
+        }
 
-    // Validar que exista la compra
-    const compraExiste = await client.query('SELECT id FROM compras WHERE id = $1', [id]);
-    if (compraExiste.rows.length === 0) {
+        unidadesAReponer.set(productoId, (unidadesAReponer.get(productoId) || 0) + cantidad);
+      }
+    }
+
+    await client.query('BEGIN');
+
+    const actual = await client.query(
+      'SELECT id, estado, monto_pagado, monto_reembolsado FROM compras WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+
+    if (actual.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         mensaje: 'Compra no encontrada'
       });
     }
 
-    // Validar que se envíen productos
-    if (!productos || productos.length === 0) {
+    const estadoActual = actual.rows[0].estado;
+
+    // Una compra pendiente todavía no se cobró, y una cancelada ya devolvió todo
+    if (!ESTADOS_REEMBOLSABLES.includes(estadoActual)) {
+      await client.query('ROLLBACK');
       return res.status(400).json({
         success: false,
-        mensaje: 'Debe enviar al menos un producto'
+        mensaje: `No se puede reembolsar una compra en estado "${estadoActual}"`
       });
     }
 
-    await client.query('BEGIN');
+    const disponible = redondearMonto(
+      parseFloat(actual.rows[0].monto_pagado) - parseFloat(actual.rows[0].monto_reembolsado)
+    );
+    if (monto > disponible) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `El reembolso ($${monto}) supera lo cobrado que queda por devolver ($${disponible})`,
+        disponible
+      });
+    }
 
-    // Eliminar todos los productos existentes de esta compra
-    await client.query('DELETE FROM detalle_compra WHERE compra_id = $1', [id]);
+    // Solo se reponen unidades que estaban en la compra y que no se repusieron antes
+    const unidades = new Map((await obtenerUnidadesReponibles(client, id)).map(fila => [fila.producto_id, fila]));
+    for (const [productoId, cantidad] of unidadesAReponer) {
+      const fila = unidades.get(productoId);
 
-    // Insertar los productos actualizados y calcular el nuevo total
-    let nuevoTotal = 0;
-    
-    for (const prod of productos) {
-      // Validar que el producto exista
-      const productoExiste = await client.query('SELECT id FROM productos WHERE id = $1', [prod.producto_id]);
-      if (productoExiste.rows.length === 0) {
-        throw new Error(`Producto con ID ${prod.producto_id} no encontrado`);
+      if (!fila) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `El producto con ID ${productoId} no está en la compra`
+        });
       }
 
+      if (cantidad > fila.cantidad - fila.repuestas) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `Solo quedan ${fila.cantidad - fila.repuestas} unidades de ${fila.producto_nombre} para devolver al stock`
+        });
+      }
+    }
+
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    // El efectivo sale de la caja abierta de quien devuelve la plata (el FOR SHARE espera un cierre en curso)
+    let cajaId = null;
+    if (metodo === 'efectivo') {
+      const caja = await client.query(
+        'SELECT id FROM cajas WHERE usuario_id = $1 AND cerrada_en IS NULL FOR SHARE',
+        [req.usuario.userId]
+      );
+      cajaId = caja.rows[0]?.id || null;
+    }
+
+    const result = await client.query(
+      `INSERT INTO reembolsos (compra_id, metodo, monto, motivo, usuario_id, caja_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [id, metodo, monto, motivo, req.usuario.userId, cajaId]
+    );
+    const reembolsoId = result.rows[0].id;
+
+    for (const [productoId, cantidad] of unidadesAReponer) {
       await client.query(
-        `INSERT INTO detalle_compra (compra_id, producto_id, cantidad, precio_unitario, subtotal)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [id, prod.producto_id, prod.cantidad, prod.precio_unitario, prod.subtotal]
+        `INSERT INTO reembolsos_detalle (reembolso_id, producto_id, cantidad, precio_unitario)
+         VALUES ($1, $2, $3, $4)`,
+        [reembolsoId, productoId, cantidad, unidades.get(productoId).precio_unitario]
       );
-      
-      nuevoTotal += parseFloat(prod.subtotal);
     }
 
-    // Actualizar el total de la compra
+    // Devolvemos las unidades al stock (un combo devuelve los componentes con los que se vendió)
+    // siempre en el mismo orden para evitar deadlocks
+    const stockAReponer = unidadesDeStock(unidadesAReponer, await obtenerRecetasCompra(client, id));
+    for (const productoId of [...stockAReponer.keys()].sort((a, b) => a - b)) {
+      await client.query('UPDATE productos SET stock = stock + $1 WHERE id = $2', [stockAReponer.get(productoId), productoId]);
+    }
+
     await client.query(
-      'UPDATE compras SET total = $1 WHERE id = $2',
-      [nuevoTotal, id]
+      'UPDATE compras SET monto_reembolsado = monto_reembolsado + $1 WHERE id = $2',
+      [monto, id]
     );
 
+    const reembolso = (await client.query(
+      `SELECT ${COLUMNAS_REEMBOLSO} FROM reembolsos r WHERE r.id = $1`,
+      [reembolsoId]
+    )).rows[0];
+    const compra = await obtenerCompraConDetalles(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'reembolsar',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: { ...compra, reembolso }
+    });
+
     await client.query('COMMIT');
 
-    res.json({
+    res.status(201).json({
       success: true,
-      mensaje: 'Productos actualizados correctamente',
-      nuevoTotal: nuevoTotal
+      mensaje: unidadesAReponer.size > 0 ? 'Reembolso registrado y stock repuesto' : 'Reembolso registrado',
+      reembolso,
+      compra,
+      aviso: metodo === 'efectivo' && !cajaId
+        ? 'No tenés una caja abierta: este reembolso no va a quedar en ningún arqueo'
+        : undefined
     });
 
+    notificarCompraActualizada('compra_actualizada', id);
+
   } catch (error) {
     await client.query('ROLLBACK');
-    console.error('Error al actualizar productos:', error);
+    console.error('Error al registrar reembolso:', error);
     res.status(500).json({
       success: false,
-      mensaje: error.message || 'Error al actualizar los productos'
+      mensaje: 'Error al registrar el reembolso'
     });
   } finally {
     client.release();
   }
 });
 
-// 📊 GET /api/compras/estadisticas/ventas - Obtener estadísticas de ventas
-// Solo usuarios con permiso 'ver_compras' pueden hacer esto
-router.get('/estadisticas/ventas', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
+// 🕒 GET /api/compras/:id/historial - Línea de tiempo de estados de una compra
+router.get('/:id/historial', verificarAutenticacion, verificarPermiso('ver_compras'), async (req, res) => {
   try {
-    // Total de ventas
-    const totalVentas = await pool.query(
-      'SELECT COUNT(*) as total, SUM(total) as monto_total FROM compras'
-    );
-
-    // Ventas por método de pago
-    const ventasPorMetodo = await pool.query(
-      `SELECT metodo_pago, COUNT(*) as cantidad, SUM(total) as monto
-       FROM compras
-       GROUP BY metodo_pago`
-    );
+    const { id } = req.params;
 
-    // Productos más vendidos
-    const productosMasVendidos = await pool.query(
-      `SELECT p.nombre, SUM(dc.cantidad) as cantidad_vendida, SUM(dc.subtotal) as monto_total
-       FROM detalle_compra dc
-       JOIN productos p ON dc.producto_id = p.id
-       GROUP BY p.id, p.nombre
-       ORDER BY cantidad_vendida DESC
-       LIMIT 10`
+    const result = await pool.query(
+      `SELECT h.id, h.estado_anterior, h.estado_nuevo, h.nota, h.fecha,
+              u.username AS usuario, u.nombre_completo AS usuario_nombre
+       FROM compras_estado_historial h
+       LEFT JOIN users u ON u.id = h.usuario_id
+       WHERE h.compra_id = $1
+       ORDER BY h.fecha, h.id`,
+      [id]
     );
 
     res.json({
       success: true,
-      estadisticas: {
-        total_ventas: totalVentas.rows[0],
-        ventas_por_metodo: ventasPorMetodo.rows,
-        productos_mas_vendidos: productosMasVendidos.rows
-      }
+      historial: result.rows
     });
 
   } catch (error) {
-    console.error('Error al obtener estadísticas:', error);
+    console.error('Error al obtener historial de estados:', error);
     res.status(500).json({
       success: false,
-      mensaje: 'Error al obtener las estadísticas'
+      mensaje: 'Error al obtener el historial de la compra'
     });
   }
 });
 
-// 🔄 PATCH /api/compras/:id/estado - Actualizar estado de una compra (abonado/listo/entregado)
-router.patch('/:id/estado', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+// 🗑️ DELETE /api/compras/:id - Eliminar una compra
+// Borra la compra definitivamente (por ejemplo, pedidos de prueba)
+// Si sus productos no se entregaron ni se devolvieron al cancelarla, primero devuelve el stock.
+// Una compra con pagos no se puede borrar: sus pagos y reembolsos se irían con ella y el arqueo de la caja
+// quedaría mal. Para dejar registro usá POST /:id/cancelar
+router.delete('/:id', verificarAutenticacion, verificarPermiso('eliminar_compras'), async (req, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
-    const { abonado, listo, entregado } = req.body;
-
-    // Construir la consulta dinámicamente según los campos que se envíen
-    const updates = [];
-    const values = [];
-    let paramCount = 1;
 
-    if (typeof abonado === 'boolean') {
-      updates.push(`abonado = $${paramCount}`);
-      values.push(abonado);
-      paramCount++;
-    }
+    await client.query('BEGIN');
 
-    if (typeof listo === 'boolean') {
-      updates.push(`listo = $${paramCount}`);
-      values.push(listo);
-      paramCount++;
-    }
+    // Verificar que existe la compra
+    const compra = await client.query(
+      `SELECT id, estado, monto_pagado, comprobante_driver, comprobante_clave, comprobante_miniatura_clave,
+              EXISTS (SELECT 1 FROM pagos pg WHERE pg.compra_id = compras.id AND pg.anulado_en IS NULL) AS tiene_pagos
+       FROM compras WHERE id = $1 FOR UPDATE`,
+      [id]
+    );
 
-    if (typeof entregado === 'boolean') {
-      updates.push(`entregado = $${paramCount}`);
-      values.push(entregado);
-      paramCount++;
+    if (compra.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
     }
 
-    if (updates.length === 0) {
+    // Los pagos (y los reembolsos) se borran en cascada con la compra: la plata que entró o salió de una caja
+    // dejaría de figurar en su arqueo
+    if (parseFloat(compra.rows[0].monto_pagado) > 0 || compra.rows[0].tiene_pagos) {
+      await client.query('ROLLBACK');
       return res.status(400).json({
         success: false,
-        mensaje: 'Debe proporcionar al menos un campo a actualizar (abonado, listo o entregado)'
+        mensaje: compra.rows[0].estado === 'cancelado'
+          ? 'La compra tiene pagos registrados: queda guardada como cancelada para que cierre el arqueo de la caja'
+          : 'La compra tiene pagos registrados: no se puede eliminar. Usá "Cancelar pedido" (POST /api/compras/:id/cancelar), que devuelve lo cobrado'
       });
     }
 
-    values.push(id);
-    const query = `
-      UPDATE compras 
-      SET ${updates.join(', ')} 
-      WHERE id = $${paramCount}
-      RETURNING *
-    `;
+    const compraAntes = await obtenerCompraConDetalles(client, id);
 
-    const result = await pool.query(query, values);
+    // Los comprobantes de sus pagos también se borran del almacenamiento
+    const comprobantesPagos = await client.query(
+      `SELECT comprobante_driver, comprobante_clave, comprobante_miniatura_clave
+       FROM pagos WHERE compra_id = $1 AND comprobante_clave IS NOT NULL`,
+      [id]
+    );
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        mensaje: 'Compra no encontrada'
-      });
+    // Una compra cancelada ya devolvió su stock y una entregada ya no lo tiene (los productos se los llevó
+    // el comprador): solo se devuelve el de las compras que todavía no se entregaron
+    const reponerStock = !['cancelado', 'entregado'].includes(compra.rows[0].estado);
+    if (reponerStock) {
+      await devolverStock(client, id);
     }
 
-    res.json({
-      success: true,
-      mensaje: 'Estado actualizado correctamente',
-      compra: result.rows[0]
-    });
+    // Eliminar la compra (el detalle_compra se eliminará en cascada)
+    await client.query('DELETE FROM compras WHERE id = $1', [id]);
 
-  } catch (error) {
-    console.error('Error al actualizar estado:', error);
-    res.status(500).json({
-      success: false,
-      mensaje: 'Error al actualizar el estado de la compra'
+    await registrarAuditoria(client, req, {
+      accion: 'eliminar',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes
     });
-  }
-});
-
-// 🗑️ DELETE /api/compras/:id - Eliminar una compra
-router.delete('/:id', verificarAutenticacion, verificarPermiso('eliminar_compras'), async (req, res) => {
-  try {
-    const { id } = req.params;
-
-    // Verificar que existe la compra
-    const compra = await pool.query('SELECT * FROM compras WHERE id = $1', [id]);
 
-    if (compra.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        mensaje: 'Compra no encontrada'
-      });
-    }
-
-    // Eliminar la compra (el detalle_compra se eliminará en cascada)
-    await pool.query('DELETE FROM compras WHERE id = $1', [id]);
+    await client.query('COMMIT');
 
     res.json({
       success: true,
-      mensaje: 'Compra eliminada correctamente'
+      mensaje: reponerStock ? 'Compra eliminada y stock devuelto' : 'Compra eliminada correctamente'
     });
 
+    emitirEventoCompra('compra_eliminada', { id: parseInt(id) });
+
+    // El comprobante ya no lo referencia nadie: lo borramos del almacenamiento
+    for (const archivo of [compra.rows[0], ...comprobantesPagos.rows]) {
+      if (archivo.comprobante_clave) {
+        eliminarComprobante(archivo.comprobante_driver, archivo.comprobante_clave, archivo.comprobante_miniatura_clave)
+          .catch(err => console.error('No se pudo borrar el comprobante de la compra eliminada:', err));
+      }
+    }
+
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Error al eliminar compra:', error);
     res.status(500).json({
       success: false,
       mensaje: 'Error al eliminar la compra'
     });
+  } finally {
+    client.release();
   }
 });
 
 // ✏️ PUT /api/compras/:id - Actualizar información de una compra
 router.put('/:id', verificarAutenticacion, verificarPermiso('editar_compras'), async (req, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
     const { comprador_nombre, comprador_telefono, comprador_mesa } = req.body;
@@ -572,22 +3202,38 @@ router.put('/:id', verificarAutenticacion, verificarPermiso('editar_compras'), a
       });
     }
 
-    const result = await pool.query(
+    await client.query('BEGIN');
+
+    const existe = await client.query('SELECT id FROM compras WHERE id = $1 FOR UPDATE', [id]);
+    if (existe.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Compra no encontrada'
+      });
+    }
+
+    const compraAntes = await obtenerCompraConDetalles(client, id);
+
+    const result = await client.query(
       `UPDATE compras 
        SET comprador_nombre = COALESCE($1, comprador_nombre),
            comprador_telefono = COALESCE($2, comprador_telefono),
            comprador_mesa = COALESCE($3, comprador_mesa)
        WHERE id = $4
-       RETURNING *`,
+       RETURNING ${COLUMNAS_COMPRA}`,
       [comprador_nombre, comprador_telefono, comprador_mesa, id]
     );
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        mensaje: 'Compra no encontrada'
-      });
-    }
+    await registrarAuditoria(client, req, {
+      accion: 'actualizar',
+      entidad: 'compra',
+      entidadId: parseInt(id),
+      antes: compraAntes,
+      despues: await obtenerCompraConDetalles(client, id)
+    });
+
+    await client.query('COMMIT');
 
     res.json({
       success: true,
@@ -595,12 +3241,17 @@ router.put('/:id', verificarAutenticacion, verificarPermiso('editar_compras'), a
       compra: result.rows[0]
     });
 
+    notificarCompraActualizada('compra_actualizada', id);
+
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Error al actualizar compra:', error);
     res.status(500).json({
       success: false,
       mensaje: 'Error al actualizar la compra'
     });
+  } finally {
+    client.release();
   }
 });
 
@@ -0,0 +1,321 @@
+// API de cupones de descuento
+// Desde el panel se cargan los cupones: porcentaje o monto fijo, sobre toda la compra, un producto o una categoría,
+// con límite de usos y fechas de vigencia opcionales. El comprador los ingresa en el checkout y se aplican al
+// crear la compra (ver CUPONES en api/compras.js). Los usos son las compras no canceladas que usaron el cupón.
+
+const express = require('express');
+const router = express.Router();
+const pool = require('../db/connection');
+const { verificarAutenticacion, verificarPermiso } = require('../middleware/auth');
+const { registrarAuditoria } = require('../middleware/auditoria');
+
+const TIPOS_CUPON = ['porcentaje', 'monto'];
+
+// Columnas de un cupón que se devuelven en las respuestas (con cuántas veces se usó y cuánto se descontó)
+const COLUMNAS_CUPON = `cu.id, cu.codigo, cu.descripcion, cu.tipo, cu.valor, cu.producto_id, p.nombre AS producto_nombre,
+  cu.categoria, cu.usos_maximos, cu.valido_desde, cu.valido_hasta, cu.activo, cu.creado_en,
+  (SELECT COUNT(*)::int FROM compras c WHERE c.cupon_id = cu.id AND c.estado <> 'cancelado') AS usos,
+  (SELECT COALESCE(SUM(c.descuento), 0) FROM compras c WHERE c.cupon_id = cu.id AND c.estado <> 'cancelado') AS monto_descontado`;
+
+const FROM_CUPONES = `FROM cupones cu
+  LEFT JOIN productos p ON p.id = cu.producto_id`;
+
+async function obtenerCupon(db, id) {
+  const result = await db.query(`SELECT ${COLUMNAS_CUPON} ${FROM_CUPONES} WHERE cu.id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+// Convierte una fecha opcional del body: null si no viene, undefined si no es válida
+function leerFecha(valor) {
+  if (valor === undefined || valor === null || valor === '') return null;
+  const fecha = new Date(valor);
+  return isNaN(fecha.getTime()) ? undefined : fecha;
+}
+
+// Valida los datos de un cupón (crear y editar reciben el cupón completo)
+// Devuelve { cupon } con los datos limpios o { error }
+function leerCupon(body) {
+  const codigo = typeof body.codigo === 'string' ? body.codigo.trim().toUpperCase() : '';
+  if (!/^[A-Z0-9_-]{3,50}$/.test(codigo)) {
+    return { error: 'El código debe tener entre 3 y 50 caracteres (letras, números, - o _)' };
+  }
+
+  if (!TIPOS_CUPON.includes(body.tipo)) {
+    return { error: 'El tipo debe ser "porcentaje" o "monto"' };
+  }
+
+  const valor = Math.round(parseFloat(body.valor) * 100) / 100;
+  if (!(valor > 0)) {
+    return { error: 'El valor debe ser un número mayor a 0' };
+  }
+  if (body.tipo === 'porcentaje' && valor > 100) {
+    return { error: 'El porcentaje no puede ser mayor a 100' };
+  }
+
+  const productoId = body.producto_id === undefined || body.producto_id === null || body.producto_id === ''
+    ? null
+    : parseInt(body.producto_id);
+  if (productoId !== null && !Number.isInteger(productoId)) {
+    return { error: 'producto_id debe ser un número' };
+  }
+
+  const categoria = typeof body.categoria === 'string' && body.categoria.trim() ? body.categoria.trim() : null;
+  if (productoId !== null && categoria) {
+    return { error: 'Un cupón aplica a un producto o a una categoría, no a los dos' };
+  }
+
+  const usosMaximos = body.usos_maximos === undefined || body.usos_maximos === null || body.usos_maximos === ''
+    ? null
+    : Number(body.usos_maximos);
+  if (usosMaximos !== null && !(Number.isInteger(usosMaximos) && usosMaximos > 0)) {
+    return { error: 'El límite de usos debe ser un número entero mayor a 0' };
+  }
+
+  const validoDesde = leerFecha(body.valido_desde);
+  const validoHasta = leerFecha(body.valido_hasta);
+  if (validoDesde === undefined || validoHasta === undefined) {
+    return { error: 'Las fechas de vigencia no son válidas' };
+  }
+  if (validoDesde && validoHasta && validoDesde >= validoHasta) {
+    return { error: 'La fecha de inicio tiene que ser anterior a la de fin' };
+  }
+
+  return {
+    cupon: {
+      codigo,
+      descripcion: typeof body.descripcion === 'string' && body.descripcion.trim() ? body.descripcion.trim() : null,
+      tipo: body.tipo,
+      valor,
+      producto_id: productoId,
+      categoria,
+      usos_maximos: usosMaximos,
+      valido_desde: validoDesde,
+      valido_hasta: validoHasta,
+      activo: body.activo === undefined ? true : body.activo === true || body.activo === 'true'
+    }
+  };
+}
+
+// Respuesta para los errores de la base que vienen de datos inválidos (código repetido o producto inexistente)
+function responderErrorDatos(res, error) {
+  // 23505 = código repetido, 23503 = el producto no existe
+  if (error.code === '23505') {
+    res.status(409).json({
+      success: false,
+      mensaje: 'Ya existe un cupón con ese código'
+    });
+    return true;
+  }
+  if (error.code === '23503') {
+    res.status(400).json({
+      success: false,
+      mensaje: 'El producto del cupón no existe'
+    });
+    return true;
+  }
+  return false;
+}
+
+// 🎟️ GET /api/cupones - Listar los cupones (activos primero)
+router.get('/', verificarAutenticacion, verificarPermiso('gestionar_cupones'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${COLUMNAS_CUPON} ${FROM_CUPONES} ORDER BY cu.activo DESC, cu.creado_en DESC, cu.id DESC`
+    );
+
+    res.json({
+      success: true,
+      cupones: result.rows
+    });
+
+  } catch (error) {
+    console.error('Error al obtener cupones:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener los cupones'
+    });
+  }
+});
+
+// ➕ POST /api/cupones - Crear un cupón
+// Body: { codigo, descripcion, tipo: 'porcentaje' | 'monto', valor, producto_id, categoria,
+//         usos_maximos, valido_desde, valido_hasta, activo }
+router.post('/', verificarAutenticacion, verificarPermiso('gestionar_cupones'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { cupon: datos, error } = leerCupon(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: error
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const result = await client.query(
+      `INSERT INTO cupones (codigo, descripcion, tipo, valor, producto_id, categoria, usos_maximos,
+                            valido_desde, valido_hasta, activo, creado_por)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING id`,
+      [
+        datos.codigo, datos.descripcion, datos.tipo, datos.valor, datos.producto_id, datos.categoria,
+        datos.usos_maximos, datos.valido_desde, datos.valido_hasta, datos.activo, req.usuario.userId
+      ]
+    );
+
+    const cupon = await obtenerCupon(client, result.rows[0].id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'crear',
+      entidad: 'cupon',
+      entidadId: cupon.id,
+      despues: cupon
+    });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      mensaje: 'Cupón creado',
+      cupon
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (responderErrorDatos(res, error)) return;
+    console.error('Error al crear cupón:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al crear el cupón'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// ✏️ PUT /api/cupones/:id - Editar un cupón (se manda el cupón completo, igual que al crearlo)
+// Las compras que ya lo usaron conservan el descuento que se les hizo
+router.put('/:id', verificarAutenticacion, verificarPermiso('gestionar_cupones'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { cupon: datos, error } = leerCupon(req.body);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: error
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const existe = await client.query('SELECT id FROM cupones WHERE id = $1 FOR UPDATE', [id]);
+    if (existe.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Cupón no encontrado'
+      });
+    }
+
+    const cuponAntes = await obtenerCupon(client, id);
+
+    await client.query(
+      `UPDATE cupones
+       SET codigo = $1, descripcion = $2, tipo = $3, valor = $4, producto_id = $5, categoria = $6,
+           usos_maximos = $7, valido_desde = $8, valido_hasta = $9, activo = $10
+       WHERE id = $11`,
+      [
+        datos.codigo, datos.descripcion, datos.tipo, datos.valor, datos.producto_id, datos.categoria,
+        datos.usos_maximos, datos.valido_desde, datos.valido_hasta, datos.activo, id
+      ]
+    );
+
+    const cupon = await obtenerCupon(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'actualizar',
+      entidad: 'cupon',
+      entidadId: parseInt(id),
+      antes: cuponAntes,
+      despues: cupon
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Cupón actualizado',
+      cupon
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    if (responderErrorDatos(res, error)) return;
+    console.error('Error al actualizar cupón:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al actualizar el cupón'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🗑️ DELETE /api/cupones/:id - Desactivar un cupón
+// No se borra: las compras que lo usaron lo siguen mostrando
+router.delete('/:id', verificarAutenticacion, verificarPermiso('gestionar_cupones'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    const existe = await client.query('SELECT id FROM cupones WHERE id = $1 FOR UPDATE', [id]);
+    if (existe.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Cupón no encontrado'
+      });
+    }
+
+    const cuponAntes = await obtenerCupon(client, id);
+
+    await client.query('UPDATE cupones SET activo = false WHERE id = $1', [id]);
+
+    const cupon = await obtenerCupon(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'desactivar',
+      entidad: 'cupon',
+      entidadId: parseInt(id),
+      antes: cuponAntes,
+      despues: cupon
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Cupón desactivado',
+      cupon
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al desactivar cupón:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al desactivar el cupón'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
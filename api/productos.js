@@ -5,6 +5,82 @@ const express = require('express');
 const router = express.Router();
 const pool = require('../db/connection');
 const { verificarAutenticacion, verificarPermiso } = require('../middleware/auth');
+const { registrarAuditoria } = require('../middleware/auditoria');
+
+// Columnas de un producto (usan el alias p)
+// Un combo no usa productos.stock: su stock es cuántos combos se pueden armar con sus componentes
+// (0 si alguno está desactivado) y `componentes` lista qué lleva. Para los demás productos `componentes` es []
+const COLUMNAS_PRODUCTO = `p.id, p.nombre, p.categoria, p.subcategoria, p.precio, p.descripcion, p.imagen_url, p.activo,
+  p.creado_en, p.es_combo,
+  CASE WHEN p.es_combo
+    THEN (SELECT COALESCE(MIN(CASE WHEN pc.activo THEN pc.stock / cc.cantidad ELSE 0 END), 0)
+          FROM combos_componentes cc JOIN productos pc ON pc.id = cc.producto_id
+          WHERE cc.combo_id = p.id)
+    ELSE p.stock
+  END AS stock,
+  (SELECT COALESCE(json_agg(json_build_object(
+            'producto_id', cc.producto_id,
+            'nombre', pc.nombre,
+            'cantidad', cc.cantidad
+          ) ORDER BY pc.nombre), '[]'::json)
+   FROM combos_componentes cc JOIN productos pc ON pc.id = cc.producto_id
+   WHERE cc.combo_id = p.id) AS componentes`;
+
+async function obtenerProducto(db, id) {
+  const result = await db.query(`SELECT ${COLUMNAS_PRODUCTO} FROM productos p WHERE p.id = $1`, [id]);
+  return result.rows[0] || null;
+}
+
+// Valida los componentes de un combo: [{ producto_id, cantidad }]
+// Devuelve { componentes } (Map producto_id → cantidad) o { error }
+function leerComponentes(componentes) {
+  if (!Array.isArray(componentes) || componentes.length === 0) {
+    return { error: 'Un combo tiene que incluir al menos un producto' };
+  }
+
+  const cantidadesPorProducto = new Map();
+  for (const item of componentes) {
+    const productoId = parseInt(item?.producto_id);
+    const cantidad = Number(item?.cantidad);
+
+    if (!Number.isInteger(productoId) || !Number.isInteger(cantidad) || cantidad < 1) {
+      return { error: 'Cada producto del combo debe tener un producto_id y una cantidad entera mayor a 0' };
+    }
+
+    cantidadesPorProducto.set(productoId, (cantidadesPorProducto.get(productoId) || 0) + cantidad);
+  }
+  return { componentes: cantidadesPorProducto };
+}
+
+// Reemplaza los componentes de un combo (null = el producto deja de ser combo)
+// Un combo no puede incluirse a sí mismo ni a otro combo. Devuelve un mensaje de error o null
+async function guardarComponentes(client, comboId, componentes) {
+  await client.query('DELETE FROM combos_componentes WHERE combo_id = $1', [comboId]);
+  if (!componentes) return null;
+
+  const ids = [...componentes.keys()];
+  const productos = await client.query(
+    'SELECT id, nombre, es_combo FROM productos WHERE id = ANY($1::int[])',
+    [ids]
+  );
+  const productosPorId = new Map(productos.rows.map(p => [p.id, p]));
+
+  for (const [productoId, cantidad] of componentes) {
+    const producto = productosPorId.get(productoId);
+    if (!producto || productoId === Number(comboId)) {
+      return `El producto con ID ${productoId} no existe o no puede ser parte del combo`;
+    }
+    if (producto.es_combo) {
+      return `${producto.nombre} es un combo: un combo no puede incluir otro combo`;
+    }
+
+    await client.query(
+      'INSERT INTO combos_componentes (combo_id, producto_id, cantidad) VALUES ($1, $2, $3)',
+      [comboId, productoId, cantidad]
+    );
+  }
+  return null;
+}
 
 // 📋 GET /api/productos - Listar todos los productos activos
 // Esta ruta es pública, cualquiera puede ver los productos
@@ -14,20 +90,20 @@ router.get('/', async (req, res) => {
     const { categoria, subcategoria } = req.query;
 
     // Armamos la consulta según los filtros
-    let query = 'SELECT * FROM productos WHERE activo = true';
+    let query = `SELECT ${COLUMNAS_PRODUCTO} FROM productos p WHERE p.activo = true`;
     const params = [];
 
     if (categoria) {
       params.push(categoria);
-      query += ` AND categoria = $${params.length}`;
+      query += ` AND p.categoria = $${params.length}`;
     }
 
     if (subcategoria) {
       params.push(subcategoria);
-      query += ` AND subcategoria = $${params.length}`;
+      query += ` AND p.subcategoria = $${params.length}`;
     }
 
-    query += ' ORDER BY categoria, subcategoria, nombre';
+    query += ' ORDER BY p.categoria, p.subcategoria, p.nombre';
 
     const result = await pool.query(query, params);
 
@@ -68,20 +144,20 @@ router.get('/admin/all', verificarAutenticacion, async (req, res) => {
     const { categoria, subcategoria } = req.query;
 
     // Armamos la consulta según los filtros (SIN filtrar por activo)
-    let query = 'SELECT * FROM productos WHERE 1=1';
+    let query = `SELECT ${COLUMNAS_PRODUCTO} FROM productos p WHERE 1=1`;
     const params = [];
 
     if (categoria) {
       params.push(categoria);
-      query += ` AND categoria = $${params.length}`;
+      query += ` AND p.categoria = $${params.length}`;
     }
 
     if (subcategoria) {
       params.push(subcategoria);
-      query += ` AND subcategoria = $${params.length}`;
+      query += ` AND p.subcategoria = $${params.length}`;
     }
 
-    query += ' ORDER BY activo DESC, categoria, subcategoria, nombre';
+    query += ' ORDER BY p.activo DESC, p.categoria, p.subcategoria, p.nombre';
 
     const result = await pool.query(query, params);
 
@@ -106,12 +182,9 @@ router.get('/:id', async (req, res) => {
   try {
     const { id } = req.params;
 
-    const result = await pool.query(
-      'SELECT * FROM productos WHERE id = $1',
-      [id]
-    );
+    const producto = await obtenerProducto(pool, id);
 
-    if (result.rows.length === 0) {
+    if (!producto) {
       return res.status(404).json({
         success: false,
         mensaje: 'Producto no encontrado'
@@ -120,7 +193,7 @@ router.get('/:id', async (req, res) => {
 
     res.json({
       success: true,
-      producto: result.rows[0]
+      producto
     });
 
   } catch (error) {
@@ -134,9 +207,13 @@ router.get('/:id', async (req, res) => {
 
 // ➕ POST /api/productos - Crear un nuevo producto
 // Solo usuarios con permiso 'gestionar_productos' pueden hacer esto
+// Para crear un combo: es_combo = true y componentes = [{ producto_id, cantidad }] (el stock se ignora)
 router.post('/', verificarAutenticacion, verificarPermiso('gestionar_productos'), async (req, res) => {
+  const client = await pool.connect();
+
   try {
-    const { nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo } = req.body;
+    const { nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo, es_combo, componentes } = req.body;
+    const esCombo = es_combo === true || es_combo === 'true';
 
     // Logging para debug de categoria/subcategoria
     console.log('POST /api/productos - Datos recibidos:', {
@@ -155,23 +232,67 @@ router.post('/', verificarAutenticacion, verificarPermiso('gestionar_productos')
       });
     }
 
-    // Insertamos el producto con la URL de imagen directamente
-    const result = await pool.query(
-      `INSERT INTO productos (nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-       RETURNING *`,
-      [nombre, categoria, subcategoria || null, precio, stock || 0, descripcion || null, imagen_url || null, activo !== undefined ? activo : true]
+    // El stock no puede ser negativo (la base también lo rechaza)
+    if (stock !== undefined && stock !== null && stock !== '' && !(Number.isInteger(Number(stock)) && Number(stock) >= 0)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El stock debe ser un número entero mayor o igual a 0'
+      });
+    }
+
+    const componentesCombo = esCombo ? leerComponentes(componentes) : null;
+    if (componentesCombo?.error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: componentesCombo.error
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Insertamos el producto con la URL de imagen directamente (un combo no tiene stock propio)
+    const result = await client.query(
+      `INSERT INTO productos (nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo, es_combo)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [
+        nombre, categoria, subcategoria || null, precio, esCombo ? 0 : stock || 0, descripcion || null, imagen_url || null,
+        activo !== undefined ? activo : true, esCombo
+      ]
     );
 
-    console.log('✅ Producto creado con ID:', result.rows[0].id, '| Categoria:', result.rows[0].categoria, '| Subcategoria:', result.rows[0].subcategoria);
+    if (esCombo) {
+      const errorComponentes = await guardarComponentes(client, result.rows[0].id, componentesCombo.componentes);
+      if (errorComponentes) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: errorComponentes
+        });
+      }
+    }
+
+    const producto = await obtenerProducto(client, result.rows[0].id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'crear',
+      entidad: 'producto',
+      entidadId: producto.id,
+      despues: producto
+    });
+
+    await client.query('COMMIT');
+
+    console.log('✅ Producto creado con ID:', producto.id, '| Categoria:', producto.categoria, '| Subcategoria:', producto.subcategoria);
 
     res.status(201).json({
       success: true,
-      mensaje: 'Producto creado exitosamente',
-      producto: result.rows[0]
+      mensaje: esCombo ? 'Combo creado exitosamente' : 'Producto creado exitosamente',
+      producto
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Error al crear producto:', error);
     console.error('Stack trace:', error.stack);
     res.status(500).json({
@@ -179,15 +300,21 @@ router.post('/', verificarAutenticacion, verificarPermiso('gestionar_productos')
       mensaje: 'Error al crear el producto',
       error: process.env.NODE_ENV === 'development' ? error.message : undefined
     });
+  } finally {
+    client.release();
   }
 });
 
 // ✏️ PUT /api/productos/:id - Actualizar un producto
 // Solo usuarios con permiso 'gestionar_productos' pueden hacer esto
+// es_combo y componentes son opcionales: si no vienen, el producto sigue como estaba. Cambiar los componentes
+// de un combo no afecta a las compras que ya lo incluyen (cada compra guarda con qué se vendió)
 router.put('/:id', verificarAutenticacion, verificarPermiso('gestionar_productos'), async (req, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
-    const { nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo } = req.body;
+    const { nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo, es_combo, componentes } = req.body;
 
     console.log('📝 PUT /api/productos/:id - Datos recibidos:', { 
       id, 
@@ -198,44 +325,113 @@ router.put('/:id', verificarAutenticacion, verificarPermiso('gestionar_productos
       imagen_url: imagen_url ? 'SÍ' : 'NO'
     });
 
-    // Verificamos que el producto existe
-    const productoExiste = await pool.query(
-      'SELECT id FROM productos WHERE id = $1',
+    // El stock no puede ser negativo (la base también lo rechaza)
+    if (stock !== undefined && stock !== null && stock !== '' && !(Number.isInteger(Number(stock)) && Number(stock) >= 0)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El stock debe ser un número entero mayor o igual a 0'
+      });
+    }
+
+    const componentesCombo = componentes !== undefined ? leerComponentes(componentes) : null;
+    if (componentesCombo?.error) {
+      return res.status(400).json({
+        success: false,
+        mensaje: componentesCombo.error
+      });
+    }
+
+    await client.query('BEGIN');
+
+    // Verificamos que el producto existe (y lo bloqueamos para guardar cómo estaba antes del cambio)
+    const productoExiste = await client.query(
+      'SELECT id, nombre, es_combo FROM productos WHERE id = $1 FOR UPDATE',
       [id]
     );
 
     if (productoExiste.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         mensaje: 'Producto no encontrado'
       });
     }
 
-    // Actualizamos el producto con la URL de imagen directamente
-    const result = await pool.query(
+    const eraCombo = productoExiste.rows[0].es_combo;
+    const esCombo = es_combo === undefined ? eraCombo : es_combo === true || es_combo === 'true';
+
+    if (esCombo && !eraCombo) {
+      // Un producto que ya es parte de un combo no puede ser un combo (no se arman combos de combos)
+      const enCombos = await client.query('SELECT 1 FROM combos_componentes WHERE producto_id = $1 LIMIT 1', [id]);
+      if (enCombos.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `${productoExiste.rows[0].nombre} es parte de un combo: no puede ser un combo`
+        });
+      }
+
+      if (!componentesCombo) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: 'Un combo tiene que incluir al menos un producto'
+        });
+      }
+    }
+
+    const productoAntes = await obtenerProducto(client, id);
+
+    // Actualizamos el producto con la URL de imagen directamente (un combo no tiene stock propio)
+    await client.query(
       `UPDATE productos 
        SET nombre = COALESCE($1, nombre),
            categoria = COALESCE($2, categoria),
            subcategoria = COALESCE($3, subcategoria),
            precio = COALESCE($4, precio),
-           stock = COALESCE($5, stock),
+           stock = CASE WHEN $10 THEN 0 ELSE COALESCE($5, stock) END,
            descripcion = COALESCE($6, descripcion),
            imagen_url = COALESCE($7, imagen_url),
-           activo = COALESCE($8, activo)
-       WHERE id = $9
-       RETURNING *`,
-      [nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo, id]
+           activo = COALESCE($8, activo),
+           es_combo = $10
+       WHERE id = $9`,
+      [nombre, categoria, subcategoria, precio, stock, descripcion, imagen_url, activo, id, esCombo]
     );
 
-    console.log('✅ Producto actualizado ID:', id, '| Categoria:', result.rows[0].categoria, '| Subcategoria:', result.rows[0].subcategoria);
+    // Los componentes se reemplazan si vienen en el body, y se borran si el producto deja de ser combo
+    if (esCombo ? componentesCombo : eraCombo) {
+      const errorComponentes = await guardarComponentes(client, id, esCombo ? componentesCombo.componentes : null);
+      if (errorComponentes) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: errorComponentes
+        });
+      }
+    }
+
+    const producto = await obtenerProducto(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'actualizar',
+      entidad: 'producto',
+      entidadId: producto.id,
+      antes: productoAntes,
+      despues: producto
+    });
+
+    await client.query('COMMIT');
+
+    console.log('✅ Producto actualizado ID:', id, '| Categoria:', producto.categoria, '| Subcategoria:', producto.subcategoria);
 
     res.json({
       success: true,
       mensaje: 'Producto actualizado exitosamente',
-      producto: result.rows[0]
+      producto
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('❌ Error al actualizar producto:', error);
     console.error('Stack trace:', error.stack);
     
@@ -244,6 +440,8 @@ router.put('/:id', verificarAutenticacion, verificarPermiso('gestionar_productos
       mensaje: 'Error al actualizar el producto',
       error: process.env.NODE_ENV === 'development' ? error.message : undefined
     });
+  } finally {
+    client.release();
   }
 });
 
@@ -251,16 +449,21 @@ router.put('/:id', verificarAutenticacion, verificarPermiso('gestionar_productos
 // En realidad no lo borramos, solo lo marcamos como inactivo
 // Solo usuarios con permiso 'gestionar_productos' pueden hacer esto
 router.delete('/:id', verificarAutenticacion, verificarPermiso('gestionar_productos'), async (req, res) => {
+  const client = await pool.connect();
+
   try {
     const { id } = req.params;
 
+    await client.query('BEGIN');
+
     // Verificamos que el producto existe
-    const productoExiste = await pool.query(
-      'SELECT id FROM productos WHERE id = $1',
+    const productoExiste = await client.query(
+      'SELECT * FROM productos WHERE id = $1 FOR UPDATE',
       [id]
     );
 
     if (productoExiste.rows.length === 0) {
+      await client.query('ROLLBACK');
       return res.status(404).json({
         success: false,
         mensaje: 'Producto no encontrado'
@@ -268,11 +471,21 @@ router.delete('/:id', verificarAutenticacion, verificarPermiso('gestionar_produc
     }
 
     // Lo marcamos como inactivo en lugar de eliminarlo
-    const result = await pool.query(
-      'UPDATE productos SET activo = false WHERE id = $1 RETURNING id, nombre, activo',
+    const result = await client.query(
+      'UPDATE productos SET activo = false WHERE id = $1 RETURNING *',
       [id]
     );
 
+    await registrarAuditoria(client, req, {
+      accion: 'eliminar',
+      entidad: 'producto',
+      entidadId: result.rows[0].id,
+      antes: productoExiste.rows[0],
+      despues: result.rows[0]
+    });
+
+    await client.query('COMMIT');
+
     console.log('🗑️ Producto marcado como inactivo:', {
       id: result.rows[0].id,
       nombre: result.rows[0].nombre,
@@ -285,11 +498,14 @@ router.delete('/:id', verificarAutenticacion, verificarPermiso('gestionar_produc
     });
 
   } catch (error) {
+    await client.query('ROLLBACK');
     console.error('Error al eliminar producto:', error);
     res.status(500).json({
       success: false,
       mensaje: 'Error al eliminar el producto'
     });
+  } finally {
+    client.release();
   }
 });
 
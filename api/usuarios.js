@@ -0,0 +1,739 @@
+// API de usuarios, roles y permisos
+// Acá el admin da de alta vendedores, los desactiva, les asigna roles y arma los permisos de cada rol
+// Todas las rutas requieren el permiso 'gestionar_usuarios'
+
+const express = require('express');
+const router = express.Router();
+const pool = require('../db/connection');
+const bcrypt = require('bcrypt');
+const { verificarAutenticacion, verificarPermiso } = require('../middleware/auth');
+const { registrarAuditoria } = require('../middleware/auditoria');
+const { revocarSesiones } = require('../middleware/sesiones');
+const { desactivar2fa } = require('../middleware/dosFactores');
+
+// Clave del bloqueo que serializa los cambios de usuarios y roles
+// (dos admins que se desactivan entre sí al mismo tiempo no pueden dejar el sistema sin admins)
+const BLOQUEO_GESTION_USUARIOS = 7314;
+
+// Datos de un usuario que se devuelven (nunca el hash de la contraseña ni el secreto TOTP)
+const COLUMNAS_USUARIO = 'u.id, u.username, u.nombre_completo, u.email, u.activo, u.creado_en, u.totp_activado';
+
+// Bloquea la gestión de usuarios hasta el final de la transacción
+async function bloquearGestionUsuarios(client) {
+  await client.query('SELECT pg_advisory_xact_lock($1)', [BLOQUEO_GESTION_USUARIOS]);
+}
+
+// Cuántos usuarios activos pueden seguir gestionando usuarios
+// Si un cambio deja este número en 0, nadie podría volver a entrar a esta pantalla
+async function contarAdministradores(client) {
+  const result = await client.query(
+    `SELECT COUNT(DISTINCT u.id) AS cantidad
+     FROM users u
+     JOIN user_roles ur ON ur.user_id = u.id
+     JOIN role_permisos rp ON rp.role_id = ur.role_id
+     JOIN permisos p ON p.id = rp.permiso_id
+     WHERE u.activo = true AND p.nombre = 'gestionar_usuarios'`
+  );
+  return parseInt(result.rows[0].cantidad);
+}
+
+// Obtiene un usuario con sus roles (o null si no existe)
+async function obtenerUsuario(db, id) {
+  const result = await db.query(
+    `SELECT ${COLUMNAS_USUARIO},
+            COALESCE(json_agg(json_build_object('id', r.id, 'nombre', r.nombre) ORDER BY r.nombre)
+                     FILTER (WHERE r.id IS NOT NULL), '[]') AS roles
+     FROM users u
+     LEFT JOIN user_roles ur ON ur.user_id = u.id
+     LEFT JOIN roles r ON r.id = ur.role_id
+     WHERE u.id = $1
+     GROUP BY u.id`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+// Obtiene un rol con sus permisos (o null si no existe)
+async function obtenerRol(db, id) {
+  const result = await db.query(
+    `SELECT r.id, r.nombre, r.descripcion, r.requiere_2fa,
+            COALESCE(array_agg(p.nombre ORDER BY p.nombre) FILTER (WHERE p.id IS NOT NULL), '{}') AS permisos
+     FROM roles r
+     LEFT JOIN role_permisos rp ON rp.role_id = r.id
+     LEFT JOIN permisos p ON p.id = rp.permiso_id
+     WHERE r.id = $1
+     GROUP BY r.id`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+// Valida una lista de ids de roles y devuelve los que existen
+// Devuelve un mensaje de error si la lista es inválida o algún rol no existe
+async function validarRoles(db, roles) {
+  if (!Array.isArray(roles) || roles.some(r => !Number.isInteger(Number(r)))) {
+    return { error: 'roles debe ser una lista de ids de roles' };
+  }
+  const ids = [...new Set(roles.map(Number))];
+  const existentes = await db.query('SELECT id FROM roles WHERE id = ANY($1::int[])', [ids]);
+  if (existentes.rows.length !== ids.length) {
+    return { error: 'Alguno de los roles indicados no existe' };
+  }
+  return { ids };
+}
+
+// Valida una lista de nombres de permisos y devuelve sus ids
+async function validarPermisos(db, permisos) {
+  if (!Array.isArray(permisos) || permisos.some(p => typeof p !== 'string')) {
+    return { error: 'permisos debe ser una lista de nombres de permisos' };
+  }
+  const nombres = [...new Set(permisos)];
+  const existentes = await db.query('SELECT id, nombre FROM permisos WHERE nombre = ANY($1::varchar[])', [nombres]);
+  if (existentes.rows.length !== nombres.length) {
+    const conocidos = existentes.rows.map(p => p.nombre);
+    return { error: `Permiso desconocido: ${nombres.find(n => !conocidos.includes(n))}` };
+  }
+  return { ids: existentes.rows.map(p => p.id) };
+}
+
+const MENSAJE_ULTIMO_ADMIN = 'No se puede hacer este cambio: tiene que quedar al menos un usuario activo que pueda gestionar usuarios';
+const MENSAJE_REQUIERE_2FA_INVALIDO = 'requiere_2fa debe ser true o false';
+
+// ========== ROLES Y PERMISOS ==========
+// (van antes de /:id para que "roles" y "permisos" no se tomen como un id de usuario)
+
+// 🔑 GET /api/usuarios/permisos - Listar todos los permisos que existen
+router.get('/permisos', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  try {
+    const result = await pool.query('SELECT id, nombre, descripcion FROM permisos ORDER BY nombre');
+
+    res.json({
+      success: true,
+      permisos: result.rows
+    });
+
+  } catch (error) {
+    console.error('Error al obtener permisos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener los permisos'
+    });
+  }
+});
+
+// 👥 GET /api/usuarios/roles - Listar los roles con sus permisos y cuántos usuarios tiene cada uno
+router.get('/roles', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT r.id, r.nombre, r.descripcion, r.requiere_2fa,
+              COALESCE(array_agg(DISTINCT p.nombre) FILTER (WHERE p.id IS NOT NULL), '{}') AS permisos,
+              COUNT(DISTINCT ur.user_id) AS cantidad_usuarios
+       FROM roles r
+       LEFT JOIN role_permisos rp ON rp.role_id = r.id
+       LEFT JOIN permisos p ON p.id = rp.permiso_id
+       LEFT JOIN user_roles ur ON ur.role_id = r.id
+       GROUP BY r.id
+       ORDER BY r.nombre`
+    );
+
+    res.json({
+      success: true,
+      roles: result.rows.map(r => ({ ...r, cantidad_usuarios: parseInt(r.cantidad_usuarios) }))
+    });
+
+  } catch (error) {
+    console.error('Error al obtener roles:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener los roles'
+    });
+  }
+});
+
+// ➕ POST /api/usuarios/roles - Crear un rol
+// Body: { nombre: 'cocina', descripcion: 'Ve y prepara pedidos', permisos: ['ver_compras', 'editar_compras'], requiere_2fa: false }
+router.post('/roles', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const nombre = typeof req.body.nombre === 'string' ? req.body.nombre.trim().toLowerCase() : '';
+    const { descripcion, permisos = [], requiere_2fa = false } = req.body;
+
+    if (!/^[a-z0-9_]{3,50}$/.test(nombre)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El nombre del rol debe tener entre 3 y 50 caracteres (letras minúsculas, números o _)'
+      });
+    }
+
+    if (typeof requiere_2fa !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        mensaje: MENSAJE_REQUIERE_2FA_INVALIDO
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const permisosValidos = await validarPermisos(client, permisos);
+    if (permisosValidos.error) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: permisosValidos.error
+      });
+    }
+
+    const existe = await client.query('SELECT id FROM roles WHERE nombre = $1', [nombre]);
+    if (existe.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `Ya existe un rol llamado "${nombre}"`
+      });
+    }
+
+    const rol = await client.query(
+      'INSERT INTO roles (nombre, descripcion, requiere_2fa) VALUES ($1, $2, $3) RETURNING id',
+      [nombre, descripcion || null, requiere_2fa]
+    );
+    const rolId = rol.rows[0].id;
+
+    for (const permisoId of permisosValidos.ids) {
+      await client.query('INSERT INTO role_permisos (role_id, permiso_id) VALUES ($1, $2)', [rolId, permisoId]);
+    }
+
+    const rolCreado = await obtenerRol(client, rolId);
+
+    await registrarAuditoria(client, req, {
+      accion: 'crear',
+      entidad: 'rol',
+      entidadId: rolId,
+      despues: rolCreado
+    });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      mensaje: 'Rol creado exitosamente',
+      rol: rolCreado
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al crear rol:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al crear el rol'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// ✏️ PUT /api/usuarios/roles/:id - Editar la descripción, los permisos y la exigencia de 2FA de un rol
+// Body: { descripcion: '...', permisos: ['ver_compras'], requiere_2fa: true } (permisos reemplaza la lista completa)
+// Con requiere_2fa, los usuarios del rol que no tengan verificación en dos pasos la configuran en su próximo login
+router.put('/roles/:id', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { descripcion, permisos, requiere_2fa } = req.body;
+
+    if (requiere_2fa !== undefined && typeof requiere_2fa !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        mensaje: MENSAJE_REQUIERE_2FA_INVALIDO
+      });
+    }
+
+    await client.query('BEGIN');
+    await bloquearGestionUsuarios(client);
+
+    const rolAntes = await obtenerRol(client, id);
+    if (!rolAntes) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Rol no encontrado'
+      });
+    }
+
+    if (descripcion !== undefined) {
+      await client.query('UPDATE roles SET descripcion = $1 WHERE id = $2', [descripcion || null, id]);
+    }
+
+    if (requiere_2fa !== undefined) {
+      await client.query('UPDATE roles SET requiere_2fa = $1 WHERE id = $2', [requiere_2fa, id]);
+    }
+
+    if (permisos !== undefined) {
+      const permisosValidos = await validarPermisos(client, permisos);
+      if (permisosValidos.error) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: permisosValidos.error
+        });
+      }
+
+      await client.query('DELETE FROM role_permisos WHERE role_id = $1', [id]);
+      for (const permisoId of permisosValidos.ids) {
+        await client.query('INSERT INTO role_permisos (role_id, permiso_id) VALUES ($1, $2)', [id, permisoId]);
+      }
+
+      // Sacarle gestionar_usuarios al rol de los admins no puede dejar a todos afuera
+      if (await contarAdministradores(client) === 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: MENSAJE_ULTIMO_ADMIN
+        });
+      }
+    }
+
+    const rolDespues = await obtenerRol(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'actualizar',
+      entidad: 'rol',
+      entidadId: parseInt(id),
+      antes: rolAntes,
+      despues: rolDespues
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Rol actualizado correctamente',
+      rol: rolDespues
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al actualizar rol:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al actualizar el rol'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// ========== USUARIOS ==========
+
+// 📋 GET /api/usuarios - Listar todos los usuarios (activos e inactivos) con sus roles
+router.get('/', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT ${COLUMNAS_USUARIO},
+              COALESCE(json_agg(json_build_object('id', r.id, 'nombre', r.nombre) ORDER BY r.nombre)
+                       FILTER (WHERE r.id IS NOT NULL), '[]') AS roles,
+              (SELECT COUNT(*)::integer FROM sesiones s
+               WHERE s.user_id = u.id AND s.revocada_en IS NULL AND s.expira_en > NOW()) AS sesiones_activas
+       FROM users u
+       LEFT JOIN user_roles ur ON ur.user_id = u.id
+       LEFT JOIN roles r ON r.id = ur.role_id
+       GROUP BY u.id
+       ORDER BY u.activo DESC, u.username`
+    );
+
+    res.json({
+      success: true,
+      usuarios: result.rows
+    });
+
+  } catch (error) {
+    console.error('Error al obtener usuarios:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al obtener los usuarios'
+    });
+  }
+});
+
+// ➕ POST /api/usuarios - Crear un usuario (por ejemplo, un vendedor nuevo)
+// Body: { username, password, nombre_completo, email, roles: [2] }
+router.post('/', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const username = typeof req.body.username === 'string' ? req.body.username.trim() : '';
+    const nombre_completo = typeof req.body.nombre_completo === 'string' ? req.body.nombre_completo.trim() : '';
+    const email = typeof req.body.email === 'string' && req.body.email.trim() ? req.body.email.trim() : null;
+    const { password, roles = [] } = req.body;
+
+    if (!username || !password || !nombre_completo) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'Faltan datos obligatorios: username, password y nombre_completo'
+      });
+    }
+
+    if (!/^[A-Za-z0-9_.-]{3,100}$/.test(username)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'El usuario debe tener entre 3 y 100 caracteres (letras, números, punto, guion o _)'
+      });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La contraseña debe tener al menos 6 caracteres'
+      });
+    }
+
+    await client.query('BEGIN');
+
+    const rolesValidos = await validarRoles(client, roles);
+    if (rolesValidos.error) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: rolesValidos.error
+      });
+    }
+
+    const existe = await client.query(
+      'SELECT username, email FROM users WHERE username = $1 OR (email IS NOT NULL AND email = $2)',
+      [username, email]
+    );
+    if (existe.rows.length > 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: existe.rows[0].username === username
+          ? `Ya existe el usuario "${username}"`
+          : `Ya hay un usuario con el email ${email}`
+      });
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+    const usuario = await client.query(
+      `INSERT INTO users (username, password_hash, nombre_completo, email)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id`,
+      [username, passwordHash, nombre_completo, email]
+    );
+    const usuarioId = usuario.rows[0].id;
+
+    for (const rolId of rolesValidos.ids) {
+      await client.query('INSERT INTO user_roles (user_id, role_id) VALUES ($1, $2)', [usuarioId, rolId]);
+    }
+
+    const usuarioCreado = await obtenerUsuario(client, usuarioId);
+
+    await registrarAuditoria(client, req, {
+      accion: 'crear',
+      entidad: 'usuario',
+      entidadId: usuarioId,
+      despues: usuarioCreado
+    });
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      success: true,
+      mensaje: 'Usuario creado exitosamente',
+      usuario: usuarioCreado
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al crear usuario:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al crear el usuario'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// ✏️ PUT /api/usuarios/:id - Editar datos de un usuario, activarlo/desactivarlo o blanquearle la contraseña
+// Body (todo opcional): { nombre_completo, email, activo, password }
+router.put('/:id', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { nombre_completo, email, activo, password } = req.body;
+
+    if (activo !== undefined && typeof activo !== 'boolean') {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'activo debe ser true o false'
+      });
+    }
+
+    if (password !== undefined && (typeof password !== 'string' || password.length < 6)) {
+      return res.status(400).json({
+        success: false,
+        mensaje: 'La contraseña debe tener al menos 6 caracteres'
+      });
+    }
+
+    await client.query('BEGIN');
+    await bloquearGestionUsuarios(client);
+
+    const usuarioAntes = await obtenerUsuario(client, id);
+    if (!usuarioAntes) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    if (email) {
+      const emailEnUso = await client.query('SELECT id FROM users WHERE email = $1 AND id <> $2', [email, id]);
+      if (emailEnUso.rows.length > 0) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({
+          success: false,
+          mensaje: `Ya hay un usuario con el email ${email}`
+        });
+      }
+    }
+
+    const passwordHash = password ? await bcrypt.hash(password, 10) : null;
+
+    await client.query(
+      `UPDATE users
+       SET nombre_completo = COALESCE($1, nombre_completo),
+           email = CASE WHEN $2::boolean THEN $3 ELSE email END,
+           activo = COALESCE($4, activo),
+           password_hash = COALESCE($5, password_hash)
+       WHERE id = $6`,
+      [nombre_completo || null, email !== undefined, email || null, activo ?? null, passwordHash, id]
+    );
+
+    if (activo === false && await contarAdministradores(client) === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: MENSAJE_ULTIMO_ADMIN
+      });
+    }
+
+    // Un usuario desactivado o con la contraseña blanqueada queda afuera de todas sus sesiones abiertas
+    if (activo === false || password) {
+      await revocarSesiones(client, id);
+    }
+
+    const usuarioDespues = await obtenerUsuario(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: activo === false && usuarioAntes.activo ? 'desactivar' : 'actualizar',
+      entidad: 'usuario',
+      entidadId: parseInt(id),
+      antes: usuarioAntes,
+      // La contraseña nunca se guarda, pero sí que se cambió
+      despues: password ? { ...usuarioDespues, password_blanqueada: true } : usuarioDespues
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Usuario actualizado correctamente',
+      usuario: usuarioDespues
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al actualizar usuario:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al actualizar el usuario'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🎭 PUT /api/usuarios/:id/roles - Reemplazar los roles de un usuario
+// Body: { roles: [1, 2] }
+router.put('/:id/roles', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+    const { roles } = req.body;
+
+    await client.query('BEGIN');
+    await bloquearGestionUsuarios(client);
+
+    const usuarioAntes = await obtenerUsuario(client, id);
+    if (!usuarioAntes) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    const rolesValidos = await validarRoles(client, roles);
+    if (rolesValidos.error) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: rolesValidos.error
+      });
+    }
+
+    await client.query('DELETE FROM user_roles WHERE user_id = $1', [id]);
+    for (const rolId of rolesValidos.ids) {
+      await client.query('INSERT INTO user_roles (user_id, role_id) VALUES ($1, $2)', [id, rolId]);
+    }
+
+    if (await contarAdministradores(client) === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: MENSAJE_ULTIMO_ADMIN
+      });
+    }
+
+    const usuarioDespues = await obtenerUsuario(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'cambiar_roles',
+      entidad: 'usuario',
+      entidadId: parseInt(id),
+      antes: usuarioAntes,
+      despues: usuarioDespues
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: 'Roles actualizados correctamente',
+      usuario: usuarioDespues
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al actualizar roles del usuario:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al actualizar los roles del usuario'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🚪 POST /api/usuarios/:id/cerrar-sesiones - Cerrar todas las sesiones abiertas de un usuario
+// Sus access tokens dejan de servir en la próxima petición y tiene que volver a iniciar sesión
+router.post('/:id/cerrar-sesiones', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    const usuario = await obtenerUsuario(client, id);
+    if (!usuario) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    const cantidad = await revocarSesiones(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'cerrar_sesiones',
+      entidad: 'usuario',
+      entidadId: parseInt(id),
+      despues: { ...usuario, sesiones_cerradas: cantidad }
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: `Se cerraron ${cantidad} ${cantidad === 1 ? 'sesión' : 'sesiones'} de ${usuario.username}`,
+      sesiones_cerradas: cantidad
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al cerrar las sesiones del usuario:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al cerrar las sesiones del usuario'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+// 🔓 POST /api/usuarios/:id/restablecer-2fa - Sacarle la verificación en dos pasos a un usuario
+// Para cuando perdió el teléfono y los códigos de recuperación. Si su rol la exige, la vuelve a configurar en el próximo login
+router.post('/:id/restablecer-2fa', verificarAutenticacion, verificarPermiso('gestionar_usuarios'), async (req, res) => {
+  const client = await pool.connect();
+
+  try {
+    const { id } = req.params;
+
+    await client.query('BEGIN');
+
+    const usuarioAntes = await obtenerUsuario(client, id);
+    if (!usuarioAntes) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({
+        success: false,
+        mensaje: 'Usuario no encontrado'
+      });
+    }
+
+    if (!usuarioAntes.totp_activado) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        mensaje: `${usuarioAntes.username} no tiene la verificación en dos pasos activada`
+      });
+    }
+
+    await desactivar2fa(client, id);
+    const usuarioDespues = await obtenerUsuario(client, id);
+
+    await registrarAuditoria(client, req, {
+      accion: 'restablecer_2fa',
+      entidad: 'usuario',
+      entidadId: parseInt(id),
+      antes: usuarioAntes,
+      despues: usuarioDespues
+    });
+
+    await client.query('COMMIT');
+
+    res.json({
+      success: true,
+      mensaje: `Se restableció la verificación en dos pasos de ${usuarioAntes.username}`,
+      usuario: usuarioDespues
+    });
+
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('Error al restablecer la verificación en dos pasos:', error);
+    res.status(500).json({
+      success: false,
+      mensaje: 'Error al restablecer la verificación en dos pasos'
+    });
+  } finally {
+    client.release();
+  }
+});
+
+module.exports = router;
@@ -54,7 +54,10 @@ async function crearTablas() {
       nombre_completo VARCHAR(200) NOT NULL,
       email VARCHAR(200) UNIQUE,
       activo BOOLEAN DEFAULT true,
-      creado_en TIMESTAMP DEFAULT NOW()
+      creado_en TIMESTAMP DEFAULT NOW(),
+      totp_secreto VARCHAR(64),
+      totp_activado BOOLEAN NOT NULL DEFAULT false,
+      totp_ultimo_paso BIGINT
     );
   `);
   console.log('  ✓ Tabla users');
@@ -64,7 +67,8 @@ async function crearTablas() {
     CREATE TABLE IF NOT EXISTS roles (
       id SERIAL PRIMARY KEY,
       nombre VARCHAR(50) UNIQUE NOT NULL,
-      descripcion TEXT
+      descripcion TEXT,
+      requiere_2fa BOOLEAN NOT NULL DEFAULT false
     );
   `);
   console.log('  ✓ Tabla roles');
@@ -107,35 +111,166 @@ async function crearTablas() {
       categoria VARCHAR(50) NOT NULL,
       subcategoria VARCHAR(50),
       precio DECIMAL(10, 2) NOT NULL,
-      stock INTEGER NOT NULL DEFAULT 0,
+      stock INTEGER NOT NULL DEFAULT 0 CHECK (stock >= 0),
       descripcion TEXT,
       imagen_url TEXT,
       activo BOOLEAN DEFAULT true,
+      es_combo BOOLEAN NOT NULL DEFAULT false,
       creado_en TIMESTAMP DEFAULT NOW()
     );
   `);
   console.log('  ✓ Tabla productos');
 
+  // Productos que lleva cada combo (el combo no tiene stock propio: se descuentan sus componentes)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS combos_componentes (
+      combo_id INTEGER NOT NULL REFERENCES productos(id) ON DELETE CASCADE,
+      producto_id INTEGER NOT NULL REFERENCES productos(id),
+      cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+      PRIMARY KEY (combo_id, producto_id),
+      CHECK (combo_id <> producto_id)
+    );
+  `);
+  console.log('  ✓ Tabla combos_componentes');
+
+  // Cupones de descuento (porcentaje o monto fijo sobre la compra, un producto o una categoría)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS cupones (
+      id SERIAL PRIMARY KEY,
+      codigo VARCHAR(50) NOT NULL UNIQUE,
+      descripcion TEXT,
+      tipo VARCHAR(20) NOT NULL CHECK (tipo IN ('porcentaje', 'monto')),
+      valor DECIMAL(10, 2) NOT NULL CHECK (valor > 0),
+      producto_id INTEGER REFERENCES productos(id) ON DELETE CASCADE,
+      categoria VARCHAR(50),
+      usos_maximos INTEGER CHECK (usos_maximos > 0),
+      valido_desde TIMESTAMP,
+      valido_hasta TIMESTAMP,
+      activo BOOLEAN NOT NULL DEFAULT true,
+      creado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      creado_en TIMESTAMP DEFAULT NOW(),
+      CHECK (tipo <> 'porcentaje' OR valor <= 100),
+      CHECK (producto_id IS NULL OR categoria IS NULL),
+      CHECK (valido_desde IS NULL OR valido_hasta IS NULL OR valido_desde < valido_hasta)
+    );
+  `);
+  console.log('  ✓ Tabla cupones');
+
+  // Cajas de los vendedores (apertura, retiros y arqueo al cerrar)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS cajas (
+      id SERIAL PRIMARY KEY,
+      usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      monto_inicial DECIMAL(10, 2) NOT NULL CHECK (monto_inicial >= 0),
+      abierta_en TIMESTAMP NOT NULL DEFAULT NOW(),
+      cerrada_en TIMESTAMP,
+      cerrada_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      cantidad_ventas INTEGER,
+      monto_ventas DECIMAL(10, 2),
+      monto_retiros DECIMAL(10, 2),
+      monto_reembolsos DECIMAL(10, 2),
+      monto_esperado DECIMAL(10, 2),
+      monto_contado DECIMAL(10, 2),
+      diferencia DECIMAL(10, 2),
+      conteo JSONB,
+      nota_cierre TEXT
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_cajas_abierta_usuario ON cajas(usuario_id) WHERE cerrada_en IS NULL;
+    CREATE INDEX IF NOT EXISTS idx_cajas_abierta_en ON cajas(abierta_en DESC, id DESC);
+  `);
+  console.log('  ✓ Tabla cajas');
+
   // Tabla de compras
   await pool.query(`
     CREATE TABLE IF NOT EXISTS compras (
       id SERIAL PRIMARY KEY,
       comprador_nombre VARCHAR(200) NOT NULL,
       comprador_mesa INTEGER CHECK (comprador_mesa IS NULL OR (comprador_mesa BETWEEN 1 AND 50)),
-      metodo_pago VARCHAR(20) NOT NULL CHECK (metodo_pago IN ('efectivo', 'transferencia')),
+      metodo_pago VARCHAR(20) NOT NULL CHECK (metodo_pago IN ('efectivo', 'transferencia', 'mixto')),
       comprobante_archivo TEXT,
       total DECIMAL(10, 2) NOT NULL,
       fecha TIMESTAMP DEFAULT NOW(),
-      estado VARCHAR(20) DEFAULT 'pendiente',
+      estado VARCHAR(20) NOT NULL DEFAULT 'pendiente' CHECK (estado IN ('pendiente', 'pagado', 'preparando', 'listo', 'entregado', 'cancelado')),
       abonado BOOLEAN DEFAULT false,
       listo BOOLEAN DEFAULT false,
       entregado BOOLEAN DEFAULT false,
       detalles_pedido TEXT,
-      comprador_telefono VARCHAR(50)
+      comprador_telefono VARCHAR(50),
+      token_seguimiento VARCHAR(64) UNIQUE,
+      motivo_cancelacion TEXT,
+      cancelado_en TIMESTAMP,
+      comprobante_driver VARCHAR(20),
+      comprobante_clave VARCHAR(255),
+      comprobante_tipo VARCHAR(100),
+      comprobante_miniatura_clave VARCHAR(255),
+      verificacion_estado VARCHAR(20) CHECK (verificacion_estado IS NULL OR verificacion_estado IN ('pendiente', 'aprobado', 'rechazado')),
+      verificado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      verificado_en TIMESTAMP,
+      motivo_rechazo TEXT,
+      abonado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      abonado_en TIMESTAMP,
+      listo_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      listo_en TIMESTAMP,
+      entregado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      entregado_en TIMESTAMP,
+      creado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      monto_recibido DECIMAL(10, 2),
+      monto_pagado DECIMAL(10, 2) NOT NULL DEFAULT 0,
+      monto_reembolsado DECIMAL(10, 2) NOT NULL DEFAULT 0,
+      cupon_id INTEGER REFERENCES cupones(id) ON DELETE SET NULL,
+      descuento DECIMAL(10, 2) NOT NULL DEFAULT 0
     );
   `);
   console.log('  ✓ Tabla compras');
 
+  // Pagos de cada compra (puede haber varios y con distintos métodos)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS pagos (
+      id SERIAL PRIMARY KEY,
+      compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+      metodo VARCHAR(20) NOT NULL CHECK (metodo IN ('efectivo', 'transferencia')),
+      monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0),
+      usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      caja_id INTEGER REFERENCES cajas(id) ON DELETE SET NULL,
+      comprobante_driver VARCHAR(20),
+      comprobante_clave VARCHAR(255),
+      comprobante_tipo VARCHAR(100),
+      comprobante_miniatura_clave VARCHAR(255),
+      fecha TIMESTAMP NOT NULL DEFAULT NOW(),
+      anulado_en TIMESTAMP,
+      anulado_por INTEGER REFERENCES users(id) ON DELETE SET NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_pagos_compra ON pagos(compra_id);
+    CREATE INDEX IF NOT EXISTS idx_pagos_caja ON pagos(caja_id);
+    CREATE INDEX IF NOT EXISTS idx_pagos_usuario_fecha ON pagos(usuario_id, fecha);
+  `);
+  console.log('  ✓ Tabla pagos');
+
+  // Retiros de efectivo de una caja
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS cajas_retiros (
+      id SERIAL PRIMARY KEY,
+      caja_id INTEGER NOT NULL REFERENCES cajas(id) ON DELETE CASCADE,
+      monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0),
+      motivo TEXT NOT NULL,
+      usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      fecha TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_cajas_retiros_caja ON cajas_retiros(caja_id);
+  `);
+  console.log('  ✓ Tabla cajas_retiros');
+
+  // Archivos de comprobantes guardados con el driver "postgres" (ver storage/)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS archivos_comprobantes (
+      clave VARCHAR(255) PRIMARY KEY,
+      contenido BYTEA NOT NULL,
+      tipo VARCHAR(100) NOT NULL,
+      creado_en TIMESTAMP DEFAULT NOW()
+    );
+  `);
+  console.log('  ✓ Tabla archivos_comprobantes');
+
   // Tabla de detalle de compras (qué productos llevó en cada compra)
   await pool.query(`
     CREATE TABLE IF NOT EXISTS detalle_compra (
@@ -149,6 +284,175 @@ async function crearTablas() {
   `);
   console.log('  ✓ Tabla detalle_compra');
 
+  // Receta con la que se vendió cada combo de una compra (para reponer lo mismo que se descontó)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS detalle_compra_componentes (
+      compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+      combo_id INTEGER NOT NULL REFERENCES productos(id),
+      producto_id INTEGER NOT NULL REFERENCES productos(id),
+      cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+      PRIMARY KEY (compra_id, combo_id, producto_id)
+    );
+  `);
+  console.log('  ✓ Tabla detalle_compra_componentes');
+
+  // Reembolsos de compras y las unidades que volvieron al stock con cada uno
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS reembolsos (
+      id SERIAL PRIMARY KEY,
+      compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+      metodo VARCHAR(20) NOT NULL CHECK (metodo IN ('efectivo', 'transferencia')),
+      monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0),
+      motivo TEXT NOT NULL,
+      usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      caja_id INTEGER REFERENCES cajas(id) ON DELETE SET NULL,
+      fecha TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_reembolsos_compra ON reembolsos(compra_id);
+    CREATE INDEX IF NOT EXISTS idx_reembolsos_caja ON reembolsos(caja_id);
+
+    CREATE TABLE IF NOT EXISTS reembolsos_detalle (
+      id SERIAL PRIMARY KEY,
+      reembolso_id INTEGER NOT NULL REFERENCES reembolsos(id) ON DELETE CASCADE,
+      producto_id INTEGER NOT NULL REFERENCES productos(id),
+      cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+      precio_unitario DECIMAL(10, 2) NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_reembolsos_detalle_reembolso ON reembolsos_detalle(reembolso_id);
+  `);
+  console.log('  ✓ Tabla reembolsos');
+
+  // Descuento de cada producto de una compra hecha con cupón
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS compras_descuentos (
+      id SERIAL PRIMARY KEY,
+      compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+      cupon_id INTEGER REFERENCES cupones(id) ON DELETE SET NULL,
+      codigo VARCHAR(50) NOT NULL,
+      producto_id INTEGER NOT NULL REFERENCES productos(id),
+      monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0)
+    );
+    CREATE INDEX IF NOT EXISTS idx_compras_descuentos_compra ON compras_descuentos(compra_id);
+  `);
+  console.log('  ✓ Tabla compras_descuentos');
+
+  // Historial de cambios de estado de cada compra (quién y cuándo)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS compras_estado_historial (
+      id SERIAL PRIMARY KEY,
+      compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+      estado_anterior VARCHAR(20),
+      estado_nuevo VARCHAR(20) NOT NULL,
+      usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      nota TEXT,
+      fecha TIMESTAMP DEFAULT NOW()
+    );
+  `);
+  console.log('  ✓ Tabla compras_estado_historial');
+
+  // Claves de idempotencia de POST /api/compras y /mostrador (evitan compras duplicadas por reintentos)
+  // Cada clave vale dentro de su ruta y, en el mostrador, del vendedor que la mandó
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS compras_idempotencia (
+      id SERIAL PRIMARY KEY,
+      ruta VARCHAR(20) NOT NULL DEFAULT 'publica',
+      usuario_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+      clave VARCHAR(100) NOT NULL,
+      compra_id INTEGER REFERENCES compras(id) ON DELETE CASCADE,
+      estado_http INTEGER,
+      respuesta JSONB,
+      creado_en TIMESTAMP DEFAULT NOW()
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_compras_idempotencia_clave
+      ON compras_idempotencia (ruta, COALESCE(usuario_id, 0), clave);
+  `);
+  console.log('  ✓ Tabla compras_idempotencia');
+
+  // Auditoría: quién hizo cada cambio administrativo y cómo estaban los datos antes y después
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS auditoria (
+      id SERIAL PRIMARY KEY,
+      usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      usuario_nombre VARCHAR(100),
+      accion VARCHAR(50) NOT NULL,
+      entidad VARCHAR(50) NOT NULL,
+      entidad_id INTEGER,
+      datos_anteriores JSONB,
+      datos_nuevos JSONB,
+      ip VARCHAR(64),
+      fecha TIMESTAMP DEFAULT NOW()
+    );
+  `);
+  console.log('  ✓ Tabla auditoria');
+
+  // Sesiones del panel: un refresh token (guardado como hash) por cada inicio de sesión
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS sesiones (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+      creado_en TIMESTAMP DEFAULT NOW(),
+      ultimo_uso TIMESTAMP DEFAULT NOW(),
+      expira_en TIMESTAMP NOT NULL,
+      revocada_en TIMESTAMP,
+      ip VARCHAR(64),
+      user_agent VARCHAR(255)
+    );
+    CREATE INDEX IF NOT EXISTS idx_sesiones_usuario ON sesiones(user_id);
+  `);
+  console.log('  ✓ Tabla sesiones');
+
+  // Intentos de login (para frenar ataques de fuerza bruta y que el admin los vea)
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS intentos_login (
+      id SERIAL PRIMARY KEY,
+      username VARCHAR(100) NOT NULL,
+      user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      ip VARCHAR(64),
+      exitoso BOOLEAN NOT NULL,
+      motivo VARCHAR(30) NOT NULL,
+      fecha TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_intentos_login_username ON intentos_login(LOWER(username), fecha DESC);
+    CREATE INDEX IF NOT EXISTS idx_intentos_login_ip ON intentos_login(ip, fecha DESC);
+    CREATE INDEX IF NOT EXISTS idx_intentos_login_fecha ON intentos_login(fecha DESC);
+  `);
+  console.log('  ✓ Tabla intentos_login');
+
+  // Códigos de recuperación de la verificación en dos pasos
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS codigos_recuperacion (
+      id SERIAL PRIMARY KEY,
+      user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      codigo_hash VARCHAR(64) NOT NULL,
+      usado_en TIMESTAMP,
+      creado_en TIMESTAMP DEFAULT NOW()
+    );
+    CREATE INDEX IF NOT EXISTS idx_codigos_recuperacion_usuario ON codigos_recuperacion(user_id);
+  `);
+  console.log('  ✓ Tabla codigos_recuperacion');
+
+  // Índices para el listado paginado de compras
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_compras_fecha ON compras(fecha DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_compras_estado ON compras(estado);
+    CREATE INDEX IF NOT EXISTS idx_compras_mesa ON compras(comprador_mesa);
+    CREATE INDEX IF NOT EXISTS idx_compras_verificacion ON compras(verificacion_estado);
+    CREATE INDEX IF NOT EXISTS idx_compras_abonado_por ON compras(abonado_por, abonado_en);
+    CREATE INDEX IF NOT EXISTS idx_compras_cupon ON compras(cupon_id);
+    CREATE INDEX IF NOT EXISTS idx_detalle_compra_compra ON detalle_compra(compra_id);
+    CREATE INDEX IF NOT EXISTS idx_detalle_compra_producto ON detalle_compra(producto_id);
+  `);
+  console.log('  ✓ Índices de compras');
+
+  // Índices para filtrar la auditoría
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_auditoria_fecha ON auditoria(fecha DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_auditoria_entidad ON auditoria(entidad, entidad_id);
+    CREATE INDEX IF NOT EXISTS idx_auditoria_usuario ON auditoria(usuario_id);
+  `);
+  console.log('  ✓ Índices de auditoria');
+
   console.log('');
 }
 
@@ -185,9 +489,15 @@ async function cargarPermisos() {
     { nombre: 'ver_productos', descripcion: 'Puede ver el listado de productos' },
     { nombre: 'gestionar_productos', descripcion: 'Puede crear, editar y eliminar productos' },
     { nombre: 'ver_compras', descripcion: 'Puede ver el listado de compras' },
-    { nombre: 'crear_compra', descripcion: 'Puede registrar nuevas compras' },
+    { nombre: 'crear_compra', descripcion: 'Puede registrar ventas en el mostrador (punto de venta)' },
     { nombre: 'editar_compras', descripcion: 'Puede editar compras y actualizar estados' },
-    { nombre: 'eliminar_compras', descripcion: 'Puede eliminar compras' }
+    { nombre: 'eliminar_compras', descripcion: 'Puede eliminar compras' },
+    { nombre: 'ver_auditoria', descripcion: 'Puede ver el registro de actividad del panel' },
+    { nombre: 'gestionar_usuarios', descripcion: 'Puede crear y desactivar usuarios, asignar roles y editar los permisos de cada rol' },
+    { nombre: 'operar_caja', descripcion: 'Puede abrir y cerrar su caja y registrar retiros de efectivo' },
+    { nombre: 'supervisar_cajas', descripcion: 'Puede ver los arqueos de todas las cajas y cerrar las que quedaron abiertas' },
+    { nombre: 'reembolsar_compras', descripcion: 'Puede registrar reembolsos de compras y devolver productos al stock' },
+    { nombre: 'gestionar_cupones', descripcion: 'Puede crear, editar y desactivar cupones de descuento' }
   ];
 
   for (const permiso of permisos) {
@@ -312,7 +622,36 @@ async function cargarProductos() {
     );
   }
 
-  console.log(`  ✓ ${productos.length} productos cargados`);
+  // Combos: se arman con los productos de arriba (por nombre) y no tienen stock propio
+  const combos = [
+    {
+      nombre: 'Combo café con leche y medialunas', categoria: 'merienda', subcategoria: 'combos', precio: 3500,
+      componentes: [['Café con leche', 1], ['Medialunas (3 unidades)', 1]]
+    },
+    {
+      nombre: 'Combo pizza y gaseosa', categoria: 'cena', subcategoria: 'combos', precio: 6500,
+      componentes: [['Pizza individual', 1], ['Gaseosa (1.5L)', 1]]
+    }
+  ];
+
+  for (const combo of combos) {
+    const result = await pool.query(
+      `INSERT INTO productos (nombre, categoria, subcategoria, precio, stock, es_combo)
+       VALUES ($1, $2, $3, $4, 0, true)
+       RETURNING id`,
+      [combo.nombre, combo.categoria, combo.subcategoria, combo.precio]
+    );
+
+    for (const [nombre, cantidad] of combo.componentes) {
+      await pool.query(
+        `INSERT INTO combos_componentes (combo_id, producto_id, cantidad)
+         SELECT $1, id, $2 FROM productos WHERE nombre = $3`,
+        [result.rows[0].id, cantidad, nombre]
+      );
+    }
+  }
+
+  console.log(`  ✓ ${productos.length} productos y ${combos.length} combos cargados`);
   console.log('');
 }
 
@@ -0,0 +1,47 @@
+-- Atribución de vendedores
+-- Cada compra guarda qué usuario la marcó como abonada (cobró), lista y entregada, y cuándo.
+-- Sirve para el resumen de caja por vendedor y el filtro "mis pedidos" del panel al cerrar el turno.
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS abonado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS abonado_en TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS listo_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS listo_en TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS entregado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS entregado_en TIMESTAMP;
+
+-- Las compras que ya pasaron por esos estados toman el usuario del último cambio registrado en el historial
+UPDATE compras c
+SET abonado_por = h.usuario_id, abonado_en = h.fecha
+FROM (
+  SELECT DISTINCT ON (compra_id) compra_id, usuario_id, fecha
+  FROM compras_estado_historial
+  WHERE estado_nuevo = 'pagado'
+  ORDER BY compra_id, fecha DESC, id DESC
+) h
+WHERE h.compra_id = c.id AND c.abonado = true AND c.abonado_en IS NULL;
+
+UPDATE compras c
+SET listo_por = h.usuario_id, listo_en = h.fecha
+FROM (
+  SELECT DISTINCT ON (compra_id) compra_id, usuario_id, fecha
+  FROM compras_estado_historial
+  WHERE estado_nuevo = 'listo'
+  ORDER BY compra_id, fecha DESC, id DESC
+) h
+WHERE h.compra_id = c.id AND c.listo = true AND c.listo_en IS NULL;
+
+UPDATE compras c
+SET entregado_por = h.usuario_id, entregado_en = h.fecha
+FROM (
+  SELECT DISTINCT ON (compra_id) compra_id, usuario_id, fecha
+  FROM compras_estado_historial
+  WHERE estado_nuevo = 'entregado'
+  ORDER BY compra_id, fecha DESC, id DESC
+) h
+WHERE h.compra_id = c.id AND c.entregado = true AND c.entregado_en IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_compras_abonado_por ON compras(abonado_por, abonado_en);
+
+COMMENT ON COLUMN compras.abonado_por IS 'Usuario que marcó la compra como pagada (cobró el efectivo o aprobó la transferencia)';
+COMMENT ON COLUMN compras.entregado_por IS 'Usuario que entregó el pedido';
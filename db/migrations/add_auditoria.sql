@@ -0,0 +1,30 @@
+-- Auditoría de cambios administrativos
+-- Cada creación, edición o borrado hecho desde el panel (productos, compras, usuarios)
+-- queda registrado con el usuario, la acción, la entidad y los datos antes y después del cambio.
+
+CREATE TABLE IF NOT EXISTS auditoria (
+  id SERIAL PRIMARY KEY,
+  usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  usuario_nombre VARCHAR(100),
+  accion VARCHAR(50) NOT NULL,
+  entidad VARCHAR(50) NOT NULL,
+  entidad_id INTEGER,
+  datos_anteriores JSONB,
+  datos_nuevos JSONB,
+  ip VARCHAR(64),
+  fecha TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auditoria_fecha ON auditoria(fecha DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_auditoria_entidad ON auditoria(entidad, entidad_id);
+CREATE INDEX IF NOT EXISTS idx_auditoria_usuario ON auditoria(usuario_id);
+
+-- Solo el admin puede ver la auditoría
+INSERT INTO permisos (nombre, descripcion)
+VALUES ('ver_auditoria', 'Puede ver el registro de actividad del panel')
+ON CONFLICT (nombre) DO NOTHING;
+
+INSERT INTO role_permisos (role_id, permiso_id)
+SELECT r.id, p.id FROM roles r, permisos p
+WHERE r.nombre = 'admin' AND p.nombre = 'ver_auditoria'
+ON CONFLICT DO NOTHING;
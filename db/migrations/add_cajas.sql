@@ -0,0 +1,65 @@
+-- Cajas (apertura y cierre de caja)
+-- Cada vendedor abre su caja con un monto inicial. Las compras en efectivo que marca como pagadas quedan en su caja
+-- abierta, los retiros de efectivo se registran aparte y al cerrar se cuentan los billetes: el arqueo (esperado,
+-- contado y diferencia) queda guardado para revisarlo después en el panel.
+
+CREATE TABLE IF NOT EXISTS cajas (
+  id SERIAL PRIMARY KEY,
+  usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  monto_inicial DECIMAL(10, 2) NOT NULL CHECK (monto_inicial >= 0),
+  abierta_en TIMESTAMP NOT NULL DEFAULT NOW(),
+  cerrada_en TIMESTAMP,
+  cerrada_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  cantidad_ventas INTEGER,
+  monto_ventas DECIMAL(10, 2),
+  monto_retiros DECIMAL(10, 2),
+  monto_esperado DECIMAL(10, 2),
+  monto_contado DECIMAL(10, 2),
+  diferencia DECIMAL(10, 2),
+  conteo JSONB,
+  nota_cierre TEXT
+);
+
+-- Un usuario no puede tener dos cajas abiertas a la vez
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cajas_abierta_usuario ON cajas(usuario_id) WHERE cerrada_en IS NULL;
+CREATE INDEX IF NOT EXISTS idx_cajas_abierta_en ON cajas(abierta_en DESC, id DESC);
+
+CREATE TABLE IF NOT EXISTS cajas_retiros (
+  id SERIAL PRIMARY KEY,
+  caja_id INTEGER NOT NULL REFERENCES cajas(id) ON DELETE CASCADE,
+  monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0),
+  motivo TEXT NOT NULL,
+  usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  fecha TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cajas_retiros_caja ON cajas_retiros(caja_id);
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS caja_id INTEGER REFERENCES cajas(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_compras_caja ON compras(caja_id);
+
+COMMENT ON COLUMN cajas.conteo IS 'Billetes contados al cerrar: { "denominación": cantidad }';
+COMMENT ON COLUMN cajas.diferencia IS 'monto_contado - monto_esperado (negativo = falta plata)';
+COMMENT ON COLUMN compras.caja_id IS 'Caja abierta del vendedor que cobró la compra en efectivo';
+
+-- Permisos: operar la caja propia y supervisar las de todos (ver arqueos, cerrar cajas que quedaron abiertas)
+INSERT INTO permisos (nombre, descripcion) VALUES
+  ('operar_caja', 'Puede abrir y cerrar su caja y registrar retiros de efectivo'),
+  ('supervisar_cajas', 'Puede ver los arqueos de todas las cajas y cerrar las que quedaron abiertas')
+ON CONFLICT (nombre) DO NOTHING;
+
+INSERT INTO role_permisos (role_id, permiso_id)
+SELECT r.id, p.id FROM roles r, permisos p
+WHERE r.nombre = 'admin' AND p.nombre IN ('operar_caja', 'supervisar_cajas')
+ON CONFLICT DO NOTHING;
+
+-- Quien ya puede marcar compras como pagadas también puede operar su caja
+INSERT INTO role_permisos (role_id, permiso_id)
+SELECT rp.role_id, p.id
+FROM role_permisos rp
+JOIN permisos pe ON pe.id = rp.permiso_id AND pe.nombre = 'editar_compras'
+CROSS JOIN permisos p
+WHERE p.nombre = 'operar_caja'
+ON CONFLICT DO NOTHING;
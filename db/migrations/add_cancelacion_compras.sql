@@ -0,0 +1,11 @@
+-- Cancelación de compras
+-- Una compra cancelada queda en la base como registro (estado = 'cancelado') y su stock se devuelve a productos
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS motivo_cancelacion TEXT;
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS cancelado_en TIMESTAMP;
+
+COMMENT ON COLUMN compras.motivo_cancelacion IS 'Motivo informado por el vendedor al cancelar la compra';
+COMMENT ON COLUMN compras.cancelado_en IS 'Momento en que se canceló la compra y se devolvió el stock';
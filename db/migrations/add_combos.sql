@@ -0,0 +1,28 @@
+-- Combos
+-- Un combo es un producto armado con otros productos (por ejemplo café + medialunas) que se vende a su propio precio.
+-- No tiene stock propio: al venderlo se descuentan sus componentes, y el menú lo muestra disponible mientras
+-- alcancen los componentes. Cada compra guarda la receta con la que se vendió cada combo, así cancelarla,
+-- editarla o reembolsarla repone lo mismo que se descontó aunque después cambie el combo.
+
+ALTER TABLE productos
+  ADD COLUMN IF NOT EXISTS es_combo BOOLEAN NOT NULL DEFAULT false;
+
+-- Qué lleva cada combo (un combo no puede incluir otro combo: lo valida la API)
+CREATE TABLE IF NOT EXISTS combos_componentes (
+  combo_id INTEGER NOT NULL REFERENCES productos(id) ON DELETE CASCADE,
+  producto_id INTEGER NOT NULL REFERENCES productos(id),
+  cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+  PRIMARY KEY (combo_id, producto_id),
+  CHECK (combo_id <> producto_id)
+);
+
+-- Receta con la que se vendió cada combo de una compra (cantidades por unidad de combo)
+CREATE TABLE IF NOT EXISTS detalle_compra_componentes (
+  compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+  combo_id INTEGER NOT NULL REFERENCES productos(id),
+  producto_id INTEGER NOT NULL REFERENCES productos(id),
+  cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+  PRIMARY KEY (compra_id, combo_id, producto_id)
+);
+
+COMMENT ON COLUMN productos.es_combo IS 'Los combos no usan productos.stock: se descuentan sus componentes (combos_componentes)';
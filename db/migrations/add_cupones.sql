@@ -0,0 +1,55 @@
+-- Cupones de descuento
+-- Un cupón descuenta un porcentaje o un monto fijo de toda la compra, de un producto o de una categoría,
+-- con límite de usos y fechas de vigencia opcionales. Se cargan desde el panel y el comprador los ingresa en el checkout.
+-- El descuento queda guardado en la compra por producto (compras_descuentos), así las estadísticas no lo tienen
+-- que recalcular: compras.total es lo que se cobra y compras.descuento lo que se descontó.
+
+CREATE TABLE IF NOT EXISTS cupones (
+  id SERIAL PRIMARY KEY,
+  codigo VARCHAR(50) NOT NULL UNIQUE,
+  descripcion TEXT,
+  tipo VARCHAR(20) NOT NULL CHECK (tipo IN ('porcentaje', 'monto')),
+  valor DECIMAL(10, 2) NOT NULL CHECK (valor > 0),
+  -- Alcance: un producto, una categoría o (si los dos quedan vacíos) toda la compra
+  producto_id INTEGER REFERENCES productos(id) ON DELETE CASCADE,
+  categoria VARCHAR(50),
+  usos_maximos INTEGER CHECK (usos_maximos > 0),
+  valido_desde TIMESTAMP,
+  valido_hasta TIMESTAMP,
+  activo BOOLEAN NOT NULL DEFAULT true,
+  creado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  creado_en TIMESTAMP DEFAULT NOW(),
+  CHECK (tipo <> 'porcentaje' OR valor <= 100),
+  CHECK (producto_id IS NULL OR categoria IS NULL),
+  CHECK (valido_desde IS NULL OR valido_hasta IS NULL OR valido_desde < valido_hasta)
+);
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS cupon_id INTEGER REFERENCES cupones(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS descuento DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_compras_cupon ON compras(cupon_id);
+
+-- Cuánto se descontó de cada producto de la compra
+CREATE TABLE IF NOT EXISTS compras_descuentos (
+  id SERIAL PRIMARY KEY,
+  compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+  cupon_id INTEGER REFERENCES cupones(id) ON DELETE SET NULL,
+  codigo VARCHAR(50) NOT NULL,
+  producto_id INTEGER NOT NULL REFERENCES productos(id),
+  monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_compras_descuentos_compra ON compras_descuentos(compra_id);
+
+COMMENT ON COLUMN compras.descuento IS 'Suma de compras_descuentos: el total sin descuento es total + descuento';
+
+-- Permiso para administrar los cupones (por defecto solo el admin)
+INSERT INTO permisos (nombre, descripcion) VALUES
+  ('gestionar_cupones', 'Puede crear, editar y desactivar cupones de descuento')
+ON CONFLICT (nombre) DO NOTHING;
+
+INSERT INTO role_permisos (role_id, permiso_id)
+SELECT r.id, p.id FROM roles r, permisos p
+WHERE r.nombre = 'admin' AND p.nombre = 'gestionar_cupones'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,23 @@
+-- Verificación en dos pasos (TOTP) para el panel
+-- El secreto de la app autenticadora se guarda en users; mientras totp_activado es false es un secreto
+-- pendiente (el usuario escaneó el QR pero todavía no confirmó con un código).
+-- totp_ultimo_paso evita que el mismo código de 6 dígitos se use dos veces.
+-- Ver middleware/dosFactores.js
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secreto VARCHAR(64);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_activado BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_ultimo_paso BIGINT;
+
+-- Los usuarios de un rol con requiere_2fa tienen que configurarlo en su próximo login
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS requiere_2fa BOOLEAN NOT NULL DEFAULT false;
+
+-- Códigos de recuperación (solo el hash; cada uno sirve una vez)
+CREATE TABLE IF NOT EXISTS codigos_recuperacion (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  codigo_hash VARCHAR(64) NOT NULL,
+  usado_en TIMESTAMP,
+  creado_en TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_codigos_recuperacion_usuario ON codigos_recuperacion(user_id);
@@ -0,0 +1,43 @@
+-- Máquina de estados de compras
+-- El campo estado pasa a ser la fuente de verdad (pendiente → pagado → preparando → listo → entregado, o cancelado)
+-- Los booleanos abonado/listo/entregado se siguen escribiendo desde la API, derivados del estado
+
+-- Completar el estado de las compras existentes a partir de los booleanos viejos
+UPDATE compras
+SET estado = CASE
+  WHEN entregado THEN 'entregado'
+  WHEN listo THEN 'listo'
+  WHEN abonado THEN 'pagado'
+  ELSE 'pendiente'
+END;
+
+ALTER TABLE compras
+  ALTER COLUMN estado SET NOT NULL;
+
+ALTER TABLE compras
+  DROP CONSTRAINT IF EXISTS compras_estado_check;
+
+ALTER TABLE compras
+  ADD CONSTRAINT compras_estado_check
+  CHECK (estado IN ('pendiente', 'pagado', 'preparando', 'listo', 'entregado', 'cancelado'));
+
+-- Historial de cambios de estado (quién y cuándo)
+CREATE TABLE IF NOT EXISTS compras_estado_historial (
+  id SERIAL PRIMARY KEY,
+  compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+  estado_anterior VARCHAR(20),
+  estado_nuevo VARCHAR(20) NOT NULL,
+  usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  nota TEXT,
+  fecha TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_estado_historial_compra ON compras_estado_historial(compra_id);
+
+-- Cada compra existente arranca su historial con el estado actual
+INSERT INTO compras_estado_historial (compra_id, estado_anterior, estado_nuevo, fecha)
+SELECT c.id, NULL, c.estado, c.fecha
+FROM compras c
+WHERE NOT EXISTS (SELECT 1 FROM compras_estado_historial h WHERE h.compra_id = c.id);
+
+COMMENT ON TABLE compras_estado_historial IS 'Registro de cada transición de estado de una compra y el usuario que la hizo';
@@ -0,0 +1,12 @@
+-- Gestión de usuarios, roles y permisos desde el panel
+-- Agrega el permiso que habilita GET/POST/PUT /api/usuarios y se lo da al rol admin.
+-- Los admins tienen que volver a iniciar sesión para que su token incluya el permiso nuevo.
+
+INSERT INTO permisos (nombre, descripcion)
+VALUES ('gestionar_usuarios', 'Puede crear y desactivar usuarios, asignar roles y editar los permisos de cada rol')
+ON CONFLICT (nombre) DO NOTHING;
+
+INSERT INTO role_permisos (role_id, permiso_id)
+SELECT r.id, p.id FROM roles r, permisos p
+WHERE r.nombre = 'admin' AND p.nombre = 'gestionar_usuarios'
+ON CONFLICT DO NOTHING;
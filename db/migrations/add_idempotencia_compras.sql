@@ -0,0 +1,13 @@
+-- Claves de idempotencia de POST /api/compras
+-- Guardan la respuesta de cada compra creada para repetirla si el comprador reintenta
+-- con la misma clave (conexión lenta, doble toque en "Enviar"). Se consideran vencidas a las 24 horas.
+
+CREATE TABLE IF NOT EXISTS compras_idempotencia (
+  clave VARCHAR(100) PRIMARY KEY,
+  compra_id INTEGER REFERENCES compras(id) ON DELETE CASCADE,
+  estado_http INTEGER,
+  respuesta JSONB,
+  creado_en TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_compras_idempotencia_creado ON compras_idempotencia(creado_en);
@@ -0,0 +1,21 @@
+-- Claves de idempotencia por ruta y por usuario
+-- POST /api/compras y POST /api/compras/mostrador compartían las claves: una clave repetida en una ruta
+-- devolvía la respuesta guardada de la otra (la compra de otra persona). Ahora cada clave vale dentro de su
+-- ruta ('publica' o 'mostrador') y, en el mostrador, del vendedor que la mandó.
+
+ALTER TABLE compras_idempotencia
+  ADD COLUMN IF NOT EXISTS ruta VARCHAR(20) NOT NULL DEFAULT 'publica',
+  ADD COLUMN IF NOT EXISTS usuario_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+
+-- Las ventas de mostrador son las que tienen creado_por
+UPDATE compras_idempotencia ci
+SET ruta = 'mostrador', usuario_id = c.creado_por
+FROM compras c
+WHERE c.id = ci.compra_id AND c.creado_por IS NOT NULL AND ci.usuario_id IS NULL;
+
+ALTER TABLE compras_idempotencia DROP CONSTRAINT IF EXISTS compras_idempotencia_pkey;
+ALTER TABLE compras_idempotencia ADD COLUMN IF NOT EXISTS id SERIAL PRIMARY KEY;
+
+-- Una clave por ruta y usuario (en el checkout público usuario_id es NULL)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compras_idempotencia_clave
+  ON compras_idempotencia (ruta, COALESCE(usuario_id, 0), clave);
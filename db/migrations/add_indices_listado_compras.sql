@@ -0,0 +1,8 @@
+-- Índices para el listado paginado de compras (GET /api/compras)
+-- Cubren el orden por fecha, los filtros más usados y la carga de detalles por compra
+
+CREATE INDEX IF NOT EXISTS idx_compras_fecha ON compras(fecha DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_compras_estado ON compras(estado);
+CREATE INDEX IF NOT EXISTS idx_compras_mesa ON compras(comprador_mesa);
+CREATE INDEX IF NOT EXISTS idx_detalle_compra_compra ON detalle_compra(compra_id);
+CREATE INDEX IF NOT EXISTS idx_detalle_compra_producto ON detalle_compra(producto_id);
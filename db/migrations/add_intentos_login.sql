@@ -0,0 +1,20 @@
+-- Protección del login contra fuerza bruta
+-- Cada intento de login (exitoso o no) queda registrado con el usuario que se intentó y la IP.
+-- Con los fallos recientes se calcula la espera entre intentos y el bloqueo temporal (ver middleware/limiteLogin.js).
+-- El admin ve los intentos en la pestaña "Actividad" (GET /api/auditoria/intentos-login).
+
+CREATE TABLE IF NOT EXISTS intentos_login (
+  id SERIAL PRIMARY KEY,
+  -- Lo que se escribió en el campo usuario (puede no existir)
+  username VARCHAR(100) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ip VARCHAR(64),
+  exitoso BOOLEAN NOT NULL,
+  -- 'ok', 'password_incorrecto', 'usuario_inexistente' o 'bloqueado' (rechazado sin revisar la contraseña)
+  motivo VARCHAR(30) NOT NULL,
+  fecha TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_intentos_login_username ON intentos_login(LOWER(username), fecha DESC);
+CREATE INDEX IF NOT EXISTS idx_intentos_login_ip ON intentos_login(ip, fecha DESC);
+CREATE INDEX IF NOT EXISTS idx_intentos_login_fecha ON intentos_login(fecha DESC);
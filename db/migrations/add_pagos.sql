@@ -0,0 +1,56 @@
+-- Pagos de una compra
+-- Una compra se puede pagar en partes y con distintos métodos (por ejemplo, una parte en efectivo y el resto por
+-- transferencia). Cada pago guarda el método, el monto, quién lo cobró, su comprobante y, si es en efectivo, en qué
+-- caja entró. La compra se da por pagada cuando los pagos cubren el total.
+-- compras.metodo_pago pasa a ser un resumen: el método de los pagos o 'mixto' si hay de los dos.
+
+CREATE TABLE IF NOT EXISTS pagos (
+  id SERIAL PRIMARY KEY,
+  compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+  metodo VARCHAR(20) NOT NULL CHECK (metodo IN ('efectivo', 'transferencia')),
+  monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0),
+  usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  caja_id INTEGER REFERENCES cajas(id) ON DELETE SET NULL,
+  comprobante_driver VARCHAR(20),
+  comprobante_clave VARCHAR(255),
+  comprobante_tipo VARCHAR(100),
+  comprobante_miniatura_clave VARCHAR(255),
+  fecha TIMESTAMP NOT NULL DEFAULT NOW(),
+  -- Los pagos no se borran: se anulan (cobro cargado por error o compra que volvió a pendiente)
+  anulado_en TIMESTAMP,
+  anulado_por INTEGER REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pagos_compra ON pagos(compra_id);
+CREATE INDEX IF NOT EXISTS idx_pagos_caja ON pagos(caja_id);
+CREATE INDEX IF NOT EXISTS idx_pagos_usuario_fecha ON pagos(usuario_id, fecha);
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS monto_pagado DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+ALTER TABLE compras DROP CONSTRAINT IF EXISTS compras_metodo_pago_check;
+ALTER TABLE compras
+  ADD CONSTRAINT compras_metodo_pago_check
+  CHECK (metodo_pago IN ('efectivo', 'transferencia', 'mixto'));
+
+-- Las compras ya cobradas pasan a tener un pago por el total, a nombre de quien las cobró y en su caja
+-- (las canceladas que habían entrado en una caja también, para que el arqueo las siga mostrando)
+INSERT INTO pagos (compra_id, metodo, monto, usuario_id, caja_id, fecha)
+SELECT c.id, c.metodo_pago, c.total, c.abonado_por, c.caja_id, COALESCE(c.abonado_en, c.fecha)
+FROM compras c
+WHERE (c.abonado = true OR c.caja_id IS NOT NULL)
+  AND c.total > 0
+  AND NOT EXISTS (SELECT 1 FROM pagos p WHERE p.compra_id = c.id);
+
+UPDATE compras c
+SET monto_pagado = p.pagado
+FROM (
+  SELECT compra_id, SUM(monto) AS pagado
+  FROM pagos
+  WHERE anulado_en IS NULL
+  GROUP BY compra_id
+) p
+WHERE p.compra_id = c.id;
+
+-- La caja de cada cobro en efectivo ahora está en el pago
+ALTER TABLE compras DROP COLUMN IF EXISTS caja_id;
@@ -0,0 +1,41 @@
+-- Devolución de lo cobrado al cancelar una compra
+-- Hasta ahora cancelar una compra ya cobrada no dejaba registro de la plata devuelta: el arqueo de la caja
+-- descontaba los pagos de las compras canceladas filtrando por compras.estado. Desde ahora, al cancelar se
+-- registra un reembolso por lo que queda cobrado (el efectivo sale de la caja abierta de quien cancela) y las
+-- cajas suman pagos y reembolsos sin mirar el estado de la compra.
+-- Para las compras que ya estaban canceladas, registramos ese reembolso con la fecha de la cancelación: el
+-- efectivo, en la caja del último pago en efectivo (así el arqueo de las cajas abiertas no cambia).
+
+WITH restante AS (
+  SELECT c.id, c.cancelado_en,
+         c.monto_pagado - c.monto_reembolsado AS disponible,
+         GREATEST(
+           COALESCE((SELECT SUM(pg.monto) FROM pagos pg
+                     WHERE pg.compra_id = c.id AND pg.anulado_en IS NULL AND pg.metodo = 'efectivo'), 0)
+           - COALESCE((SELECT SUM(r.monto) FROM reembolsos r
+                       WHERE r.compra_id = c.id AND r.metodo = 'efectivo'), 0),
+           0
+         ) AS efectivo_cobrado,
+         (SELECT pg.caja_id FROM pagos pg
+          WHERE pg.compra_id = c.id AND pg.anulado_en IS NULL AND pg.metodo = 'efectivo'
+          ORDER BY pg.fecha DESC, pg.id DESC
+          LIMIT 1) AS caja_id
+  FROM compras c
+  WHERE c.estado = 'cancelado' AND c.monto_pagado > c.monto_reembolsado
+),
+partes AS (
+  SELECT id, cancelado_en, caja_id,
+         LEAST(disponible, efectivo_cobrado) AS efectivo,
+         disponible - LEAST(disponible, efectivo_cobrado) AS transferencia
+  FROM restante
+)
+INSERT INTO reembolsos (compra_id, metodo, monto, motivo, caja_id, fecha)
+SELECT id, 'efectivo', efectivo, 'Compra cancelada', caja_id, COALESCE(cancelado_en, NOW())
+FROM partes WHERE efectivo > 0
+UNION ALL
+SELECT id, 'transferencia', transferencia, 'Compra cancelada', NULL, COALESCE(cancelado_en, NOW())
+FROM partes WHERE transferencia > 0;
+
+UPDATE compras
+SET monto_reembolsado = monto_pagado
+WHERE estado = 'cancelado' AND monto_pagado > monto_reembolsado;
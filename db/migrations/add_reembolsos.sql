@@ -0,0 +1,50 @@
+-- Reembolsos de compras
+-- Devolver plata de una compra (todo o una parte, por ejemplo por un producto que faltó) sin tocar los productos
+-- ni perder la historia. Cada reembolso guarda el monto, el método, el motivo, quién lo hizo y, si es en efectivo,
+-- de qué caja salió. Opcionalmente se reponen al stock algunas unidades de los productos de la compra.
+-- compras.monto_reembolsado resume los reembolsos: total - monto_reembolsado es lo que realmente se vendió.
+
+CREATE TABLE IF NOT EXISTS reembolsos (
+  id SERIAL PRIMARY KEY,
+  compra_id INTEGER NOT NULL REFERENCES compras(id) ON DELETE CASCADE,
+  metodo VARCHAR(20) NOT NULL CHECK (metodo IN ('efectivo', 'transferencia')),
+  monto DECIMAL(10, 2) NOT NULL CHECK (monto > 0),
+  motivo TEXT NOT NULL,
+  usuario_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  caja_id INTEGER REFERENCES cajas(id) ON DELETE SET NULL,
+  fecha TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reembolsos_compra ON reembolsos(compra_id);
+CREATE INDEX IF NOT EXISTS idx_reembolsos_caja ON reembolsos(caja_id);
+
+-- Unidades que volvieron al stock con cada reembolso (por producto: el detalle de la compra se reemplaza al editarla)
+CREATE TABLE IF NOT EXISTS reembolsos_detalle (
+  id SERIAL PRIMARY KEY,
+  reembolso_id INTEGER NOT NULL REFERENCES reembolsos(id) ON DELETE CASCADE,
+  producto_id INTEGER NOT NULL REFERENCES productos(id),
+  cantidad INTEGER NOT NULL CHECK (cantidad > 0),
+  precio_unitario DECIMAL(10, 2) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_reembolsos_detalle_reembolso ON reembolsos_detalle(reembolso_id);
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS monto_reembolsado DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- El efectivo devuelto sale de la caja de quien hizo el reembolso
+ALTER TABLE cajas
+  ADD COLUMN IF NOT EXISTS monto_reembolsos DECIMAL(10, 2);
+
+COMMENT ON COLUMN compras.monto_reembolsado IS 'Suma de los reembolsos de la compra';
+COMMENT ON COLUMN cajas.monto_reembolsos IS 'Efectivo devuelto en reembolsos mientras la caja estuvo abierta';
+
+-- Permiso para devolver plata (por defecto solo el admin)
+INSERT INTO permisos (nombre, descripcion) VALUES
+  ('reembolsar_compras', 'Puede registrar reembolsos de compras y devolver productos al stock')
+ON CONFLICT (nombre) DO NOTHING;
+
+INSERT INTO role_permisos (role_id, permiso_id)
+SELECT r.id, p.id FROM roles r, permisos p
+WHERE r.nombre = 'admin' AND p.nombre = 'reembolsar_compras'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,19 @@
+-- Sesiones del panel (refresh tokens guardados en el servidor)
+-- El login entrega un access token JWT corto y un refresh token. Del refresh token solo guardamos el hash.
+-- Cada access token lleva el id de su sesión: si la sesión se revoca (logout, "cerrar todas las sesiones",
+-- usuario desactivado) verificarAutenticacion lo rechaza aunque el JWT todavía no haya vencido.
+-- Los tokens emitidos antes de esta migración no tienen sesión: hay que volver a iniciar sesión.
+
+CREATE TABLE IF NOT EXISTS sesiones (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash VARCHAR(64) NOT NULL UNIQUE,
+  creado_en TIMESTAMP DEFAULT NOW(),
+  ultimo_uso TIMESTAMP DEFAULT NOW(),
+  expira_en TIMESTAMP NOT NULL,
+  revocada_en TIMESTAMP,
+  ip VARCHAR(64),
+  user_agent VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sesiones_usuario ON sesiones(user_id);
@@ -0,0 +1,11 @@
+-- El stock de un producto nunca puede quedar negativo
+-- Es la última barrera contra compras simultáneas que se lleven las mismas unidades:
+-- POST /api/compras ya bloquea las filas de productos, pero si algo se saltea el bloqueo la base rechaza el descuento.
+
+-- Los productos que quedaron en negativo por compras concurrentes anteriores pasan a 0
+UPDATE productos SET stock = 0 WHERE stock < 0;
+
+ALTER TABLE productos DROP CONSTRAINT IF EXISTS productos_stock_check;
+ALTER TABLE productos
+  ADD CONSTRAINT productos_stock_check
+  CHECK (stock >= 0);
@@ -0,0 +1,21 @@
+-- Almacenamiento de comprobantes intercambiable (ver storage/)
+-- Cada compra guarda con qué driver se subió su comprobante y la clave del archivo y de su miniatura.
+-- comprobante_archivo queda solo para los comprobantes viejos en Base64 hasta correr
+-- scripts/migrar-comprobantes.js
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS comprobante_driver VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS comprobante_clave VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS comprobante_tipo VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS comprobante_miniatura_clave VARCHAR(255);
+
+-- Archivos del driver "postgres" (el que se usa por defecto en Vercel)
+CREATE TABLE IF NOT EXISTS archivos_comprobantes (
+  clave VARCHAR(255) PRIMARY KEY,
+  contenido BYTEA NOT NULL,
+  tipo VARCHAR(100) NOT NULL,
+  creado_en TIMESTAMP DEFAULT NOW()
+);
+
+COMMENT ON COLUMN compras.comprobante_driver IS 'Driver con el que se guardó el comprobante: postgres, local o s3';
+COMMENT ON COLUMN compras.comprobante_archivo IS 'Comprobantes viejos en Base64 (data URL); los nuevos usan comprobante_clave';
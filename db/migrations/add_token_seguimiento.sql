@@ -0,0 +1,14 @@
+-- Token secreto para el seguimiento público de cada pedido
+-- El comprador recibe un link /pedido/<token> para ver el estado de su compra desde cualquier dispositivo
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS token_seguimiento VARCHAR(64);
+
+-- Las compras existentes también reciben un token
+UPDATE compras
+SET token_seguimiento = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '')
+WHERE token_seguimiento IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_compras_token_seguimiento ON compras(token_seguimiento);
+
+COMMENT ON COLUMN compras.token_seguimiento IS 'Token no adivinable para consultar el pedido sin autenticación (GET /api/compras/seguimiento/:token)';
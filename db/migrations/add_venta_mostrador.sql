@@ -0,0 +1,12 @@
+-- Venta en mostrador (pantalla /vendor/pos)
+-- El vendedor carga el pedido de quien compra en persona y lo cobra en el momento: la compra guarda qué usuario
+-- la creó y, si pagó en efectivo, con cuánto pagó (para el vuelto).
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS creado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS monto_recibido DECIMAL(10, 2);
+
+-- El permiso crear_compra ya existía sin uso: ahora habilita el punto de venta
+UPDATE permisos
+SET descripcion = 'Puede registrar ventas en el mostrador (punto de venta)'
+WHERE nombre = 'crear_compra';
@@ -0,0 +1,23 @@
+-- Verificación de comprobantes de transferencia
+-- Un vendedor aprueba o rechaza cada comprobante; queda quién lo revisó, cuándo y el motivo del rechazo.
+-- Las compras en efectivo tienen verificacion_estado = NULL.
+
+ALTER TABLE compras
+  ADD COLUMN IF NOT EXISTS verificacion_estado VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS verificado_por INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS verificado_en TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS motivo_rechazo TEXT;
+
+-- Las transferencias que ya se dieron por pagadas se consideran aprobadas (sin revisor registrado)
+UPDATE compras
+SET verificacion_estado = CASE WHEN estado IN ('pagado', 'preparando', 'listo', 'entregado') THEN 'aprobado' ELSE 'pendiente' END
+WHERE metodo_pago = 'transferencia' AND verificacion_estado IS NULL;
+
+ALTER TABLE compras DROP CONSTRAINT IF EXISTS compras_verificacion_estado_check;
+ALTER TABLE compras
+  ADD CONSTRAINT compras_verificacion_estado_check
+  CHECK (verificacion_estado IS NULL OR verificacion_estado IN ('pendiente', 'aprobado', 'rechazado'));
+
+CREATE INDEX IF NOT EXISTS idx_compras_verificacion ON compras(verificacion_estado);
+
+COMMENT ON COLUMN compras.motivo_rechazo IS 'Motivo del rechazo del comprobante, visible para el comprador en su página de seguimiento';
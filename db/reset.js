@@ -40,12 +40,60 @@ async function resetearBaseDeDatos() {
   console.log('\n🗑️  Eliminando todas las tablas...\n');
 
   try {
+    await pool.query('DROP TABLE IF EXISTS detalle_compra_componentes CASCADE');
+    console.log('  ✓ Tabla detalle_compra_componentes eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS combos_componentes CASCADE');
+    console.log('  ✓ Tabla combos_componentes eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS compras_descuentos CASCADE');
+    console.log('  ✓ Tabla compras_descuentos eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS reembolsos_detalle CASCADE');
+    console.log('  ✓ Tabla reembolsos_detalle eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS reembolsos CASCADE');
+    console.log('  ✓ Tabla reembolsos eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS pagos CASCADE');
+    console.log('  ✓ Tabla pagos eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS cajas_retiros CASCADE');
+    console.log('  ✓ Tabla cajas_retiros eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS cajas CASCADE');
+    console.log('  ✓ Tabla cajas eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS codigos_recuperacion CASCADE');
+    console.log('  ✓ Tabla codigos_recuperacion eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS intentos_login CASCADE');
+    console.log('  ✓ Tabla intentos_login eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS sesiones CASCADE');
+    console.log('  ✓ Tabla sesiones eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS auditoria CASCADE');
+    console.log('  ✓ Tabla auditoria eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS compras_idempotencia CASCADE');
+    console.log('  ✓ Tabla compras_idempotencia eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS compras_estado_historial CASCADE');
+    console.log('  ✓ Tabla compras_estado_historial eliminada');
+
+    await pool.query('DROP TABLE IF EXISTS archivos_comprobantes CASCADE');
+    console.log('  ✓ Tabla archivos_comprobantes eliminada');
+
     await pool.query('DROP TABLE IF EXISTS detalle_compra CASCADE');
     console.log('  ✓ Tabla detalle_compra eliminada');
 
     await pool.query('DROP TABLE IF EXISTS compras CASCADE');
     console.log('  ✓ Tabla compras eliminada');
 
+    await pool.query('DROP TABLE IF EXISTS cupones CASCADE');
+    console.log('  ✓ Tabla cupones eliminada');
+
     await pool.query('DROP TABLE IF EXISTS productos CASCADE');
     console.log('  ✓ Tabla productos eliminada');
 
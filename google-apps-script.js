@@ -41,7 +41,7 @@ function doPost(e) {
     // ===== CREAR O VERIFICAR ENCABEZADOS =====
     if (sheet.getLastRow() === 0 || sheet.getLastRow() === 1) {
       // Si está vacío o solo tiene encabezados, agregar/reemplazar encabezados
-      sheet.getRange(1, 1, 1, 12).setValues([[
+      sheet.getRange(1, 1, 1, 17).setValues([[
         'ID Orden', 
         'Fecha', 
         'Cliente', 
@@ -53,11 +53,16 @@ function doPost(e) {
         'Listo',
         'Entregado', 
         'Detalles', 
-        'Productos'
+        'Productos',
+        'Estado',
+        'Reembolsado',
+        'Total neto',
+        'Cupón',
+        'Descuento'
       ]]);
       
       // Formatear encabezados
-      const headerRange = sheet.getRange(1, 1, 1, 12);
+      const headerRange = sheet.getRange(1, 1, 1, 17);
       headerRange.setBackground('#fbbf24');
       headerRange.setFontColor('#000000');
       headerRange.setFontWeight('bold');
@@ -81,7 +86,12 @@ function doPost(e) {
           venta.listo,
           venta.entregado,
           venta.detalles,
-          venta.productos
+          venta.productos,
+          venta.estado,
+          venta.reembolsado,
+          venta.total_neto,
+          venta.cupon,
+          venta.descuento
         ]);
       });
       
@@ -89,7 +99,7 @@ function doPost(e) {
     }
     
     // ===== AJUSTAR COLUMNAS AUTOMÁTICAMENTE =====
-    sheet.autoResizeColumns(1, 12);
+    sheet.autoResizeColumns(1, 17);
     
     // Respuesta de éxito
     return ContentService.createTextOutput(JSON.stringify({
@@ -127,7 +137,12 @@ function testDoPost() {
             listo: 'No',
             entregado: 'No',
             detalles: 'Test',
-            productos: '1x Café'
+            productos: '1x Café',
+            estado: 'Pagado',
+            reembolsado: 0,
+            total_neto: 3000,
+            cupon: '',
+            descuento: 0
           }
         ]
       })
@@ -0,0 +1,42 @@
+// Registro de auditoría
+// Guarda quién hizo cada cambio administrativo, sobre qué entidad, y cómo estaba antes y después.
+// Se llama con el mismo client de la transacción del cambio: si la auditoría no se puede guardar,
+// el cambio tampoco se guarda.
+
+// Campos que nunca se copian a la auditoría (contraseñas e imágenes completas)
+const CAMPOS_EXCLUIDOS = ['password_hash', 'comprobante_archivo'];
+
+// Deja solo lo que tiene sentido guardar de una fila (o null si no hay fila)
+function limpiarDatos(datos) {
+  if (!datos) return null;
+  const limpio = { ...datos };
+  for (const campo of CAMPOS_EXCLUIDOS) {
+    delete limpio[campo];
+  }
+  return limpio;
+}
+
+// Registra una acción en la tabla auditoria
+// db: pool o client de la transacción
+// req: request de Express (de ahí sale el usuario autenticado y la IP)
+// usuario: solo hace falta en rutas que no pasan por verificarAutenticacion (por ejemplo el login)
+async function registrarAuditoria(db, req, { accion, entidad, entidadId = null, antes = null, despues = null, usuario = req.usuario }) {
+  await db.query(
+    `INSERT INTO auditoria (usuario_id, usuario_nombre, accion, entidad, entidad_id, datos_anteriores, datos_nuevos, ip)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      usuario?.userId || null,
+      usuario?.username || null,
+      accion,
+      entidad,
+      entidadId,
+      antes ? JSON.stringify(limpiarDatos(antes)) : null,
+      despues ? JSON.stringify(limpiarDatos(despues)) : null,
+      req.ip || null
+    ]
+  );
+}
+
+module.exports = {
+  registrarAuditoria
+};
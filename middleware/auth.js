@@ -2,12 +2,27 @@
 // Acá validamos que el usuario esté logueado y tenga los permisos necesarios
 
 const jwt = require('jsonwebtoken');
-
-// Clave secreta (igual que en auth.js)
-const JWT_SECRET = process.env.JWT_SECRET || 'sanpaholmes-secret-key-2025';
+const pool = require('../db/connection');
+const { JWT_SECRET } = require('./sesiones');
+
+// ¿La sesión sigue abierta (no revocada ni vencida) y el usuario activo?
+// También la usan las conexiones largas (GET /api/compras/stream) para revisarla mientras siguen abiertas
+async function sesionVigente(db, sesionId, userId) {
+  const sesion = await db.query(
+    `SELECT s.id
+     FROM sesiones s
+     JOIN users u ON u.id = s.user_id
+     WHERE s.id = $1 AND s.user_id = $2 AND s.revocada_en IS NULL AND s.expira_en > NOW() AND u.activo = true`,
+    [sesionId, userId]
+  );
+  return sesion.rows.length > 0;
+}
 
 // Middleware para verificar que el usuario esté autenticado
-function verificarAutenticacion(req, res, next) {
+// Además del JWT, la sesión del token tiene que seguir abierta (no revocada ni vencida) y el usuario activo
+async function verificarAutenticacion(req, res, next) {
+  let decoded;
+
   try {
     // Obtenemos el token del header Authorization
     const authHeader = req.headers.authorization;
@@ -22,12 +37,7 @@ function verificarAutenticacion(req, res, next) {
     const token = authHeader.substring(7); // Quitamos "Bearer "
 
     // Verificamos y decodificamos el token
-    const decoded = jwt.verify(token, JWT_SECRET);
-
-    // Guardamos los datos del usuario en el request para usarlos después
-    req.usuario = decoded;
-
-    next(); // Continuamos con la siguiente función
+    decoded = jwt.verify(token, JWT_SECRET);
 
   } catch (error) {
     if (error.name === 'TokenExpiredError') {
@@ -42,6 +52,35 @@ function verificarAutenticacion(req, res, next) {
       mensaje: 'Token inválido'
     });
   }
+
+  // Los tokens de antes de las sesiones no traen sid: hay que volver a iniciar sesión
+  if (!decoded.sid) {
+    return res.status(401).json({
+      success: false,
+      mensaje: 'La sesión venció, volvé a iniciar sesión'
+    });
+  }
+
+  try {
+    // Lista de revocación: la sesión tiene que existir, no estar cerrada y el usuario seguir activo
+    if (!await sesionVigente(pool, decoded.sid, decoded.userId)) {
+      return res.status(401).json({
+        success: false,
+        mensaje: 'La sesión fue cerrada, volvé a iniciar sesión'
+      });
+    }
+  } catch (error) {
+    console.error('Error al verificar la sesión:', error);
+    return res.status(500).json({
+      success: false,
+      mensaje: 'Error al verificar la sesión'
+    });
+  }
+
+  // Guardamos los datos del usuario en el request para usarlos después
+  req.usuario = decoded;
+
+  next(); // Continuamos con la siguiente función
 }
 
 // Middleware para verificar que el usuario tenga un permiso específico
@@ -107,6 +146,7 @@ function verificarRol(rolRequerido) {
 }
 
 module.exports = {
+  sesionVigente,
   verificarAutenticacion,
   verificarPermiso,
   verificarRol
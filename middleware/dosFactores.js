@@ -0,0 +1,234 @@
+// Verificación en dos pasos (TOTP)
+// El usuario escanea un QR con una app autenticadora (Google Authenticator, Authy, etc.) y desde ahí
+// el login le pide, además de la contraseña, el código de 6 dígitos que cambia cada 30 segundos.
+// Si pierde el teléfono puede entrar con uno de sus códigos de recuperación (cada uno sirve una sola vez).
+// Los roles con requiere_2fa obligan a sus usuarios a configurarlo en el próximo login.
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const { JWT_SECRET, hashearToken } = require('./sesiones');
+
+// Nombre que muestra la app autenticadora
+const EMISOR_TOTP = 'SanpaHolmes';
+
+// Parámetros estándar de TOTP (RFC 6238): los que entienden todas las apps
+const SEGUNDOS_POR_PASO = 30;
+const DIGITOS = 6;
+
+// Pasos de 30 segundos de tolerancia hacia atrás y adelante (por si el reloj del teléfono está corrido)
+const PASOS_DE_TOLERANCIA = 1;
+
+const CANTIDAD_CODIGOS_RECUPERACION = 10;
+
+// Cuánto tiene el usuario para ingresar el código después de poner bien la contraseña
+const DURACION_DESAFIO = '5m';
+
+const ALFABETO_BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function codificarBase32(buffer) {
+  let bits = '';
+  for (const byte of buffer) bits += byte.toString(2).padStart(8, '0');
+
+  let resultado = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    resultado += ALFABETO_BASE32[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  }
+  return resultado;
+}
+
+function decodificarBase32(texto) {
+  let bits = '';
+  for (const caracter of texto.replace(/=+$/, '').toUpperCase()) {
+    const valor = ALFABETO_BASE32.indexOf(caracter);
+    if (valor === -1) throw new Error('Secreto TOTP inválido');
+    bits += valor.toString(2).padStart(5, '0');
+  }
+
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) {
+    bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  }
+  return Buffer.from(bytes);
+}
+
+// Un secreto nuevo (160 bits, lo recomendado para HMAC-SHA1)
+function generarSecretoTotp() {
+  return codificarBase32(crypto.randomBytes(20));
+}
+
+// Código de un paso de tiempo (HOTP, RFC 4226)
+function calcularCodigo(secreto, paso) {
+  const contador = Buffer.alloc(8);
+  contador.writeBigUInt64BE(BigInt(paso));
+
+  const hmac = crypto.createHmac('sha1', decodificarBase32(secreto)).update(contador).digest();
+  const desplazamiento = hmac[hmac.length - 1] & 0x0f;
+  const numero = hmac.readUInt32BE(desplazamiento) & 0x7fffffff;
+
+  return (numero % 10 ** DIGITOS).toString().padStart(DIGITOS, '0');
+}
+
+// Busca el paso de tiempo al que corresponde el código (o null si no es válido)
+// Los pasos hasta ultimoPaso inclusive ya se usaron: un código no se puede usar dos veces
+function verificarCodigoTotp(secreto, codigo, ultimoPaso = null) {
+  if (!secreto || !new RegExp(`^\\d{${DIGITOS}}$`).test(String(codigo))) return null;
+
+  const pasoActual = Math.floor(Date.now() / 1000 / SEGUNDOS_POR_PASO);
+  for (let paso = pasoActual - PASOS_DE_TOLERANCIA; paso <= pasoActual + PASOS_DE_TOLERANCIA; paso++) {
+    if (ultimoPaso !== null && paso <= Number(ultimoPaso)) continue;
+
+    const esperado = calcularCodigo(secreto, paso);
+    if (crypto.timingSafeEqual(Buffer.from(esperado), Buffer.from(String(codigo)))) {
+      return paso;
+    }
+  }
+  return null;
+}
+
+// Link que entiende la app autenticadora (es lo que va dentro del QR)
+function urlOtpauth(secreto, username) {
+  const etiqueta = encodeURIComponent(`${EMISOR_TOTP}:${username}`);
+  return `otpauth://totp/${etiqueta}?secret=${secreto}&issuer=${encodeURIComponent(EMISOR_TOTP)}` +
+    `&algorithm=SHA1&digits=${DIGITOS}&period=${SEGUNDOS_POR_PASO}`;
+}
+
+// Los códigos de recuperación se comparan sin guiones, espacios ni mayúsculas
+function normalizarCodigoRecuperacion(codigo) {
+  return String(codigo).replace(/[^a-z0-9]/gi, '').toLowerCase();
+}
+
+// Genera códigos de recuperación nuevos (reemplazan a los anteriores) y los devuelve en claro, solo esta vez
+async function generarCodigosRecuperacion(db, userId) {
+  const codigos = Array.from({ length: CANTIDAD_CODIGOS_RECUPERACION }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+
+  await db.query('DELETE FROM codigos_recuperacion WHERE user_id = $1', [userId]);
+  for (const codigo of codigos) {
+    await db.query(
+      'INSERT INTO codigos_recuperacion (user_id, codigo_hash) VALUES ($1, $2)',
+      [userId, hashearToken(normalizarCodigoRecuperacion(codigo))]
+    );
+  }
+
+  return codigos;
+}
+
+// Cuántos códigos de recuperación le quedan sin usar
+async function contarCodigosRecuperacion(db, userId) {
+  const result = await db.query(
+    'SELECT COUNT(*)::int AS cantidad FROM codigos_recuperacion WHERE user_id = $1 AND usado_en IS NULL',
+    [userId]
+  );
+  return result.rows[0].cantidad;
+}
+
+// ¿Alguno de los roles del usuario exige verificación en dos pasos?
+async function usuarioRequiere2fa(db, userId) {
+  const result = await db.query(
+    `SELECT 1 FROM user_roles ur
+     JOIN roles r ON r.id = ur.role_id
+     WHERE ur.user_id = $1 AND r.requiere_2fa = true
+     LIMIT 1`,
+    [userId]
+  );
+  return result.rows.length > 0;
+}
+
+// Verifica el segundo factor de un usuario con 2FA activado: un código de la app o uno de recuperación
+// Devuelve 'totp', 'recuperacion' o null. Guarda el paso usado / marca el código de recuperación como usado.
+async function verificarSegundoFactor(db, user, codigo) {
+  const texto = String(codigo || '').trim();
+
+  const paso = verificarCodigoTotp(user.totp_secreto, texto, user.totp_ultimo_paso);
+  if (paso !== null) {
+    await db.query('UPDATE users SET totp_ultimo_paso = $1 WHERE id = $2', [paso, user.id]);
+    return 'totp';
+  }
+
+  const normalizado = normalizarCodigoRecuperacion(texto);
+  if (normalizado.length === 10) {
+    const result = await db.query(
+      `UPDATE codigos_recuperacion SET usado_en = NOW()
+       WHERE user_id = $1 AND codigo_hash = $2 AND usado_en IS NULL
+       RETURNING id`,
+      [user.id, hashearToken(normalizado)]
+    );
+    if (result.rows.length > 0) return 'recuperacion';
+  }
+
+  return null;
+}
+
+// Arranca la configuración: guarda un secreto nuevo (todavía sin activar) y devuelve el QR para escanear
+async function iniciarConfiguracion2fa(db, user) {
+  const secreto = generarSecretoTotp();
+  await db.query(
+    'UPDATE users SET totp_secreto = $1, totp_ultimo_paso = NULL WHERE id = $2 AND totp_activado = false',
+    [secreto, user.id]
+  );
+
+  const url = urlOtpauth(secreto, user.username);
+  return {
+    secreto,
+    otpauth_url: url,
+    qr: await QRCode.toDataURL(url)
+  };
+}
+
+// Termina la configuración: si el código corresponde al secreto pendiente, activa 2FA
+// Devuelve los códigos de recuperación nuevos, o null si el código no es válido
+async function activar2fa(db, user, codigo) {
+  const paso = verificarCodigoTotp(user.totp_secreto, String(codigo || '').trim());
+  if (paso === null) return null;
+
+  await db.query(
+    'UPDATE users SET totp_activado = true, totp_ultimo_paso = $1 WHERE id = $2',
+    [paso, user.id]
+  );
+  return generarCodigosRecuperacion(db, user.id);
+}
+
+// Saca la verificación en dos pasos de un usuario (la desactiva él mismo o se la restablece un admin)
+async function desactivar2fa(db, userId) {
+  await db.query(
+    'UPDATE users SET totp_activado = false, totp_secreto = NULL, totp_ultimo_paso = NULL WHERE id = $1',
+    [userId]
+  );
+  await db.query('DELETE FROM codigos_recuperacion WHERE user_id = $1', [userId]);
+}
+
+// Token del segundo paso del login: prueba que la contraseña fue correcta, pero no sirve como access token
+// (no tiene sid, así que verificarAutenticacion lo rechaza)
+function firmarDesafio2fa(user, recordar) {
+  return jwt.sign(
+    { userId: user.id, username: user.username, recordar, proposito: 'login_2fa' },
+    JWT_SECRET,
+    { expiresIn: DURACION_DESAFIO }
+  );
+}
+
+// Devuelve los datos del desafío, o null si es inválido o venció
+function verificarDesafio2fa(desafio) {
+  try {
+    const datos = jwt.verify(String(desafio || ''), JWT_SECRET);
+    return datos.proposito === 'login_2fa' ? datos : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+module.exports = {
+  verificarCodigoTotp,
+  generarCodigosRecuperacion,
+  contarCodigosRecuperacion,
+  usuarioRequiere2fa,
+  verificarSegundoFactor,
+  iniciarConfiguracion2fa,
+  activar2fa,
+  desactivar2fa,
+  firmarDesafio2fa,
+  verificarDesafio2fa
+};
@@ -0,0 +1,119 @@
+// Límite de intentos de login
+// Cada intento queda en la tabla intentos_login. Antes de revisar la contraseña se cuentan los fallos recientes:
+// - por usuario: después de unos fallos hay que esperar cada vez más entre intentos, y al llegar al máximo
+//   la cuenta queda bloqueada un rato (aunque la contraseña sea correcta)
+// - por IP: una misma IP probando muchos usuarios distintos también queda bloqueada
+// Un login exitoso reinicia la cuenta de fallos del usuario.
+// Con verificación en dos pasos, la contraseña correcta sola no es un login exitoso ('falta_2fa'):
+// los códigos incorrectos siguen sumando fallos hasta que se ingresa uno válido.
+
+// Ventana en la que se cuentan los fallos
+const VENTANA_MINUTOS = 15;
+
+// Cuánto dura el bloqueo una vez alcanzado el máximo de fallos
+const BLOQUEO_MINUTOS = 15;
+
+// Fallos seguidos de un mismo usuario antes de bloquearlo
+const MAX_FALLOS_USUARIO = 5;
+
+// Fallos desde una misma IP (sumando todos los usuarios) antes de bloquearla
+const MAX_FALLOS_IP = 20;
+
+// Fallos que se permiten sin espera; a partir de ahí la espera se duplica en cada fallo (1s, 2s, 4s...)
+const FALLOS_SIN_ESPERA = 2;
+const ESPERA_MAXIMA_SEGUNDOS = 30;
+
+// Intentos que no cuentan como fallo: los rechazados por bloqueo (si no, el bloqueo se estiraría solo)
+// y las contraseñas correctas que todavía esperan el código de verificación
+const MOTIVOS_SIN_FALLO = ['bloqueado', 'falta_2fa'];
+
+// Cuánto tiempo se guardan los intentos
+const DIAS_HISTORIAL = 90;
+
+// Segundos que hay que esperar después del último fallo, según cuántos fallos lleva el usuario
+function segundosDeEspera(fallos) {
+  if (fallos < FALLOS_SIN_ESPERA) return 0;
+  return Math.min(2 ** (fallos - FALLOS_SIN_ESPERA), ESPERA_MAXIMA_SEGUNDOS);
+}
+
+// Revisa si se puede intentar el login ahora
+// Devuelve { permitido: true, fallosUsuario } o { permitido: false, motivo: 'bloqueado' | 'espera', hasta, segundos }
+async function verificarLimiteLogin(db, username, ip) {
+  // Fallos del usuario dentro de la ventana, sin contar los anteriores a su último login exitoso
+  const usuarioResult = await db.query(
+    `SELECT COUNT(*)::int AS fallos, MAX(fecha) AS ultimo_fallo, NOW() AS ahora
+     FROM intentos_login
+     WHERE LOWER(username) = LOWER($1)
+       AND exitoso = false AND motivo <> ALL($2::varchar[])
+       AND fecha > NOW() - INTERVAL '${VENTANA_MINUTOS} minutes'
+       AND fecha > COALESCE(
+         (SELECT MAX(fecha) FROM intentos_login WHERE LOWER(username) = LOWER($1) AND exitoso = true),
+         '-infinity'
+       )`,
+    [username, MOTIVOS_SIN_FALLO]
+  );
+
+  const ipResult = await db.query(
+    `SELECT COUNT(*)::int AS fallos, MAX(fecha) AS ultimo_fallo
+     FROM intentos_login
+     WHERE ip = $1 AND exitoso = false AND motivo <> ALL($2::varchar[])
+       AND fecha > NOW() - INTERVAL '${VENTANA_MINUTOS} minutes'`,
+    [ip, MOTIVOS_SIN_FALLO]
+  );
+
+  const { fallos, ultimo_fallo, ahora } = usuarioResult.rows[0];
+  const fallosIp = ipResult.rows[0].fallos;
+  const bloqueoMs = BLOQUEO_MINUTOS * 60 * 1000;
+
+  const bloqueadoHasta = [];
+  if (fallos >= MAX_FALLOS_USUARIO) {
+    bloqueadoHasta.push(new Date(new Date(ultimo_fallo).getTime() + bloqueoMs));
+  }
+  if (fallosIp >= MAX_FALLOS_IP) {
+    bloqueadoHasta.push(new Date(new Date(ipResult.rows[0].ultimo_fallo).getTime() + bloqueoMs));
+  }
+
+  const ahoraMs = new Date(ahora).getTime();
+
+  if (bloqueadoHasta.length > 0) {
+    const hasta = new Date(Math.max(...bloqueadoHasta.map(d => d.getTime())));
+    if (hasta.getTime() > ahoraMs) {
+      return { permitido: false, motivo: 'bloqueado', hasta, segundos: Math.ceil((hasta.getTime() - ahoraMs) / 1000) };
+    }
+  }
+
+  const espera = segundosDeEspera(fallos);
+  if (espera > 0) {
+    const hasta = new Date(new Date(ultimo_fallo).getTime() + espera * 1000);
+    if (hasta.getTime() > ahoraMs) {
+      return { permitido: false, motivo: 'espera', hasta, segundos: Math.ceil((hasta.getTime() - ahoraMs) / 1000) };
+    }
+  }
+
+  return { permitido: true, fallosUsuario: fallos };
+}
+
+// Deja registrado un intento de login
+async function registrarIntentoLogin(db, { username, userId = null, ip, exitoso, motivo }) {
+  await db.query(
+    `INSERT INTO intentos_login (username, user_id, ip, exitoso, motivo)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [String(username).slice(0, 100), userId, ip || null, exitoso, motivo]
+  );
+}
+
+// Borra los intentos más viejos que el historial (se llama después de cada login exitoso)
+async function limpiarIntentosViejos(db) {
+  await db.query(`DELETE FROM intentos_login WHERE fecha < NOW() - INTERVAL '${DIAS_HISTORIAL} days'`);
+}
+
+module.exports = {
+  VENTANA_MINUTOS,
+  BLOQUEO_MINUTOS,
+  MAX_FALLOS_USUARIO,
+  MAX_FALLOS_IP,
+  MOTIVOS_SIN_FALLO,
+  verificarLimiteLogin,
+  registrarIntentoLogin,
+  limpiarIntentosViejos
+};
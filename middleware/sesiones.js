@@ -0,0 +1,112 @@
+// Sesiones del panel
+// El login crea una sesión en la tabla sesiones y entrega dos tokens:
+// - un access token JWT corto, que viaja en cada petición y lleva el id de la sesión (sid)
+// - un refresh token largo, del que solo guardamos el hash, para pedir access tokens nuevos sin volver a loguearse
+// Revocar la sesión (logout, "cerrar todas las sesiones", usuario desactivado) corta el acceso en la próxima petición.
+
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+// Clave secreta para firmar los access tokens (la misma en todo el backend)
+const JWT_SECRET = process.env.JWT_SECRET || 'sanpaholmes-secret-key-2025';
+
+// Cuánto vive un access token: si se roba uno, sirve a lo sumo este tiempo
+const DURACION_ACCESS_TOKEN = '15m';
+
+// Cuánto vive la sesión (el refresh token) según si el usuario marcó "recordarme"
+const HORAS_SESION = 12;
+const DIAS_SESION_RECORDADA = 30;
+
+// El refresh token se guarda hasheado: quien lea la base no puede usarlo
+function hashearToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Un refresh token nuevo (en claro: se entrega al frontend y se guarda solo el hash)
+function generarRefreshToken() {
+  return crypto.randomBytes(48).toString('hex');
+}
+
+// Roles y permisos actuales del usuario (se leen de la base en cada login y cada renovación)
+async function obtenerRolesYPermisos(db, userId) {
+  const rolesResult = await db.query(
+    `SELECT r.nombre
+     FROM roles r
+     JOIN user_roles ur ON r.id = ur.role_id
+     WHERE ur.user_id = $1`,
+    [userId]
+  );
+
+  const permisosResult = await db.query(
+    `SELECT DISTINCT p.nombre
+     FROM permisos p
+     JOIN role_permisos rp ON p.id = rp.permiso_id
+     JOIN user_roles ur ON rp.role_id = ur.role_id
+     WHERE ur.user_id = $1`,
+    [userId]
+  );
+
+  return {
+    roles: rolesResult.rows.map(r => r.nombre),
+    permisos: permisosResult.rows.map(p => p.nombre)
+  };
+}
+
+// Firma el access token de una sesión
+function firmarAccessToken(user, { roles, permisos }, sesionId) {
+  return jwt.sign(
+    {
+      userId: user.id,
+      username: user.username,
+      roles,
+      permisos,
+      sid: sesionId
+    },
+    JWT_SECRET,
+    { expiresIn: DURACION_ACCESS_TOKEN }
+  );
+}
+
+// Crea una sesión nueva para el usuario y devuelve su id y el refresh token (en claro, solo esta vez)
+async function crearSesion(db, req, user, recordar = true) {
+  const refreshToken = generarRefreshToken();
+  const duracion = recordar ? `${DIAS_SESION_RECORDADA} days` : `${HORAS_SESION} hours`;
+
+  // De paso borramos las sesiones viejas del usuario que ya no sirven
+  await db.query(
+    `DELETE FROM sesiones
+     WHERE user_id = $1 AND (expira_en < NOW() OR revocada_en < NOW() - INTERVAL '${DIAS_SESION_RECORDADA} days')`,
+    [user.id]
+  );
+
+  const result = await db.query(
+    `INSERT INTO sesiones (user_id, refresh_token_hash, expira_en, ip, user_agent)
+     VALUES ($1, $2, NOW() + $3::interval, $4, $5)
+     RETURNING id`,
+    [user.id, hashearToken(refreshToken), duracion, req.ip || null, (req.headers['user-agent'] || '').slice(0, 255) || null]
+  );
+
+  return { sesionId: result.rows[0].id, refreshToken };
+}
+
+// Revoca las sesiones abiertas de un usuario (menos la indicada en excepto) y devuelve cuántas cerró
+async function revocarSesiones(db, userId, { excepto = null } = {}) {
+  const result = await db.query(
+    `UPDATE sesiones
+     SET revocada_en = NOW()
+     WHERE user_id = $1 AND revocada_en IS NULL AND expira_en > NOW()
+       AND ($2::integer IS NULL OR id <> $2)`,
+    [userId, excepto]
+  );
+  return result.rowCount;
+}
+
+module.exports = {
+  JWT_SECRET,
+  hashearToken,
+  generarRefreshToken,
+  obtenerRolesYPermisos,
+  firmarAccessToken,
+  crearSesion,
+  revocarSesiones
+};
@@ -0,0 +1,97 @@
+// Script para mover los comprobantes viejos (Base64 en compras.comprobante_archivo)
+// al almacenamiento configurado en COMPROBANTES_STORAGE (postgres, local o s3)
+// También genera la miniatura de cada uno.
+//
+// Uso:
+//   node scripts/migrar-comprobantes.js            -> migra todo
+//   node scripts/migrar-comprobantes.js --dry-run  -> solo cuenta cuántos hay para migrar
+//
+// Se puede cortar y volver a correr: solo toma las compras que todavía no tienen comprobante_clave
+
+require('dotenv').config();
+const pool = require('../db/connection');
+const { obtenerDriver, decodificarDataUrl, guardarComprobante, eliminarComprobante } = require('../storage');
+
+// Cuántas compras se leen por vuelta (cada una trae su imagen entera en memoria)
+const TAMANIO_LOTE = 20;
+
+async function migrarComprobantes() {
+  const soloContar = process.argv.includes('--dry-run');
+  const driver = obtenerDriver();
+
+  try {
+    const pendientes = await pool.query(
+      `SELECT COUNT(*) FROM compras
+       WHERE comprobante_archivo LIKE 'data:%' AND comprobante_clave IS NULL`
+    );
+    const total = parseInt(pendientes.rows[0].count);
+
+    console.log(`\n📦 Driver de destino: ${driver.nombre}`);
+    console.log(`🧾 Comprobantes en Base64 para migrar: ${total}\n`);
+
+    if (soloContar || total === 0) {
+      return;
+    }
+
+    let migrados = 0;
+    let conError = 0;
+    let ultimoId = 0;
+
+    while (true) {
+      const lote = await pool.query(
+        `SELECT id, comprobante_archivo FROM compras
+         WHERE comprobante_archivo LIKE 'data:%' AND comprobante_clave IS NULL AND id > $1
+         ORDER BY id
+         LIMIT $2`,
+        [ultimoId, TAMANIO_LOTE]
+      );
+
+      if (lote.rows.length === 0) break;
+
+      for (const compra of lote.rows) {
+        ultimoId = compra.id;
+
+        const archivo = decodificarDataUrl(compra.comprobante_archivo);
+        if (!archivo) {
+          console.log(`  ⚠️  Compra #${compra.id}: el comprobante no tiene formato data:...;base64, se deja como está`);
+          conError++;
+          continue;
+        }
+
+        try {
+          const guardado = await guardarComprobante(archivo.contenido, archivo.tipo);
+
+          // Solo pisamos si nadie la migró mientras tanto
+          const actualizada = await pool.query(
+            `UPDATE compras
+             SET comprobante_driver = $1, comprobante_clave = $2, comprobante_tipo = $3,
+                 comprobante_miniatura_clave = $4, comprobante_archivo = NULL
+             WHERE id = $5 AND comprobante_clave IS NULL`,
+            [guardado.comprobante_driver, guardado.comprobante_clave, guardado.comprobante_tipo, guardado.comprobante_miniatura_clave, compra.id]
+          );
+
+          if (actualizada.rowCount === 0) {
+            await eliminarComprobante(guardado.comprobante_driver, guardado.comprobante_clave, guardado.comprobante_miniatura_clave);
+            continue;
+          }
+
+          migrados++;
+          console.log(`  ✓ Compra #${compra.id} -> ${guardado.comprobante_clave}${guardado.comprobante_miniatura_clave ? '' : ' (sin miniatura)'}`);
+        } catch (error) {
+          conError++;
+          console.error(`  ❌ Compra #${compra.id}:`, error.message);
+        }
+      }
+    }
+
+    console.log(`\n✅ Migración terminada: ${migrados} migrados, ${conError} con error.\n`);
+
+  } catch (error) {
+    console.error('\n❌ Error en la migración:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+migrarComprobantes();
@@ -0,0 +1,97 @@
+// Prueba de concurrencia del descuento de stock en POST /api/compras
+// Crea un producto de prueba con pocas unidades, dispara muchas compras en paralelo contra el servidor
+// y verifica que se vendan exactamente las unidades que había (ni una más) y que el stock termine en 0.
+// Al final borra las compras y el producto de prueba.
+//
+// Uso (con el servidor corriendo, npm run backend):
+//   node scripts/probar-concurrencia-stock.js
+//   API_URL=http://localhost:3000 UNIDADES=3 COMPRAS=20 node scripts/probar-concurrencia-stock.js
+
+require('dotenv').config();
+const pool = require('../db/connection');
+
+const API_URL = process.env.API_URL || `http://localhost:${process.env.PORT || 3000}`;
+const UNIDADES = parseInt(process.env.UNIDADES) || 3;
+const COMPRAS = parseInt(process.env.COMPRAS) || 20;
+
+// Una compra en efectivo de 1 unidad del producto
+async function comprarUnaUnidad(productoId, numero) {
+  const formData = new FormData();
+  formData.append('comprador_nombre', `Prueba concurrencia ${numero}`);
+  formData.append('metodo_pago', 'efectivo');
+  formData.append('productos', JSON.stringify([{ producto_id: productoId, cantidad: 1 }]));
+
+  const response = await fetch(`${API_URL}/api/compras`, {
+    method: 'POST',
+    body: formData
+  });
+  const data = await response.json().catch(() => ({}));
+  return { status: response.status, data };
+}
+
+async function probarConcurrencia() {
+  console.log(`\n🧪 ${COMPRAS} compras simultáneas contra las últimas ${UNIDADES} unidades (${API_URL})\n`);
+
+  let productoId = null;
+
+  try {
+    const producto = await pool.query(
+      `INSERT INTO productos (nombre, categoria, precio, stock, activo)
+       VALUES ($1, 'prueba', 100, $2, true)
+       RETURNING id`,
+      [`Producto concurrencia ${Date.now()}`, UNIDADES]
+    );
+    productoId = producto.rows[0].id;
+    console.log(`✅ Producto de prueba #${productoId} creado con stock ${UNIDADES}`);
+
+    const resultados = await Promise.all(
+      Array.from({ length: COMPRAS }, (_, i) => comprarUnaUnidad(productoId, i + 1))
+    );
+
+    const exitosas = resultados.filter(r => r.status === 201);
+    const sinStock = resultados.filter(r => r.status === 400);
+    const otras = resultados.filter(r => r.status !== 201 && r.status !== 400);
+
+    console.log(`   201 (compra creada):      ${exitosas.length}`);
+    console.log(`   400 (sin stock):          ${sinStock.length}`);
+    if (otras.length > 0) {
+      console.log(`   Otras respuestas:         ${otras.map(r => `${r.status} ${r.data.mensaje || ''}`).join(', ')}`);
+    }
+
+    const stockFinal = await pool.query('SELECT stock FROM productos WHERE id = $1', [productoId]);
+    const vendidas = await pool.query(
+      'SELECT COALESCE(SUM(cantidad), 0) AS total FROM detalle_compra WHERE producto_id = $1',
+      [productoId]
+    );
+    console.log(`   Stock final:              ${stockFinal.rows[0].stock}`);
+    console.log(`   Unidades vendidas:        ${vendidas.rows[0].total}`);
+
+    if (exitosas.length !== UNIDADES) {
+      throw new Error(`Se crearon ${exitosas.length} compras y había ${UNIDADES} unidades`);
+    }
+    if (stockFinal.rows[0].stock !== 0 || parseInt(vendidas.rows[0].total) !== UNIDADES) {
+      throw new Error('El stock final no coincide con las unidades vendidas');
+    }
+    if (otras.length > 0) {
+      throw new Error('Hubo respuestas inesperadas');
+    }
+
+    console.log('\n🎉 El stock se descontó sin sobreventa.\n');
+  } catch (error) {
+    console.error('\n❌ Error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    // Limpiamos lo que creó la prueba (el detalle se borra en cascada con la compra)
+    if (productoId) {
+      await pool.query(
+        `DELETE FROM compras WHERE id IN (SELECT compra_id FROM detalle_compra WHERE producto_id = $1)`,
+        [productoId]
+      );
+      await pool.query('DELETE FROM productos WHERE id = $1', [productoId]);
+      console.log('🧹 Compras y producto de prueba eliminados');
+    }
+    await pool.end();
+  }
+}
+
+probarConcurrencia();
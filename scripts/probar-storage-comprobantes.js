@@ -0,0 +1,55 @@
+// Script de prueba del almacenamiento de comprobantes
+// Sube una imagen generada, la lee, lee su miniatura y las borra usando el driver de COMPROBANTES_STORAGE.
+// Sirve para verificar la configuración antes de cambiar de driver.
+//
+// Para probar el driver s3 sin una cuenta de AWS se puede levantar MinIO en local:
+//   docker run -p 9000:9000 -e MINIO_ROOT_USER=minio -e MINIO_ROOT_PASSWORD=minio123 minio/minio server /data
+//   (crear el bucket "comprobantes" desde la consola de MinIO o con mc mb)
+//   COMPROBANTES_STORAGE=s3 S3_ENDPOINT=http://localhost:9000 S3_BUCKET=comprobantes \
+//   S3_ACCESS_KEY_ID=minio S3_SECRET_ACCESS_KEY=minio123 node scripts/probar-storage-comprobantes.js
+
+require('dotenv').config();
+const sharp = require('sharp');
+const { obtenerDriver, guardarComprobante, obtenerComprobante, eliminarComprobante } = require('../storage');
+
+async function probarStorage() {
+  const driver = obtenerDriver();
+  console.log(`\n🧪 Probando driver de comprobantes: ${driver.nombre}\n`);
+
+  try {
+    const imagen = await sharp({
+      create: { width: 600, height: 900, channels: 3, background: '#fbbf24' }
+    }).png().toBuffer();
+
+    const guardado = await guardarComprobante(imagen, 'image/png');
+    console.log('✅ Comprobante guardado:', guardado.comprobante_clave);
+
+    const leido = await obtenerComprobante(guardado.comprobante_driver, guardado.comprobante_clave);
+    if (!leido || !leido.contenido.equals(imagen)) {
+      throw new Error('El comprobante leído no coincide con el guardado');
+    }
+    console.log('✅ Comprobante leído correctamente');
+
+    const miniatura = await obtenerComprobante(guardado.comprobante_driver, guardado.comprobante_miniatura_clave);
+    const { width } = await sharp(miniatura.contenido).metadata();
+    console.log(`✅ Miniatura leída (${width}px de ancho)`);
+
+    await eliminarComprobante(guardado.comprobante_driver, guardado.comprobante_clave, guardado.comprobante_miniatura_clave);
+    if (await obtenerComprobante(guardado.comprobante_driver, guardado.comprobante_clave)) {
+      throw new Error('El comprobante sigue existiendo después de eliminarlo');
+    }
+    console.log('✅ Comprobante y miniatura eliminados');
+
+    console.log('\n🎉 El driver funciona correctamente.\n');
+  } catch (error) {
+    console.error('\n❌ Error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    // El driver postgres abre el pool de conexiones
+    if (driver.nombre === 'postgres') {
+      await require('../db/connection').end();
+    }
+  }
+}
+
+probarStorage();
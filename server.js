@@ -8,11 +8,20 @@ require('dotenv').config();
 
 const app = express();
 
+// En Vercel las peticiones llegan a través de su proxy: confiamos en el primer salto para que req.ip sea
+// la IP del cliente (X-Forwarded-For) y no la del proxy. El límite de intentos de login por IP depende de esto
+app.set('trust proxy', 1);
+
 // Middlewares globales
 app.use(cors()); // Permite peticiones desde otros dominios
 app.use(express.json()); // Para leer JSON en las peticiones
 app.use(express.urlencoded({ extended: true })); // Para leer formularios
 
+// Los comprobantes guardados en disco no son públicos: se leen por GET /api/compras/:id/comprobante
+app.use('/uploads/comprobantes', (req, res) => {
+  res.status(404).json({ success: false, mensaje: 'Ruta no encontrada' });
+});
+
 // Servimos los archivos estáticos (imágenes, CSS, JS)
 app.use('/uploads', express.static(path.join(__dirname, 'public/uploads')));
 app.use(express.static(path.join(__dirname, 'public')));
@@ -21,11 +30,19 @@ app.use(express.static(path.join(__dirname, 'public')));
 const productosRouter = require('./api/productos');
 const comprasRouter = require('./api/compras');
 const authRouter = require('./api/auth');
+const auditoriaRouter = require('./api/auditoria');
+const usuariosRouter = require('./api/usuarios');
+const cajasRouter = require('./api/cajas');
+const cuponesRouter = require('./api/cupones');
 const pool = require('./db/connection');
 
 app.use('/api/productos', productosRouter);
 app.use('/api/compras', comprasRouter);
 app.use('/api/auth', authRouter);
+app.use('/api/auditoria', auditoriaRouter);
+app.use('/api/usuarios', usuariosRouter);
+app.use('/api/cajas', cajasRouter);
+app.use('/api/cupones', cuponesRouter);
 
 // Ruta de prueba para verificar que el servidor y la BD funcionan
 app.get('/api/health', async (req, res) => {
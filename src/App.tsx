@@ -9,17 +9,30 @@ import { Menu } from './components/Menu';
 import { Cart } from './components/Cart';
 import { Checkout } from './components/Checkout';
 import { OrderConfirmation } from './components/OrderConfirmation';
+import { OrderTracking } from './components/OrderTracking';
 import { VendorLogin } from './components/VendorLogin';
 import { AdminPanelNew } from './components/AdminPanelNew';
+import { KitchenDisplay } from './components/KitchenDisplay';
+import { PointOfSale } from './components/PointOfSale';
 import { Toaster } from './components/ui/sonner';
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user } = useAuth();
+// Si se indica un permiso, sin él se vuelve al panel (que muestra solo lo permitido)
+function ProtectedRoute({ children, permiso }: { children: React.ReactNode; permiso?: string }) {
+  const { user, loading, hasPermission } = useAuth();
+  
+  // Esperamos a que se restaure la sesión guardada antes de decidir
+  if (loading) {
+    return null;
+  }
   
   if (!user) {
     return <Navigate to="/vendor/login" replace />;
   }
   
+  if (permiso && !hasPermission(permiso)) {
+    return <Navigate to="/vendor/panel" replace />;
+  }
+  
   return <>{children}</>;
 }
 
@@ -35,6 +48,7 @@ function AppContent() {
             <Route path="/cart" element={<Cart />} />
             <Route path="/checkout" element={<Checkout />} />
             <Route path="/order-confirmation" element={<OrderConfirmation />} />
+            <Route path="/pedido/:token" element={<OrderTracking />} />
             <Route path="/vendor/login" element={<VendorLogin />} />
             <Route 
               path="/vendor/panel" 
@@ -44,6 +58,22 @@ function AppContent() {
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/vendor/cocina" 
+              element={
+                <ProtectedRoute permiso="ver_compras">
+                  <KitchenDisplay />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/vendor/pos" 
+              element={
+                <ProtectedRoute permiso="crear_compra">
+                  <PointOfSale />
+                </ProtectedRoute>
+              } 
+            />
           </Routes>
         </main>
         <Footer />
@@ -0,0 +1,366 @@
+// Registro de actividad del panel (auditoría)
+// Muestra quién creó, editó o eliminó productos y compras, y qué campos cambiaron en cada acción
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { apiFetch } from '../config/apiFetch';
+
+type AuditEntity = 'producto' | 'compra' | 'usuario' | 'rol' | 'caja' | 'cupon';
+
+type AuditRecord = {
+  id: number;
+  usuario_id: number | null;
+  usuario_nombre: string | null;
+  usuario_nombre_completo: string | null;
+  accion: string;
+  entidad: AuditEntity;
+  entidad_id: number | null;
+  datos_anteriores: Record<string, unknown> | null;
+  datos_nuevos: Record<string, unknown> | null;
+  ip: string | null;
+  fecha: string;
+};
+
+type AuditPagination = {
+  pagina: number;
+  por_pagina: number;
+  total: number;
+  total_paginas: number;
+};
+
+type AuditFilters = {
+  entidad: AuditEntity | 'todas';
+  accion: string;
+  usuario: string;
+  entidad_id: string;
+  fecha_desde: string;
+  fecha_hasta: string;
+};
+
+const FILTROS_INICIALES: AuditFilters = {
+  entidad: 'todas',
+  accion: 'todas',
+  usuario: '',
+  entidad_id: '',
+  fecha_desde: '',
+  fecha_hasta: '',
+};
+
+const ETIQUETAS_ACCION: Record<string, string> = {
+  crear: 'Creó',
+  actualizar: 'Editó',
+  eliminar: 'Eliminó',
+  cambiar_estado: 'Cambió el estado de',
+  cancelar: 'Canceló',
+  verificar_transferencia: 'Verificó la transferencia de',
+  registrar_pago: 'Registró un pago de',
+  anular_pago: 'Anuló un pago de',
+  reembolsar: 'Hizo un reembolso de',
+  editar_productos: 'Editó los productos de',
+  iniciar_sesion: 'Inició sesión',
+  cambiar_password: 'Cambió su contraseña',
+  desactivar: 'Desactivó',
+  cambiar_roles: 'Le cambió los roles',
+  cerrar_sesiones: 'Le cerró las sesiones',
+  activar_2fa: 'Activó la verificación en dos pasos',
+  desactivar_2fa: 'Desactivó la verificación en dos pasos',
+  regenerar_codigos_2fa: 'Generó códigos de recuperación nuevos',
+  restablecer_2fa: 'Le restableció la verificación en dos pasos',
+  abrir: 'Abrió',
+  registrar_retiro: 'Registró un retiro de',
+  cerrar: 'Cerró',
+};
+
+const ETIQUETAS_ENTIDAD: Record<AuditEntity, string> = {
+  producto: 'el producto',
+  compra: 'la compra',
+  usuario: 'al usuario',
+  rol: 'el rol',
+  caja: 'la caja',
+  cupon: 'el cupón',
+};
+
+// Acciones sobre el propio usuario, donde no hace falta nombrar la entidad
+const ACCIONES_DE_SESION = ['iniciar_sesion', 'cambiar_password', 'activar_2fa', 'desactivar_2fa', 'regenerar_codigos_2fa'];
+
+// Muestra un valor guardado en la auditoría de forma legible
+const formatearValor = (valor: unknown): string => {
+  if (valor === null || valor === undefined || valor === '') return '—';
+  if (typeof valor === 'boolean') return valor ? 'Sí' : 'No';
+  if (Array.isArray(valor)) {
+    // Detalle de una compra: "2x Café, 1x Medialunas"
+    if (valor.every(item => item && typeof item === 'object' && 'cantidad' in item && 'producto_nombre' in item)) {
+      return valor.map(item => `${item.cantidad}x ${item.producto_nombre}`).join(', ') || '—';
+    }
+    return JSON.stringify(valor);
+  }
+  if (typeof valor === 'object') return JSON.stringify(valor);
+  return String(valor);
+};
+
+// Campos que cambiaron entre antes y después (en una creación o un borrado, todos los que hay)
+const camposModificados = (registro: AuditRecord) => {
+  const antes = registro.datos_anteriores || {};
+  const despues = registro.datos_nuevos || {};
+  const campos = [...new Set([...Object.keys(antes), ...Object.keys(despues)])];
+
+  return campos
+    .filter(campo => JSON.stringify(antes[campo]) !== JSON.stringify(despues[campo]))
+    .map(campo => ({ campo, antes: antes[campo], despues: despues[campo] }));
+};
+
+const describirAccion = (registro: AuditRecord) => {
+  const accion = ETIQUETAS_ACCION[registro.accion] || registro.accion;
+  if (ACCIONES_DE_SESION.includes(registro.accion)) return accion;
+  if (registro.accion === 'cerrar_sesiones' && registro.usuario_id === registro.entidad_id) return 'Cerró todas sus sesiones';
+
+  const entidad = ETIQUETAS_ENTIDAD[registro.entidad] || registro.entidad;
+  const datos = registro.datos_nuevos || registro.datos_anteriores;
+  const nombre = registro.entidad === 'usuario'
+    ? datos?.username
+    : registro.entidad === 'cupon' ? datos?.codigo : (registro.entidad !== 'compra' ? datos?.nombre : null);
+
+  return `${accion} ${entidad} #${registro.entidad_id ?? '?'}${nombre ? ` (${nombre})` : ''}`;
+};
+
+export function ActivityLog() {
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [pagination, setPagination] = useState<AuditPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(FILTROS_INICIALES);
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const fetchRecords = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        pagina: page.toString(),
+        por_pagina: '50',
+      });
+      if (filters.entidad !== 'todas') params.set('entidad', filters.entidad);
+      if (filters.accion !== 'todas') params.set('accion', filters.accion);
+      if (filters.usuario.trim()) params.set('usuario', filters.usuario.trim());
+      if (filters.entidad_id) params.set('entidad_id', filters.entidad_id);
+      if (filters.fecha_desde) params.set('fecha_desde', filters.fecha_desde);
+      // Incluimos el día completo de la fecha "hasta"
+      if (filters.fecha_hasta) params.set('fecha_hasta', `${filters.fecha_hasta}T23:59:59`);
+
+      const response = await apiFetch(`/api/auditoria?${params.toString()}`);
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar la actividad');
+      }
+
+      setRecords(data.registros);
+      setActions(data.acciones);
+      setPagination(data.paginacion);
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar la actividad');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Esperamos un momento antes de buscar para no pedir una página por cada tecla
+  useEffect(() => {
+    const timeout = setTimeout(fetchRecords, 300);
+    return () => clearTimeout(timeout);
+  }, [page, filters]);
+
+  const handleChangeFilter = <K extends keyof AuditFilters>(campo: K, valor: AuditFilters[K]) => {
+    setFilters(prev => ({ ...prev, [campo]: valor }));
+    setPage(1);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-white mb-2">Actividad ({pagination?.total ?? records.length})</h2>
+          <p className="text-gray-400 text-sm">Quién cambió qué en el panel, con los datos antes y después de cada cambio.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setFilters(FILTROS_INICIALES);
+              setPage(1);
+            }}
+            className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+          >
+            Limpiar filtros
+          </button>
+          <button
+            type="button"
+            onClick={fetchRecords}
+            className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            title="Actualizar"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Filtros */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 mb-8">
+        <Select value={filters.entidad} onValueChange={(valor) => handleChangeFilter('entidad', valor as AuditFilters['entidad'])}>
+          <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white">
+            <SelectValue placeholder="Entidad" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todas">Todo</SelectItem>
+            <SelectItem value="producto">Productos</SelectItem>
+            <SelectItem value="compra">Compras</SelectItem>
+            <SelectItem value="usuario">Usuarios</SelectItem>
+            <SelectItem value="rol">Roles</SelectItem>
+            <SelectItem value="caja">Cajas</SelectItem>
+            <SelectItem value="cupon">Cupones</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filters.accion} onValueChange={(valor) => handleChangeFilter('accion', valor)}>
+          <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white">
+            <SelectValue placeholder="Acción" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="todas">Todas las acciones</SelectItem>
+            {actions.map(accion => (
+              <SelectItem key={accion} value={accion}>{ETIQUETAS_ACCION[accion] || accion}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Usuario"
+          value={filters.usuario}
+          onChange={(e) => handleChangeFilter('usuario', e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white"
+        />
+        <Input
+          type="number"
+          placeholder="N° de producto o compra"
+          value={filters.entidad_id}
+          onChange={(e) => handleChangeFilter('entidad_id', e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white"
+        />
+        <Input
+          type="date"
+          title="Desde"
+          value={filters.fecha_desde}
+          onChange={(e) => handleChangeFilter('fecha_desde', e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white"
+        />
+        <Input
+          type="date"
+          title="Hasta"
+          value={filters.fecha_hasta}
+          onChange={(e) => handleChangeFilter('fecha_hasta', e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white"
+        />
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-400 py-20">
+          <span className="material-icons text-6xl animate-spin">refresh</span>
+          <p className="mt-4">Cargando actividad...</p>
+        </div>
+      ) : records.length === 0 ? (
+        <div className="text-center text-gray-400 py-20">
+          <span className="material-icons text-6xl">history</span>
+          <p className="mt-4">No hay actividad registrada con ese criterio</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {records.map(registro => {
+            const abierto = expandedId === registro.id;
+            const cambios = abierto ? camposModificados(registro) : [];
+
+            return (
+              <div key={registro.id} className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-xl">
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(abierto ? null : registro.id)}
+                  className="w-full flex items-center justify-between gap-4 p-4 text-left"
+                >
+                  <div>
+                    <p className="text-white">
+                      <span className="text-[#fbbf24] font-semibold">
+                        {registro.usuario_nombre_completo || registro.usuario_nombre || 'Usuario eliminado'}
+                      </span>{' '}
+                      {describirAccion(registro)}
+                    </p>
+                    <p className="text-gray-500 text-sm">
+                      {new Date(registro.fecha).toLocaleString('es-AR')}
+                      {registro.ip ? ` • ${registro.ip}` : ''}
+                    </p>
+                  </div>
+                  {abierto ? <ChevronUp className="w-5 h-5 text-gray-400" /> : <ChevronDown className="w-5 h-5 text-gray-400" />}
+                </button>
+
+                {abierto && (
+                  <div className="px-4 pb-4">
+                    {cambios.length === 0 ? (
+                      <p className="text-gray-500 text-sm">Sin cambios de datos para mostrar.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-gray-400 text-left border-b border-gray-700">
+                              <th className="py-2 pr-4 font-medium">Campo</th>
+                              <th className="py-2 pr-4 font-medium">Antes</th>
+                              <th className="py-2 font-medium">Después</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {cambios.map(cambio => (
+                              <tr key={cambio.campo} className="border-b border-gray-800 align-top">
+                                <td className="py-2 pr-4 text-gray-400">{cambio.campo}</td>
+                                <td className="py-2 pr-4 text-red-300 break-all">{formatearValor(cambio.antes)}</td>
+                                <td className="py-2 text-green-300 break-all">{formatearValor(cambio.despues)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Paginación */}
+      {pagination && pagination.total_paginas > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-8">
+          <button
+            type="button"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+          >
+            Anterior
+          </button>
+          <span className="text-gray-400">
+            Página {pagination.pagina} de {pagination.total_paginas}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pagination.total_paginas || loading}
+            className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+          >
+            Siguiente
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,14 +7,28 @@ import { useAuth } from '../context/AuthContext';
 import { PoliceButton } from './PoliceButton';
 import { 
   Package, ShoppingBag, Edit2, Trash2, Plus, 
-  FileText, CheckCircle, CheckCheck, X, Save 
+  FileText, CheckCircle, X, Save, History, Undo2, ChefHat, Receipt, ScrollText, Users, UserCheck, Wallet, Store, CreditCard, RotateCcw, Tag 
 } from 'lucide-react';
 import { Badge } from './ui/badge';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { toast } from 'sonner';
-import { getApiUrl } from '../config/api';
+import { apiFetch, leerToken } from '../config/apiFetch';
+import { ESTADOS_COMPRA, TRANSICIONES_ESTADO, esRetroceso } from '../config/estados';
+import { OrderStatus, OrderStatusChange, TransferVerification } from '../types';
+import { useComprasStream, ComprasStreamEvent } from '../hooks/useComprasStream';
+import { ComprobanteMiniatura } from './ComprobanteMiniatura';
+import { TransferVerificationQueue } from './TransferVerificationQueue';
+import { ActivityLog } from './ActivityLog';
+import { LoginAttempts } from './LoginAttempts';
+import { UserManagement } from './UserManagement';
+import { VendorCashSummary } from './VendorCashSummary';
+import { CashRegister } from './CashRegister';
+import { PurchasePayments } from './PurchasePayments';
+import { PurchaseRefunds } from './PurchaseRefunds';
+import { CouponManagement } from './CouponManagement';
+import { RequirePermission } from './RequirePermission';
 
 // Definimos los tipos de datos que vamos a manejar
 type Product = {
@@ -26,6 +40,15 @@ type Product = {
   categoria: 'merienda' | 'cena';
   imagen_url: string | null;
   disponible: boolean;
+  // En los combos el stock es cuántos se pueden armar con el stock de sus componentes
+  es_combo: boolean;
+  componentes: { producto_id: number; nombre: string; cantidad: number }[];
+};
+
+// Fila del formulario de producto para un componente de combo (los valores quedan como texto hasta guardar)
+type ComboComponentRow = {
+  producto_id: string;
+  cantidad: string;
 };
 
 type PurchaseDetail = {
@@ -36,6 +59,44 @@ type PurchaseDetail = {
   subtotal: number;
 };
 
+// Lo que el cupón le descontó a cada producto de la compra
+type PurchaseDiscount = {
+  producto_id: number;
+  producto_nombre: string;
+  codigo: string;
+  monto: number;
+};
+
+// Filtros del listado de ventas (se aplican en el servidor)
+type PurchaseFilters = {
+  estado: string;
+  metodo_pago: string;
+  mesa: string;
+  total_min: string;
+  total_max: string;
+  producto_id: string;
+  atendido_por: string; // 'yo' muestra solo los pedidos que cobró, marcó listos o entregó el usuario logueado
+  orden: string;
+};
+
+type PurchasePagination = {
+  pagina: number;
+  por_pagina: number;
+  total: number;
+  total_paginas: number;
+};
+
+const FILTROS_VENTAS_INICIALES: PurchaseFilters = {
+  estado: 'todos',
+  metodo_pago: 'todos',
+  mesa: '',
+  total_min: '',
+  total_max: '',
+  producto_id: 'todos',
+  atendido_por: 'todos',
+  orden: 'fecha_desc',
+};
+
 type Purchase = {
   id: number;
   comprador_nombre: string;
@@ -43,30 +104,65 @@ type Purchase = {
   comprador_mesa: number;
   metodo_pago: string;
   total: number;
-  comprobante_archivo: string | null;
+  tiene_comprobante: boolean;
+  tiene_miniatura: boolean;
+  verificacion_estado: TransferVerification | null;
+  motivo_rechazo: string | null;
   fecha: string;
+  estado: OrderStatus;
   abonado: boolean;
   listo: boolean;
   entregado: boolean;
+  // Quién marcó cada paso (null si todavía no pasó o fue antes de registrarse)
+  abonado_por_usuario: string | null;
+  listo_por_usuario: string | null;
+  entregado_por_usuario: string | null;
+  creado_por: number | null; // Lo cargó un vendedor en el punto de venta
+  // Suma de los pagos vigentes y lo que falta cobrar (negativo si se cobró de más)
+  monto_pagado: number;
+  saldo: number;
+  // Plata devuelta con reembolsos y lo que realmente se vendió (total - reembolsos)
+  monto_reembolsado: number;
+  total_neto: number;
+  // Cupón usado en el checkout: total ya tiene restado el descuento (subtotal = total + descuento)
+  cupon_codigo: string | null;
+  descuento: number;
+  subtotal: number;
   detalles_pedido: string | null;
+  motivo_cancelacion: string | null;
   detalles: PurchaseDetail[];
+  descuentos: PurchaseDiscount[];
 };
 
 // Tipos para las pestañas del panel
-type TabType = 'products' | 'sales';
+type TabType = 'products' | 'sales' | 'transfers' | 'cash' | 'coupons' | 'activity' | 'users';
+
+// Permiso que hace falta para ver cada pestaña (el mismo que exige el backend para cargarla)
+const PERMISO_PESTANA: Record<TabType, string> = {
+  sales: 'ver_compras',
+  products: 'ver_productos',
+  transfers: 'ver_compras',
+  cash: 'operar_caja',
+  coupons: 'gestionar_cupones',
+  users: 'gestionar_usuarios',
+  activity: 'ver_auditoria',
+};
+
+const ORDEN_PESTANAS: TabType[] = ['sales', 'products', 'transfers', 'cash', 'coupons', 'users', 'activity'];
 
 export function AdminPanelNew() {
   // Hook para verificar autenticación y obtener datos del usuario
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, hasPermission } = useAuth();
   const navigate = useNavigate();
   
   // Estados para manejar los datos
   const [activeTab, setActiveTab] = useState<TabType>('sales');
+  const [activityView, setActivityView] = useState<'cambios' | 'logins'>('cambios'); // Qué se ve en la pestaña de actividad
   const [products, setProducts] = useState<Product[]>([]);
   const [purchases, setPurchases] = useState<Purchase[]>([]);
-  const [filteredPurchases, setFilteredPurchases] = useState<Purchase[]>([]);
   const [loading, setLoading] = useState(false);
   const [showInactiveProducts, setShowInactiveProducts] = useState(false); // Filtro para mostrar/ocultar inactivos
+  const [showCashSummary, setShowCashSummary] = useState(false); // Resumen de caja por vendedor en la pestaña de ventas
   
   // Redirigir al login si no hay usuario (pero solo después de cargar)
   useEffect(() => {
@@ -78,8 +174,12 @@ export function AdminPanelNew() {
     }
   }, [authLoading, user, navigate]);
   
-  // Estados para búsqueda de compras
+  // Estados para búsqueda, filtros y paginación de compras
   const [searchQuery, setSearchQuery] = useState('');
+  const [purchaseFilters, setPurchaseFilters] = useState<PurchaseFilters>(FILTROS_VENTAS_INICIALES);
+  const [purchasePage, setPurchasePage] = useState(1);
+  const [purchasePagination, setPurchasePagination] = useState<PurchasePagination | null>(null);
+  const [purchasesTotalAmount, setPurchasesTotalAmount] = useState(0);
   
   // Estados para edición de compras
   const [editingPurchase, setEditingPurchase] = useState<Purchase | null>(null);
@@ -94,10 +194,26 @@ export function AdminPanelNew() {
   const [editingPurchaseProducts, setEditingPurchaseProducts] = useState<Purchase | null>(null);
   const [showEditProductsModal, setShowEditProductsModal] = useState(false);
   const [editedDetails, setEditedDetails] = useState<PurchaseDetail[]>([]);
+  const [productToAdd, setProductToAdd] = useState('');
+  
+  // Estados para el historial de estados de cada compra
+  const [expandedHistoryId, setExpandedHistoryId] = useState<number | null>(null);
+  const [statusHistory, setStatusHistory] = useState<Record<number, OrderStatusChange[]>>({});
+
+  // Compra con la lista de pagos desplegada
+  const [expandedPaymentsId, setExpandedPaymentsId] = useState<number | null>(null);
+  const [expandedRefundsId, setExpandedRefundsId] = useState<number | null>(null);
+  
+  // Compras recién llegadas por el stream en vivo (se resaltan unos segundos)
+  const [newPurchaseIds, setNewPurchaseIds] = useState<number[]>([]);
+  
+  // Cambia con cada evento en vivo de una transferencia, para refrescar la cola de verificación
+  const [verificationRefresh, setVerificationRefresh] = useState(0);
   
   // Estados para modal de comprobante
   const [showComprobanteModal, setShowComprobanteModal] = useState(false);
   const [currentComprobante, setCurrentComprobante] = useState<string | null>(null);
+  const [loadingComprobanteId, setLoadingComprobanteId] = useState<number | null>(null);
   
   // Estado para Google Sheets URL (preconfigurada)
   const [googleSheetsUrl] = useState<string>('https://script.google.com/macros/s/AKfycbwzUiED1XET22wFwD8gGeTmLxOSZVB2qJXJfAmkEDMuM9brfsnd20HplAFp-ODaMQc/exec');
@@ -114,6 +230,8 @@ export function AdminPanelNew() {
     subcategoria: '',
     imagen_url: '',
     activo: true,
+    es_combo: false,
+    componentes: [] as ComboComponentRow[],
   });
 
   // Mostrar loading mientras se verifica la sesión
@@ -141,35 +259,98 @@ export function AdminPanelNew() {
     );
   }
 
+  // Si la pestaña activa dejó de estar permitida (o nunca lo estuvo), pasamos a la primera que sí
+  const allowedTabs = ORDEN_PESTANAS.filter(tab => hasPermission(PERMISO_PESTANA[tab]));
+  useEffect(() => {
+    if (allowedTabs.length > 0 && !allowedTabs.includes(activeTab)) {
+      setActiveTab(allowedTabs[0]);
+    }
+  }, [allowedTabs.join(','), activeTab]);
+
   // useEffect se ejecuta cuando el componente se monta o cambia la pestaña activa
   // Sirve para cargar los datos del backend según la pestaña seleccionada
   useEffect(() => {
     if (activeTab === 'products') {
       fetchProducts();
-    } else {
-      fetchPurchases();
+    } else if (activeTab === 'sales' && products.length === 0) {
+      // El filtro por producto de la pestaña de ventas usa el catálogo
+      fetchProducts();
     }
   }, [activeTab]);
 
-  // Inicializar filteredPurchases cuando purchases cambie
+  // Las ventas se piden al servidor con la búsqueda, los filtros y la página actual
+  // Esperamos un momento para no hacer una petición por cada tecla
   useEffect(() => {
-    setFilteredPurchases(purchases);
-  }, [purchases]);
+    if (activeTab !== 'sales') return;
+    const espera = setTimeout(() => fetchPurchases(), 300);
+    return () => clearTimeout(espera);
+  }, [activeTab, purchasePage, searchQuery, purchaseFilters]);
+
+  // Hay algún filtro o búsqueda activa
+  const hasPurchaseFilters = !!searchQuery.trim() ||
+    Object.entries(purchaseFilters).some(([clave, valor]) => valor !== FILTROS_VENTAS_INICIALES[clave as keyof PurchaseFilters]);
+
+  // Sonido corto para avisar que entró un pedido nuevo (sin archivos de audio)
+  const playNewOrderSound = () => {
+    try {
+      const audioContext = new AudioContext();
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.setValueAtTime(880, audioContext.currentTime);
+      oscillator.frequency.setValueAtTime(1320, audioContext.currentTime + 0.15);
+      gain.gain.setValueAtTime(0.2, audioContext.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.001, audioContext.currentTime + 0.4);
+      oscillator.connect(gain);
+      gain.connect(audioContext.destination);
+      oscillator.start();
+      oscillator.stop(audioContext.currentTime + 0.4);
+      oscillator.onended = () => audioContext.close();
+    } catch (error) {
+      // Algunos navegadores bloquean el audio hasta que el usuario interactúa con la página
+      console.warn('No se pudo reproducir el aviso sonoro:', error);
+    }
+  };
+
+  // Mezclamos los eventos en vivo con la lista de compras sin recargar todo
+  const handleStreamEvent = ({ tipo, datos }: ComprasStreamEvent) => {
+    if (datos.verificacion_estado || tipo === 'compra_eliminada') {
+      setVerificationRefresh(prev => prev + 1);
+    }
+    if (tipo === 'compra_creada') {
+      // Solo la agregamos si estamos viendo la primera página sin filtros
+      if (purchasePage === 1 && !hasPurchaseFilters && purchaseFilters.orden === 'fecha_desc') {
+        setPurchases(prev => prev.some(p => p.id === datos.id) ? prev : [datos, ...prev]);
+      }
+      setNewPurchaseIds(prev => [...prev, datos.id]);
+      setTimeout(() => {
+        setNewPurchaseIds(prev => prev.filter(id => id !== datos.id));
+      }, 15000);
+      playNewOrderSound();
+      toast.info(`Nuevo pedido #${datos.id}`, {
+        description: `${datos.comprador_nombre} • ${formatPrice(datos.total)}`,
+      });
+    } else if (tipo === 'compra_actualizada') {
+      setPurchases(prev => prev.map(p => p.id === datos.id ? { ...p, ...datos } : p));
+      // El historial de esa compra cambió: lo descartamos para que se vuelva a pedir
+      setStatusHistory(prev => {
+        const { [datos.id]: _descartado, ...resto } = prev;
+        return resto;
+      });
+    } else if (tipo === 'compra_eliminada') {
+      setPurchases(prev => prev.filter(p => p.id !== datos.id));
+    }
+  };
+
+  useComprasStream(handleStreamEvent, !!user && hasPermission('ver_compras'));
 
   // Función para obtener la lista de productos del backend
   // Esta función hace una petición GET a la API
   const fetchProducts = async () => {
     setLoading(true);
     try {
-      // Obtenemos el token de autenticación
-      const token = localStorage.getItem('token');
-      
       // Hacemos la petición al endpoint de admin que devuelve TODOS los productos
-      const response = await fetch(getApiUrl('/api/productos/admin/all'), {
-        headers: {
-          'Authorization': `Bearer ${token}`
-        }
-      });
+      const response = await apiFetch('/api/productos/admin/all');
       
       // Verificamos si la respuesta fue exitosa (código 200-299)
       if (!response.ok) {
@@ -205,21 +386,37 @@ export function AdminPanelNew() {
     }
   };
 
-  // Función para obtener el historial de ventas del backend
+  // Arma los query params del listado de ventas con la búsqueda y los filtros actuales
+  const buildPurchasesQuery = (pagina: number, porPagina: number = 20) => {
+    const params = new URLSearchParams({
+      pagina: pagina.toString(),
+      por_pagina: porPagina.toString(),
+      orden: purchaseFilters.orden,
+    });
+    if (searchQuery.trim()) params.set('q', searchQuery.trim());
+    if (purchaseFilters.estado !== 'todos') params.set('estado', purchaseFilters.estado);
+    if (purchaseFilters.metodo_pago !== 'todos') params.set('metodo_pago', purchaseFilters.metodo_pago);
+    if (purchaseFilters.producto_id !== 'todos') params.set('producto_id', purchaseFilters.producto_id);
+    if (purchaseFilters.atendido_por !== 'todos') params.set('atendido_por', purchaseFilters.atendido_por);
+    if (purchaseFilters.mesa) params.set('mesa', purchaseFilters.mesa);
+    if (purchaseFilters.total_min) params.set('total_min', purchaseFilters.total_min);
+    if (purchaseFilters.total_max) params.set('total_max', purchaseFilters.total_max);
+    return params.toString();
+  };
+
+  // Cambiar un filtro vuelve a la primera página
+  const handleChangePurchaseFilter = (filtro: keyof PurchaseFilters, valor: string) => {
+    setPurchaseFilters(prev => ({ ...prev, [filtro]: valor }));
+    setPurchasePage(1);
+  };
+
+  // Función para obtener el historial de ventas del backend (una página)
   const fetchPurchases = async () => {
     setLoading(true);
     try {
-      // Obtenemos el token de autenticación del localStorage
-      // Este token lo obtuvo el usuario al hacer login
-      const token = localStorage.getItem('token');
-      
-      // Hacemos la petición con el token en el header Authorization
+      // apiFetch agrega el token en el header Authorization (y lo renueva si venció)
       // Esto es necesario porque el endpoint de compras está protegido
-      const response = await fetch(getApiUrl('/api/compras'), {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+      const response = await apiFetch(`/api/compras?${buildPurchasesQuery(purchasePage)}`);
       
       if (!response.ok) {
         throw new Error('Error al cargar ventas');
@@ -227,11 +424,14 @@ export function AdminPanelNew() {
       
       const data = await response.json();
       console.log('Respuesta de compras:', data);
-      // El backend devuelve {success: true, compras: [...]}
+      // El backend devuelve {success: true, compras: [...], paginacion: {...}, monto_total}
       if (data.success && Array.isArray(data.compras)) {
         setPurchases(data.compras);
+        setPurchasePagination(data.paginacion);
+        setPurchasesTotalAmount(data.monto_total || 0);
       } else {
         setPurchases([]);
+        setPurchasePagination(null);
       }
     } catch (error) {
       console.error('Error:', error);
@@ -255,12 +455,15 @@ export function AdminPanelNew() {
         toast.error('El precio debe ser mayor a 0');
         return;
       }
-      if (!formData.stock || parseInt(formData.stock) < 0) {
+      if (!formData.es_combo && (!formData.stock || parseInt(formData.stock) < 0)) {
         toast.error('El stock no puede ser negativo');
         return;
       }
+      if (formData.es_combo && !comboComponentsAreValid()) {
+        return;
+      }
 
-      const token = localStorage.getItem('token');
+      const token = leerToken();
       
       if (!token) {
         toast.error('No hay sesión activa. Inicia sesión nuevamente.');
@@ -273,20 +476,20 @@ export function AdminPanelNew() {
         nombre: formData.nombre.trim(),
         descripcion: formData.descripcion.trim() || '',
         precio: parseFloat(formData.precio),
-        stock: parseInt(formData.stock),
+        stock: formData.es_combo ? 0 : parseInt(formData.stock),
         categoria: formData.categoria,
         subcategoria: formData.subcategoria.trim() || '',
         imagen_url: formData.imagen_url.trim() || null,
-        activo: formData.activo
+        activo: formData.activo,
+        ...comboData()
       };
 
       console.log('Creando producto:', productoData);
       
       // Hacemos una petición POST para crear el producto
-      const response = await fetch(getApiUrl('/api/productos'), {
+      const response = await apiFetch('/api/productos', {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(productoData),
@@ -327,12 +530,15 @@ export function AdminPanelNew() {
         toast.error('El precio debe ser mayor a 0');
         return;
       }
-      if (!formData.stock || parseInt(formData.stock) < 0) {
+      if (!formData.es_combo && (!formData.stock || parseInt(formData.stock) < 0)) {
         toast.error('El stock no puede ser negativo');
         return;
       }
+      if (formData.es_combo && !comboComponentsAreValid()) {
+        return;
+      }
 
-      const token = localStorage.getItem('token');
+      const token = leerToken();
       
       if (!token) {
         toast.error('No hay sesión activa. Inicia sesión nuevamente.');
@@ -345,20 +551,20 @@ export function AdminPanelNew() {
         nombre: formData.nombre.trim(),
         descripcion: formData.descripcion.trim() || '',
         precio: parseFloat(formData.precio),
-        stock: parseInt(formData.stock),
+        stock: formData.es_combo ? 0 : parseInt(formData.stock),
         categoria: formData.categoria,
         subcategoria: formData.subcategoria.trim() || '',
         imagen_url: formData.imagen_url.trim() || null,
-        activo: formData.activo
+        activo: formData.activo,
+        ...comboData()
       };
 
       console.log('Actualizando producto:', editingProduct.id, productoData);
       
       // Usamos PUT para actualizar un recurso existente
-      const response = await fetch(getApiUrl(`/api/productos/${editingProduct.id}`), {
+      const response = await apiFetch(`/api/productos/${editingProduct.id}`, {
         method: 'PUT',
         headers: {
-          'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json'
         },
         body: JSON.stringify(productoData),
@@ -390,14 +596,9 @@ export function AdminPanelNew() {
     }
     
     try {
-      const token = localStorage.getItem('token');
-      
       // DELETE se usa para eliminar recursos
-      const response = await fetch(getApiUrl(`/api/productos/${id}`), {
+      const response = await apiFetch(`/api/productos/${id}`, {
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
       });
       
       if (!response.ok) {
@@ -412,6 +613,34 @@ export function AdminPanelNew() {
     }
   };
 
+  // Un combo necesita al menos un producto, todos elegidos y con cantidad entera mayor a 0
+  const comboComponentsAreValid = () => {
+    if (formData.componentes.length === 0) {
+      toast.error('Agregá al menos un producto al combo');
+      return false;
+    }
+    if (formData.componentes.some(c => !c.producto_id || !(parseInt(c.cantidad) > 0))) {
+      toast.error('Elegí el producto y la cantidad de cada componente del combo');
+      return false;
+    }
+    return true;
+  };
+
+  // Campos del combo que van en el body (si deja de ser combo, el servidor le borra los componentes)
+  const comboData = () => ({
+    es_combo: formData.es_combo,
+    componentes: formData.es_combo
+      ? formData.componentes.map(c => ({ producto_id: Number(c.producto_id), cantidad: parseInt(c.cantidad) }))
+      : []
+  });
+
+  const updateComboComponent = (index: number, cambios: Partial<ComboComponentRow>) => {
+    setFormData({
+      ...formData,
+      componentes: formData.componentes.map((c, i) => (i === index ? { ...c, ...cambios } : c))
+    });
+  };
+
   // Función auxiliar para resetear el formulario
   const resetForm = () => {
     setFormData({
@@ -423,6 +652,8 @@ export function AdminPanelNew() {
       subcategoria: '',
       imagen_url: '',
       activo: true,
+      es_combo: false,
+      componentes: [],
     });
   };
 
@@ -460,6 +691,11 @@ export function AdminPanelNew() {
       subcategoria: subcategoria,
       imagen_url: prod.imagen_url || '',
       activo: prod.activo ?? true,
+      es_combo: !!prod.es_combo,
+      componentes: (prod.componentes || []).map((c: any) => ({
+        producto_id: c.producto_id.toString(),
+        cantidad: c.cantidad.toString()
+      })),
     });
     
     setShowProductForm(true);
@@ -486,43 +722,67 @@ export function AdminPanelNew() {
 
   // ========== FUNCIONES PARA MANEJO DE COMPRAS ==========
 
-  // Filtrar compras según búsqueda
-  useEffect(() => {
-    if (!searchQuery.trim()) {
-      setFilteredPurchases(purchases);
-    } else {
-      const query = searchQuery.toLowerCase();
-      const filtered = purchases.filter(p => 
-        p.comprador_nombre.toLowerCase().includes(query) ||
-        p.comprador_mesa.toString().includes(query) ||
-        (p.comprador_telefono && p.comprador_telefono.includes(query))
-      );
-      setFilteredPurchases(filtered);
-    }
-  }, [searchQuery, purchases]);
-
-  // Actualizar estado de compra (abonado/listo/entregado)
-  const handleToggleStatus = async (purchaseId: number, field: 'abonado' | 'listo' | 'entregado', currentValue: boolean) => {
+  // Cambiar el estado de una compra (el servidor valida que la transición sea válida)
+  const handleChangeStatus = async (purchaseId: number, estado: OrderStatus) => {
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(getApiUrl(`/api/compras/${purchaseId}/estado`), {
+      const response = await apiFetch(`/api/compras/${purchaseId}/estado`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
         },
-        body: JSON.stringify({ [field]: !currentValue }),
+        body: JSON.stringify({ estado }),
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error('Error al actualizar estado');
+        throw new Error(data.mensaje || 'Error al actualizar estado');
       }
 
-      toast.success(`Estado actualizado: ${field}`);
+      toast.success(`Estado actualizado: ${ESTADOS_COMPRA[estado].label}`);
+      if (data.aviso) toast.warning(data.aviso);
+      // Si el historial de esta compra estaba cargado, lo descartamos para que se vuelva a pedir
+      setStatusHistory(prev => {
+        const { [purchaseId]: _descartado, ...resto } = prev;
+        return resto;
+      });
+      if (expandedHistoryId === purchaseId) {
+        fetchStatusHistory(purchaseId);
+      }
       fetchPurchases(); // Recargar compras
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al actualizar estado');
+    }
+  };
+
+  // Obtener la línea de tiempo de estados de una compra
+  const fetchStatusHistory = async (purchaseId: number) => {
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/historial`);
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar historial');
+      }
+
+      setStatusHistory(prev => ({ ...prev, [purchaseId]: data.historial }));
     } catch (error) {
       console.error('Error:', error);
-      toast.error('Error al actualizar estado');
+      toast.error('Error al cargar el historial del pedido');
+    }
+  };
+
+  // Mostrar u ocultar el historial de una compra
+  const handleToggleHistory = (purchaseId: number) => {
+    if (expandedHistoryId === purchaseId) {
+      setExpandedHistoryId(null);
+      return;
+    }
+    setExpandedHistoryId(purchaseId);
+    if (!statusHistory[purchaseId]) {
+      fetchStatusHistory(purchaseId);
     }
   };
 
@@ -576,30 +836,73 @@ export function AdminPanelNew() {
     return `https://wa.me/${telefono}?text=${encodeURIComponent(mensaje)}`;
   };
 
+  // Cancelar compra: queda registrada como cancelada y el stock vuelve a los productos
+  const handleCancelPurchase = async (purchase: Purchase) => {
+    // Si ya se cobró algo, al cancelar se registra la devolución (el efectivo sale de la caja abierta)
+    const cobrado = Number(purchase.monto_pagado || 0) - Number(purchase.monto_reembolsado || 0);
+    const motivo = prompt(
+      cobrado > 0
+        ? `Motivo de la cancelación del pedido #${purchase.id} (se devuelven ${formatPrice(cobrado)} cobrados):`
+        : `Motivo de la cancelación del pedido #${purchase.id}:`
+    );
+    if (motivo === null) return;
+    if (!motivo.trim()) {
+      toast.error('Tenés que indicar un motivo para cancelar');
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/compras/${purchase.id}/cancelar`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ motivo: motivo.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.mensaje || 'Error al cancelar compra');
+      }
+
+      toast.success(`Pedido #${purchase.id} cancelado`, {
+        description: data.reembolsos?.length > 0
+          ? 'El stock de sus productos fue devuelto y se registró la devolución de lo cobrado'
+          : 'El stock de sus productos fue devuelto',
+      });
+      if (data.aviso) {
+        toast.warning(data.aviso);
+      }
+      fetchPurchases();
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cancelar compra');
+    }
+  };
+
   // Eliminar compra
   const handleDeletePurchase = async (purchaseId: number) => {
-    if (!confirm('¿Estás seguro de eliminar esta compra? Esta acción no se puede deshacer.')) {
+    if (!confirm('¿Estás seguro de eliminar esta compra? Se borra definitivamente (si no estaba cancelada ni entregada, su stock se devuelve). Las compras con pagos no se pueden eliminar. Para dejar registro usá "Cancelar pedido".')) {
       return;
     }
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(getApiUrl(`/api/compras/${purchaseId}`), {
+      const response = await apiFetch(`/api/compras/${purchaseId}`, {
         method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error('Error al eliminar compra');
+        throw new Error(data.mensaje || 'Error al eliminar compra');
       }
 
       toast.success('Compra eliminada correctamente');
       fetchPurchases();
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error:', error);
-      toast.error('Error al eliminar compra');
+      toast.error(error.message || 'Error al eliminar compra');
     }
   };
 
@@ -621,12 +924,10 @@ export function AdminPanelNew() {
     if (!editingPurchase) return;
 
     try {
-      const token = localStorage.getItem('token');
-      const response = await fetch(getApiUrl(`/api/compras/${editingPurchase.id}`), {
+      const response = await apiFetch(`/api/compras/${editingPurchase.id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
           comprador_nombre: purchaseFormData.comprador_nombre,
@@ -648,11 +949,71 @@ export function AdminPanelNew() {
     }
   };
 
+  // Ver comprobante: se descarga recién cuando se abre (los listados no lo incluyen)
+  const handleViewComprobante = async (purchaseId: number) => {
+    setLoadingComprobanteId(purchaseId);
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/comprobante`);
+
+      if (!response.ok) {
+        throw new Error('Error al cargar el comprobante');
+      }
+
+      const imagen = await response.blob();
+      setCurrentComprobante(URL.createObjectURL(imagen));
+      setShowComprobanteModal(true);
+    } catch (error) {
+      console.error('Error:', error);
+      toast.error('Error al cargar el comprobante');
+    } finally {
+      setLoadingComprobanteId(null);
+    }
+  };
+
+  // Cerrar el modal del comprobante y liberar la imagen descargada
+  const handleCloseComprobante = () => {
+    if (currentComprobante) {
+      URL.revokeObjectURL(currentComprobante);
+    }
+    setCurrentComprobante(null);
+    setShowComprobanteModal(false);
+  };
+
   // Abrir modal de edición de productos
   const handleEditPurchaseProducts = (purchase: Purchase) => {
     setEditingPurchaseProducts(purchase);
     setEditedDetails([...purchase.detalles]);
+    setProductToAdd('');
     setShowEditProductsModal(true);
+    // Necesitamos el catálogo para poder agregar productos nuevos a la orden
+    if (products.length === 0) {
+      fetchProducts();
+    }
+  };
+
+  // Agregar un producto a la compra (si ya estaba, suma una unidad)
+  // El precio es orientativo: el definitivo lo calcula el servidor al guardar
+  const handleAddProductToPurchase = () => {
+    const producto = products.find(p => p.id.toString() === productToAdd);
+    if (!producto) return;
+
+    const index = editedDetails.findIndex(d => d.producto_id === producto.id);
+    if (index >= 0) {
+      handleUpdateProductQuantity(index, editedDetails[index].cantidad + 1);
+    } else {
+      const precio = parseFloat(producto.precio as any) || 0;
+      setEditedDetails([
+        ...editedDetails,
+        {
+          producto_id: producto.id,
+          producto_nombre: producto.nombre,
+          cantidad: 1,
+          precio_unitario: precio,
+          subtotal: precio,
+        },
+      ]);
+    }
+    setProductToAdd('');
   };
 
   // Actualizar cantidad de un producto
@@ -674,26 +1035,22 @@ export function AdminPanelNew() {
     setEditedDetails(updatedDetails);
   };
 
-  // Guardar cambios en productos (Esta función necesitaría un endpoint en el backend)
+  // Guardar cambios en productos
+  // Solo mandamos producto y cantidad: el servidor calcula precios y ajusta el stock
   const handleSaveProductChanges = async () => {
     if (!editingPurchaseProducts) return;
 
     try {
-      const token = localStorage.getItem('token');
-      
       // Preparar los productos en el formato que espera el backend
       const productosActualizados = editedDetails.map(detalle => ({
         producto_id: detalle.producto_id,
-        cantidad: detalle.cantidad,
-        precio_unitario: detalle.precio_unitario,
-        subtotal: detalle.subtotal
+        cantidad: detalle.cantidad
       }));
 
-      const response = await fetch(getApiUrl(`/api/compras/${editingPurchaseProducts}/productos`), {
+      const response = await apiFetch(`/api/compras/${editingPurchaseProducts.id}/productos`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${token}`
         },
         body: JSON.stringify({
           productos: productosActualizados
@@ -737,8 +1094,23 @@ export function AdminPanelNew() {
         description: 'Limpiando datos anteriores y enviando nuevos'
       });
 
+      // Traemos todas las páginas con los filtros actuales (el listado en pantalla es solo una página)
+      const allPurchases: Purchase[] = [];
+      let pagina = 1;
+      let totalPaginas = 1;
+      do {
+        const response = await apiFetch(`/api/compras?${buildPurchasesQuery(pagina, 100)}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.mensaje || 'Error al cargar ventas');
+        }
+        allPurchases.push(...data.compras);
+        totalPaginas = data.paginacion.total_paginas;
+        pagina++;
+      } while (pagina <= totalPaginas);
+
       // Preparar datos para exportar
-      const dataToExport = filteredPurchases.map(purchase => ({
+      const dataToExport = allPurchases.map(purchase => ({
         orden_id: purchase.id,
         fecha: new Date(purchase.fecha).toLocaleString('es-AR'),
         cliente: purchase.comprador_nombre,
@@ -746,6 +1118,11 @@ export function AdminPanelNew() {
         mesa: purchase.comprador_mesa,
         metodo_pago: purchase.metodo_pago,
         total: purchase.total,
+        reembolsado: purchase.monto_reembolsado,
+        total_neto: purchase.total_neto,
+        cupon: purchase.cupon_codigo || '',
+        descuento: purchase.descuento,
+        estado: ESTADOS_COMPRA[purchase.estado].label,
         abonado: purchase.abonado ? 'Sí' : 'No',
         listo: purchase.listo ? 'Sí' : 'No',
         entregado: purchase.entregado ? 'Sí' : 'No',
@@ -798,37 +1175,179 @@ export function AdminPanelNew() {
             </p>
           </div>
           <h1 className="text-white mb-3">Administración del Sistema</h1>
-          <p className="text-gray-400 text-lg">Gestión de productos y visualización de ventas</p>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-gray-400 text-lg">Gestión de productos y visualización de ventas</p>
+            <div className="flex flex-wrap gap-3">
+              <RequirePermission permiso="crear_compra">
+                <button
+                  onClick={() => navigate('/vendor/pos')}
+                  className="flex items-center gap-2 px-4 py-2 bg-[#1f1f1f] border border-[#fbbf24]/30 text-[#fbbf24] rounded-lg hover:bg-[#2a2a2a] transition-colors"
+                >
+                  <Store className="w-4 h-4" />
+                  Punto de venta
+                </button>
+              </RequirePermission>
+              <RequirePermission permiso="ver_compras">
+                <button
+                  onClick={() => navigate('/vendor/cocina')}
+                  className="flex items-center gap-2 px-4 py-2 bg-[#1f1f1f] border border-[#fbbf24]/30 text-[#fbbf24] rounded-lg hover:bg-[#2a2a2a] transition-colors"
+                >
+                  <ChefHat className="w-4 h-4" />
+                  Pantalla de cocina
+                </button>
+              </RequirePermission>
+            </div>
+          </div>
         </div>
 
         {/* Pestañas de navegación */}
         <div className="flex gap-4 mb-12 border-b-2 border-[#fbbf24]/30">
-          <button
-            onClick={() => setActiveTab('sales')}
-            className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
-              activeTab === 'sales'
-                ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
-                : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
-            }`}
-          >
-            <ShoppingBag className="w-5 h-5" />
-            Ventas
-          </button>
-          <button
-            onClick={() => setActiveTab('products')}
-            className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
-              activeTab === 'products'
-                ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
-                : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
-            }`}
-          >
-            <Package className="w-5 h-5" />
-            Productos
-          </button>
+          {allowedTabs.includes('sales') && (
+            <button
+              onClick={() => setActiveTab('sales')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'sales'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <ShoppingBag className="w-5 h-5" />
+              Ventas
+            </button>
+          )}
+          {allowedTabs.includes('products') && (
+            <button
+              onClick={() => setActiveTab('products')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'products'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <Package className="w-5 h-5" />
+              Productos
+            </button>
+          )}
+          {allowedTabs.includes('transfers') && (
+            <button
+              onClick={() => setActiveTab('transfers')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'transfers'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <Receipt className="w-5 h-5" />
+              Transferencias
+            </button>
+          )}
+          {allowedTabs.includes('cash') && (
+            <button
+              onClick={() => setActiveTab('cash')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'cash'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <Wallet className="w-5 h-5" />
+              Caja
+            </button>
+          )}
+          {allowedTabs.includes('coupons') && (
+            <button
+              onClick={() => setActiveTab('coupons')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'coupons'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <Tag className="w-5 h-5" />
+              Cupones
+            </button>
+          )}
+          {allowedTabs.includes('users') && (
+            <button
+              onClick={() => setActiveTab('users')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'users'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <Users className="w-5 h-5" />
+              Usuarios
+            </button>
+          )}
+          {allowedTabs.includes('activity') && (
+            <button
+              onClick={() => setActiveTab('activity')}
+              className={`px-8 py-4 flex items-center gap-3 transition-all duration-300 rounded-t-2xl font-medium ${
+                activeTab === 'activity'
+                  ? 'bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black shadow-lg'
+                  : 'text-gray-400 hover:text-white hover:bg-[#1f1f1f]'
+              }`}
+            >
+              <ScrollText className="w-5 h-5" />
+              Actividad
+            </button>
+          )}
         </div>
 
+        {allowedTabs.length === 0 && (
+          <div className="text-center text-gray-400 py-20">
+            <span className="material-icons text-6xl">lock</span>
+            <p className="mt-4">Tu usuario no tiene permisos para ver ninguna sección del panel.</p>
+            <p className="text-sm">Pedile a un administrador que te asigne un rol.</p>
+          </div>
+        )}
+
+        {/* Pestaña de usuarios, roles y permisos */}
+        {activeTab === 'users' && allowedTabs.includes('users') && (
+          <UserManagement />
+        )}
+
+        {/* Pestaña de actividad (auditoría) */}
+        {activeTab === 'activity' && allowedTabs.includes('activity') && (
+          <div>
+            <div className="flex gap-2 mb-8">
+              {([['cambios', 'Cambios'], ['logins', 'Intentos de login']] as const).map(([vista, etiqueta]) => (
+                <button
+                  key={vista}
+                  type="button"
+                  onClick={() => setActivityView(vista)}
+                  className={`px-4 py-2 rounded-lg transition-colors ${
+                    activityView === vista
+                      ? 'bg-[#fbbf24] text-black font-medium'
+                      : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {etiqueta}
+                </button>
+              ))}
+            </div>
+            {activityView === 'cambios' ? <ActivityLog /> : <LoginAttempts />}
+          </div>
+        )}
+
+        {/* Pestaña de caja (apertura, retiros y cierre con arqueo) */}
+        {activeTab === 'cash' && allowedTabs.includes('cash') && (
+          <CashRegister />
+        )}
+
+        {/* Pestaña de cupones de descuento */}
+        {activeTab === 'coupons' && allowedTabs.includes('coupons') && (
+          <CouponManagement />
+        )}
+
+        {/* Pestaña de verificación de transferencias */}
+        {activeTab === 'transfers' && allowedTabs.includes('transfers') && (
+          <TransferVerificationQueue refreshKey={verificationRefresh} />
+        )}
+
         {/* Pestaña de Productos */}
-        {activeTab === 'products' && (
+        {activeTab === 'products' && allowedTabs.includes('products') && (
           <div>
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-10">
               <div>
@@ -843,9 +1362,11 @@ export function AdminPanelNew() {
                   Mostrar productos eliminados
                 </label>
               </div>
-              <PoliceButton variant="primary" icon={Plus} onClick={handleNewProduct}>
-                Nuevo Producto
-              </PoliceButton>
+              <RequirePermission permiso="gestionar_productos">
+                <PoliceButton variant="primary" icon={Plus} onClick={handleNewProduct}>
+                  Nuevo Producto
+                </PoliceButton>
+              </RequirePermission>
             </div>
 
             {loading ? (
@@ -900,6 +1421,12 @@ export function AdminPanelNew() {
                     <div className="p-6">
                       <h3 className="text-white font-semibold text-lg mb-2">{product.nombre}</h3>
                       <p className="text-gray-400 text-sm mb-4 line-clamp-2">{product.descripcion}</p>
+                      {product.es_combo && (
+                        <p className="text-gray-300 text-sm mb-4">
+                          <span className="text-[#fbbf24]">Incluye:</span>{' '}
+                          {product.componentes.map(c => `${c.cantidad}x ${c.nombre}`).join(', ')}
+                        </p>
+                      )}
                       
                       <div className="flex items-center justify-between mb-4">
                         <span className="text-[#fbbf24] text-2xl font-bold">
@@ -907,27 +1434,29 @@ export function AdminPanelNew() {
                         </span>
                         <span className="text-gray-400 flex items-center gap-1">
                           <span className="material-icons text-sm">inventory_2</span>
-                          Stock: {product.stock}
+                          {product.es_combo ? 'Se pueden armar' : 'Stock'}: {product.stock}
                         </span>
                       </div>
 
                       {/* Botones de acción */}
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => handleEditProduct(product)}
-                          className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 rounded-lg flex items-center justify-center gap-2 transition-colors"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                          Editar
-                        </button>
-                        <button
-                          onClick={() => handleDeleteProduct(product.id)}
-                          className="flex-1 bg-red-600 hover:bg-red-700 text-white py-2 rounded-lg flex items-center justify-center gap-2 transition-colors"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                          Eliminar
-                        </button>
-                      </div>
+                      <RequirePermission permiso="gestionar_productos">
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleEditProduct(product)}
+                            className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 rounded-lg flex items-center justify-center gap-2 transition-colors"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                            Editar
+                          </button>
+                          <button
+                            onClick={() => handleDeleteProduct(product.id)}
+                            className="flex-1 bg-red-600 hover:bg-red-700 text-white py-2 rounded-lg flex items-center justify-center gap-2 transition-colors"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                            Eliminar
+                          </button>
+                        </div>
+                      </RequirePermission>
                     </div>
                   </div>
                 ))
@@ -938,19 +1467,48 @@ export function AdminPanelNew() {
         )}
 
         {/* Pestaña de Ventas */}
-        {activeTab === 'sales' && (
+        {activeTab === 'sales' && allowedTabs.includes('sales') && (
           <div>
             {/* Barra de búsqueda y exportar */}
             <div className="flex justify-between items-center gap-4 mb-8">
               <div className="flex-1 max-w-md">
                 <Input
                   type="text"
-                  placeholder="Buscar por nombre, mesa o teléfono..."
+                  placeholder="Buscar por pedido, nombre, mesa, teléfono o producto..."
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setPurchasePage(1);
+                  }}
                   className="bg-black/50 border-[#fbbf24]/30 text-white"
                 />
               </div>
+              <button
+                type="button"
+                onClick={() => handleChangePurchaseFilter('atendido_por', purchaseFilters.atendido_por === 'yo' ? 'todos' : 'yo')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  purchaseFilters.atendido_por === 'yo'
+                    ? 'bg-[#fbbf24] text-black font-medium'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                title="Solo los pedidos que cobraste, marcaste listos o entregaste"
+              >
+                <UserCheck className="w-4 h-4" />
+                Mis pedidos
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowCashSummary(!showCashSummary)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
+                  showCashSummary
+                    ? 'bg-[#fbbf24] text-black font-medium'
+                    : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+                title="Cuánto cobró cada vendedor"
+              >
+                <Wallet className="w-4 h-4" />
+                Caja por vendedor
+              </button>
               <button
                 onClick={handleExportToGoogleSheets}
                 className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors"
@@ -961,30 +1519,106 @@ export function AdminPanelNew() {
               </button>
               <div className="text-gray-400 flex items-center gap-2">
                 <span className="material-icons">receipt_long</span>
-                <span className="font-semibold">{filteredPurchases.length} ventas</span>
+                <span className="font-semibold">{purchasePagination?.total ?? purchases.length} ventas</span>
                 <span className="mx-2">•</span>
-                Total: {formatPrice(filteredPurchases.reduce((sum, p) => sum + (parseFloat(p.total as any) || 0), 0))}
+                Total: {formatPrice(purchasesTotalAmount)}
               </div>
             </div>
 
+            {showCashSummary && <VendorCashSummary currentUsername={user.username} />}
+
+            {/* Filtros del listado */}
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 mb-8">
+              <Select value={purchaseFilters.estado} onValueChange={(valor) => handleChangePurchaseFilter('estado', valor)}>
+                <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white">
+                  <SelectValue placeholder="Estado" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos los estados</SelectItem>
+                  {(Object.keys(ESTADOS_COMPRA) as OrderStatus[]).map(estado => (
+                    <SelectItem key={estado} value={estado}>{ESTADOS_COMPRA[estado].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={purchaseFilters.metodo_pago} onValueChange={(valor) => handleChangePurchaseFilter('metodo_pago', valor)}>
+                <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white">
+                  <SelectValue placeholder="Método de pago" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos los pagos</SelectItem>
+                  <SelectItem value="efectivo">Efectivo</SelectItem>
+                  <SelectItem value="transferencia">Transferencia</SelectItem>
+                  <SelectItem value="mixto">Mixto</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={purchaseFilters.producto_id} onValueChange={(valor) => handleChangePurchaseFilter('producto_id', valor)}>
+                <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white">
+                  <SelectValue placeholder="Producto" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todos">Todos los productos</SelectItem>
+                  {products.map(p => (
+                    <SelectItem key={p.id} value={p.id.toString()}>{p.nombre}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                placeholder="Mesa"
+                value={purchaseFilters.mesa}
+                onChange={(e) => handleChangePurchaseFilter('mesa', e.target.value)}
+                className="bg-black/50 border-[#fbbf24]/30 text-white"
+              />
+              <Input
+                type="number"
+                placeholder="Total desde"
+                value={purchaseFilters.total_min}
+                onChange={(e) => handleChangePurchaseFilter('total_min', e.target.value)}
+                className="bg-black/50 border-[#fbbf24]/30 text-white"
+              />
+              <Input
+                type="number"
+                placeholder="Total hasta"
+                value={purchaseFilters.total_max}
+                onChange={(e) => handleChangePurchaseFilter('total_max', e.target.value)}
+                className="bg-black/50 border-[#fbbf24]/30 text-white"
+              />
+              <Select value={purchaseFilters.orden} onValueChange={(valor) => handleChangePurchaseFilter('orden', valor)}>
+                <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white">
+                  <SelectValue placeholder="Ordenar" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fecha_desc">Más recientes</SelectItem>
+                  <SelectItem value="fecha_asc">Más antiguas</SelectItem>
+                  <SelectItem value="total_desc">Mayor total</SelectItem>
+                  <SelectItem value="total_asc">Menor total</SelectItem>
+                  <SelectItem value="mesa_asc">Por mesa</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             {loading ? (
               <div className="text-center text-gray-400 py-20">
                 <span className="material-icons text-6xl animate-spin">refresh</span>
                 <p className="mt-4">Cargando ventas...</p>
               </div>
-            ) : filteredPurchases.length === 0 ? (
+            ) : purchases.length === 0 ? (
               <div className="text-center text-gray-400 py-20">
                 <span className="material-icons text-6xl">receipt</span>
                 <p className="mt-4">
-                  {searchQuery ? 'No se encontraron ventas con ese criterio' : 'No hay ventas registradas aún'}
+                  {hasPurchaseFilters ? 'No se encontraron ventas con ese criterio' : 'No hay ventas registradas aún'}
                 </p>
               </div>
             ) : (
               <div className="space-y-6">
-                {filteredPurchases.map((purchase) => (
+                {purchases.map((purchase) => (
                   <div
                     key={purchase.id}
-                    className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-2xl p-6 hover:border-[#fbbf24]/50 transition-all duration-300"
+                    className={`bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border rounded-2xl p-6 hover:border-[#fbbf24]/50 transition-all duration-300 ${
+                      newPurchaseIds.includes(purchase.id)
+                        ? 'border-green-500 ring-2 ring-green-500/60 animate-pulse'
+                        : 'border-[#fbbf24]/20'
+                    }`}
                   >
                     {/* Encabezado de la venta */}
                     <div className="flex justify-between items-start mb-6">
@@ -1004,6 +1638,12 @@ export function AdminPanelNew() {
                               {purchase.comprador_telefono}
                             </p>
                           )}
+                          {purchase.estado === 'cancelado' && purchase.motivo_cancelacion && (
+                            <p className="text-red-400 flex items-center gap-2 mt-2 bg-red-900/20 px-2 py-1 rounded">
+                              <span className="material-icons text-sm">block</span>
+                              <span>Cancelado: {purchase.motivo_cancelacion}</span>
+                            </p>
+                          )}
                           {purchase.detalles_pedido && (
                             <p className="text-amber-400 flex items-center gap-2 mt-2 bg-amber-900/20 px-2 py-1 rounded">
                               <span className="material-icons text-sm">info</span>
@@ -1019,24 +1659,40 @@ export function AdminPanelNew() {
                               minute: '2-digit'
                             })}
                           </p>
+                          {(purchase.abonado_por_usuario || purchase.listo_por_usuario || purchase.entregado_por_usuario) && (
+                            <p className="text-gray-500 text-xs flex items-center gap-1">
+                              <UserCheck className="w-3 h-3" />
+                              {[
+                                purchase.creado_por && 'Venta en mostrador',
+                                purchase.abonado_por_usuario && `Cobró ${purchase.abonado_por_usuario}`,
+                                purchase.listo_por_usuario && `Preparó ${purchase.listo_por_usuario}`,
+                                purchase.entregado_por_usuario && `Entregó ${purchase.entregado_por_usuario}`,
+                              ].filter(Boolean).join(' • ')}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
                         <p className="text-[#fbbf24] text-2xl font-bold mb-2">
-                          {formatPrice(purchase.total)}
+                          {formatPrice(Number(purchase.total_neto))}
                         </p>
+                        {Number(purchase.monto_reembolsado) > 0 && (
+                          <p className="text-gray-400 text-xs mb-2">
+                            <span className="line-through">{formatPrice(purchase.total)}</span>
+                            {' • '}Reembolsado {formatPrice(Number(purchase.monto_reembolsado))}
+                          </p>
+                        )}
+                        {Number(purchase.descuento) > 0 && (
+                          <p className="text-green-400 text-xs mb-2">
+                            Cupón {purchase.cupon_codigo || 'eliminado'} -{formatPrice(Number(purchase.descuento))}
+                          </p>
+                        )}
                         <Badge className="bg-blue-600 mb-2">
                           Mesa {purchase.comprador_mesa}
                         </Badge>
                         <div className="flex flex-col gap-1 mt-2">
-                          <Badge className={purchase.abonado ? 'bg-green-600' : 'bg-gray-600'}>
-                            {purchase.abonado ? '✓ Abonado' : 'Pendiente de pago'}
-                          </Badge>
-                          <Badge className={purchase.listo ? 'bg-blue-600' : 'bg-gray-600'}>
-                            {purchase.listo ? '✓ Listo' : 'En preparación'}
-                          </Badge>
-                          <Badge className={purchase.entregado ? 'bg-green-600' : 'bg-orange-600'}>
-                            {purchase.entregado ? '✓✓ Entregado' : 'Por entregar'}
+                          <Badge className={ESTADOS_COMPRA[purchase.estado].color}>
+                            {ESTADOS_COMPRA[purchase.estado].label}
                           </Badge>
                         </div>
                       </div>
@@ -1066,16 +1722,26 @@ export function AdminPanelNew() {
                               <span className="text-gray-400">
                                 {formatPrice(detalle.subtotal)}
                               </span>
-                              <button
-                                onClick={() => handleEditPurchaseProducts(purchase)}
-                                className="opacity-0 group-hover:opacity-100 transition-opacity p-1.5 bg-blue-600/20 text-blue-400 rounded hover:bg-blue-600/30"
-                                title="Editar cantidad"
-                              >
-                                <Edit2 className="w-3.5 h-3.5" />
-                              </button>
+                              {hasPermission('editar_compras') && Number(purchase.monto_reembolsado) === 0 && Number(purchase.descuento) === 0 && (
+                                <button
+                                  onClick={() => handleEditPurchaseProducts(purchase)}
+                                  className="opacity-0 group-hover:opacity-100 transition-opacity p-1.5 bg-blue-600/20 text-blue-400 rounded hover:bg-blue-600/30"
+                                  title="Editar cantidad"
+                                >
+                                  <Edit2 className="w-3.5 h-3.5" />
+                                </button>
+                              )}
                             </div>
                           </div>
                         ))}
+                        {purchase.descuentos.map((descuento, idx) => (
+                          <div key={`descuento-${idx}`} className="flex justify-between items-center px-3 text-sm">
+                            <span className="text-gray-400">
+                              Cupón {descuento.codigo} en {descuento.producto_nombre}
+                            </span>
+                            <span className="text-green-400">-{formatPrice(Number(descuento.monto))}</span>
+                          </div>
+                        ))}
                       </div>
                     </div>
 
@@ -1084,55 +1750,104 @@ export function AdminPanelNew() {
                       <div className="flex items-center gap-2 text-gray-400">
                         <span className="material-icons">payment</span>
                         <span className="capitalize">{purchase.metodo_pago}</span>
+                        {purchase.estado !== 'cancelado' && Number(purchase.saldo) > 0 && (Number(purchase.monto_pagado) > 0 || purchase.estado !== 'pendiente') && (
+                          <span className="text-amber-400 text-sm">
+                            Pagado {formatPrice(Number(purchase.monto_pagado))} • Falta {formatPrice(Number(purchase.saldo))}
+                          </span>
+                        )}
+                        {purchase.estado !== 'cancelado' && Number(purchase.saldo) < 0 && (
+                          <span className="text-red-400 text-sm">
+                            Cobrado de más: {formatPrice(-Number(purchase.saldo))}
+                          </span>
+                        )}
+                        {purchase.verificacion_estado === 'aprobado' && (
+                          <span className="text-green-400 text-sm flex items-center gap-1">
+                            <span className="material-icons text-sm">verified</span>
+                            Verificada
+                          </span>
+                        )}
+                        {purchase.verificacion_estado === 'pendiente' && (
+                          <button
+                            type="button"
+                            onClick={() => setActiveTab('transfers')}
+                            className="text-amber-400 text-sm underline hover:text-amber-300"
+                          >
+                            Sin verificar
+                          </button>
+                        )}
+                        {purchase.verificacion_estado === 'rechazado' && (
+                          <span className="text-red-400 text-sm">
+                            Rechazada{purchase.motivo_rechazo ? `: ${purchase.motivo_rechazo}` : ''}
+                          </span>
+                        )}
                       </div>
-                      {purchase.comprobante_archivo && (
+                      {purchase.tiene_miniatura ? (
+                        <div className="flex items-center gap-3">
+                          {loadingComprobanteId === purchase.id && (
+                            <span className="text-blue-400 text-sm">Cargando...</span>
+                          )}
+                          <ComprobanteMiniatura
+                            purchaseId={purchase.id}
+                            onClick={() => handleViewComprobante(purchase.id)}
+                          />
+                        </div>
+                      ) : purchase.tiene_comprobante && (
                         <button
-                          onClick={() => {
-                            const comprobante = purchase.comprobante_archivo!;
-                            setCurrentComprobante(
-                              comprobante.startsWith('data:') 
-                                ? comprobante 
-                                : getApiUrl(comprobante)
-                            );
-                            setShowComprobanteModal(true);
-                          }}
-                          className="flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors"
+                          onClick={() => handleViewComprobante(purchase.id)}
+                          disabled={loadingComprobanteId === purchase.id}
+                          className="flex items-center gap-2 text-blue-400 hover:text-blue-300 transition-colors disabled:opacity-50"
                         >
                           <span className="material-icons">receipt</span>
-                          Ver Comprobante
+                          {loadingComprobanteId === purchase.id ? 'Cargando...' : 'Ver Comprobante'}
                         </button>
                       )}
                     </div>
 
                     {/* Controles de estado y acciones */}
                     <div className="border-t border-gray-700 pt-4 flex flex-wrap gap-3">
-                      <button
-                        type="button"
-                        onClick={() => handleToggleStatus(purchase.id, 'abonado', purchase.abonado)}
-                        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
-                          purchase.abonado 
-                            ? 'bg-green-600/20 text-green-400 hover:bg-green-600/30' 
-                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                        }`}
-                      >
-                        <CheckCircle className="w-4 h-4" />
-                        {purchase.abonado ? 'Marcar como no abonado' : 'Marcar como abonado'}
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => handleToggleStatus(purchase.id, 'listo', purchase.listo)}
-                        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
-                          purchase.listo 
-                            ? 'bg-blue-600/20 text-blue-400 hover:bg-blue-600/30' 
-                            : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
-                        }`}
-                      >
-                        <CheckCircle className="w-4 h-4" />
-                        {purchase.listo ? 'Marcar como no listo' : 'Marcar como listo'}
-                      </button>
+                      {hasPermission('editar_compras') && TRANSICIONES_ESTADO[purchase.estado]
+                        .filter(estado => estado !== 'cancelado')
+                        // Las transferencias se dan por pagadas aprobando el comprobante en la pestaña Transferencias
+                        .filter(estado => !(estado === 'pagado' && purchase.metodo_pago === 'transferencia' && purchase.verificacion_estado !== 'aprobado'))
+                        // Solo el efectivo se cobra con un clic: si falta cobrar otra cosa se registra en Pagos
+                        .filter(estado => !(estado === 'pagado' && purchase.estado === 'pendiente' && purchase.metodo_pago !== 'efectivo' && Number(purchase.saldo) > 0))
+                        .map((estado) => (
+                        esRetroceso(purchase.estado, estado) ? (
+                          <button
+                            key={estado}
+                            type="button"
+                            onClick={() => handleChangeStatus(purchase.id, estado)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600"
+                          >
+                            <Undo2 className="w-4 h-4" />
+                            Volver a {ESTADOS_COMPRA[estado].label.toLowerCase()}
+                          </button>
+                        ) : (
+                          <button
+                            key={estado}
+                            type="button"
+                            onClick={() => handleChangeStatus(purchase.id, estado)}
+                            className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-green-600/20 text-green-400 hover:bg-green-600/30"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                            {ESTADOS_COMPRA[estado].accion}
+                          </button>
+                        )
+                      ))}
+
+                      {hasPermission('eliminar_compras') && TRANSICIONES_ESTADO[purchase.estado].includes('cancelado') && (
+                        <button
+                          type="button"
+                          onClick={() => handleCancelPurchase(purchase)}
+                          className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-red-600/20 text-red-400 hover:bg-red-600/30"
+                        >
+                          <X className="w-4 h-4" />
+                          {ESTADOS_COMPRA.cancelado.accion}
+                        </button>
+                      )}
                       
                       {/* Botón de notificar por WhatsApp - ENLACE DIRECTO */}
-                      {purchase.comprador_telefono && purchase.listo && !purchase.entregado && (
+                      {purchase.comprador_telefono && purchase.estado === 'listo' && (
                         <a
                           href={getWhatsAppUrl(purchase)}
                           target="_blank"
@@ -1164,35 +1879,137 @@ export function AdminPanelNew() {
                       
                       <button
                         type="button"
-                        onClick={() => handleToggleStatus(purchase.id, 'entregado', purchase.entregado)}
-                        className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors ${
-                          purchase.entregado 
-                            ? 'bg-green-600/20 text-green-400 hover:bg-green-600/30' 
-                            : 'bg-orange-700/20 text-orange-400 hover:bg-orange-700/30'
-                        }`}
-                      >
-                        <CheckCheck className="w-4 h-4" />
-                        {purchase.entregado ? 'Marcar como no entregado' : 'Marcar como entregado'}
-                      </button>
-                      <button
-                        onClick={() => handleEditPurchase(purchase)}
-                        className="flex items-center gap-2 px-4 py-2 bg-blue-600/20 text-blue-400 rounded-lg hover:bg-blue-600/30 transition-colors"
+                        onClick={() => handleToggleHistory(purchase.id)}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors"
                       >
-                        <Edit2 className="w-4 h-4" />
-                        Editar datos
+                        <History className="w-4 h-4" />
+                        {expandedHistoryId === purchase.id ? 'Ocultar historial' : 'Ver historial'}
                       </button>
                       <button
-                        onClick={() => handleDeletePurchase(purchase.id)}
-                        className="flex items-center gap-2 px-4 py-2 bg-red-600/20 text-red-400 rounded-lg hover:bg-red-600/30 transition-colors ml-auto"
+                        type="button"
+                        onClick={() => setExpandedPaymentsId(expandedPaymentsId === purchase.id ? null : purchase.id)}
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors"
                       >
-                        <Trash2 className="w-4 h-4" />
-                        Eliminar
+                        <CreditCard className="w-4 h-4" />
+                        {expandedPaymentsId === purchase.id ? 'Ocultar pagos' : 'Pagos'}
                       </button>
+                      {(Number(purchase.monto_reembolsado) > 0 || hasPermission('reembolsar_compras')) && (
+                        <button
+                          type="button"
+                          onClick={() => setExpandedRefundsId(expandedRefundsId === purchase.id ? null : purchase.id)}
+                          className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-300 rounded-lg hover:bg-gray-600 transition-colors"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          {expandedRefundsId === purchase.id ? 'Ocultar reembolsos' : 'Reembolsos'}
+                        </button>
+                      )}
+                      <RequirePermission permiso="editar_compras">
+                        <button
+                          onClick={() => handleEditPurchase(purchase)}
+                          className="flex items-center gap-2 px-4 py-2 bg-blue-600/20 text-blue-400 rounded-lg hover:bg-blue-600/30 transition-colors"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                          Editar datos
+                        </button>
+                      </RequirePermission>
+                      <RequirePermission permiso="eliminar_compras">
+                        <button
+                          onClick={() => handleDeletePurchase(purchase.id)}
+                          className="flex items-center gap-2 px-4 py-2 bg-red-600/20 text-red-400 rounded-lg hover:bg-red-600/30 transition-colors ml-auto"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Eliminar
+                        </button>
+                      </RequirePermission>
                     </div>
+
+                    {/* Línea de tiempo de estados */}
+                    {expandedHistoryId === purchase.id && (
+                      <div className="border-t border-gray-700 mt-4 pt-4">
+                        {!statusHistory[purchase.id] ? (
+                          <p className="text-gray-400 text-sm">Cargando historial...</p>
+                        ) : statusHistory[purchase.id].length === 0 ? (
+                          <p className="text-gray-400 text-sm">Sin cambios de estado registrados</p>
+                        ) : (
+                          <ol className="relative border-l border-[#fbbf24]/30 ml-2 space-y-4">
+                            {statusHistory[purchase.id].map((cambio) => (
+                              <li key={cambio.id} className="ml-4">
+                                <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-[#fbbf24]"></span>
+                                <p className="text-white text-sm">
+                                  {cambio.estado_anterior
+                                    ? `${ESTADOS_COMPRA[cambio.estado_anterior].label} → ${ESTADOS_COMPRA[cambio.estado_nuevo].label}`
+                                    : `Pedido creado (${ESTADOS_COMPRA[cambio.estado_nuevo].label.toLowerCase()})`}
+                                </p>
+                                <p className="text-gray-400 text-xs">
+                                  {new Date(cambio.fecha).toLocaleString('es-AR', {
+                                    day: '2-digit',
+                                    month: '2-digit',
+                                    hour: '2-digit',
+                                    minute: '2-digit'
+                                  })}
+                                  {' • '}
+                                  {cambio.usuario_nombre || cambio.usuario || 'Comprador'}
+                                </p>
+                                {cambio.nota && (
+                                  <p className="text-gray-500 text-xs italic">{cambio.nota}</p>
+                                )}
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      </div>
+                    )}
+
+                    {/* Pagos de la compra */}
+                    {expandedPaymentsId === purchase.id && (
+                      <div className="border-t border-gray-700 mt-4 pt-4">
+                        <PurchasePayments
+                          purchaseId={purchase.id}
+                          canEdit={hasPermission('editar_compras') && purchase.estado !== 'cancelado'}
+                          onChange={fetchPurchases}
+                        />
+                      </div>
+                    )}
+
+                    {/* Reembolsos de la compra */}
+                    {expandedRefundsId === purchase.id && (
+                      <div className="border-t border-gray-700 mt-4 pt-4">
+                        <PurchaseRefunds
+                          purchaseId={purchase.id}
+                          canRefund={hasPermission('reembolsar_compras')}
+                          onChange={fetchPurchases}
+                        />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
             )}
+
+            {/* Paginación */}
+            {purchasePagination && purchasePagination.total_paginas > 1 && (
+              <div className="flex items-center justify-center gap-4 mt-8">
+                <button
+                  type="button"
+                  onClick={() => setPurchasePage(purchasePage - 1)}
+                  disabled={purchasePage <= 1 || loading}
+                  className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+                >
+                  Anterior
+                </button>
+                <span className="text-gray-400">
+                  Página {purchasePagination.pagina} de {purchasePagination.total_paginas}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPurchasePage(purchasePage + 1)}
+                  disabled={purchasePage >= purchasePagination.total_paginas || loading}
+                  className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+                >
+                  Siguiente
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -1323,11 +2140,38 @@ export function AdminPanelNew() {
                   </div>
                 )}
 
+                {/* Agregar productos a la orden */}
+                <div className="flex items-center gap-3">
+                  <Select value={productToAdd} onValueChange={setProductToAdd}>
+                    <SelectTrigger className="flex-1 bg-black/30 border-gray-700 text-white">
+                      <SelectValue placeholder="Agregar producto..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products
+                        .filter(p => (p as any).activo && p.stock > 0)
+                        .map(p => (
+                          <SelectItem key={p.id} value={p.id.toString()}>
+                            {p.nombre} - {formatPrice(parseFloat(p.precio as any))} (stock: {p.stock})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <button
+                    type="button"
+                    onClick={handleAddProductToPurchase}
+                    disabled={!productToAdd}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600/20 text-green-400 hover:bg-green-600/30 transition-colors disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Agregar
+                  </button>
+                </div>
+
                 <div className="border-t border-gray-700 pt-4 mt-4">
                   <div className="flex justify-between items-center text-lg">
                     <span className="text-gray-300">Total:</span>
                     <span className="text-[#fbbf24] font-bold">
-                      {formatPrice(editedDetails.reduce((sum, d) => sum + d.subtotal, 0))}
+                      {formatPrice(editedDetails.reduce((sum, d) => sum + (parseFloat(d.subtotal as any) || 0), 0))}
                     </span>
                   </div>
                 </div>
@@ -1355,13 +2199,13 @@ export function AdminPanelNew() {
 
         {/* Modal para ver comprobante */}
         {showComprobanteModal && currentComprobante && (
-          <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={() => setShowComprobanteModal(false)}>
+          <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={handleCloseComprobante}>
             <div className="bg-gray-900 rounded-2xl max-w-4xl w-full max-h-[90vh] overflow-auto" onClick={(e) => e.stopPropagation()}>
               {/* Encabezado del modal */}
               <div className="flex items-center justify-between p-6 border-b border-gray-700">
                 <h3 className="text-xl font-semibold text-white">Comprobante de Transferencia</h3>
                 <button
-                  onClick={() => setShowComprobanteModal(false)}
+                  onClick={handleCloseComprobante}
                   className="text-gray-400 hover:text-white transition-colors"
                 >
                   <span className="material-icons">close</span>
@@ -1383,7 +2227,7 @@ export function AdminPanelNew() {
               {/* Botón de cerrar */}
               <div className="p-6 border-t border-gray-700 flex justify-end">
                 <button
-                  onClick={() => setShowComprobanteModal(false)}
+                  onClick={handleCloseComprobante}
                   className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
                 >
                   Cerrar
@@ -1471,22 +2315,104 @@ export function AdminPanelNew() {
                     />
                   </div>
 
-                  <div>
-                    <Label htmlFor="stock" className="text-gray-300 mb-2 flex items-center gap-2">
-                      <span className="material-icons text-sm">inventory_2</span>
-                      Stock
-                    </Label>
-                    <Input
-                      id="stock"
-                      type="number"
-                      min="0"
-                      value={formData.stock}
-                      onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
-                      className="bg-black/50 border-[#fbbf24]/30 text-white"
-                      placeholder="0"
-                      required
+                  {formData.es_combo ? (
+                    <p className="text-gray-400 text-sm self-end pb-2">
+                      El stock de un combo sale del stock de los productos que incluye
+                    </p>
+                  ) : (
+                    <div>
+                      <Label htmlFor="stock" className="text-gray-300 mb-2 flex items-center gap-2">
+                        <span className="material-icons text-sm">inventory_2</span>
+                        Stock
+                      </Label>
+                      <Input
+                        id="stock"
+                        type="number"
+                        min="0"
+                        value={formData.stock}
+                        onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
+                        className="bg-black/50 border-[#fbbf24]/30 text-white"
+                        placeholder="0"
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {/* Combo: productos que incluye (al venderlo se descuenta el stock de cada uno) */}
+                <div className="space-y-3">
+                  <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.es_combo}
+                      onChange={(e) => setFormData({
+                        ...formData,
+                        es_combo: e.target.checked,
+                        subcategoria: e.target.checked ? 'combos' : '',
+                        componentes: e.target.checked && formData.componentes.length === 0
+                          ? [{ producto_id: '', cantidad: '1' }]
+                          : formData.componentes
+                      })}
+                      className="w-4 h-4 accent-[#fbbf24]"
                     />
-                  </div>
+                    Es un combo (incluye otros productos)
+                  </label>
+
+                  {formData.es_combo && (
+                    <div className="space-y-2">
+                      {formData.componentes.map((componente, index) => (
+                        <div key={index} className="flex items-center gap-3">
+                          <Input
+                            type="number"
+                            min="1"
+                            value={componente.cantidad}
+                            onChange={(e) => updateComboComponent(index, { cantidad: e.target.value })}
+                            className="bg-black/50 border-[#fbbf24]/30 text-white w-20"
+                            aria-label="Cantidad"
+                          />
+                          <Select
+                            value={componente.producto_id}
+                            onValueChange={(value) => updateComboComponent(index, { producto_id: value })}
+                          >
+                            <SelectTrigger className="bg-[#2a2a2a] border-[#fbbf24]/30 text-white hover:bg-[#333333] flex-1">
+                              <SelectValue placeholder="Elegí un producto" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {/* Un combo no puede incluir otro combo ni a sí mismo */}
+                              {products
+                                .filter(p => !p.es_combo && p.id !== editingProduct?.id)
+                                .map(p => (
+                                  <SelectItem key={p.id} value={p.id.toString()}>
+                                    {p.nombre} (stock: {p.stock})
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <button
+                            type="button"
+                            onClick={() => setFormData({
+                              ...formData,
+                              componentes: formData.componentes.filter((_, i) => i !== index)
+                            })}
+                            className="text-gray-400 hover:text-red-400 transition-colors"
+                            aria-label="Quitar producto del combo"
+                          >
+                            <X className="w-5 h-5" />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        type="button"
+                        onClick={() => setFormData({
+                          ...formData,
+                          componentes: [...formData.componentes, { producto_id: '', cantidad: '1' }]
+                        })}
+                        className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors text-sm"
+                      >
+                        + Agregar producto
+                      </button>
+                    </div>
+                  )}
                 </div>
 
                 {/* Categoría */}
@@ -1530,11 +2456,13 @@ export function AdminPanelNew() {
                           <SelectItem value="bebidas">Bebidas</SelectItem>
                           <SelectItem value="dulces">Dulces</SelectItem>
                           <SelectItem value="salados">Salados</SelectItem>
+                          <SelectItem value="combos">Combos</SelectItem>
                         </>
                       ) : (
                         <>
                           <SelectItem value="bebidas">Bebidas</SelectItem>
                           <SelectItem value="comidas">Comidas</SelectItem>
+                          <SelectItem value="combos">Combos</SelectItem>
                         </>
                       )}
                     </SelectContent>
@@ -0,0 +1,657 @@
+// Caja del vendedor: apertura con el cambio inicial, retiros de efectivo y cierre con conteo de billetes
+// Abajo queda el historial de cajas con su arqueo (con 'supervisar_cajas' se ven las de todos y se pueden
+// cerrar las que quedaron abiertas)
+
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, Lock, RefreshCw, Unlock, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { PoliceButton } from './PoliceButton';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { apiFetch } from '../config/apiFetch';
+import { useAuth } from '../context/AuthContext';
+
+// Los montos llegan como texto (DECIMAL de Postgres)
+type Amount = number | string;
+
+type CashWithdrawal = {
+  id: number;
+  monto: Amount;
+  motivo: string;
+  fecha: string;
+  usuario: string | null;
+};
+
+// Un pago en efectivo que entró en la caja
+type CashSale = {
+  id: number;
+  compra_id: number;
+  comprador_nombre: string;
+  comprador_mesa: number | null;
+  monto: Amount;
+  estado: string;
+  fecha: string;
+  anulado_en: string | null;
+};
+
+// Un reembolso en efectivo que salió de la caja
+type CashRefund = {
+  id: number;
+  compra_id: number;
+  comprador_nombre: string;
+  monto: Amount;
+  motivo: string;
+  estado: string;
+  fecha: string;
+};
+
+type CashSession = {
+  id: number;
+  usuario_id: number | null;
+  usuario: string | null;
+  usuario_nombre_completo: string | null;
+  monto_inicial: Amount;
+  abierta_en: string;
+  cerrada_en: string | null;
+  cerrada_por_usuario: string | null;
+  cantidad_ventas: number | null;
+  monto_ventas: Amount | null;
+  monto_retiros: Amount | null;
+  monto_reembolsos: Amount | null;
+  monto_esperado: Amount | null;
+  monto_contado: Amount | null;
+  diferencia: Amount | null;
+  conteo: Record<string, number> | null;
+  nota_cierre: string | null;
+  // Solo en el detalle (GET /api/cajas/:id y la caja actual)
+  retiros?: CashWithdrawal[];
+  ventas?: CashSale[];
+  reembolsos?: CashRefund[];
+};
+
+type CashPagination = {
+  pagina: number;
+  total_paginas: number;
+};
+
+const formatPrice = (price: Amount | null) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(Number(price ?? 0));
+
+const formatFecha = (fecha: string) =>
+  new Date(fecha).toLocaleString('es-AR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Color de la diferencia del arqueo: verde si coincide, rojo si falta plata, ámbar si sobra
+const colorDiferencia = (diferencia: number) =>
+  diferencia === 0 ? 'text-green-400' : diferencia < 0 ? 'text-red-400' : 'text-amber-400';
+
+// Hace una petición a /api/cajas y devuelve el JSON (o lanza el mensaje del backend)
+const pedirApi = async (ruta: string, opciones: RequestInit = {}) => {
+  const response = await apiFetch(`/api/cajas${ruta}`, {
+    ...opciones,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.mensaje || 'Error en la caja');
+  }
+  return data;
+};
+
+type CashCountFormProps = {
+  caja: CashSession;
+  denominaciones: number[];
+  onCerrada: (caja: CashSession) => void;
+  onCancelar: () => void;
+};
+
+// Conteo de billetes para cerrar una caja, con la diferencia contra lo esperado a medida que se carga
+function CashCountForm({ caja, denominaciones, onCerrada, onCancelar }: CashCountFormProps) {
+  const [cantidades, setCantidades] = useState<Record<number, string>>({});
+  const [nota, setNota] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const contado = denominaciones.reduce((suma, d) => suma + d * (parseInt(cantidades[d]) || 0), 0);
+  const esperado = Number(caja.monto_esperado ?? 0);
+  const diferencia = Math.round((contado - esperado) * 100) / 100;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (diferencia !== 0 && !nota.trim() &&
+        !window.confirm(`El efectivo contado no coincide (${formatPrice(diferencia)}). ¿Cerrar la caja igual?`)) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const conteo = Object.fromEntries(
+        denominaciones
+          .filter(d => (parseInt(cantidades[d]) || 0) > 0)
+          .map(d => [String(d), parseInt(cantidades[d])])
+      );
+      const data = await pedirApi(`/${caja.id}/cerrar`, {
+        method: 'POST',
+        body: JSON.stringify({ conteo, nota }),
+      });
+      toast.success(data.mensaje);
+      onCerrada(data.caja);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-gray-400 text-sm">
+        Contá el efectivo de la caja{caja.usuario ? ` de ${caja.usuario}` : ''} e ingresá cuántos billetes y monedas hay de cada valor.
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3">
+        {denominaciones.map(denominacion => (
+          <div key={denominacion}>
+            <Label htmlFor={`billete-${denominacion}`} className="text-gray-300">{formatPrice(denominacion)}</Label>
+            <Input
+              id={`billete-${denominacion}`}
+              type="number"
+              min="0"
+              step="1"
+              value={cantidades[denominacion] ?? ''}
+              onChange={(e) => setCantidades(prev => ({ ...prev, [denominacion]: e.target.value }))}
+              className="bg-black/50 border-[#fbbf24]/30 text-white mt-1"
+              placeholder="0"
+            />
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-4 bg-black/30 rounded-xl p-4 text-center">
+        <div>
+          <p className="text-gray-400 text-sm">Esperado</p>
+          <p className="text-white font-semibold">{formatPrice(esperado)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400 text-sm">Contado</p>
+          <p className="text-white font-semibold">{formatPrice(contado)}</p>
+        </div>
+        <div>
+          <p className="text-gray-400 text-sm">Diferencia</p>
+          <p className={`font-semibold ${colorDiferencia(diferencia)}`}>{formatPrice(diferencia)}</p>
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="nota-cierre" className="text-gray-300">Nota (opcional)</Label>
+        <Input
+          id="nota-cierre"
+          value={nota}
+          onChange={(e) => setNota(e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+          placeholder="Por ejemplo, por qué no coincide"
+        />
+      </div>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancelar}
+          className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+        >
+          Cancelar
+        </button>
+        <PoliceButton type="submit" variant="danger" className="flex-1" icon={Lock} disabled={saving}>
+          {saving ? 'Cerrando...' : 'Cerrar caja'}
+        </PoliceButton>
+      </div>
+    </form>
+  );
+}
+
+// Arqueo de una caja cerrada (o totales hasta ahora de una abierta), con sus retiros y ventas
+function CashReport({ caja }: { caja: CashSession }) {
+  const diferencia = Number(caja.diferencia ?? 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3 text-center">
+        <div className="bg-black/30 rounded-xl p-3">
+          <p className="text-gray-400 text-xs">Inicial</p>
+          <p className="text-white font-semibold">{formatPrice(caja.monto_inicial)}</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3">
+          <p className="text-gray-400 text-xs">Ventas en efectivo ({caja.cantidad_ventas ?? 0})</p>
+          <p className="text-white font-semibold">{formatPrice(caja.monto_ventas)}</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3">
+          <p className="text-gray-400 text-xs">Retiros</p>
+          <p className="text-white font-semibold">- {formatPrice(caja.monto_retiros)}</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3">
+          <p className="text-gray-400 text-xs">Reembolsos</p>
+          <p className="text-white font-semibold">- {formatPrice(caja.monto_reembolsos)}</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3">
+          <p className="text-gray-400 text-xs">Esperado</p>
+          <p className="text-[#fbbf24] font-semibold">{formatPrice(caja.monto_esperado)}</p>
+        </div>
+        {caja.cerrada_en && (
+          <div className="bg-black/30 rounded-xl p-3">
+            <p className="text-gray-400 text-xs">Contado</p>
+            <p className="text-white font-semibold">{formatPrice(caja.monto_contado)}</p>
+            <p className={`text-xs ${colorDiferencia(diferencia)}`}>
+              {diferencia === 0 ? 'Coincide' : `Diferencia ${formatPrice(diferencia)}`}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {caja.nota_cierre && (
+        <p className="text-gray-300 text-sm bg-black/30 rounded-lg px-3 py-2">Nota: {caja.nota_cierre}</p>
+      )}
+
+      {caja.conteo && Object.keys(caja.conteo).length > 0 && (
+        <p className="text-gray-400 text-sm">
+          Conteo:{' '}
+          {Object.entries(caja.conteo)
+            .sort(([a], [b]) => Number(b) - Number(a))
+            .map(([denominacion, cantidad]) => `${cantidad} × ${formatPrice(Number(denominacion))}`)
+            .join(' • ')}
+        </p>
+      )}
+
+      {caja.retiros && caja.retiros.length > 0 && (
+        <div>
+          <p className="text-gray-400 text-sm mb-2">Retiros</p>
+          <ul className="space-y-1 text-sm">
+            {caja.retiros.map(retiro => (
+              <li key={retiro.id} className="flex justify-between text-gray-300 bg-black/30 rounded-lg px-3 py-2">
+                <span>{formatFecha(retiro.fecha)} • {retiro.motivo}{retiro.usuario ? ` (${retiro.usuario})` : ''}</span>
+                <span className="text-white">{formatPrice(retiro.monto)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {caja.ventas && caja.ventas.length > 0 && (
+        <div>
+          <p className="text-gray-400 text-sm mb-2">Ventas en efectivo</p>
+          <ul className="space-y-1 text-sm max-h-64 overflow-y-auto">
+            {caja.ventas.map(venta => (
+              <li key={venta.id} className="flex justify-between text-gray-300 bg-black/30 rounded-lg px-3 py-2">
+                <span className={venta.anulado_en ? 'line-through text-gray-500' : ''}>
+                  #{venta.compra_id} • {venta.comprador_nombre}
+                  {venta.comprador_mesa ? ` • Mesa ${venta.comprador_mesa}` : ''}
+                  {` • ${formatFecha(venta.fecha)}`}
+                  {venta.estado === 'cancelado' ? ' • cancelada' : ''}
+                </span>
+                <span className="text-white">{formatPrice(venta.monto)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {caja.reembolsos && caja.reembolsos.length > 0 && (
+        <div>
+          <p className="text-gray-400 text-sm mb-2">Reembolsos en efectivo</p>
+          <ul className="space-y-1 text-sm">
+            {caja.reembolsos.map(reembolso => (
+              <li key={reembolso.id} className="flex justify-between text-gray-300 bg-black/30 rounded-lg px-3 py-2">
+                <span>
+                  #{reembolso.compra_id} • {reembolso.comprador_nombre} • {reembolso.motivo}
+                  {` • ${formatFecha(reembolso.fecha)}`}
+                </span>
+                <span className="text-white">- {formatPrice(reembolso.monto)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CashRegister() {
+  const { hasPermission } = useAuth();
+  const supervisor = hasPermission('supervisar_cajas');
+
+  const [current, setCurrent] = useState<CashSession | null>(null);
+  const [denominaciones, setDenominaciones] = useState<number[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [openingAmount, setOpeningAmount] = useState('');
+  const [withdrawal, setWithdrawal] = useState({ monto: '', motivo: '' });
+  const [saving, setSaving] = useState(false);
+  // Caja que se está cerrando (la propia o, para supervisores, una de otro usuario)
+  const [closing, setClosing] = useState<CashSession | null>(null);
+  const [lastReport, setLastReport] = useState<CashSession | null>(null);
+
+  const [history, setHistory] = useState<CashSession[]>([]);
+  const [historyPage, setHistoryPage] = useState(1);
+  const [historyPagination, setHistoryPagination] = useState<CashPagination | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [details, setDetails] = useState<Record<number, CashSession>>({});
+
+  const fetchCurrent = async () => {
+    try {
+      const data = await pedirApi('/actual');
+      setCurrent(data.caja);
+      setDenominaciones(data.denominaciones);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchHistory = async () => {
+    try {
+      const data = await pedirApi(`?pagina=${historyPage}&por_pagina=20`);
+      setHistory(data.cajas);
+      setHistoryPagination(data.paginacion);
+      setDetails({});
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  useEffect(() => {
+    fetchCurrent();
+  }, []);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [historyPage]);
+
+  const refrescar = () => {
+    fetchCurrent();
+    fetchHistory();
+  };
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = await pedirApi('', {
+        method: 'POST',
+        body: JSON.stringify({ monto_inicial: parseFloat(openingAmount) || 0 }),
+      });
+      toast.success(data.mensaje);
+      setCurrent(data.caja);
+      setOpeningAmount('');
+      setLastReport(null);
+      fetchHistory();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current) return;
+
+    setSaving(true);
+    try {
+      const data = await pedirApi(`/${current.id}/retiros`, {
+        method: 'POST',
+        body: JSON.stringify({ monto: parseFloat(withdrawal.monto), motivo: withdrawal.motivo }),
+      });
+      toast.success(data.mensaje);
+      setCurrent(data.caja);
+      setWithdrawal({ monto: '', motivo: '' });
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClosed = (caja: CashSession) => {
+    setClosing(null);
+    if (caja.id === current?.id) {
+      setCurrent(null);
+      setLastReport(caja);
+    }
+    refrescar();
+  };
+
+  const toggleDetail = async (cajaId: number) => {
+    if (expandedId === cajaId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(cajaId);
+    if (details[cajaId]) return;
+
+    try {
+      const data = await pedirApi(`/${cajaId}`);
+      setDetails(prev => ({ ...prev, [cajaId]: data.caja }));
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  // Un supervisor cierra la caja que otro usuario dejó abierta (hace falta el esperado actualizado)
+  const handleCloseOther = async (cajaId: number) => {
+    try {
+      const data = await pedirApi(`/${cajaId}`);
+      setClosing(data.caja);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } catch (error: any) {
+      toast.error(error.message);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center text-gray-400 py-20">
+        <span className="material-icons text-6xl animate-spin">refresh</span>
+        <p className="mt-4">Cargando caja...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-10">
+      {/* Caja propia (o la que se está cerrando) */}
+      <div className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-2xl p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-white text-xl font-semibold flex items-center gap-2">
+            <Wallet className="w-6 h-6 text-[#fbbf24]" />
+            {closing && closing.id !== current?.id ? `Cerrar la caja #${closing.id}` : 'Mi caja'}
+          </h2>
+          <button
+            type="button"
+            onClick={refrescar}
+            className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            title="Actualizar"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+        </div>
+
+        {closing ? (
+          <CashCountForm
+            caja={closing}
+            denominaciones={denominaciones}
+            onCerrada={handleClosed}
+            onCancelar={() => setClosing(null)}
+          />
+        ) : current ? (
+          <div className="space-y-6">
+            <p className="text-gray-400 text-sm">
+              Abierta el {formatFecha(current.abierta_en)}. Los cobros en efectivo que marques como pagados entran en esta caja.
+            </p>
+            <CashReport caja={current} />
+
+            <form onSubmit={handleWithdraw} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end border-t border-gray-700 pt-6">
+              <div>
+                <Label htmlFor="monto-retiro" className="text-gray-300">Retiro de efectivo</Label>
+                <Input
+                  id="monto-retiro"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={withdrawal.monto}
+                  onChange={(e) => setWithdrawal(prev => ({ ...prev, monto: e.target.value }))}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                  placeholder="Monto"
+                />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="motivo-retiro" className="text-gray-300">Motivo</Label>
+                <Input
+                  id="motivo-retiro"
+                  value={withdrawal.motivo}
+                  onChange={(e) => setWithdrawal(prev => ({ ...prev, motivo: e.target.value }))}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                  placeholder="Por ejemplo, entrega a tesorería"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={saving || !withdrawal.monto || !withdrawal.motivo.trim()}
+                className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50"
+              >
+                Registrar retiro
+              </button>
+            </form>
+
+            <PoliceButton type="button" variant="danger" className="w-full" icon={Lock} onClick={() => setClosing(current)}>
+              Cerrar caja
+            </PoliceButton>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {lastReport && (
+              <div className="border border-[#fbbf24]/30 rounded-xl p-4">
+                <p className="text-white font-semibold mb-4">Arqueo de la caja #{lastReport.id}</p>
+                <CashReport caja={lastReport} />
+              </div>
+            )}
+            <form onSubmit={handleOpen} className="flex flex-col md:flex-row gap-3 md:items-end">
+              <div className="flex-1">
+                <Label htmlFor="monto-inicial" className="text-gray-300">Cambio inicial</Label>
+                <Input
+                  id="monto-inicial"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={openingAmount}
+                  onChange={(e) => setOpeningAmount(e.target.value)}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                  placeholder="0"
+                />
+              </div>
+              <PoliceButton type="submit" variant="primary" icon={Unlock} disabled={saving}>
+                {saving ? 'Abriendo...' : 'Abrir caja'}
+              </PoliceButton>
+            </form>
+            <p className="text-gray-500 text-sm">
+              Sin una caja abierta, los cobros en efectivo que marques no quedan en ningún arqueo.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Historial de cajas */}
+      <div>
+        <h2 className="text-white mb-2">{supervisor ? 'Cajas' : 'Mis cajas anteriores'}</h2>
+        <p className="text-gray-400 text-sm mb-6">Cada caja con su arqueo: lo esperado, lo contado y la diferencia.</p>
+
+        {history.length === 0 ? (
+          <p className="text-center text-gray-400 py-10">Todavía no hay cajas registradas</p>
+        ) : (
+          <div className="space-y-3">
+            {history.map(caja => {
+              const diferencia = Number(caja.diferencia ?? 0);
+              return (
+                <div
+                  key={caja.id}
+                  className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-xl p-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div>
+                      <p className="text-white">
+                        <span className="text-[#fbbf24] font-semibold">Caja #{caja.id}</span>
+                        {supervisor && caja.usuario ? ` • ${caja.usuario}` : ''}
+                        {' • '}
+                        {caja.cerrada_en ? (
+                          <span className={colorDiferencia(diferencia)}>
+                            {diferencia === 0 ? 'Coincide' : `Diferencia ${formatPrice(diferencia)}`}
+                          </span>
+                        ) : (
+                          <span className="text-green-300">Abierta</span>
+                        )}
+                      </p>
+                      <p className="text-gray-500 text-sm">
+                        {formatFecha(caja.abierta_en)}
+                        {caja.cerrada_en ? ` a ${formatFecha(caja.cerrada_en)}` : ''}
+                        {caja.cerrada_en ? ` • Contado ${formatPrice(caja.monto_contado)} de ${formatPrice(caja.monto_esperado)}` : ''}
+                        {caja.cerrada_por_usuario && caja.cerrada_por_usuario !== caja.usuario ? ` • Cerró ${caja.cerrada_por_usuario}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {!caja.cerrada_en && supervisor && caja.id !== current?.id && (
+                        <button
+                          type="button"
+                          onClick={() => handleCloseOther(caja.id)}
+                          className="px-3 py-1.5 rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30 transition-colors text-sm"
+                        >
+                          Cerrar
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => toggleDetail(caja.id)}
+                        className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                        title="Ver arqueo"
+                      >
+                        {expandedId === caja.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                      </button>
+                    </div>
+                  </div>
+                  {expandedId === caja.id && (
+                    <div className="border-t border-gray-700 mt-4 pt-4">
+                      {details[caja.id] ? (
+                        <CashReport caja={details[caja.id]} />
+                      ) : (
+                        <p className="text-gray-400 text-sm">Cargando arqueo...</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {historyPagination && historyPagination.total_paginas > 1 && (
+          <div className="flex items-center justify-center gap-4 mt-8">
+            <button
+              type="button"
+              onClick={() => setHistoryPage(historyPage - 1)}
+              disabled={historyPage <= 1}
+              className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+            >
+              Anterior
+            </button>
+            <span className="text-gray-400">
+              Página {historyPagination.pagina} de {historyPagination.total_paginas}
+            </span>
+            <button
+              type="button"
+              onClick={() => setHistoryPage(historyPage + 1)}
+              disabled={historyPage >= historyPagination.total_paginas}
+              className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+            >
+              Siguiente
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
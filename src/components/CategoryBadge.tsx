@@ -8,8 +8,10 @@ const categoryLabels: Record<string, string> = {
   'merienda-bebidas': 'MERIENDA - Bebidas',
   'merienda-dulces': 'MERIENDA - Dulces',
   'merienda-salados': 'MERIENDA - Salados',
+  'merienda-combos': 'MERIENDA - Combos',
   'cena-bebidas': 'CENA - Bebidas',
   'cena-comidas': 'CENA - Comidas',
+  'cena-combos': 'CENA - Combos',
 };
 
 export function CategoryBadge({ category }: CategoryBadgeProps) {
@@ -2,12 +2,30 @@ import { useState } from 'react';
 import { useCart } from '../context/CartContext';
 import { useNavigate } from 'react-router-dom';
 import { PoliceButton } from './PoliceButton';
-import { FileText, Upload, CreditCard, Banknote } from 'lucide-react';
+import { FileText, Upload, CreditCard, Banknote, Tag, X } from 'lucide-react';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
 import { toast } from 'sonner';
 import { getApiUrl } from '../config/api';
 
+// Clave única del intento de compra: si la conexión se corta y el comprador reintenta,
+// el backend la reconoce y devuelve la misma compra en vez de crear otra
+const generarClaveIdempotencia = () => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Cupón que el backend aceptó para este carrito (el descuento se vuelve a calcular al enviar el pedido)
+type AppliedCoupon = {
+  codigo: string;
+  descripcion: string | null;
+  descuento: number;
+  total: number;
+};
+
 export function Checkout() {
   const { cart, getTotal, clearCart } = useCart();
   const navigate = useNavigate();
@@ -21,10 +39,62 @@ export function Checkout() {
   });
 
   const [transferProof, setTransferProof] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  // Se mantiene entre reintentos del mismo checkout
+  const [idempotencyKey] = useState(generarClaveIdempotencia);
+  const [couponCode, setCouponCode] = useState('');
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+
+  // Productos del carrito en el formato que espera el backend
+  const productosDelCarrito = () => cart.map(item => ({
+    producto_id: parseInt(item.product.id),
+    cantidad: item.quantity
+  }));
+
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim() || applyingCoupon) return;
+
+    setApplyingCoupon(true);
+    try {
+      const response = await fetch(getApiUrl('/api/compras/cupon'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ codigo: couponCode, productos: productosDelCarrito() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'No se pudo aplicar el cupón');
+      }
+
+      setAppliedCoupon({
+        codigo: data.cupon.codigo,
+        descripcion: data.cupon.descripcion,
+        descuento: Number(data.descuento),
+        total: Number(data.total),
+      });
+      setCouponCode(data.cupon.codigo);
+      toast.success(data.mensaje);
+    } catch (error: any) {
+      console.error('Error al aplicar cupón:', error);
+      setAppliedCoupon(null);
+      toast.error(error.message || 'No se pudo aplicar el cupón');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setAppliedCoupon(null);
+    setCouponCode('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (submitting) return;
+
     if (!formData.fullName || !formData.paymentMethod) {
       toast.error('Por favor completá todos los campos obligatorios', {
         description: 'Nombre completo y método de pago son requeridos',
@@ -39,6 +109,7 @@ export function Checkout() {
       return;
     }
 
+    setSubmitting(true);
     try {
       // Preparar datos para enviar al backend como FormData
       const formDataToSend = new FormData();
@@ -55,11 +126,12 @@ export function Checkout() {
       }
       
       // Convertir carrito al formato esperado por el backend
-      const productos = cart.map(item => ({
-        producto_id: parseInt(item.product.id),
-        cantidad: item.quantity
-      }));
-      formDataToSend.append('productos', JSON.stringify(productos));
+      formDataToSend.append('productos', JSON.stringify(productosDelCarrito()));
+
+      // El backend vuelve a validar el cupón y calcula el descuento definitivo
+      if (appliedCoupon) {
+        formDataToSend.append('codigo_cupon', appliedCoupon.codigo);
+      }
       
       // Agregar comprobante si existe
       if (transferProof) {
@@ -69,6 +141,9 @@ export function Checkout() {
       // Enviar al backend
       const response = await fetch(getApiUrl('/api/compras'), {
         method: 'POST',
+        headers: {
+          'Idempotency-Key': idempotencyKey,
+        },
         body: formDataToSend,
       });
 
@@ -87,7 +162,9 @@ export function Checkout() {
         tableNumber: formData.tableNumber,
         paymentMethod: formData.paymentMethod,
         items: cart,
-        total: getTotal(),
+        // Total que calculó el backend (con el descuento del cupón, si hubo)
+        total: Number(data.compra.total),
+        trackingToken: data.compra.token_seguimiento,
       }));
 
       toast.success('¡Compra registrada exitosamente!');
@@ -99,6 +176,8 @@ export function Checkout() {
       toast.error(error.message || 'Error al procesar la compra', {
         description: 'Por favor intentá nuevamente',
       });
+    } finally {
+      setSubmitting(false);
     }
   };
 
@@ -327,8 +406,9 @@ export function Checkout() {
                 type="submit"
                 variant="primary"
                 className="w-full"
+                disabled={submitting}
               >
-                Enviar Pedido
+                {submitting ? 'Enviando pedido...' : 'Enviar Pedido'}
               </PoliceButton>
             </form>
           </div>
@@ -350,10 +430,74 @@ export function Checkout() {
                   </div>
                 ))}
               </div>
+
+              {/* Cupón de descuento */}
+              <div className="space-y-2">
+                <Label htmlFor="couponCode" className="text-gray-300 flex items-center gap-2">
+                  <Tag className="w-4 h-4 text-[#fbbf24]" />
+                  Cupón de descuento
+                </Label>
+                {appliedCoupon ? (
+                  <div className="flex items-center justify-between gap-2 bg-[#fbbf24]/10 border border-[#fbbf24]/30 rounded-lg px-3 py-2">
+                    <div className="text-sm">
+                      <p className="text-[#fbbf24] font-semibold">{appliedCoupon.codigo}</p>
+                      {appliedCoupon.descripcion && (
+                        <p className="text-gray-400 text-xs">{appliedCoupon.descripcion}</p>
+                      )}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleRemoveCoupon}
+                      className="p-1 text-gray-400 hover:text-white transition-colors"
+                      aria-label="Quitar cupón"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      id="couponCode"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          handleApplyCoupon();
+                        }
+                      }}
+                      className="bg-black/50 border-[#fbbf24]/30 text-white uppercase"
+                      placeholder="Ej: WATSON10"
+                      maxLength={50}
+                    />
+                    <button
+                      type="button"
+                      onClick={handleApplyCoupon}
+                      disabled={applyingCoupon || !couponCode.trim()}
+                      className="px-4 py-2 rounded-lg bg-[#fbbf24] text-black font-medium hover:bg-[#f59e0b] transition-colors disabled:opacity-50"
+                    >
+                      {applyingCoupon ? '...' : 'Aplicar'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
               <div className="h-px bg-gradient-to-r from-transparent via-[#fbbf24] to-transparent my-6"></div>
+              {appliedCoupon && (
+                <div className="space-y-2 mb-4 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Subtotal:</span>
+                    <span className="text-white">${getTotal()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Descuento ({appliedCoupon.codigo}):</span>
+                    <span className="text-green-400">-${appliedCoupon.descuento}</span>
+                  </div>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <h4 className="text-white">Total:</h4>
-                <p className="text-[#fbbf24] text-3xl font-semibold">${getTotal()}</p>
+                <p className="text-[#fbbf24] text-3xl font-semibold">${appliedCoupon ? appliedCoupon.total : getTotal()}</p>
               </div>
             </div>
           </div>
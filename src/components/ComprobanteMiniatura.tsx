@@ -0,0 +1,28 @@
+// Miniatura del comprobante de una compra para el listado del panel
+// La imagen se pide con el token (la ruta está protegida), por eso no alcanza con un <img src>
+
+import { useComprobanteUrl } from '../hooks/useComprobanteUrl';
+
+type ComprobanteMiniaturaProps = {
+  purchaseId: number;
+  onClick: () => void;
+};
+
+export function ComprobanteMiniatura({ purchaseId, onClick }: ComprobanteMiniaturaProps) {
+  const { url, error } = useComprobanteUrl(purchaseId, true);
+
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="w-16 h-20 rounded-lg overflow-hidden border border-[#fbbf24]/30 hover:border-[#fbbf24] bg-black/50 flex items-center justify-center transition-colors"
+      title="Ver comprobante"
+    >
+      {url ? (
+        <img src={url} alt="Comprobante" className="w-full h-full object-cover" />
+      ) : (
+        <span className={`material-icons text-gray-500 ${error ? '' : 'animate-pulse'}`}>receipt</span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,472 @@
+// Gestión de cupones de descuento
+// El admin crea cupones de porcentaje o monto fijo, para toda la compra, un producto o una categoría,
+// con límite de usos y fechas de vigencia opcionales. El comprador los ingresa en el checkout.
+// Un cupón no se borra: se desactiva, así las compras que lo usaron lo siguen mostrando.
+
+import { useEffect, useState } from 'react';
+import { Plus, RefreshCw, Save, Edit2, Ban, X, Tag } from 'lucide-react';
+import { toast } from 'sonner';
+import { PoliceButton } from './PoliceButton';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { apiFetch } from '../config/apiFetch';
+
+type CouponType = 'porcentaje' | 'monto';
+
+type Coupon = {
+  id: number;
+  codigo: string;
+  descripcion: string | null;
+  tipo: CouponType;
+  valor: number | string;
+  producto_id: number | null;
+  producto_nombre: string | null;
+  categoria: string | null;
+  usos_maximos: number | null;
+  valido_desde: string | null;
+  valido_hasta: string | null;
+  activo: boolean;
+  usos: number;
+  monto_descontado: number | string;
+};
+
+type CouponProduct = {
+  id: number;
+  nombre: string;
+  categoria: string;
+};
+
+// Alcance del cupón en el formulario: 'todo', 'producto' o 'categoria'
+type CouponScope = 'todo' | 'producto' | 'categoria';
+
+const CUPON_NUEVO = {
+  codigo: '',
+  descripcion: '',
+  tipo: 'porcentaje' as CouponType,
+  valor: '',
+  alcance: 'todo' as CouponScope,
+  producto_id: '',
+  categoria: '',
+  usos_maximos: '',
+  valido_desde: '',
+  valido_hasta: '',
+  activo: true,
+};
+
+const formatPrice = (price: number | string) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(Number(price));
+
+// Fecha del backend en el formato de <input type="datetime-local"> (hora local)
+const aFechaLocal = (fecha: string | null) => {
+  if (!fecha) return '';
+  const date = new Date(fecha);
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const describirValor = (cupon: Coupon) =>
+  cupon.tipo === 'porcentaje' ? `${Number(cupon.valor)}% off` : `${formatPrice(cupon.valor)} off`;
+
+const describirAlcance = (cupon: Coupon) => {
+  if (cupon.producto_nombre) return `en ${cupon.producto_nombre}`;
+  if (cupon.categoria) return `en ${cupon.categoria}`;
+  return 'en toda la compra';
+};
+
+// Hace una petición autenticada a /api/cupones y devuelve el JSON (o lanza el mensaje del backend)
+const pedirApi = async (ruta: string, opciones: RequestInit = {}) => {
+  const response = await apiFetch(`/api/cupones${ruta}`, {
+    ...opciones,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.mensaje || 'Error en la gestión de cupones');
+  }
+  return data;
+};
+
+export function CouponManagement() {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [products, setProducts] = useState<CouponProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const [showForm, setShowForm] = useState(false);
+  // null = cupón nuevo
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState(CUPON_NUEVO);
+
+  const fetchAll = async () => {
+    try {
+      const [cuponesData, productosResponse] = await Promise.all([
+        pedirApi(''),
+        apiFetch('/api/productos/admin/all'),
+      ]);
+      const productosData = await productosResponse.json();
+
+      setCoupons(cuponesData.cupones);
+      if (productosData.success && Array.isArray(productosData.productos)) {
+        setProducts(productosData.productos);
+      }
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar los cupones');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const categorias = [...new Set(products.map(p => p.categoria).filter(Boolean))].sort();
+
+  const abrirNuevo = () => {
+    setEditingId(null);
+    setForm(CUPON_NUEVO);
+    setShowForm(true);
+  };
+
+  const abrirEdicion = (cupon: Coupon) => {
+    setEditingId(cupon.id);
+    setForm({
+      codigo: cupon.codigo,
+      descripcion: cupon.descripcion || '',
+      tipo: cupon.tipo,
+      valor: String(Number(cupon.valor)),
+      alcance: cupon.producto_id ? 'producto' : cupon.categoria ? 'categoria' : 'todo',
+      producto_id: cupon.producto_id ? String(cupon.producto_id) : '',
+      categoria: cupon.categoria || '',
+      usos_maximos: cupon.usos_maximos ? String(cupon.usos_maximos) : '',
+      valido_desde: aFechaLocal(cupon.valido_desde),
+      valido_hasta: aFechaLocal(cupon.valido_hasta),
+      activo: cupon.activo,
+    });
+    setShowForm(true);
+  };
+
+  const cerrarFormulario = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setForm(CUPON_NUEVO);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (form.alcance === 'producto' && !form.producto_id) {
+      toast.error('Elegí el producto al que aplica el cupón');
+      return;
+    }
+    if (form.alcance === 'categoria' && !form.categoria) {
+      toast.error('Elegí la categoría a la que aplica el cupón');
+      return;
+    }
+
+    const cupon = {
+      codigo: form.codigo,
+      descripcion: form.descripcion,
+      tipo: form.tipo,
+      valor: Number(form.valor),
+      producto_id: form.alcance === 'producto' ? Number(form.producto_id) : null,
+      categoria: form.alcance === 'categoria' ? form.categoria : null,
+      usos_maximos: form.usos_maximos ? Number(form.usos_maximos) : null,
+      // Las fechas del input son hora local: las mandamos en ISO para que el servidor no las interprete en otra zona
+      valido_desde: form.valido_desde ? new Date(form.valido_desde).toISOString() : null,
+      valido_hasta: form.valido_hasta ? new Date(form.valido_hasta).toISOString() : null,
+      activo: form.activo,
+    };
+
+    setSavingId('formulario');
+    try {
+      const data = await pedirApi(editingId ? `/${editingId}` : '', {
+        method: editingId ? 'PUT' : 'POST',
+        body: JSON.stringify(cupon),
+      });
+      toast.success(data.mensaje);
+      cerrarFormulario();
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleDeactivate = async (cupon: Coupon) => {
+    if (!confirm(`¿Desactivar el cupón ${cupon.codigo}? Ya no se va a poder usar en el checkout.`)) return;
+
+    setSavingId(`cupon-${cupon.id}`);
+    try {
+      await pedirApi(`/${cupon.id}`, { method: 'DELETE' });
+      toast.success(`Cupón ${cupon.codigo} desactivado`);
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center text-gray-400 py-20">
+        <span className="material-icons text-6xl animate-spin">refresh</span>
+        <p className="mt-4">Cargando cupones...</p>
+      </div>
+    );
+  }
+
+  return (
+    <section>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-white mb-2">Cupones ({coupons.length})</h2>
+          <p className="text-gray-400 text-sm">El comprador ingresa el código en el checkout y el descuento se calcula al confirmar el pedido.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={fetchAll}
+            className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            title="Actualizar"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+          <PoliceButton variant="primary" icon={Plus} onClick={abrirNuevo}>
+            Nuevo cupón
+          </PoliceButton>
+        </div>
+      </div>
+
+      {showForm && (
+        <form
+          onSubmit={handleSubmit}
+          className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/40 rounded-2xl p-6 mb-8 space-y-5"
+        >
+          <div className="flex justify-between items-center">
+            <h3 className="text-white text-lg font-semibold">{editingId ? `Editar cupón ${form.codigo}` : 'Nuevo cupón'}</h3>
+            <button type="button" onClick={cerrarFormulario} className="text-gray-400 hover:text-white">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="cupon-codigo" className="text-gray-300">Código *</Label>
+              <Input
+                id="cupon-codigo"
+                value={form.codigo}
+                onChange={(e) => setForm({ ...form, codigo: e.target.value.toUpperCase() })}
+                className="bg-black/50 border-[#fbbf24]/30 text-white mt-2 uppercase"
+                placeholder="Ej: WATSON10"
+                maxLength={50}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="cupon-descripcion" className="text-gray-300">Descripción</Label>
+              <Input
+                id="cupon-descripcion"
+                value={form.descripcion}
+                onChange={(e) => setForm({ ...form, descripcion: e.target.value })}
+                className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                placeholder="Ej: 10% en la merienda del sábado"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            {([['porcentaje', 'Porcentaje'], ['monto', 'Monto fijo']] as const).map(([tipo, etiqueta]) => (
+              <button
+                key={tipo}
+                type="button"
+                onClick={() => setForm({ ...form, tipo })}
+                className={`px-4 py-2 rounded-lg transition-colors ${
+                  form.tipo === tipo ? 'bg-[#fbbf24] text-black font-medium' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {etiqueta}
+              </button>
+            ))}
+            <div>
+              <Label htmlFor="cupon-valor" className="text-gray-300">
+                {form.tipo === 'porcentaje' ? 'Porcentaje *' : 'Monto *'}
+              </Label>
+              <Input
+                id="cupon-valor"
+                type="number"
+                min="0.01"
+                step="0.01"
+                max={form.tipo === 'porcentaje' ? 100 : undefined}
+                value={form.valor}
+                onChange={(e) => setForm({ ...form, valor: e.target.value })}
+                className="bg-black/50 border-[#fbbf24]/30 text-white mt-2 w-36"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label className="text-gray-300">Aplica a</Label>
+              <Select
+                value={form.alcance}
+                onValueChange={(alcance) => setForm({ ...form, alcance: alcance as CouponScope })}
+              >
+                <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todo">Toda la compra</SelectItem>
+                  <SelectItem value="producto">Un producto</SelectItem>
+                  <SelectItem value="categoria">Una categoría</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {form.alcance === 'producto' && (
+              <div>
+                <Label className="text-gray-300">Producto *</Label>
+                <Select value={form.producto_id} onValueChange={(producto_id) => setForm({ ...form, producto_id })}>
+                  <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white mt-2">
+                    <SelectValue placeholder="Elegí un producto" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {products.map(producto => (
+                      <SelectItem key={producto.id} value={String(producto.id)}>{producto.nombre}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {form.alcance === 'categoria' && (
+              <div>
+                <Label className="text-gray-300">Categoría *</Label>
+                <Select value={form.categoria} onValueChange={(categoria) => setForm({ ...form, categoria })}>
+                  <SelectTrigger className="bg-black/50 border-[#fbbf24]/30 text-white mt-2 capitalize">
+                    <SelectValue placeholder="Elegí una categoría" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categorias.map(categoria => (
+                      <SelectItem key={categoria} value={categoria} className="capitalize">{categoria}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="cupon-usos" className="text-gray-300">Límite de usos</Label>
+              <Input
+                id="cupon-usos"
+                type="number"
+                min="1"
+                step="1"
+                value={form.usos_maximos}
+                onChange={(e) => setForm({ ...form, usos_maximos: e.target.value })}
+                className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                placeholder="Sin límite"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cupon-desde" className="text-gray-300">Válido desde</Label>
+              <Input
+                id="cupon-desde"
+                type="datetime-local"
+                value={form.valido_desde}
+                onChange={(e) => setForm({ ...form, valido_desde: e.target.value })}
+                className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="cupon-hasta" className="text-gray-300">Válido hasta</Label>
+              <Input
+                id="cupon-hasta"
+                type="datetime-local"
+                value={form.valido_hasta}
+                onChange={(e) => setForm({ ...form, valido_hasta: e.target.value })}
+                className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-gray-300 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={form.activo}
+              onChange={(e) => setForm({ ...form, activo: e.target.checked })}
+              className="w-4 h-4 rounded border-gray-600 text-[#fbbf24] focus:ring-[#fbbf24] focus:ring-offset-0 bg-black"
+            />
+            Activo
+          </label>
+
+          <PoliceButton type="submit" variant="primary" icon={Save} disabled={savingId === 'formulario'}>
+            {savingId === 'formulario' ? 'Guardando...' : editingId ? 'Guardar cambios' : 'Crear cupón'}
+          </PoliceButton>
+        </form>
+      )}
+
+      {coupons.length === 0 ? (
+        <div className="text-center text-gray-400 py-20">
+          <Tag className="w-12 h-12 mx-auto mb-4 text-gray-600" />
+          <p>Todavía no hay cupones</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {coupons.map(cupon => (
+            <div
+              key={cupon.id}
+              className={`bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border rounded-2xl p-5 flex flex-col lg:flex-row lg:items-center justify-between gap-4 ${
+                cupon.activo ? 'border-[#fbbf24]/20' : 'border-gray-700 opacity-60'
+              }`}
+            >
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-[#fbbf24] font-mono font-semibold text-lg">{cupon.codigo}</span>
+                  <span className="text-white">{describirValor(cupon)} {describirAlcance(cupon)}</span>
+                  {!cupon.activo && <span className="text-xs px-2 py-0.5 rounded bg-gray-700 text-gray-300">Inactivo</span>}
+                </div>
+                {cupon.descripcion && <p className="text-gray-400 text-sm">{cupon.descripcion}</p>}
+                <p className="text-gray-500 text-xs">
+                  Usado {cupon.usos}{cupon.usos_maximos ? ` de ${cupon.usos_maximos}` : ''} {cupon.usos === 1 ? 'vez' : 'veces'}
+                  {' • '}Descontado {formatPrice(cupon.monto_descontado)}
+                  {cupon.valido_desde ? ` • Desde ${new Date(cupon.valido_desde).toLocaleString('es-AR')}` : ''}
+                  {cupon.valido_hasta ? ` • Hasta ${new Date(cupon.valido_hasta).toLocaleString('es-AR')}` : ''}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => abrirEdicion(cupon)}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                >
+                  <Edit2 className="w-4 h-4" />
+                  Editar
+                </button>
+                {cupon.activo && (
+                  <button
+                    type="button"
+                    onClick={() => handleDeactivate(cupon)}
+                    disabled={savingId === `cupon-${cupon.id}`}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30 transition-colors disabled:opacity-50"
+                  >
+                    <Ban className="w-4 h-4" />
+                    Desactivar
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,206 @@
+// Pantalla de cocina
+// Tablero a pantalla completa con los pedidos pagados que todavía no están listos,
+// del más viejo al más nuevo. Un toque marca el pedido como listo.
+// No muestra precios ni comprobantes: es solo para los cocineros.
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChefHat, CheckCircle, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiFetch } from '../config/apiFetch';
+import { ESTADOS_COMPRA } from '../config/estados';
+import { OrderStatus } from '../types';
+import { useComprasStream, ComprasStreamEvent } from '../hooks/useComprasStream';
+import { RequirePermission } from './RequirePermission';
+
+type KitchenOrder = {
+  id: number;
+  comprador_nombre: string;
+  comprador_mesa: number | null;
+  fecha: string;
+  estado: OrderStatus;
+  detalles_pedido: string | null;
+  detalles: {
+    producto_id: number;
+    producto_nombre: string;
+    cantidad: number;
+  }[];
+};
+
+// Estados que le interesan a la cocina: ya pagados pero todavía no listos
+const ESTADOS_COCINA: OrderStatus[] = ['pagado', 'preparando'];
+
+// A partir de cuántos minutos un pedido se considera demorado
+const MINUTOS_DEMORA = 15;
+
+export function KitchenDisplay() {
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<KitchenOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  // Nos quedamos solo con los pedidos para cocinar, ordenados del más viejo al más nuevo
+  const toKitchenOrders = (compras: KitchenOrder[]) =>
+    compras
+      .filter(c => ESTADOS_COCINA.includes(c.estado))
+      .sort((a, b) => new Date(a.fecha).getTime() - new Date(b.fecha).getTime());
+
+  const fetchOrders = async () => {
+    try {
+      const response = await apiFetch(`/api/compras?estado=${ESTADOS_COCINA.join(',')}&orden=fecha_asc&por_pagina=100`);
+
+      if (!response.ok) {
+        throw new Error('Error al cargar pedidos');
+      }
+
+      const data = await response.json();
+      if (data.success && Array.isArray(data.compras)) {
+        setOrders(toKitchenOrders(data.compras));
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      toast.error('Error al cargar pedidos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+  }, []);
+
+  // Reloj para el tiempo de espera de cada pedido
+  useEffect(() => {
+    const intervalo = setInterval(() => setNow(Date.now()), 15000);
+    return () => clearInterval(intervalo);
+  }, []);
+
+  // Los pedidos entran y salen del tablero en vivo
+  useComprasStream(({ tipo, datos }: ComprasStreamEvent) => {
+    if (tipo === 'compra_eliminada') {
+      setOrders(prev => prev.filter(o => o.id !== datos.id));
+      return;
+    }
+    setOrders(prev => {
+      const actual = prev.find(o => o.id === datos.id);
+      const resto = prev.filter(o => o.id !== datos.id);
+      return toKitchenOrders([...resto, { ...actual, ...datos }]);
+    });
+  });
+
+  // Marca el pedido como listo usando el mismo endpoint de estados que el panel
+  const handleMarkReady = async (order: KitchenOrder) => {
+    setUpdatingId(order.id);
+    try {
+      const response = await apiFetch(`/api/compras/${order.id}/estado`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ estado: 'listo' }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.mensaje || 'Error al actualizar estado');
+      }
+
+      setOrders(prev => prev.filter(o => o.id !== order.id));
+      toast.success(`Pedido #${order.id} listo`);
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al actualizar estado');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const minutosDeEspera = (fecha: string) =>
+    Math.max(0, Math.floor((now - new Date(fecha).getTime()) / 60000));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black overflow-y-auto">
+      {/* Encabezado */}
+      <div className="flex items-center justify-between px-6 py-4 border-b-2 border-[#fbbf24]/30 bg-[#0f0f0f] sticky top-0">
+        <div className="flex items-center gap-3">
+          <ChefHat className="w-10 h-10 text-[#fbbf24]" />
+          <h1 className="text-white text-3xl font-bold">Cocina</h1>
+          <span className="text-gray-400 text-2xl">({orders.length} pendientes)</span>
+        </div>
+        <button
+          onClick={() => navigate('/vendor/panel')}
+          className="text-gray-400 hover:text-white transition-colors p-2"
+          title="Volver al panel"
+        >
+          <X className="w-8 h-8" />
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-400 py-20 text-2xl">Cargando pedidos...</div>
+      ) : orders.length === 0 ? (
+        <div className="text-center text-gray-500 py-32 text-3xl">No hay pedidos para preparar</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 p-6">
+          {orders.map((order) => {
+            const minutos = minutosDeEspera(order.fecha);
+            const demorado = minutos >= MINUTOS_DEMORA;
+            return (
+              <div
+                key={order.id}
+                className={`rounded-2xl border-4 p-6 flex flex-col ${
+                  demorado ? 'border-red-500 bg-red-950/40' : 'border-[#fbbf24]/40 bg-[#1a1a1a]'
+                }`}
+              >
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <p className="text-white text-4xl font-bold">#{order.id}</p>
+                    <p className="text-gray-300 text-2xl">
+                      {order.comprador_mesa ? `Mesa ${order.comprador_mesa}` : order.comprador_nombre}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-4xl font-bold ${demorado ? 'text-red-400' : 'text-[#fbbf24]'}`}>
+                      {minutos}'
+                    </p>
+                    <span className={`inline-block mt-1 px-3 py-1 rounded-lg text-white text-sm ${ESTADOS_COMPRA[order.estado].color}`}>
+                      {ESTADOS_COMPRA[order.estado].label}
+                    </span>
+                  </div>
+                </div>
+
+                <ul className="space-y-2 mb-4 flex-1">
+                  {order.detalles.map((detalle, idx) => (
+                    <li key={idx} className="text-white text-2xl">
+                      <span className="text-[#fbbf24] font-bold mr-3">{detalle.cantidad}x</span>
+                      {detalle.producto_nombre}
+                    </li>
+                  ))}
+                </ul>
+
+                {order.detalles_pedido && (
+                  <p className="text-black bg-amber-400 font-semibold text-xl px-4 py-3 rounded-xl mb-4">
+                    ⚠ {order.detalles_pedido}
+                  </p>
+                )}
+
+                <RequirePermission permiso="editar_compras">
+                  <button
+                    onClick={() => handleMarkReady(order)}
+                    disabled={updatingId === order.id}
+                    className="w-full py-5 rounded-xl bg-green-600 hover:bg-green-500 active:bg-green-700 text-white text-2xl font-bold flex items-center justify-center gap-3 transition-colors disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-8 h-8" />
+                    {updatingId === order.id ? 'Guardando...' : 'LISTO'}
+                  </button>
+                </RequirePermission>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
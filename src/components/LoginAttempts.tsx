@@ -0,0 +1,246 @@
+// Intentos de login al panel
+// Muestra cada intento (exitoso o no) con el usuario y la IP, y los usuarios o IPs bloqueados en este momento
+// por demasiados intentos fallidos
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, Lock, RefreshCw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { apiFetch } from '../config/apiFetch';
+
+type LoginAttempt = {
+  id: number;
+  username: string;
+  user_id: number | null;
+  usuario_nombre_completo: string | null;
+  ip: string | null;
+  exitoso: boolean;
+  motivo: 'ok' | 'password_incorrecto' | 'usuario_inexistente' | 'bloqueado' | 'falta_2fa' | 'codigo_2fa_incorrecto';
+  fecha: string;
+};
+
+type ActiveLock = {
+  tipo: 'usuario' | 'ip';
+  valor: string;
+  fallos: number;
+  hasta: string;
+};
+
+type AttemptsPagination = {
+  pagina: number;
+  por_pagina: number;
+  total: number;
+  total_paginas: number;
+};
+
+type AttemptsFilters = {
+  username: string;
+  ip: string;
+  solo_fallidos: boolean;
+};
+
+const FILTROS_INICIALES: AttemptsFilters = {
+  username: '',
+  ip: '',
+  solo_fallidos: false,
+};
+
+const ETIQUETAS_MOTIVO: Record<LoginAttempt['motivo'], string> = {
+  ok: 'Ingresó',
+  password_incorrecto: 'Contraseña incorrecta',
+  usuario_inexistente: 'Usuario inexistente o inactivo',
+  bloqueado: 'Rechazado por bloqueo',
+  falta_2fa: 'Contraseña correcta, falta el código',
+  codigo_2fa_incorrecto: 'Código de verificación incorrecto',
+};
+
+export function LoginAttempts() {
+  const [records, setRecords] = useState<LoginAttempt[]>([]);
+  const [locks, setLocks] = useState<ActiveLock[]>([]);
+  const [pagination, setPagination] = useState<AttemptsPagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AttemptsFilters>(FILTROS_INICIALES);
+  const [loading, setLoading] = useState(true);
+
+  const fetchRecords = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({
+        pagina: page.toString(),
+        por_pagina: '50',
+      });
+      if (filters.username.trim()) params.set('username', filters.username.trim());
+      if (filters.ip.trim()) params.set('ip', filters.ip.trim());
+      if (filters.solo_fallidos) params.set('solo_fallidos', 'true');
+
+      const response = await apiFetch(`/api/auditoria/intentos-login?${params.toString()}`);
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar los intentos de login');
+      }
+
+      setRecords(data.registros);
+      setLocks(data.bloqueos);
+      setPagination(data.paginacion);
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar los intentos de login');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Esperamos un momento antes de buscar para no pedir una página por cada tecla
+  useEffect(() => {
+    const timeout = setTimeout(fetchRecords, 300);
+    return () => clearTimeout(timeout);
+  }, [page, filters]);
+
+  const handleChangeFilter = <K extends keyof AttemptsFilters>(campo: K, valor: AttemptsFilters[K]) => {
+    setFilters(prev => ({ ...prev, [campo]: valor }));
+    setPage(1);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-white mb-2">Intentos de login ({pagination?.total ?? records.length})</h2>
+          <p className="text-gray-400 text-sm">Cada intento de ingreso al panel, con el usuario que se probó y desde qué IP.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => {
+              setFilters(FILTROS_INICIALES);
+              setPage(1);
+            }}
+            className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+          >
+            Limpiar filtros
+          </button>
+          <button
+            type="button"
+            onClick={fetchRecords}
+            className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            title="Actualizar"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Bloqueos activos */}
+      {locks.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/40 rounded-xl p-4 mb-8">
+          <p className="text-red-300 font-semibold flex items-center gap-2 mb-3">
+            <Lock className="w-5 h-5" />
+            Bloqueados ahora por intentos fallidos
+          </p>
+          <ul className="space-y-1 text-sm">
+            {locks.map(bloqueo => (
+              <li key={`${bloqueo.tipo}-${bloqueo.valor}`} className="text-gray-300">
+                {bloqueo.tipo === 'usuario' ? 'Usuario' : 'IP'}{' '}
+                <span className="text-white font-medium">{bloqueo.valor}</span>
+                {' • '}{bloqueo.fallos} fallos{' • '}hasta las {new Date(bloqueo.hasta).toLocaleTimeString('es-AR')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Filtros */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-8">
+        <Input
+          placeholder="Usuario"
+          value={filters.username}
+          onChange={(e) => handleChangeFilter('username', e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white"
+        />
+        <Input
+          placeholder="IP"
+          value={filters.ip}
+          onChange={(e) => handleChangeFilter('ip', e.target.value)}
+          className="bg-black/50 border-[#fbbf24]/30 text-white"
+        />
+        <label className="flex items-center gap-3 text-gray-300 text-sm cursor-pointer">
+          <input
+            type="checkbox"
+            checked={filters.solo_fallidos}
+            onChange={(e) => handleChangeFilter('solo_fallidos', e.target.checked)}
+            className="w-5 h-5 rounded border-[#fbbf24]/30 bg-[#0f0f0f] text-[#fbbf24] focus:ring-[#fbbf24] focus:ring-offset-0 cursor-pointer"
+          />
+          Solo intentos fallidos
+        </label>
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-400 py-20">
+          <span className="material-icons text-6xl animate-spin">refresh</span>
+          <p className="mt-4">Cargando intentos de login...</p>
+        </div>
+      ) : records.length === 0 ? (
+        <div className="text-center text-gray-400 py-20">
+          <span className="material-icons text-6xl">history</span>
+          <p className="mt-4">No hay intentos de login con ese criterio</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {records.map(intento => (
+            <div
+              key={intento.id}
+              className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-xl p-4 flex items-center gap-4"
+            >
+              {intento.exitoso ? (
+                <CheckCircle className="w-5 h-5 text-green-400 shrink-0" />
+              ) : (
+                <XCircle className="w-5 h-5 text-red-400 shrink-0" />
+              )}
+              <div>
+                <p className="text-white">
+                  <span className="text-[#fbbf24] font-semibold">{intento.username}</span>
+                  {intento.usuario_nombre_completo ? ` (${intento.usuario_nombre_completo})` : ''}
+                  {' • '}
+                  <span className={intento.exitoso ? 'text-green-300' : 'text-red-300'}>
+                    {ETIQUETAS_MOTIVO[intento.motivo] || intento.motivo}
+                  </span>
+                </p>
+                <p className="text-gray-500 text-sm">
+                  {new Date(intento.fecha).toLocaleString('es-AR')}
+                  {intento.ip ? ` • ${intento.ip}` : ''}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Paginación */}
+      {pagination && pagination.total_paginas > 1 && (
+        <div className="flex items-center justify-center gap-4 mt-8">
+          <button
+            type="button"
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1 || loading}
+            className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+          >
+            Anterior
+          </button>
+          <span className="text-gray-400">
+            Página {pagination.pagina} de {pagination.total_paginas}
+          </span>
+          <button
+            type="button"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pagination.total_paginas || loading}
+            className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors disabled:opacity-50"
+          >
+            Siguiente
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
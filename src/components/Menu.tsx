@@ -3,7 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { ProductCard } from './ProductCard';
 import { useCart } from '../context/CartContext';
 import { toast } from 'sonner';
-import { Coffee, UtensilsCrossed, Cookie, Sandwich, Beer, Pizza, ShoppingCart } from 'lucide-react';
+import { Coffee, UtensilsCrossed, Cookie, Sandwich, Beer, Pizza, ShoppingCart, Package } from 'lucide-react';
 import { Product } from '../types';
 import { getApiUrl } from '../config/api';
 
@@ -39,7 +39,11 @@ export function Menu() {
               image: p.imagen_url || 'https://via.placeholder.com/400x300?text=Sin+Imagen',
               description: p.descripcion || '',
               stock: p.stock,
-              activo: p.activo
+              activo: p.activo,
+              // Los combos traen sus componentes; para los demás productos la lista viene vacía
+              components: p.es_combo
+                ? p.componentes.map((c: any) => ({ productId: c.producto_id.toString(), name: c.nombre, quantity: c.cantidad }))
+                : undefined
             };
           });
           setProducts(mappedProducts);
@@ -140,6 +144,27 @@ export function Menu() {
                 <div className="h-1 bg-gradient-to-r from-transparent via-[#fbbf24] to-transparent rounded-full max-w-md mx-auto"></div>
               </div>
 
+              {/* Combos */}
+              {products.some(p => p.category === 'merienda-combos') && (
+                <div className="mb-20">
+                  <h3 className="text-[#fbbf24] mb-8 flex items-center justify-center gap-3">
+                    <Package className="w-6 h-6" />
+                    Combos
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 max-w-7xl mx-auto">
+                    {products
+                      .filter(p => p.category === 'merienda-combos')
+                      .map(product => (
+                        <ProductCard
+                          key={product.id}
+                          product={product}
+                          onAddToCart={handleAddToCart}
+                        />
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {/* Bebidas */}
               <div className="mb-20">
                 <h3 className="text-[#fbbf24] mb-8 flex items-center justify-center gap-3">
@@ -212,6 +237,27 @@ export function Menu() {
                 <div className="h-1 bg-gradient-to-r from-transparent via-[#fbbf24] to-transparent rounded-full max-w-md mx-auto"></div>
               </div>
 
+              {/* Combos */}
+              {products.some(p => p.category === 'cena-combos') && (
+                <div className="mb-20">
+                  <h3 className="text-[#fbbf24] mb-8 flex items-center justify-center gap-3">
+                    <Package className="w-6 h-6" />
+                    Combos
+                  </h3>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 max-w-7xl mx-auto">
+                    {products
+                      .filter(p => p.category === 'cena-combos')
+                      .map(product => (
+                        <ProductCard
+                          key={product.id}
+                          product={product}
+                          onAddToCart={handleAddToCart}
+                        />
+                      ))}
+                  </div>
+                </div>
+              )}
+
               {/* Bebidas */}
               <div className="mb-20">
                 <h3 className="text-[#fbbf24] mb-8 flex items-center justify-center gap-3">
@@ -1,14 +1,18 @@
 
-import { Search, ShoppingCart, UserCircle, LogOut } from 'lucide-react';
+import { useState } from 'react';
+import { Search, ShoppingCart, UserCircle, LogOut, MonitorX, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
 import { useCart } from '../context/CartContext';
 import { useAuth } from '../context/AuthContext';
 import { useNavigate, useLocation } from 'react-router-dom';
+import { TwoFactorSettings } from './TwoFactorSettings';
 
 export function Navbar() {
   const { cart } = useCart();
-  const { user, logout } = useAuth();
+  const { user, logout, logoutAllSessions } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
+  const [showTwoFactor, setShowTwoFactor] = useState(false);
 
   const totalItems = cart.reduce((sum, item) => sum + item.quantity, 0);
 
@@ -17,6 +21,18 @@ export function Navbar() {
     navigate('/vendor/login');
   };
 
+  // Cierra la sesión en todos los dispositivos (por ejemplo si quedó abierta en otra computadora)
+  const handleLogoutAll = async () => {
+    if (!confirm('¿Cerrar la sesión en todos los dispositivos, incluido este?')) return;
+
+    if (await logoutAllSessions()) {
+      toast.success('Se cerraron todas tus sesiones');
+      navigate('/vendor/login');
+    } else {
+      toast.error('No se pudieron cerrar las sesiones');
+    }
+  };
+
   const isVendorPanel = location.pathname.startsWith('/vendor');
 
   return (
@@ -68,9 +84,24 @@ export function Navbar() {
                   <UserCircle className="w-4 h-4 sm:w-5 sm:h-5" />
                   <span className="text-xs sm:text-sm font-medium hidden xs:inline">{user.username}</span>
                 </div>
+                <button
+                  onClick={() => setShowTwoFactor(true)}
+                  className="text-gray-300 hover:text-[#fbbf24] transition-colors p-1.5 sm:p-2 hover:bg-[#1f1f1f] rounded-lg sm:rounded-xl"
+                  title="Verificación en dos pasos"
+                >
+                  <ShieldCheck className="w-4 h-4 sm:w-5 sm:h-5" />
+                </button>
+                <button
+                  onClick={handleLogoutAll}
+                  className="text-gray-300 hover:text-[#ef4444] transition-colors p-1.5 sm:p-2 hover:bg-[#1f1f1f] rounded-lg sm:rounded-xl"
+                  title="Cerrar todas las sesiones"
+                >
+                  <MonitorX className="w-4 h-4 sm:w-5 sm:h-5" />
+                </button>
                 <button
                   onClick={handleLogout}
                   className="text-gray-300 hover:text-[#ef4444] transition-colors p-1.5 sm:p-2 hover:bg-[#1f1f1f] rounded-lg sm:rounded-xl"
+                  title="Cerrar sesión"
                 >
                   <LogOut className="w-4 h-4 sm:w-5 sm:h-5" />
                 </button>
@@ -80,6 +111,8 @@ export function Navbar() {
         </div>
       </div>
       
+      {showTwoFactor && <TwoFactorSettings onClose={() => setShowTwoFactor(false)} />}
+
       {/* Police tape decoration - más sutil */}
       <div className="h-1.5 bg-gradient-to-r from-[#fbbf24] via-[#f59e0b] to-[#fbbf24] police-tape"></div>
     </nav>
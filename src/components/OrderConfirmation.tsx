@@ -1,7 +1,8 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { PoliceButton } from './PoliceButton';
-import { CheckCircle2, FolderCheck, Home, ShoppingBag } from 'lucide-react';
+import { CheckCircle2, FolderCheck, Home, ShoppingBag, Search, Copy } from 'lucide-react';
+import { toast } from 'sonner';
 
 export function OrderConfirmation() {
   const navigate = useNavigate();
@@ -20,6 +21,22 @@ export function OrderConfirmation() {
     return null;
   }
 
+  const trackingUrl = orderData.trackingToken
+    ? `${window.location.origin}/pedido/${orderData.trackingToken}`
+    : null;
+
+  const handleCopyTrackingUrl = async () => {
+    if (!trackingUrl) return;
+    try {
+      await navigator.clipboard.writeText(trackingUrl);
+      toast.success('Link copiado', {
+        description: 'Guardalo para ver tu pedido desde cualquier dispositivo',
+      });
+    } catch (error) {
+      toast.error('No se pudo copiar el link');
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center py-20">
       {/* Contenedor principal centrado */}
@@ -111,8 +128,44 @@ export function OrderConfirmation() {
               </p>
             </div>
 
+            {/* Link de seguimiento */}
+            {trackingUrl && (
+              <div className="mb-10 max-w-2xl mx-auto bg-[#0f0f0f] border border-[#fbbf24]/30 rounded-2xl p-6 text-left">
+                <p className="text-white font-semibold mb-2">Seguí tu pedido en vivo</p>
+                <p className="text-gray-400 text-sm mb-4">
+                  Guardá este link: te muestra el estado de tu pedido aunque cierres esta página o cambies de celular.
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <input
+                    readOnly
+                    value={trackingUrl}
+                    onFocus={(e) => e.currentTarget.select()}
+                    className="flex-1 min-w-0 bg-black/50 border border-[#fbbf24]/30 text-gray-300 text-sm rounded-lg px-3 py-2"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleCopyTrackingUrl}
+                    className="flex items-center justify-center gap-2 px-4 py-2 bg-[#1f1f1f] border border-[#fbbf24]/30 text-[#fbbf24] rounded-lg hover:bg-[#2a2a2a] transition-colors"
+                  >
+                    <Copy className="w-4 h-4" />
+                    Copiar
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Action buttons */}
             <div className="flex flex-col sm:flex-row gap-4 justify-center max-w-2xl mx-auto">
+              {orderData.trackingToken && (
+                <PoliceButton
+                  variant="primary"
+                  icon={Search}
+                  onClick={() => navigate(`/pedido/${orderData.trackingToken}`)}
+                  className="flex-1"
+                >
+                  Ver Estado
+                </PoliceButton>
+              )}
               <PoliceButton
                 variant="secondary"
                 icon={ShoppingBag}
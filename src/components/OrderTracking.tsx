@@ -0,0 +1,260 @@
+// Página pública de seguimiento de un pedido
+// Se accede con el link secreto /pedido/:token que recibe el comprador al confirmar la compra
+
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { PoliceButton } from './PoliceButton';
+import { Home, ShoppingBag, RefreshCw } from 'lucide-react';
+import { getApiUrl } from '../config/api';
+import { ESTADOS_COMPRA, ORDEN_ESTADOS } from '../config/estados';
+import { OrderStatus, TransferVerification } from '../types';
+
+type TrackedOrder = {
+  id: number;
+  comprador_nombre: string;
+  comprador_mesa: number | null;
+  metodo_pago: string;
+  total: string;
+  fecha: string;
+  estado: OrderStatus;
+  detalles_pedido: string | null;
+  motivo_cancelacion: string | null;
+  verificacion_estado: TransferVerification | null;
+  motivo_rechazo: string | null;
+  productos: {
+    producto_nombre: string;
+    cantidad: number;
+    precio_unitario: string;
+    subtotal: string;
+  }[];
+  historial: { estado: OrderStatus; fecha: string }[];
+};
+
+// Cada cuánto se vuelve a consultar el estado del pedido
+const INTERVALO_ACTUALIZACION_MS = 15000;
+
+// Mensaje para el comprador según el estado del pedido
+const MENSAJES_ESTADO: Record<OrderStatus, string> = {
+  pendiente: 'Estamos esperando confirmar tu pago.',
+  pagado: 'Tu pago fue confirmado. En breve empezamos a prepararlo.',
+  preparando: 'Tu pedido se está preparando.',
+  listo: '¡Tu pedido está listo! Podés pasar a retirarlo.',
+  entregado: 'Tu pedido fue entregado. ¡Que lo disfrutes!',
+  cancelado: 'Tu pedido fue cancelado. Acercate a la barra si tenés dudas.',
+};
+
+export function OrderTracking() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [order, setOrder] = useState<TrackedOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+
+  const fetchOrder = async () => {
+    try {
+      const response = await fetch(getApiUrl(`/api/compras/seguimiento/${token}`));
+
+      if (response.status === 404) {
+        setNotFound(true);
+        return;
+      }
+
+      const data = await response.json();
+
+      if (data.success) {
+        setOrder(data.pedido);
+        setLastUpdate(new Date());
+      }
+    } catch (error) {
+      // Si falla la conexión seguimos mostrando el último estado conocido
+      console.error('Error al consultar el pedido:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Consultamos el pedido al entrar y después cada cierto tiempo,
+  // hasta que llegue a un estado final (entregado o cancelado)
+  const finalizado = order?.estado === 'entregado' || order?.estado === 'cancelado';
+
+  useEffect(() => {
+    fetchOrder();
+  }, [token]);
+
+  useEffect(() => {
+    if (finalizado || notFound) return;
+
+    const intervalo = setInterval(fetchOrder, INTERVALO_ACTUALIZACION_MS);
+    return () => clearInterval(intervalo);
+  }, [token, finalizado, notFound]);
+
+  const formatPrice = (price: number | string) => {
+    return new Intl.NumberFormat('es-AR', {
+      style: 'currency',
+      currency: 'ARS',
+    }).format(typeof price === 'string' ? parseFloat(price) : price);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen py-20 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-16 w-16 border-t-4 border-[#fbbf24] border-solid mx-auto mb-4"></div>
+          <p className="text-gray-400 text-lg">Buscando tu pedido...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound || !order) {
+    return (
+      <div className="min-h-screen flex items-center justify-center py-20 px-6">
+        <div className="text-center max-w-md mx-auto">
+          <h2 className="text-white mb-5">Pedido no encontrado</h2>
+          <p className="text-gray-400 mb-10 text-lg">Revisá que el link esté completo.</p>
+          <PoliceButton variant="primary" icon={Home} onClick={() => navigate('/')}>
+            Volver al Inicio
+          </PoliceButton>
+        </div>
+      </div>
+    );
+  }
+
+  const pasoActual = ORDEN_ESTADOS.indexOf(order.estado);
+
+  return (
+    <div className="min-h-screen py-20">
+      <div className="max-w-3xl mx-auto px-6">
+        {/* Encabezado */}
+        <div className="text-center mb-12">
+          <div className="inline-block bg-gradient-to-r from-[#fbbf24] to-[#f59e0b] text-black px-8 py-3 mb-8 rounded-2xl shadow-xl">
+            <p className="uppercase tracking-widest font-semibold">SEGUIMIENTO DEL CASO</p>
+          </div>
+          <h1 className="text-white mb-3">Pedido SH-{order.id}</h1>
+          <p className="text-gray-400 text-lg">{MENSAJES_ESTADO[order.estado]}</p>
+        </div>
+
+        {/* Transferencia rechazada: el comprador tiene que saber por qué */}
+        {order.verificacion_estado === 'rechazado' && order.estado !== 'cancelado' && (
+          <div className="bg-red-900/30 border border-red-500/50 rounded-2xl p-6 mb-8 text-center">
+            <p className="text-red-400 font-semibold mb-2">No pudimos verificar tu transferencia</p>
+            {order.motivo_rechazo && <p className="text-white">{order.motivo_rechazo}</p>}
+            <p className="text-gray-400 text-sm mt-3">Acercate a la barra con el comprobante para resolverlo.</p>
+          </div>
+        )}
+
+        {/* Progreso del pedido */}
+        <div className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/30 rounded-2xl p-8 mb-8 shadow-lg">
+          {order.estado === 'cancelado' ? (
+            <div className="text-center">
+              <span className={`inline-block px-6 py-2 rounded-xl text-white font-semibold ${ESTADOS_COMPRA.cancelado.color}`}>
+                {ESTADOS_COMPRA.cancelado.label}
+              </span>
+              {order.motivo_cancelacion && (
+                <p className="text-gray-400 mt-4">Motivo: {order.motivo_cancelacion}</p>
+              )}
+            </div>
+          ) : (
+            <ol className="grid grid-cols-5 gap-2">
+              {ORDEN_ESTADOS.map((estado, index) => {
+                const momento = order.historial.filter(h => h.estado === estado).pop();
+                return (
+                  <li key={estado} className="text-center">
+                    <div
+                      className={`h-2 rounded-full mb-3 ${
+                        index <= pasoActual ? 'bg-[#fbbf24]' : 'bg-gray-700'
+                      }`}
+                    ></div>
+                    <p className={`text-xs sm:text-sm ${index === pasoActual ? 'text-[#fbbf24] font-semibold' : index < pasoActual ? 'text-white' : 'text-gray-500'}`}>
+                      {ESTADOS_COMPRA[estado].label}
+                    </p>
+                    {momento && index <= pasoActual && (
+                      <p className="text-gray-500 text-xs mt-1">
+                        {new Date(momento.fecha).toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+
+          {lastUpdate && (
+            <p className="text-gray-500 text-xs text-center mt-6 flex items-center justify-center gap-2">
+              {!finalizado && <RefreshCw className="w-3 h-3" />}
+              Actualizado a las {lastUpdate.toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+            </p>
+          )}
+        </div>
+
+        {/* Detalle del pedido */}
+        <div className="bg-[#0f0f0f] border-2 border-[#fbbf24]/30 rounded-2xl p-8 mb-10 paper-texture shadow-inner">
+          <div className="grid grid-cols-2 gap-6 mb-6">
+            <div>
+              <p className="text-gray-400 text-sm mb-1">Cliente</p>
+              <p className="text-white font-semibold">{order.comprador_nombre}</p>
+            </div>
+            <div>
+              <p className="text-gray-400 text-sm mb-1">Mesa</p>
+              <p className="text-white font-semibold">{order.comprador_mesa ? `Mesa ${order.comprador_mesa}` : 'Sin mesa'}</p>
+            </div>
+            <div>
+              <p className="text-gray-400 text-sm mb-1">Método de Pago</p>
+              <p className="text-white font-semibold capitalize">{order.metodo_pago}</p>
+            </div>
+            <div>
+              <p className="text-gray-400 text-sm mb-1">Fecha</p>
+              <p className="text-white font-semibold">
+                {new Date(order.fecha).toLocaleString('es-AR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+              </p>
+            </div>
+          </div>
+
+          {order.detalles_pedido && (
+            <p className="text-amber-400 bg-amber-900/20 px-3 py-2 rounded mb-6 text-sm italic">
+              {order.detalles_pedido}
+            </p>
+          )}
+
+          <div className="h-px bg-gradient-to-r from-transparent via-[#fbbf24] to-transparent my-6"></div>
+
+          <div className="space-y-3 mb-6">
+            {order.productos.map((producto, index) => (
+              <div key={index} className="flex justify-between text-sm pb-3 border-b border-[#fbbf24]/10">
+                <span className="text-white">
+                  {producto.producto_nombre} <span className="text-[#fbbf24]">x{producto.cantidad}</span>
+                </span>
+                <span className="text-gray-400 font-medium">{formatPrice(producto.subtotal)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-between items-center">
+            <span className="text-white font-semibold">Total:</span>
+            <span className="text-[#fbbf24] text-3xl font-semibold">{formatPrice(order.total)}</span>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <PoliceButton
+            variant="secondary"
+            icon={ShoppingBag}
+            onClick={() => navigate('/menu')}
+            className="flex-1"
+          >
+            Hacer Otro Pedido
+          </PoliceButton>
+          <PoliceButton
+            variant="primary"
+            icon={Home}
+            onClick={() => navigate('/')}
+            className="flex-1"
+          >
+            Volver al Inicio
+          </PoliceButton>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+// Punto de venta (mostrador)
+// Pantalla completa para cobrar a quien compra en persona: se tocan los productos, se ajustan las cantidades,
+// se elige cómo paga (o una parte por transferencia y el resto en efectivo) y con cuánto paga en efectivo para ver
+// el vuelto. La venta queda pagada en el acto.
+
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Minus, Plus, ShoppingCart, Store, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { apiFetch } from '../config/apiFetch';
+import { useAuth } from '../context/AuthContext';
+
+type PosProduct = {
+  id: number;
+  nombre: string;
+  precio: number;
+  stock: number;
+  categoria: string;
+  subcategoria: string | null;
+};
+
+type CartLine = {
+  producto: PosProduct;
+  cantidad: number;
+};
+
+// 'mixto': una parte por transferencia y el resto en efectivo
+type PaymentMethod = 'efectivo' | 'transferencia' | 'mixto';
+
+// Billetes para cargar rápido con cuánto paga el cliente
+const BILLETES_RAPIDOS = [1000, 2000, 5000, 10000, 20000];
+
+// Una clave por venta: si la red corta y se reintenta, el servidor no la registra dos veces
+const nuevaClaveVenta = () => {
+  if (typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(price);
+
+export function PointOfSale() {
+  const navigate = useNavigate();
+  const { hasPermission } = useAuth();
+  const [products, setProducts] = useState<PosProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [category, setCategory] = useState('todas');
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [metodoPago, setMetodoPago] = useState<PaymentMethod>('efectivo');
+  const [montoRecibido, setMontoRecibido] = useState('');
+  const [montoTransferencia, setMontoTransferencia] = useState('');
+  const [nombre, setNombre] = useState('');
+  const [mesa, setMesa] = useState('');
+  const [saleKey, setSaleKey] = useState(nuevaClaveVenta);
+  const [saving, setSaving] = useState(false);
+  const [sinCaja, setSinCaja] = useState(false);
+
+  const fetchProducts = async () => {
+    try {
+      const response = await apiFetch('/api/productos');
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar los productos');
+      }
+
+      setProducts(data.productos.map((p: any) => ({ ...p, precio: parseFloat(p.precio) })));
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar los productos');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Avisamos si el vendedor no abrió su caja: el efectivo que cobre no va a entrar en ningún arqueo
+  const fetchCaja = async () => {
+    if (!hasPermission('operar_caja')) return;
+    try {
+      const response = await apiFetch('/api/cajas/actual');
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setSinCaja(!data.caja);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchProducts();
+    fetchCaja();
+  }, []);
+
+  const categorias = Array.from(new Set(products.map(p => p.categoria)));
+  const visibles = category === 'todas' ? products : products.filter(p => p.categoria === category);
+
+  const cantidadEnCarrito = (productoId: number) =>
+    cart.find(l => l.producto.id === productoId)?.cantidad ?? 0;
+
+  const changeQuantity = (producto: PosProduct, delta: number) => {
+    setCart(prev => {
+      const actual = prev.find(l => l.producto.id === producto.id);
+      const cantidad = Math.min((actual?.cantidad ?? 0) + delta, producto.stock);
+      if (cantidad <= 0) {
+        return prev.filter(l => l.producto.id !== producto.id);
+      }
+      if (actual) {
+        return prev.map(l => (l.producto.id === producto.id ? { ...l, cantidad } : l));
+      }
+      return [...prev, { producto, cantidad }];
+    });
+  };
+
+  const total = cart.reduce((suma, l) => suma + l.producto.precio * l.cantidad, 0);
+  const transferido = metodoPago === 'mixto' ? parseFloat(montoTransferencia) || 0 : 0;
+  const montoEfectivo = metodoPago === 'transferencia' ? 0 : Math.round((total - transferido) * 100) / 100;
+  const pagaEnEfectivo = metodoPago !== 'transferencia';
+  const recibido = montoRecibido === '' ? null : parseFloat(montoRecibido);
+  const vuelto = recibido !== null && !isNaN(recibido) ? recibido - montoEfectivo : null;
+  const faltaEfectivo = pagaEnEfectivo && vuelto !== null && vuelto < 0;
+  // En un pago mixto las dos partes tienen que ser mayores a cero
+  const mixtoInvalido = metodoPago === 'mixto' && (transferido <= 0 || montoEfectivo <= 0);
+
+  const resetSale = () => {
+    setCart([]);
+    setMontoRecibido('');
+    setMontoTransferencia('');
+    setNombre('');
+    setMesa('');
+    setMetodoPago('efectivo');
+    setSaleKey(nuevaClaveVenta());
+  };
+
+  const handleConfirm = async () => {
+    setSaving(true);
+    try {
+      const response = await apiFetch('/api/compras/mostrador', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': saleKey,
+        },
+        body: JSON.stringify({
+          productos: cart.map(l => ({ producto_id: l.producto.id, cantidad: l.cantidad })),
+          ...(metodoPago === 'mixto'
+            ? {
+                pagos: [
+                  { metodo: 'transferencia', monto: transferido },
+                  { metodo: 'efectivo', monto: montoEfectivo },
+                ],
+              }
+            : { metodo_pago: metodoPago }),
+          monto_recibido: pagaEnEfectivo && montoRecibido !== '' ? parseFloat(montoRecibido) : null,
+          comprador_nombre: nombre.trim() || undefined,
+          comprador_mesa: mesa ? parseInt(mesa) : null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al registrar la venta');
+      }
+
+      toast.success(
+        data.vuelto !== null && data.vuelto !== undefined
+          ? `Venta #${data.compra.id} registrada • Vuelto ${formatPrice(data.vuelto)}`
+          : `Venta #${data.compra.id} registrada`
+      );
+      if (data.aviso) {
+        toast.warning(data.aviso);
+      }
+
+      resetSale();
+      fetchProducts();
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al registrar la venta');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black flex flex-col">
+      {/* Encabezado */}
+      <div className="flex items-center justify-between px-6 py-4 border-b-2 border-[#fbbf24]/30 bg-[#0f0f0f]">
+        <div className="flex items-center gap-3">
+          <Store className="w-10 h-10 text-[#fbbf24]" />
+          <h1 className="text-white text-3xl font-bold">Punto de venta</h1>
+        </div>
+        <button
+          onClick={() => navigate('/vendor/panel')}
+          className="text-gray-400 hover:text-white transition-colors p-2"
+          title="Volver al panel"
+        >
+          <X className="w-8 h-8" />
+        </button>
+      </div>
+
+      {sinCaja && (
+        <div className="bg-amber-500/10 border-b border-amber-500/40 px-6 py-2 text-amber-300 text-sm">
+          No tenés una caja abierta: lo que cobres en efectivo no va a quedar en ningún arqueo. Abrila desde la pestaña Caja del panel.
+        </div>
+      )}
+
+      <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+        {/* Productos */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="flex flex-wrap gap-2 mb-6">
+            {['todas', ...categorias].map(cat => (
+              <button
+                key={cat}
+                type="button"
+                onClick={() => setCategory(cat)}
+                className={`px-4 py-2 rounded-lg capitalize transition-colors ${
+                  category === cat ? 'bg-[#fbbf24] text-black font-medium' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {cat}
+              </button>
+            ))}
+          </div>
+
+          {loading ? (
+            <div className="text-center text-gray-400 py-20 text-2xl">Cargando productos...</div>
+          ) : visibles.length === 0 ? (
+            <div className="text-center text-gray-500 py-20 text-2xl">No hay productos para vender</div>
+          ) : (
+            <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+              {visibles.map(producto => {
+                const enCarrito = cantidadEnCarrito(producto.id);
+                const agotado = producto.stock <= enCarrito;
+                return (
+                  <button
+                    key={producto.id}
+                    type="button"
+                    onClick={() => changeQuantity(producto, 1)}
+                    disabled={agotado}
+                    className={`relative text-left rounded-2xl border-2 p-4 min-h-[110px] flex flex-col justify-between transition-colors disabled:opacity-40 ${
+                      enCarrito > 0
+                        ? 'border-[#fbbf24] bg-[#fbbf24]/10'
+                        : 'border-[#fbbf24]/20 bg-[#1a1a1a] hover:border-[#fbbf24]/60'
+                    }`}
+                  >
+                    <span className="text-white text-lg font-semibold leading-tight">{producto.nombre}</span>
+                    <span className="flex items-end justify-between mt-2">
+                      <span className="text-[#fbbf24] text-xl font-bold">{formatPrice(producto.precio)}</span>
+                      <span className="text-gray-500 text-xs">Stock {producto.stock}</span>
+                    </span>
+                    {enCarrito > 0 && (
+                      <span className="absolute -top-2 -right-2 bg-[#fbbf24] text-black font-bold rounded-full w-8 h-8 flex items-center justify-center">
+                        {enCarrito}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        {/* Ticket */}
+        <div className="lg:w-[420px] border-t-2 lg:border-t-0 lg:border-l-2 border-[#fbbf24]/30 bg-[#0f0f0f] flex flex-col min-h-0">
+          <div className="flex-1 overflow-y-auto p-6">
+            {cart.length === 0 ? (
+              <div className="text-center text-gray-500 py-10">
+                <ShoppingCart className="w-12 h-12 mx-auto mb-3" />
+                Tocá un producto para agregarlo
+              </div>
+            ) : (
+              <ul className="space-y-3">
+                {cart.map(linea => (
+                  <li key={linea.producto.id} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-white truncate">{linea.producto.nombre}</p>
+                      <p className="text-gray-500 text-sm">{formatPrice(linea.producto.precio * linea.cantidad)}</p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => changeQuantity(linea.producto, -1)}
+                      className="w-10 h-10 rounded-lg bg-gray-700 text-white hover:bg-gray-600 flex items-center justify-center"
+                      title="Quitar uno"
+                    >
+                      {linea.cantidad === 1 ? <Trash2 className="w-5 h-5" /> : <Minus className="w-5 h-5" />}
+                    </button>
+                    <span className="text-white text-xl font-bold w-8 text-center">{linea.cantidad}</span>
+                    <button
+                      type="button"
+                      onClick={() => changeQuantity(linea.producto, 1)}
+                      disabled={linea.cantidad >= linea.producto.stock}
+                      className="w-10 h-10 rounded-lg bg-gray-700 text-white hover:bg-gray-600 flex items-center justify-center disabled:opacity-40"
+                      title="Agregar uno"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="border-t border-gray-800 p-6 space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                placeholder="Nombre (opcional)"
+                value={nombre}
+                onChange={(e) => setNombre(e.target.value)}
+                className="bg-black/50 border-[#fbbf24]/30 text-white"
+              />
+              <Input
+                type="number"
+                min="1"
+                max="50"
+                placeholder="Mesa (opcional)"
+                value={mesa}
+                onChange={(e) => setMesa(e.target.value)}
+                className="bg-black/50 border-[#fbbf24]/30 text-white"
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              {(['efectivo', 'transferencia', 'mixto'] as PaymentMethod[]).map(metodo => (
+                <button
+                  key={metodo}
+                  type="button"
+                  onClick={() => setMetodoPago(metodo)}
+                  className={`py-3 rounded-lg capitalize transition-colors ${
+                    metodoPago === metodo ? 'bg-[#fbbf24] text-black font-medium' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                  }`}
+                >
+                  {metodo}
+                </button>
+              ))}
+            </div>
+
+            {metodoPago === 'mixto' && (
+              <div className="space-y-1">
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Cuánto paga por transferencia"
+                  value={montoTransferencia}
+                  onChange={(e) => setMontoTransferencia(e.target.value)}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white text-lg"
+                />
+                <p className="text-gray-400 text-sm">En efectivo: {formatPrice(Math.max(montoEfectivo, 0))}</p>
+              </div>
+            )}
+
+            {pagaEnEfectivo && (
+              <div className="space-y-2">
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder="Paga con..."
+                  value={montoRecibido}
+                  onChange={(e) => setMontoRecibido(e.target.value)}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white text-lg"
+                />
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setMontoRecibido(montoEfectivo.toString())}
+                    className="px-3 py-1 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 text-sm transition-colors"
+                  >
+                    Justo
+                  </button>
+                  {BILLETES_RAPIDOS.filter(b => b >= montoEfectivo).slice(0, 3).map(billete => (
+                    <button
+                      key={billete}
+                      type="button"
+                      onClick={() => setMontoRecibido(billete.toString())}
+                      className="px-3 py-1 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 text-sm transition-colors"
+                    >
+                      {formatPrice(billete)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex justify-between items-end">
+              <span className="text-gray-400">Total</span>
+              <span className="text-[#fbbf24] text-3xl font-bold">{formatPrice(total)}</span>
+            </div>
+            {pagaEnEfectivo && vuelto !== null && (
+              <div className="flex justify-between items-end">
+                <span className="text-gray-400">{faltaEfectivo ? 'Falta' : 'Vuelto'}</span>
+                <span className={`text-2xl font-bold ${faltaEfectivo ? 'text-red-400' : 'text-green-400'}`}>
+                  {formatPrice(Math.abs(vuelto))}
+                </span>
+              </div>
+            )}
+
+            <button
+              type="button"
+              onClick={handleConfirm}
+              disabled={saving || cart.length === 0 || faltaEfectivo || mixtoInvalido}
+              className="w-full py-5 rounded-xl bg-green-600 hover:bg-green-500 active:bg-green-700 text-white text-2xl font-bold transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Registrando...' : 'COBRAR'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -32,6 +32,18 @@ export function ProductCard({ product, onAddToCart }: ProductCardProps) {
         {product.description && (
           <p className="text-gray-400 text-sm mb-4 line-clamp-2">{product.description}</p>
         )}
+        {product.components && product.components.length > 0 && (
+          <div className="mb-4">
+            <p className="text-[#fbbf24] text-xs uppercase tracking-wider mb-1">Incluye</p>
+            <ul className="text-gray-300 text-sm space-y-0.5">
+              {product.components.map(component => (
+                <li key={component.productId}>
+                  <span className="text-[#fbbf24]">{component.quantity}x</span> {component.name}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         
         <div className="flex items-center justify-between mt-auto pt-4 border-t border-[#fbbf24]/10">
           <div className="text-[#fbbf24]">
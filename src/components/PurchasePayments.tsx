@@ -0,0 +1,237 @@
+// Pagos de una compra (se despliega dentro de la tarjeta de la compra en el panel)
+// Lista cada pago con su método, quién lo cobró y su comprobante, y permite registrar uno nuevo
+// (por ejemplo, una parte en efectivo y el resto por transferencia) o anular uno cargado por error.
+
+import { useEffect, useState } from 'react';
+import { Ban, Plus, Receipt } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { apiFetch } from '../config/apiFetch';
+
+type PaymentMethod = 'efectivo' | 'transferencia';
+
+type Payment = {
+  id: number;
+  metodo: PaymentMethod;
+  monto: number | string;
+  fecha: string;
+  usuario: string | null;
+  caja_id: number | null;
+  anulado_en: string | null;
+  anulado_por_usuario: string | null;
+  tiene_comprobante: boolean;
+};
+
+type PurchasePaymentsProps = {
+  purchaseId: number;
+  canEdit: boolean;
+  onChange: () => void;
+};
+
+const formatPrice = (price: number | string) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(Number(price));
+
+export function PurchasePayments({ purchaseId, canEdit, onChange }: PurchasePaymentsProps) {
+  const [payments, setPayments] = useState<Payment[] | null>(null);
+  const [saldo, setSaldo] = useState(0);
+  const [metodo, setMetodo] = useState<PaymentMethod>('efectivo');
+  const [monto, setMonto] = useState('');
+  const [comprobante, setComprobante] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPayments = async () => {
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/pagos`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar los pagos');
+      }
+
+      setPayments(data.pagos);
+      setSaldo(data.saldo);
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar los pagos');
+    }
+  };
+
+  useEffect(() => {
+    fetchPayments();
+  }, [purchaseId]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      // Sin monto se cobra todo lo que falta
+      const formData = new FormData();
+      formData.append('metodo', metodo);
+      if (monto) formData.append('monto', monto);
+      if (comprobante) formData.append('comprobante', comprobante);
+
+      const response = await apiFetch(`/api/compras/${purchaseId}/pagos`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al registrar el pago');
+      }
+
+      toast.success(data.mensaje);
+      if (data.aviso) {
+        toast.warning(data.aviso);
+      }
+      setMonto('');
+      setComprobante(null);
+      fetchPayments();
+      onChange();
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al registrar el pago');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoid = async (payment: Payment) => {
+    if (!confirm(`¿Anular el pago de ${formatPrice(payment.monto)} en ${payment.metodo}?`)) return;
+
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/pagos/${payment.id}/anular`, {
+        method: 'POST',
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al anular el pago');
+      }
+
+      toast.success(data.mensaje);
+      fetchPayments();
+      onChange();
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al anular el pago');
+    }
+  };
+
+  const handleViewComprobante = async (payment: Payment) => {
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/pagos/${payment.id}/comprobante`);
+      if (!response.ok) {
+        throw new Error('Error al cargar el comprobante');
+      }
+      window.open(URL.createObjectURL(await response.blob()), '_blank');
+    } catch (error) {
+      console.error('Error:', error);
+      toast.error('Error al cargar el comprobante');
+    }
+  };
+
+  if (!payments) {
+    return <p className="text-gray-400 text-sm">Cargando pagos...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {payments.length === 0 ? (
+        <p className="text-gray-400 text-sm">Todavía no se registró ningún pago</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {payments.map(pago => (
+            <li key={pago.id} className="flex items-center justify-between gap-3 bg-black/30 rounded-lg px-3 py-2">
+              <span className={pago.anulado_en ? 'line-through text-gray-500' : 'text-gray-300'}>
+                <span className="capitalize">{pago.metodo}</span>
+                {' • '}{new Date(pago.fecha).toLocaleString('es-AR')}
+                {pago.usuario ? ` • Cobró ${pago.usuario}` : ''}
+                {pago.metodo === 'efectivo' && !pago.caja_id && !pago.anulado_en ? ' • sin caja' : ''}
+              </span>
+              <span className="flex items-center gap-3">
+                {pago.anulado_en && (
+                  <span className="text-red-400 text-xs">
+                    Anulado{pago.anulado_por_usuario ? ` por ${pago.anulado_por_usuario}` : ''}
+                  </span>
+                )}
+                {pago.tiene_comprobante && (
+                  <button
+                    type="button"
+                    onClick={() => handleViewComprobante(pago)}
+                    className="text-blue-400 hover:text-blue-300"
+                    title="Ver comprobante"
+                  >
+                    <Receipt className="w-4 h-4" />
+                  </button>
+                )}
+                <span className="text-white font-semibold">{formatPrice(pago.monto)}</span>
+                {canEdit && !pago.anulado_en && (
+                  <button
+                    type="button"
+                    onClick={() => handleVoid(pago)}
+                    className="text-red-400 hover:text-red-300"
+                    title="Anular pago"
+                  >
+                    <Ban className="w-4 h-4" />
+                  </button>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {saldo > 0 ? (
+        <p className="text-amber-400 text-sm font-semibold">Falta cobrar {formatPrice(saldo)}</p>
+      ) : saldo < 0 ? (
+        <p className="text-red-400 text-sm font-semibold">Se cobraron {formatPrice(-saldo)} de más</p>
+      ) : (
+        <p className="text-green-400 text-sm font-semibold">Pagada completa</p>
+      )}
+
+      {canEdit && saldo > 0 && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-3">
+          {(['efectivo', 'transferencia'] as PaymentMethod[]).map(opcion => (
+            <button
+              key={opcion}
+              type="button"
+              onClick={() => setMetodo(opcion)}
+              className={`px-4 py-2 rounded-lg capitalize transition-colors ${
+                metodo === opcion ? 'bg-[#fbbf24] text-black font-medium' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {opcion}
+            </button>
+          ))}
+          <Input
+            type="number"
+            min="0.01"
+            step="0.01"
+            max={saldo}
+            placeholder={`Monto (${formatPrice(saldo)})`}
+            value={monto}
+            onChange={(e) => setMonto(e.target.value)}
+            className="bg-black/50 border-[#fbbf24]/30 text-white w-44"
+          />
+          {metodo === 'transferencia' && (
+            <input
+              type="file"
+              accept="image/jpeg,image/png,image/webp"
+              onChange={(e) => setComprobante(e.target.files?.[0] || null)}
+              className="text-gray-400 text-sm"
+            />
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-green-600/20 text-green-400 hover:bg-green-600/30 disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {saving ? 'Registrando...' : 'Registrar pago'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+// Reembolsos de una compra (se despliega dentro de la tarjeta de la compra en el panel)
+// Lista la plata que se devolvió, con el motivo y los productos que volvieron al stock, y permite registrar
+// un reembolso nuevo (por ejemplo, por un producto que faltó) sin tocar los productos de la compra.
+
+import { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { apiFetch } from '../config/apiFetch';
+
+type RefundMethod = 'efectivo' | 'transferencia';
+
+type Refund = {
+  id: number;
+  metodo: RefundMethod;
+  monto: number | string;
+  motivo: string;
+  fecha: string;
+  usuario: string | null;
+  caja_id: number | null;
+  productos_repuestos: { producto_id: number; producto_nombre: string; cantidad: number }[];
+};
+
+// Unidades de cada producto de la compra y cuántas ya volvieron al stock
+type RefundableProduct = {
+  producto_id: number;
+  producto_nombre: string;
+  cantidad: number;
+  precio_unitario: number | string;
+  repuestas: number;
+};
+
+type PurchaseRefundsProps = {
+  purchaseId: number;
+  canRefund: boolean;
+  onChange: () => void;
+};
+
+const formatPrice = (price: number | string) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(Number(price));
+
+export function PurchaseRefunds({ purchaseId, canRefund, onChange }: PurchaseRefundsProps) {
+  const [refunds, setRefunds] = useState<Refund[] | null>(null);
+  const [products, setProducts] = useState<RefundableProduct[]>([]);
+  const [disponible, setDisponible] = useState(0);
+  const [metodo, setMetodo] = useState<RefundMethod>('efectivo');
+  const [monto, setMonto] = useState('');
+  const [motivo, setMotivo] = useState('');
+  // Unidades a reponer por producto (vacío = no se repone nada)
+  const [reponer, setReponer] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const fetchRefunds = async () => {
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/reembolsos`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar los reembolsos');
+      }
+
+      setRefunds(data.reembolsos);
+      setProducts(data.productos);
+      setDisponible(data.disponible);
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar los reembolsos');
+    }
+  };
+
+  useEffect(() => {
+    fetchRefunds();
+  }, [purchaseId]);
+
+  // Sugerimos como monto lo que cuestan las unidades que se reponen
+  const handleReponerChange = (producto: RefundableProduct, valor: string) => {
+    const siguiente = { ...reponer, [producto.producto_id]: valor };
+    setReponer(siguiente);
+
+    const sugerido = products.reduce(
+      (suma, p) => suma + (parseInt(siguiente[p.producto_id]) || 0) * Number(p.precio_unitario),
+      0
+    );
+    if (sugerido > 0) {
+      setMonto(String(Math.min(sugerido, disponible)));
+    }
+  };
+
+  const handleRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const productosAReponer = Object.entries(reponer)
+      .map(([productoId, cantidad]) => ({ producto_id: Number(productoId), cantidad: parseInt(cantidad) || 0 }))
+      .filter(item => item.cantidad > 0);
+
+    if (!confirm(`¿Devolver ${formatPrice(monto || 0)} en ${metodo}?`)) return;
+
+    setSaving(true);
+    try {
+      const response = await apiFetch(`/api/compras/${purchaseId}/reembolsos`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ monto: Number(monto), metodo, motivo, reponer: productosAReponer }),
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al registrar el reembolso');
+      }
+
+      toast.success(data.mensaje);
+      if (data.aviso) {
+        toast.warning(data.aviso);
+      }
+      setMonto('');
+      setMotivo('');
+      setReponer({});
+      fetchRefunds();
+      onChange();
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al registrar el reembolso');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!refunds) {
+    return <p className="text-gray-400 text-sm">Cargando reembolsos...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {refunds.length === 0 ? (
+        <p className="text-gray-400 text-sm">No se hizo ningún reembolso</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {refunds.map(reembolso => (
+            <li key={reembolso.id} className="bg-black/30 rounded-lg px-3 py-2">
+              <div className="flex items-center justify-between gap-3">
+                <span className="text-gray-300">
+                  <span className="capitalize">{reembolso.metodo}</span>
+                  {' • '}{new Date(reembolso.fecha).toLocaleString('es-AR')}
+                  {reembolso.usuario ? ` • Devolvió ${reembolso.usuario}` : ''}
+                  {reembolso.metodo === 'efectivo' && !reembolso.caja_id ? ' • sin caja' : ''}
+                </span>
+                <span className="text-red-400 font-semibold">- {formatPrice(reembolso.monto)}</span>
+              </div>
+              <p className="text-gray-500 text-xs italic">{reembolso.motivo}</p>
+              {reembolso.productos_repuestos.length > 0 && (
+                <p className="text-gray-500 text-xs">
+                  Volvió al stock: {reembolso.productos_repuestos.map(p => `${p.cantidad}x ${p.producto_nombre}`).join(', ')}
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canRefund && disponible > 0 && (
+        <form onSubmit={handleRefund} className="space-y-3">
+          <p className="text-gray-400 text-sm">Se pueden devolver hasta {formatPrice(disponible)}</p>
+
+          {products.some(p => p.cantidad > p.repuestas) && (
+            <div className="space-y-2">
+              <p className="text-gray-400 text-sm">Devolver al stock (opcional):</p>
+              {products.filter(p => p.cantidad > p.repuestas).map(producto => (
+                <div key={producto.producto_id} className="flex items-center gap-3 text-sm">
+                  <Input
+                    type="number"
+                    min="0"
+                    max={producto.cantidad - producto.repuestas}
+                    value={reponer[producto.producto_id] || ''}
+                    onChange={(e) => handleReponerChange(producto, e.target.value)}
+                    className="bg-black/50 border-[#fbbf24]/30 text-white w-20"
+                    aria-label={`Unidades de ${producto.producto_nombre} que vuelven al stock`}
+                  />
+                  <span className="text-gray-300">
+                    {producto.producto_nombre} (de {producto.cantidad - producto.repuestas})
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3">
+            {(['efectivo', 'transferencia'] as RefundMethod[]).map(opcion => (
+              <button
+                key={opcion}
+                type="button"
+                onClick={() => setMetodo(opcion)}
+                className={`px-4 py-2 rounded-lg capitalize transition-colors ${
+                  metodo === opcion ? 'bg-[#fbbf24] text-black font-medium' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                }`}
+              >
+                {opcion}
+              </button>
+            ))}
+            <Input
+              type="number"
+              min="0.01"
+              step="0.01"
+              max={disponible}
+              placeholder="Monto"
+              value={monto}
+              onChange={(e) => setMonto(e.target.value)}
+              className="bg-black/50 border-[#fbbf24]/30 text-white w-36"
+              required
+            />
+            <Input
+              placeholder="Motivo (ej: faltó una empanada)"
+              value={motivo}
+              onChange={(e) => setMotivo(e.target.value)}
+              className="bg-black/50 border-[#fbbf24]/30 text-white flex-1 min-w-[12rem]"
+              required
+            />
+            <button
+              type="submit"
+              disabled={saving || !monto || !motivo.trim()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg transition-colors bg-red-600/20 text-red-400 hover:bg-red-600/30 disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" />
+              {saving ? 'Registrando...' : 'Reembolsar'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
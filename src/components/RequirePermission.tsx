@@ -0,0 +1,17 @@
+// Muestra su contenido solo si el usuario tiene el permiso
+// Sirve para esconder botones y pantallas que el backend respondería con 403
+
+import { ReactNode } from 'react';
+import { usePermission } from '../hooks/usePermission';
+
+type RequirePermissionProps = {
+  permiso: string;
+  children: ReactNode;
+  // Lo que se muestra en su lugar si no tiene el permiso (por defecto nada)
+  fallback?: ReactNode;
+};
+
+export function RequirePermission({ permiso, children, fallback = null }: RequirePermissionProps) {
+  const permitido = usePermission(permiso);
+  return <>{permitido ? children : fallback}</>;
+}
@@ -0,0 +1,299 @@
+// Cola de verificación de transferencias
+// Lista las compras por transferencia sin verificar con el comprobante al lado del total esperado,
+// para que el vendedor apruebe o rechace cada una (el rechazo lleva un motivo que ve el comprador)
+
+import { useEffect, useState } from 'react';
+import { CheckCircle, X, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { apiFetch } from '../config/apiFetch';
+import { TransferVerification } from '../types';
+import { useComprobanteUrl } from '../hooks/useComprobanteUrl';
+import { usePermission } from '../hooks/usePermission';
+
+type VerificationOrder = {
+  id: number;
+  comprador_nombre: string;
+  comprador_telefono: string | null;
+  comprador_mesa: number | null;
+  total: number | string;
+  fecha: string;
+  tiene_comprobante: boolean;
+  verificacion_estado: TransferVerification | null;
+  motivo_rechazo: string | null;
+  detalles: {
+    producto_nombre: string;
+    cantidad: number;
+  }[];
+};
+
+type TransferVerificationQueueProps = {
+  // Cambia cuando llega un evento en vivo de compras, para volver a pedir la cola
+  refreshKey: number;
+};
+
+const formatPrice = (price: number | string) => {
+  return new Intl.NumberFormat('es-AR', {
+    style: 'currency',
+    currency: 'ARS',
+  }).format(typeof price === 'string' ? parseFloat(price) : price);
+};
+
+// Imagen grande del comprobante (se descarga recién cuando se muestra la tarjeta)
+function ComprobanteGrande({ purchaseId }: { purchaseId: number }) {
+  const { url, error } = useComprobanteUrl(purchaseId);
+
+  if (error) {
+    return <p className="text-red-400 text-center py-10">No se pudo cargar el comprobante</p>;
+  }
+
+  if (!url) {
+    return <p className="text-gray-500 text-center py-10 animate-pulse">Cargando comprobante...</p>;
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" title="Abrir en tamaño completo">
+      <img src={url} alt={`Comprobante del pedido #${purchaseId}`} className="w-full max-h-[28rem] object-contain rounded-lg" />
+    </a>
+  );
+}
+
+export function TransferVerificationQueue({ refreshKey }: TransferVerificationQueueProps) {
+  const [orders, setOrders] = useState<VerificationOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TransferVerification>('pendiente');
+  const [reviewingId, setReviewingId] = useState<number | null>(null);
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+  const canReview = usePermission('editar_compras');
+
+  const fetchQueue = async () => {
+    try {
+      // Solo compras que todavía se pueden verificar (las que ya se preparan o se cancelaron quedan afuera)
+      // No se filtra por método: una transferencia que después completó una parte en efectivo queda como 'mixto'
+      const params = new URLSearchParams({
+        verificacion: filter,
+        estado: 'pendiente,pagado',
+        orden: 'fecha_asc',
+        por_pagina: '50',
+      });
+      const response = await apiFetch(`/api/compras?${params.toString()}`);
+
+      if (!response.ok) {
+        throw new Error('Error al cargar transferencias');
+      }
+
+      const data = await response.json();
+      if (data.success && Array.isArray(data.compras)) {
+        setOrders(data.compras);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+      toast.error('Error al cargar transferencias');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchQueue();
+  }, [filter, refreshKey]);
+
+  const handleReview = async (order: VerificationOrder, resultado: 'aprobado' | 'rechazado') => {
+    if (resultado === 'rechazado' && !rejectReason.trim()) {
+      toast.error('Tenés que indicar el motivo del rechazo');
+      return;
+    }
+
+    setReviewingId(order.id);
+    try {
+      const response = await apiFetch(`/api/compras/${order.id}/verificacion`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          resultado,
+          motivo: resultado === 'rechazado' ? rejectReason.trim() : undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.mensaje || 'Error al verificar la transferencia');
+      }
+
+      toast.success(resultado === 'aprobado'
+        ? `Pedido #${order.id}: transferencia aprobada`
+        : `Pedido #${order.id}: transferencia rechazada`);
+      setOrders(prev => prev.filter(o => o.id !== order.id));
+      setRejectingId(null);
+      setRejectReason('');
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al verificar la transferencia');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+        <div>
+          <h2 className="text-white mb-2">Verificación de transferencias ({orders.length})</h2>
+          <p className="text-gray-400 text-sm">Compará el comprobante con el total del pedido antes de aprobarlo.</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {(['pendiente', 'rechazado'] as TransferVerification[]).map(opcion => (
+            <button
+              key={opcion}
+              type="button"
+              onClick={() => setFilter(opcion)}
+              className={`px-4 py-2 rounded-lg transition-colors ${
+                filter === opcion ? 'bg-[#fbbf24] text-black font-semibold' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}
+            >
+              {opcion === 'pendiente' ? 'Sin verificar' : 'Rechazadas'}
+            </button>
+          ))}
+          <button
+            type="button"
+            onClick={fetchQueue}
+            className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            title="Actualizar"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center text-gray-400 py-20">
+          <span className="material-icons text-6xl animate-spin">refresh</span>
+          <p className="mt-4">Cargando transferencias...</p>
+        </div>
+      ) : orders.length === 0 ? (
+        <div className="text-center text-gray-400 py-20">
+          <span className="material-icons text-6xl">verified</span>
+          <p className="mt-4">
+            {filter === 'pendiente' ? 'No hay transferencias para verificar' : 'No hay transferencias rechazadas'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {orders.map(order => (
+            <div
+              key={order.id}
+              className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/30 rounded-2xl p-6 grid grid-cols-1 md:grid-cols-2 gap-6"
+            >
+              {/* Comprobante */}
+              <div className="bg-black/50 rounded-xl p-3 flex items-center justify-center">
+                {order.tiene_comprobante ? (
+                  <ComprobanteGrande purchaseId={order.id} />
+                ) : (
+                  <p className="text-red-400 text-center py-10">La compra no tiene comprobante</p>
+                )}
+              </div>
+
+              {/* Datos del pedido */}
+              <div className="flex flex-col">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h3 className="text-white text-xl font-semibold">Orden #{order.id}</h3>
+                    <p className="text-gray-400">
+                      {order.comprador_nombre}
+                      {order.comprador_mesa ? ` • Mesa ${order.comprador_mesa}` : ''}
+                    </p>
+                    {order.comprador_telefono && (
+                      <p className="text-gray-500 text-sm">{order.comprador_telefono}</p>
+                    )}
+                    <p className="text-gray-500 text-sm">{new Date(order.fecha).toLocaleString('es-AR')}</p>
+                  </div>
+                </div>
+
+                <div className="bg-black/30 rounded-xl p-4 mb-4">
+                  <p className="text-gray-400 text-sm mb-1">Monto que debería figurar en el comprobante</p>
+                  <p className="text-[#fbbf24] text-4xl font-bold">{formatPrice(order.total)}</p>
+                </div>
+
+                <ul className="text-gray-300 text-sm space-y-1 mb-4 flex-1">
+                  {order.detalles.map((detalle, idx) => (
+                    <li key={idx}>{detalle.cantidad}x {detalle.producto_nombre}</li>
+                  ))}
+                </ul>
+
+                {order.verificacion_estado === 'rechazado' && order.motivo_rechazo && (
+                  <p className="text-red-400 bg-red-900/20 px-3 py-2 rounded mb-4 text-sm">
+                    Rechazada: {order.motivo_rechazo}
+                  </p>
+                )}
+
+                {/* Aprobar o rechazar requiere editar_compras; sin ese permiso la cola es de solo lectura */}
+                {canReview && (
+                  rejectingId === order.id ? (
+                    <div className="space-y-3">
+                      <textarea
+                        value={rejectReason}
+                        onChange={(e) => setRejectReason(e.target.value)}
+                        placeholder="Motivo del rechazo (lo va a ver el comprador)"
+                        rows={2}
+                        className="w-full bg-black/50 border border-red-500/50 rounded-lg p-3 text-white text-sm"
+                        autoFocus
+                      />
+                      <div className="flex gap-3">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setRejectingId(null);
+                            setRejectReason('');
+                          }}
+                          className="flex-1 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                        >
+                          Volver
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleReview(order, 'rechazado')}
+                          disabled={reviewingId === order.id}
+                          className="flex-1 px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-50"
+                        >
+                          Confirmar rechazo
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex gap-3">
+                      {order.verificacion_estado !== 'rechazado' && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setRejectingId(order.id);
+                            setRejectReason('');
+                          }}
+                          className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30 transition-colors"
+                        >
+                          <X className="w-5 h-5" />
+                          Rechazar
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => handleReview(order, 'aprobado')}
+                        disabled={reviewingId === order.id}
+                        className="flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-colors disabled:opacity-50"
+                      >
+                        <CheckCircle className="w-5 h-5" />
+                        {reviewingId === order.id ? 'Guardando...' : 'Aprobar'}
+                      </button>
+                    </div>
+                  )
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+// Piezas de la verificación en dos pasos que se usan en el login y en la configuración de la cuenta:
+// el campo del código de 6 dígitos, el alta con QR y la lista de códigos de recuperación
+
+import { useEffect, useState } from 'react';
+import { Copy, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { PoliceButton } from './PoliceButton';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from './ui/input-otp';
+
+const LARGO_CODIGO = 6;
+
+type TwoFactorCodeInputProps = {
+  value: string;
+  onChange: (valor: string) => void;
+  onComplete?: (valor: string) => void;
+  disabled?: boolean;
+};
+
+// Código de 6 dígitos de la app autenticadora
+export function TwoFactorCodeInput({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={LARGO_CODIGO}
+      value={value}
+      onChange={(valor) => onChange(valor.replace(/\D/g, ''))}
+      onComplete={onComplete}
+      disabled={disabled}
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      autoFocus
+      containerClassName="justify-center"
+    >
+      <InputOTPGroup>
+        {Array.from({ length: LARGO_CODIGO }, (_, index) => (
+          <InputOTPSlot
+            key={index}
+            index={index}
+            className="h-12 w-11 text-lg text-white bg-[#0f0f0f] border-[#fbbf24]/30"
+          />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+type RecoveryCodesProps = {
+  codigos: string[];
+  onTerminar: () => void;
+};
+
+// Códigos de recuperación recién generados (el backend no los vuelve a mostrar)
+export function RecoveryCodes({ codigos, onTerminar }: RecoveryCodesProps) {
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codigos.join('\n'));
+      toast.success('Códigos copiados');
+    } catch (error) {
+      toast.error('No se pudieron copiar: anotalos a mano');
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <p className="text-white font-semibold">Guardá tus códigos de recuperación</p>
+        <p className="text-gray-400 text-sm">
+          Si perdés el teléfono, podés entrar con uno de estos códigos en lugar del de la app. Cada uno sirve una sola vez
+          y no se vuelven a mostrar.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2 bg-black/50 border border-[#fbbf24]/30 rounded-xl p-4 font-mono text-[#fbbf24] text-center">
+        {codigos.map(codigo => (
+          <span key={codigo}>{codigo}</span>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleCopy}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+        >
+          <Copy className="w-4 h-4" />
+          Copiar
+        </button>
+        <PoliceButton type="button" variant="primary" className="flex-1" onClick={onTerminar}>
+          Ya los guardé
+        </PoliceButton>
+      </div>
+    </div>
+  );
+}
+
+type TwoFactorSetupProps = {
+  // Pide al backend el secreto nuevo y su QR
+  cargarQr: () => Promise<{ secreto: string; qr: string }>;
+  // Confirma con el primer código y devuelve los códigos de recuperación (o lanza el mensaje del backend)
+  confirmar: (codigo: string) => Promise<string[]>;
+  onTerminar: () => void;
+  onCancelar?: () => void;
+};
+
+// Alta de la verificación en dos pasos: escanear el QR, confirmar con un código y guardar los de recuperación
+export function TwoFactorSetup({ cargarQr, confirmar, onTerminar, onCancelar }: TwoFactorSetupProps) {
+  const [qr, setQr] = useState<{ secreto: string; qr: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    cargarQr()
+      .then(setQr)
+      .catch((error: Error) => {
+        toast.error(error.message || 'No se pudo generar el código QR');
+        onCancelar?.();
+      });
+  }, []);
+
+  const handleConfirm = async (codigo: string = code) => {
+    if (codigo.length !== LARGO_CODIGO || loading) return;
+
+    setLoading(true);
+    try {
+      setRecoveryCodes(await confirmar(codigo));
+    } catch (error: any) {
+      toast.error(error.message || 'El código no es válido');
+      setCode('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codigos={recoveryCodes} onTerminar={onTerminar} />;
+  }
+
+  if (!qr) {
+    return (
+      <div className="text-center text-gray-400 py-10">
+        <span className="material-icons text-5xl animate-spin">refresh</span>
+        <p className="mt-4">Generando código QR...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-white font-semibold flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-[#fbbf24]" />
+          1. Escaneá el código con tu app autenticadora
+        </p>
+        <p className="text-gray-400 text-sm">Google Authenticator, Microsoft Authenticator, Authy o similar.</p>
+      </div>
+      <div className="flex justify-center">
+        <img src={qr.qr} alt="Código QR para la app autenticadora" className="w-48 h-48 bg-white p-2 rounded-xl" />
+      </div>
+      <p className="text-gray-500 text-xs text-center break-all">
+        ¿No podés escanearlo? Ingresá esta clave a mano: <span className="font-mono text-gray-300">{qr.secreto}</span>
+      </p>
+      <div className="space-y-3">
+        <p className="text-white font-semibold">2. Ingresá el código que muestra la app</p>
+        <TwoFactorCodeInput value={code} onChange={setCode} onComplete={handleConfirm} disabled={loading} />
+      </div>
+      <div className="flex gap-3">
+        {onCancelar && (
+          <button
+            type="button"
+            onClick={onCancelar}
+            className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+          >
+            Cancelar
+          </button>
+        )}
+        <PoliceButton
+          type="button"
+          variant="primary"
+          className="flex-1"
+          onClick={() => handleConfirm()}
+          disabled={loading || code.length !== LARGO_CODIGO}
+        >
+          {loading ? 'Verificando...' : 'Activar'}
+        </PoliceButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+// Verificación en dos pasos de la cuenta propia (se abre desde la barra superior del panel)
+// Permite activarla, generar códigos de recuperación nuevos y desactivarla (si el rol no la exige)
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ShieldCheck, ShieldOff, RefreshCw, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { PoliceButton } from './PoliceButton';
+import { RecoveryCodes, TwoFactorCodeInput, TwoFactorSetup } from './TwoFactor';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { apiFetch } from '../config/apiFetch';
+
+type TwoFactorStatus = {
+  activado: boolean;
+  requerido: boolean;
+  codigos_recuperacion_restantes: number;
+};
+
+type SettingsView = 'estado' | 'configurar' | 'regenerar' | 'desactivar';
+
+// Hace una petición autenticada a /api/auth/2fa y devuelve el JSON (o lanza el mensaje del backend)
+const pedirApi = async (ruta: string, opciones: RequestInit = {}) => {
+  const response = await apiFetch(`/api/auth/2fa${ruta}`, {
+    ...opciones,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.mensaje || 'Error en la verificación en dos pasos');
+  }
+  return data;
+};
+
+export function TwoFactorSettings({ onClose }: { onClose: () => void }) {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [view, setView] = useState<SettingsView>('estado');
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await pedirApi(''));
+    } catch (error: any) {
+      toast.error(error.message);
+      onClose();
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const volver = () => {
+    setView('estado');
+    setCode('');
+    setPassword('');
+    setNewRecoveryCodes(null);
+    fetchStatus();
+  };
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = await pedirApi('/codigos-recuperacion', {
+        method: 'POST',
+        body: JSON.stringify({ codigo: code }),
+      });
+      setNewRecoveryCodes(data.codigos_recuperacion);
+    } catch (error: any) {
+      toast.error(error.message);
+      setCode('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDisable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const data = await pedirApi('/desactivar', {
+        method: 'POST',
+        body: JSON.stringify({ password, codigo: code }),
+      });
+      toast.success(data.mensaje);
+      volver();
+    } catch (error: any) {
+      toast.error(error.message);
+      setCode('');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Se dibuja en el body: la barra superior tiene backdrop-blur y recortaría un modal fijo adentro suyo
+  return createPortal(
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-6">
+      <div className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border-2 border-[#fbbf24] rounded-3xl p-8 max-w-md w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-white text-2xl font-semibold flex items-center gap-2">
+            <ShieldCheck className="w-6 h-6 text-[#fbbf24]" />
+            Verificación en dos pasos
+          </h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {!status ? (
+          <div className="text-center text-gray-400 py-10">
+            <span className="material-icons text-5xl animate-spin">refresh</span>
+          </div>
+        ) : view === 'configurar' ? (
+          <TwoFactorSetup
+            cargarQr={() => pedirApi('/configurar', { method: 'POST' })}
+            confirmar={async (codigo) => {
+              const data = await pedirApi('/activar', {
+                method: 'POST',
+                body: JSON.stringify({ codigo }),
+              });
+              return data.codigos_recuperacion;
+            }}
+            onTerminar={() => {
+              toast.success('Verificación en dos pasos activada');
+              volver();
+            }}
+            onCancelar={volver}
+          />
+        ) : newRecoveryCodes ? (
+          <RecoveryCodes codigos={newRecoveryCodes} onTerminar={volver} />
+        ) : view === 'regenerar' || view === 'desactivar' ? (
+          <form onSubmit={view === 'regenerar' ? handleRegenerate : handleDisable} className="space-y-6">
+            <p className="text-gray-400 text-sm">
+              {view === 'regenerar'
+                ? 'Los códigos de recuperación que tenés ahora van a dejar de servir. Confirmá con un código de tu app.'
+                : 'Para desactivarla confirmá tu contraseña y un código de tu app (o uno de recuperación).'}
+            </p>
+            {view === 'desactivar' && (
+              <div>
+                <Label htmlFor="password-2fa" className="text-gray-300">Contraseña</Label>
+                <Input
+                  id="password-2fa"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                  autoComplete="current-password"
+                />
+              </div>
+            )}
+            <TwoFactorCodeInput value={code} onChange={setCode} disabled={saving} />
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={volver}
+                className="px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                Cancelar
+              </button>
+              <PoliceButton
+                type="submit"
+                variant={view === 'desactivar' ? 'danger' : 'primary'}
+                className="flex-1"
+                disabled={saving || code.length !== 6 || (view === 'desactivar' && !password)}
+              >
+                {saving ? 'Verificando...' : view === 'regenerar' ? 'Generar códigos nuevos' : 'Desactivar'}
+              </PoliceButton>
+            </div>
+          </form>
+        ) : status.activado ? (
+          <div className="space-y-6">
+            <div className="bg-green-500/10 border border-green-500/40 rounded-xl p-4">
+              <p className="text-green-300 font-semibold">Activada</p>
+              <p className="text-gray-400 text-sm">
+                Te quedan {status.codigos_recuperacion_restantes} códigos de recuperación sin usar.
+              </p>
+            </div>
+            <div className="flex flex-col gap-3">
+              <button
+                type="button"
+                onClick={() => setView('regenerar')}
+                className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Generar códigos de recuperación nuevos
+              </button>
+              {status.requerido ? (
+                <p className="text-gray-500 text-sm text-center">Tu rol exige la verificación en dos pasos: no se puede desactivar.</p>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setView('desactivar')}
+                  className="flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30 transition-colors"
+                >
+                  <ShieldOff className="w-4 h-4" />
+                  Desactivar
+                </button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-gray-400 text-sm">
+              Además de la contraseña, al iniciar sesión se te va a pedir un código de 6 dígitos de una app autenticadora
+              en tu teléfono. Así nadie puede entrar con tu contraseña sola.
+            </p>
+            <PoliceButton type="button" variant="primary" className="w-full" icon={ShieldCheck} onClick={() => setView('configurar')}>
+              Activar
+            </PoliceButton>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+}
@@ -0,0 +1,638 @@
+// Gestión de usuarios, roles y permisos
+// El admin da de alta vendedores, los activa/desactiva, les asigna roles y arma los permisos de cada rol.
+// El backend no deja hacer ningún cambio que deje al sistema sin un usuario que pueda gestionar usuarios.
+// Cada rol puede exigir verificación en dos pasos: sus usuarios la configuran en el próximo login.
+
+import { useEffect, useState } from 'react';
+import { Plus, RefreshCw, Save, UserCheck, UserX, KeyRound, LogOut, X, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { PoliceButton } from './PoliceButton';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { apiFetch } from '../config/apiFetch';
+
+type ManagedRole = {
+  id: number;
+  nombre: string;
+  descripcion: string | null;
+  requiere_2fa: boolean;
+  permisos: string[];
+  cantidad_usuarios: number;
+};
+
+type ManagedUser = {
+  id: number;
+  username: string;
+  nombre_completo: string;
+  email: string | null;
+  activo: boolean;
+  creado_en: string;
+  totp_activado: boolean;
+  roles: { id: number; nombre: string }[];
+  sesiones_activas: number;
+};
+
+type Permission = {
+  id: number;
+  nombre: string;
+  descripcion: string | null;
+};
+
+const USUARIO_NUEVO = {
+  username: '',
+  nombre_completo: '',
+  email: '',
+  password: '',
+  roles: [] as number[],
+};
+
+const ROL_NUEVO = {
+  nombre: '',
+  descripcion: '',
+  permisos: [] as string[],
+  requiere_2fa: false,
+};
+
+const checkboxClassName = 'w-4 h-4 rounded border-gray-600 text-[#fbbf24] focus:ring-[#fbbf24] focus:ring-offset-0 bg-black';
+
+// Hace una petición autenticada a /api/usuarios y devuelve el JSON (o lanza el mensaje del backend)
+const pedirApi = async (ruta: string, opciones: RequestInit = {}) => {
+  const response = await apiFetch(`/api/usuarios${ruta}`, {
+    ...opciones,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.mensaje || 'Error en la gestión de usuarios');
+  }
+  return data;
+};
+
+export function UserManagement() {
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [roles, setRoles] = useState<ManagedRole[]>([]);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  const [showUserForm, setShowUserForm] = useState(false);
+  const [newUser, setNewUser] = useState(USUARIO_NUEVO);
+  const [showRoleForm, setShowRoleForm] = useState(false);
+  const [newRole, setNewRole] = useState(ROL_NUEVO);
+
+  // Permisos de cada rol mientras se editan (se guardan con el botón del rol)
+  const [rolePermissionsDraft, setRolePermissionsDraft] = useState<Record<number, string[]>>({});
+
+  const fetchAll = async () => {
+    try {
+      const [usuarios, rolesData, permisosData] = await Promise.all([
+        pedirApi(''),
+        pedirApi('/roles'),
+        pedirApi('/permisos'),
+      ]);
+      setUsers(usuarios.usuarios);
+      setRoles(rolesData.roles);
+      setPermissions(permisosData.permisos);
+      setRolePermissionsDraft(
+        Object.fromEntries(rolesData.roles.map((rol: ManagedRole) => [rol.id, rol.permisos]))
+      );
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar los usuarios');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAll();
+  }, []);
+
+  const handleCreateUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!newUser.username || !newUser.nombre_completo || !newUser.password) {
+      toast.error('Usuario, nombre completo y contraseña son obligatorios');
+      return;
+    }
+
+    setSavingId('nuevo-usuario');
+    try {
+      await pedirApi('', {
+        method: 'POST',
+        body: JSON.stringify(newUser),
+      });
+      toast.success(`Usuario ${newUser.username} creado`);
+      setNewUser(USUARIO_NUEVO);
+      setShowUserForm(false);
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleActive = async (usuario: ManagedUser) => {
+    const accion = usuario.activo ? 'desactivar' : 'activar';
+    if (!confirm(`¿Seguro que querés ${accion} a ${usuario.username}?`)) return;
+
+    setSavingId(`usuario-${usuario.id}`);
+    try {
+      await pedirApi(`/${usuario.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ activo: !usuario.activo }),
+      });
+      toast.success(usuario.activo ? `${usuario.username} ya no puede iniciar sesión` : `${usuario.username} reactivado`);
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleResetPassword = async (usuario: ManagedUser) => {
+    const password = prompt(`Nueva contraseña para ${usuario.username} (mínimo 6 caracteres):`);
+    if (password === null) return;
+
+    setSavingId(`usuario-${usuario.id}`);
+    try {
+      await pedirApi(`/${usuario.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ password }),
+      });
+      toast.success(`Contraseña de ${usuario.username} actualizada`);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCloseSessions = async (usuario: ManagedUser) => {
+    if (!confirm(`¿Cerrar todas las sesiones de ${usuario.username}? Va a tener que volver a iniciar sesión.`)) return;
+
+    setSavingId(`usuario-${usuario.id}`);
+    try {
+      const data = await pedirApi(`/${usuario.id}/cerrar-sesiones`, { method: 'POST' });
+      toast.success(data.mensaje);
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  // Para cuando el usuario perdió el teléfono y los códigos de recuperación
+  const handleResetTwoFactor = async (usuario: ManagedUser) => {
+    if (!confirm(`¿Restablecer la verificación en dos pasos de ${usuario.username}? Va a poder entrar solo con la contraseña (o configurarla de nuevo si su rol la exige).`)) return;
+
+    setSavingId(`usuario-${usuario.id}`);
+    try {
+      const data = await pedirApi(`/${usuario.id}/restablecer-2fa`, { method: 'POST' });
+      setUsers(prev => prev.map(u => (u.id === usuario.id ? { ...u, ...data.usuario } : u)));
+      toast.success(data.mensaje);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleUserRole = async (usuario: ManagedUser, rolId: number) => {
+    const actuales = usuario.roles.map(r => r.id);
+    const nuevos = actuales.includes(rolId) ? actuales.filter(id => id !== rolId) : [...actuales, rolId];
+
+    setSavingId(`usuario-${usuario.id}`);
+    try {
+      const data = await pedirApi(`/${usuario.id}/roles`, {
+        method: 'PUT',
+        body: JSON.stringify({ roles: nuevos }),
+      });
+      setUsers(prev => prev.map(u => (u.id === usuario.id ? data.usuario : u)));
+      toast.success(`Roles de ${usuario.username} actualizados`);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleDraftPermission = (rolId: number, permiso: string) => {
+    setRolePermissionsDraft(prev => {
+      const actuales = prev[rolId] || [];
+      return {
+        ...prev,
+        [rolId]: actuales.includes(permiso) ? actuales.filter(p => p !== permiso) : [...actuales, permiso],
+      };
+    });
+  };
+
+  const handleSaveRole = async (rol: ManagedRole) => {
+    setSavingId(`rol-${rol.id}`);
+    try {
+      await pedirApi(`/roles/${rol.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ permisos: rolePermissionsDraft[rol.id] || [] }),
+      });
+      toast.success(`Permisos del rol ${rol.nombre} guardados`, {
+        description: 'Los usuarios con este rol los reciben en los próximos minutos, al renovarse su sesión',
+      });
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+      // Volvemos a los permisos guardados
+      setRolePermissionsDraft(prev => ({ ...prev, [rol.id]: rol.permisos }));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleToggleRequireTwoFactor = async (rol: ManagedRole) => {
+    if (!rol.requiere_2fa && !confirm(`¿Exigir verificación en dos pasos al rol ${rol.nombre}? Los usuarios que no la tengan van a tener que configurarla en su próximo login.`)) return;
+
+    setSavingId(`rol-${rol.id}`);
+    try {
+      await pedirApi(`/roles/${rol.id}`, {
+        method: 'PUT',
+        body: JSON.stringify({ requiere_2fa: !rol.requiere_2fa }),
+      });
+      setRoles(prev => prev.map(r => (r.id === rol.id ? { ...r, requiere_2fa: !rol.requiere_2fa } : r)));
+      toast.success(rol.requiere_2fa
+        ? `El rol ${rol.nombre} ya no exige verificación en dos pasos`
+        : `El rol ${rol.nombre} ahora exige verificación en dos pasos`);
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCreateRole = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSavingId('nuevo-rol');
+    try {
+      await pedirApi('/roles', {
+        method: 'POST',
+        body: JSON.stringify(newRole),
+      });
+      toast.success(`Rol ${newRole.nombre} creado`);
+      setNewRole(ROL_NUEVO);
+      setShowRoleForm(false);
+      fetchAll();
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const rolCambiado = (rol: ManagedRole) => {
+    const borrador = rolePermissionsDraft[rol.id] || [];
+    return borrador.length !== rol.permisos.length || borrador.some(p => !rol.permisos.includes(p));
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center text-gray-400 py-20">
+        <span className="material-icons text-6xl animate-spin">refresh</span>
+        <p className="mt-4">Cargando usuarios...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-14">
+      {/* Usuarios */}
+      <section>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h2 className="text-white mb-2">Usuarios ({users.length})</h2>
+            <p className="text-gray-400 text-sm">Un usuario desactivado no puede iniciar sesión. Los roles definen qué puede hacer cada uno.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={fetchAll}
+              className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+              title="Actualizar"
+            >
+              <RefreshCw className="w-5 h-5" />
+            </button>
+            <PoliceButton variant="primary" icon={Plus} onClick={() => setShowUserForm(true)}>
+              Nuevo usuario
+            </PoliceButton>
+          </div>
+        </div>
+
+        {showUserForm && (
+          <form
+            onSubmit={handleCreateUser}
+            className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/40 rounded-2xl p-6 mb-8 space-y-5"
+          >
+            <div className="flex justify-between items-center">
+              <h3 className="text-white text-lg font-semibold">Nuevo usuario</h3>
+              <button type="button" onClick={() => setShowUserForm(false)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="nuevo-username" className="text-gray-300">Usuario *</Label>
+                <Input
+                  id="nuevo-username"
+                  value={newUser.username}
+                  onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                  autoComplete="off"
+                />
+              </div>
+              <div>
+                <Label htmlFor="nuevo-nombre" className="text-gray-300">Nombre completo *</Label>
+                <Input
+                  id="nuevo-nombre"
+                  value={newUser.nombre_completo}
+                  onChange={(e) => setNewUser({ ...newUser, nombre_completo: e.target.value })}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="nuevo-email" className="text-gray-300">Email</Label>
+                <Input
+                  id="nuevo-email"
+                  type="email"
+                  value={newUser.email}
+                  onChange={(e) => setNewUser({ ...newUser, email: e.target.value })}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="nuevo-password" className="text-gray-300">Contraseña * (mínimo 6 caracteres)</Label>
+                <Input
+                  id="nuevo-password"
+                  type="password"
+                  value={newUser.password}
+                  onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                  autoComplete="new-password"
+                />
+              </div>
+            </div>
+            <div>
+              <p className="text-gray-300 text-sm mb-2">Roles</p>
+              <div className="flex flex-wrap gap-4">
+                {roles.map(rol => (
+                  <label key={rol.id} className="flex items-center gap-2 text-gray-300 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={newUser.roles.includes(rol.id)}
+                      onChange={(e) => setNewUser({
+                        ...newUser,
+                        roles: e.target.checked ? [...newUser.roles, rol.id] : newUser.roles.filter(id => id !== rol.id),
+                      })}
+                      className={checkboxClassName}
+                    />
+                    {rol.nombre}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <PoliceButton type="submit" variant="primary" icon={Save} disabled={savingId === 'nuevo-usuario'}>
+              {savingId === 'nuevo-usuario' ? 'Creando...' : 'Crear usuario'}
+            </PoliceButton>
+          </form>
+        )}
+
+        <div className="space-y-4">
+          {users.map(usuario => (
+            <div
+              key={usuario.id}
+              className={`bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border rounded-2xl p-5 flex flex-col lg:flex-row lg:items-center justify-between gap-4 ${
+                usuario.activo ? 'border-[#fbbf24]/20' : 'border-gray-700 opacity-60'
+              }`}
+            >
+              <div>
+                <p className="text-white font-semibold">
+                  {usuario.nombre_completo}
+                  <span className="text-gray-400 font-normal"> • {usuario.username}</span>
+                  {usuario.totp_activado && (
+                    <span className="ml-2 inline-flex items-center gap-1 text-xs text-green-400 uppercase" title="Verificación en dos pasos activada">
+                      <ShieldCheck className="w-3.5 h-3.5" />
+                      2FA
+                    </span>
+                  )}
+                  {!usuario.activo && <span className="ml-2 text-xs text-red-400 uppercase">Desactivado</span>}
+                </p>
+                <p className="text-gray-500 text-sm">
+                  {usuario.email && `${usuario.email} • `}
+                  {usuario.sesiones_activas === 1 ? '1 sesión abierta' : `${usuario.sesiones_activas} sesiones abiertas`}
+                </p>
+                <div className="flex flex-wrap gap-4 mt-3">
+                  {roles.map(rol => (
+                    <label key={rol.id} className="flex items-center gap-2 text-gray-300 text-sm cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={usuario.roles.some(r => r.id === rol.id)}
+                        onChange={() => handleToggleUserRole(usuario, rol.id)}
+                        disabled={savingId === `usuario-${usuario.id}`}
+                        className={checkboxClassName}
+                      />
+                      {rol.nombre}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-3">
+                {usuario.sesiones_activas > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => handleCloseSessions(usuario)}
+                    disabled={savingId === `usuario-${usuario.id}`}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    Cerrar sesiones
+                  </button>
+                )}
+                {usuario.totp_activado && (
+                  <button
+                    type="button"
+                    onClick={() => handleResetTwoFactor(usuario)}
+                    disabled={savingId === `usuario-${usuario.id}`}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                  >
+                    <ShieldOff className="w-4 h-4" />
+                    Restablecer 2FA
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => handleResetPassword(usuario)}
+                  disabled={savingId === `usuario-${usuario.id}`}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors disabled:opacity-50"
+                >
+                  <KeyRound className="w-4 h-4" />
+                  Contraseña
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleToggleActive(usuario)}
+                  disabled={savingId === `usuario-${usuario.id}`}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-colors disabled:opacity-50 ${
+                    usuario.activo
+                      ? 'bg-red-600/20 text-red-400 hover:bg-red-600/30'
+                      : 'bg-green-600/20 text-green-400 hover:bg-green-600/30'
+                  }`}
+                >
+                  {usuario.activo ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                  {usuario.activo ? 'Desactivar' : 'Activar'}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Roles y permisos */}
+      <section>
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-8">
+          <div>
+            <h2 className="text-white mb-2">Roles y permisos ({roles.length})</h2>
+            <p className="text-gray-400 text-sm">Los cambios de permisos llegan a cada usuario en los próximos minutos, al renovarse su sesión.</p>
+          </div>
+          <PoliceButton variant="secondary" icon={Plus} onClick={() => setShowRoleForm(true)}>
+            Nuevo rol
+          </PoliceButton>
+        </div>
+
+        {showRoleForm && (
+          <form
+            onSubmit={handleCreateRole}
+            className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/40 rounded-2xl p-6 mb-8 space-y-5"
+          >
+            <div className="flex justify-between items-center">
+              <h3 className="text-white text-lg font-semibold">Nuevo rol</h3>
+              <button type="button" onClick={() => setShowRoleForm(false)} className="text-gray-400 hover:text-white">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="nuevo-rol-nombre" className="text-gray-300">Nombre * (minúsculas, sin espacios)</Label>
+                <Input
+                  id="nuevo-rol-nombre"
+                  value={newRole.nombre}
+                  onChange={(e) => setNewRole({ ...newRole, nombre: e.target.value })}
+                  placeholder="cocina"
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="nuevo-rol-descripcion" className="text-gray-300">Descripción</Label>
+                <Input
+                  id="nuevo-rol-descripcion"
+                  value={newRole.descripcion}
+                  onChange={(e) => setNewRole({ ...newRole, descripcion: e.target.value })}
+                  className="bg-black/50 border-[#fbbf24]/30 text-white mt-2"
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-gray-300 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={newRole.requiere_2fa}
+                onChange={(e) => setNewRole({ ...newRole, requiere_2fa: e.target.checked })}
+                className={checkboxClassName}
+              />
+              Exigir verificación en dos pasos
+            </label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {permissions.map(permiso => (
+                <label key={permiso.id} className="flex items-start gap-2 text-gray-300 text-sm cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={newRole.permisos.includes(permiso.nombre)}
+                    onChange={(e) => setNewRole({
+                      ...newRole,
+                      permisos: e.target.checked
+                        ? [...newRole.permisos, permiso.nombre]
+                        : newRole.permisos.filter(p => p !== permiso.nombre),
+                    })}
+                    className={`${checkboxClassName} mt-0.5`}
+                  />
+                  <span>
+                    {permiso.nombre}
+                    {permiso.descripcion && <span className="block text-gray-500 text-xs">{permiso.descripcion}</span>}
+                  </span>
+                </label>
+              ))}
+            </div>
+            <PoliceButton type="submit" variant="primary" icon={Save} disabled={savingId === 'nuevo-rol'}>
+              {savingId === 'nuevo-rol' ? 'Creando...' : 'Crear rol'}
+            </PoliceButton>
+          </form>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {roles.map(rol => (
+            <div key={rol.id} className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-2xl p-6">
+              <div className="flex justify-between items-start mb-4">
+                <div>
+                  <h3 className="text-white text-lg font-semibold">{rol.nombre}</h3>
+                  {rol.descripcion && <p className="text-gray-400 text-sm">{rol.descripcion}</p>}
+                  <p className="text-gray-500 text-xs mt-1">
+                    {rol.cantidad_usuarios} {rol.cantidad_usuarios === 1 ? 'usuario' : 'usuarios'}
+                  </p>
+                </div>
+                {rolCambiado(rol) && (
+                  <button
+                    type="button"
+                    onClick={() => handleSaveRole(rol)}
+                    disabled={savingId === `rol-${rol.id}`}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-[#fbbf24] text-black font-semibold hover:bg-[#f59e0b] transition-colors disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    Guardar
+                  </button>
+                )}
+              </div>
+              <label className="flex items-center gap-2 text-gray-300 text-sm cursor-pointer pb-4 mb-4 border-b border-gray-800">
+                <input
+                  type="checkbox"
+                  checked={rol.requiere_2fa}
+                  onChange={() => handleToggleRequireTwoFactor(rol)}
+                  disabled={savingId === `rol-${rol.id}`}
+                  className={checkboxClassName}
+                />
+                <ShieldCheck className="w-4 h-4 text-[#fbbf24]" />
+                Exigir verificación en dos pasos
+              </label>
+              <div className="space-y-2">
+                {permissions.map(permiso => (
+                  <label key={permiso.id} className="flex items-start gap-2 text-gray-300 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={(rolePermissionsDraft[rol.id] || []).includes(permiso.nombre)}
+                      onChange={() => handleToggleDraftPermission(rol.id, permiso.nombre)}
+                      className={`${checkboxClassName} mt-0.5`}
+                    />
+                    <span>
+                      {permiso.nombre}
+                      {permiso.descripcion && <span className="block text-gray-500 text-xs">{permiso.descripcion}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
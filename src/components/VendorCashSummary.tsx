@@ -0,0 +1,161 @@
+// Resumen de caja por vendedor
+// Cuánto cobró cada usuario (en efectivo y por transferencia) en un rango de fechas, para la entrega de caja
+// al cerrar el turno. Cada pago se cuenta a quien lo registró (una compra pagada en partes puede sumar a varios).
+
+import { useEffect, useState } from 'react';
+import { RefreshCw, Wallet } from 'lucide-react';
+import { toast } from 'sonner';
+import { Input } from './ui/input';
+import { apiFetch } from '../config/apiFetch';
+
+type VendorCash = {
+  usuario_id: number | null;
+  username: string | null;
+  nombre_completo: string | null;
+  cantidad: number;
+  monto_efectivo: number;
+  monto_transferencia: number;
+  monto_total: number;
+  primer_cobro: string | null;
+  ultimo_cobro: string | null;
+};
+
+// Fecha de hoy en formato YYYY-MM-DD (hora local, la que usa el input de fecha)
+const hoy = () => {
+  const ahora = new Date();
+  return `${ahora.getFullYear()}-${String(ahora.getMonth() + 1).padStart(2, '0')}-${String(ahora.getDate()).padStart(2, '0')}`;
+};
+
+const formatPrice = (price: number) =>
+  new Intl.NumberFormat('es-AR', { style: 'currency', currency: 'ARS' }).format(price);
+
+const formatHora = (fecha: string) =>
+  new Date(fecha).toLocaleTimeString('es-AR', { hour: '2-digit', minute: '2-digit' });
+
+export function VendorCashSummary({ currentUsername }: { currentUsername: string }) {
+  const [vendors, setVendors] = useState<VendorCash[]>([]);
+  const [desde, setDesde] = useState(hoy);
+  const [hasta, setHasta] = useState(hoy);
+  const [loading, setLoading] = useState(true);
+
+  const fetchSummary = async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (desde) params.set('fecha_desde', `${desde}T00:00:00`);
+      if (hasta) params.set('fecha_hasta', `${hasta}T23:59:59`);
+
+      const response = await apiFetch(`/api/compras/estadisticas/vendedores?${params.toString()}`);
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.mensaje || 'Error al cargar el resumen de caja');
+      }
+
+      setVendors(data.vendedores);
+    } catch (error: any) {
+      console.error('Error:', error);
+      toast.error(error.message || 'Error al cargar el resumen de caja');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSummary();
+  }, [desde, hasta]);
+
+  const totalEfectivo = vendors.reduce((suma, v) => suma + v.monto_efectivo, 0);
+
+  return (
+    <div className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border border-[#fbbf24]/20 rounded-2xl p-6 mb-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h3 className="text-white font-semibold text-lg flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-[#fbbf24]" />
+            Caja por vendedor
+          </h3>
+          <p className="text-gray-400 text-sm">Pagos según quién los cobró (sin contar anulados ni compras canceladas).</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Input
+            type="date"
+            value={desde}
+            onChange={(e) => setDesde(e.target.value)}
+            className="bg-black/50 border-[#fbbf24]/30 text-white"
+            aria-label="Desde"
+          />
+          <span className="text-gray-500">a</span>
+          <Input
+            type="date"
+            value={hasta}
+            onChange={(e) => setHasta(e.target.value)}
+            className="bg-black/50 border-[#fbbf24]/30 text-white"
+            aria-label="Hasta"
+          />
+          <button
+            type="button"
+            onClick={fetchSummary}
+            className="p-2 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+            title="Actualizar"
+          >
+            <RefreshCw className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-center text-gray-400 py-6">Cargando resumen...</p>
+      ) : vendors.length === 0 ? (
+        <p className="text-center text-gray-400 py-6">No hay cobros registrados en esas fechas</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-400 text-left border-b border-gray-700">
+                <th className="py-2 pr-4 font-normal">Vendedor</th>
+                <th className="py-2 pr-4 font-normal text-right">Pedidos</th>
+                <th className="py-2 pr-4 font-normal text-right">Efectivo</th>
+                <th className="py-2 pr-4 font-normal text-right">Transferencia</th>
+                <th className="py-2 pr-4 font-normal text-right">Total</th>
+                <th className="py-2 font-normal text-right">Cobros</th>
+              </tr>
+            </thead>
+            <tbody>
+              {vendors.map(vendedor => (
+                <tr
+                  key={vendedor.usuario_id ?? 'sin-registro'}
+                  className={`border-b border-gray-800 ${vendedor.username === currentUsername ? 'bg-[#fbbf24]/10' : ''}`}
+                >
+                  <td className="py-2 pr-4 text-white">
+                    {vendedor.usuario_id === null ? (
+                      <span className="text-gray-500 italic">Sin registrar</span>
+                    ) : (
+                      <>
+                        <span className="text-[#fbbf24] font-semibold">{vendedor.username}</span>
+                        {vendedor.nombre_completo ? ` (${vendedor.nombre_completo})` : ''}
+                        {vendedor.username === currentUsername ? ' • vos' : ''}
+                      </>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-300 text-right">{vendedor.cantidad}</td>
+                  <td className="py-2 pr-4 text-white font-semibold text-right">{formatPrice(vendedor.monto_efectivo)}</td>
+                  <td className="py-2 pr-4 text-gray-300 text-right">{formatPrice(vendedor.monto_transferencia)}</td>
+                  <td className="py-2 pr-4 text-gray-300 text-right">{formatPrice(vendedor.monto_total)}</td>
+                  <td className="py-2 text-gray-500 text-right">
+                    {vendedor.primer_cobro && vendedor.ultimo_cobro
+                      ? `${formatHora(vendedor.primer_cobro)} – ${formatHora(vendedor.ultimo_cobro)}`
+                      : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-right text-gray-400 mt-4">
+            Efectivo total: <span className="text-[#fbbf24] font-bold">{formatPrice(totalEfectivo)}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useAuth } from '../context/AuthContext';
+import { useAuth, LoginResult } from '../context/AuthContext';
 import { PoliceButton } from './PoliceButton';
+import { TwoFactorCodeInput, TwoFactorSetup } from './TwoFactor';
 import { Label } from './ui/label';
 import { Input } from './ui/input';
-import { Shield, UserCircle, Lock } from 'lucide-react';
+import { Shield, UserCircle, Lock, Clock, ShieldCheck } from 'lucide-react';
 import { toast } from 'sonner';
 
+// Pasos del login: usuario y contraseña, y después (si corresponde) el código de verificación
+// o la configuración de la verificación en dos pasos cuando el rol la exige
+type LoginStep = 'credenciales' | 'codigo' | 'configurar';
+
 export function VendorLogin() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [rememberMe, setRememberMe] = useState(true);
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  // Bloqueo por demasiados intentos fallidos: hasta cuándo y el mensaje del backend
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [lockMessage, setLockMessage] = useState('');
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  // Segundo paso (verificación en dos pasos)
+  const [step, setStep] = useState<LoginStep>('credenciales');
+  const [challenge, setChallenge] = useState('');
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const { login, verifyTwoFactor, startTwoFactorEnrollment, completeTwoFactorEnrollment } = useAuth();
   const navigate = useNavigate();
 
   // Cargar credenciales guardadas al montar
@@ -26,34 +40,101 @@ export function VendorLogin() {
     if (savedRemember !== null) setRememberMe(savedRemember === 'true');
   }, []);
 
+  // Cuenta regresiva del bloqueo (al llegar a 0 se vuelve a habilitar el botón)
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const actualizar = () => {
+      const restantes = Math.ceil((lockedUntil.getTime() - Date.now()) / 1000);
+      if (restantes <= 0) {
+        setLockedUntil(null);
+        setSecondsLeft(0);
+      } else {
+        setSecondsLeft(restantes);
+      }
+    };
+
+    actualizar();
+    const interval = setInterval(actualizar, 1000);
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const formatearEspera = (segundos: number) => {
+    const minutos = Math.floor(segundos / 60);
+    const resto = segundos % 60;
+    return minutos > 0 ? `${minutos}:${resto.toString().padStart(2, '0')} min` : `${resto} s`;
+  };
+
+  const volverAlInicio = () => {
+    setStep('credenciales');
+    setChallenge('');
+    setCode('');
+    setUseRecoveryCode(false);
+  };
+
+  const entrarAlPanel = () => {
+    // Guardar credenciales si el usuario quiere recordar
+    if (rememberMe) {
+      localStorage.setItem('savedUsername', username);
+      localStorage.setItem('savedPassword', password);
+      localStorage.setItem('savedRemember', 'true');
+    } else {
+      localStorage.removeItem('savedUsername');
+      localStorage.removeItem('savedPassword');
+      localStorage.removeItem('savedRemember');
+    }
+    
+    toast.success('Acceso autorizado', {
+      description: 'Bienvenido al panel de control',
+    });
+    navigate('/vendor/panel');
+  };
+
+  // Errores comunes a la contraseña y al código: bloqueo, desafío vencido o dato incorrecto
+  const mostrarError = (result: LoginResult, dato: string) => {
+    if (result.bloqueadoHasta) {
+      setLockedUntil(result.bloqueadoHasta);
+      setLockMessage(result.mensaje || 'Demasiados intentos fallidos.');
+      toast.error('Acceso bloqueado', {
+        description: result.mensaje,
+      });
+    } else if (result.desafioVencido) {
+      volverAlInicio();
+      toast.error('La verificación venció', {
+        description: result.mensaje,
+      });
+    } else {
+      // Cuando quedan pocos intentos avisamos antes de que la cuenta se bloquee
+      const restantes = result.intentosRestantes;
+      toast.error('Acceso denegado', {
+        description: restantes !== undefined && restantes <= 2
+          ? `${dato}. ${restantes === 0 ? 'El próximo fallo bloqueará el acceso por unos minutos.' : `Te quedan ${restantes} intento(s) antes del bloqueo.`}`
+          : result.mensaje || dato,
+      });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (lockedUntil) return;
     
     setIsLoading(true);
     
     try {
-      const success = await login(username, password, rememberMe);
+      const result = await login(username, password, rememberMe);
       
-      if (success) {
-        // Guardar credenciales si el usuario quiere recordar
-        if (rememberMe) {
-          localStorage.setItem('savedUsername', username);
-          localStorage.setItem('savedPassword', password);
-          localStorage.setItem('savedRemember', 'true');
-        } else {
-          localStorage.removeItem('savedUsername');
-          localStorage.removeItem('savedPassword');
-          localStorage.removeItem('savedRemember');
+      if (result.success) {
+        entrarAlPanel();
+      } else if (result.twoFactor) {
+        setChallenge(result.twoFactor.desafio);
+        setStep(result.twoFactor.configurar ? 'configurar' : 'codigo');
+        if (result.twoFactor.configurar) {
+          toast.info('Verificación en dos pasos obligatoria', {
+            description: result.mensaje,
+          });
         }
-        
-        toast.success('Acceso autorizado', {
-          description: 'Bienvenido al panel de control',
-        });
-        navigate('/vendor/panel');
       } else {
-        toast.error('Acceso denegado', {
-          description: 'Usuario o contraseña incorrectos',
-        });
+        mostrarError(result, 'Usuario o contraseña incorrectos');
       }
     } catch (error) {
       toast.error('Error de conexión', {
@@ -64,6 +145,48 @@ export function VendorLogin() {
     }
   };
 
+  const handleVerifyCode = async (codigo: string = code) => {
+    if (lockedUntil || isLoading || !codigo.trim()) return;
+
+    setIsLoading(true);
+
+    try {
+      const result = await verifyTwoFactor(challenge, codigo, rememberMe);
+
+      if (result.success) {
+        if (result.codigosRecuperacionRestantes !== undefined) {
+          toast.warning(`Te quedan ${result.codigosRecuperacionRestantes} códigos de recuperación`, {
+            description: 'Podés generar otros desde "Verificación en dos pasos" en la barra superior',
+          });
+        }
+        entrarAlPanel();
+      } else {
+        setCode('');
+        mostrarError(result, 'Código de verificación incorrecto');
+      }
+    } catch (error) {
+      toast.error('Error de conexión', {
+        description: 'No se pudo conectar con el servidor',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Configuración obligatoria: si el código no sirve, el error lo muestra TwoFactorSetup
+  const handleConfirmEnrollment = async (codigo: string) => {
+    const result = await completeTwoFactorEnrollment(challenge, codigo, rememberMe);
+    if (result.success && result.codigosRecuperacion) {
+      return result.codigosRecuperacion;
+    }
+
+    if (result.bloqueadoHasta || result.desafioVencido) {
+      mostrarError(result, 'Código de verificación incorrecto');
+      throw new Error(result.mensaje);
+    }
+    throw new Error(result.mensaje || 'El código no es válido');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center py-16 bg-black">
       
@@ -81,61 +204,146 @@ export function VendorLogin() {
 
         {/* Login form */}
         <div className="bg-gradient-to-br from-[#1f1f1f] to-[#0f0f0f] border-2 border-[#fbbf24]/30 rounded-3xl p-10 paper-texture shadow-2xl shadow-[#fbbf24]/20">
-          <form onSubmit={handleSubmit} className="space-y-8">
-            <div>
-              <Label htmlFor="username" className="text-gray-300 flex items-center gap-2 mb-3">
-                <UserCircle className="w-5 h-5 text-[#fbbf24]" />
-                Usuario
-              </Label>
-              <Input
-                id="username"
-                type="text"
-                value={username}
-                onChange={(e) => setUsername(e.target.value)}
-                className="bg-[#0f0f0f] border-[#fbbf24]/30 text-white focus:border-[#fbbf24] rounded-xl h-12"
-                placeholder="Ingresá tu usuario"
-                required
-              />
+          {lockedUntil && (
+            <div className="bg-red-500/10 border border-red-500/40 rounded-xl p-4 mb-8 flex gap-3" role="alert">
+              <Clock className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+              <div>
+                <p className="text-red-300 font-semibold">Acceso bloqueado temporalmente</p>
+                <p className="text-gray-300 text-sm">{lockMessage}</p>
+                <p className="text-gray-400 text-sm mt-1">Podés volver a intentar en {formatearEspera(secondsLeft)}.</p>
+              </div>
             </div>
+          )}
 
-            <div>
-              <Label htmlFor="password" className="text-gray-300 flex items-center gap-2 mb-3">
-                <Lock className="w-5 h-5 text-[#fbbf24]" />
-                Contraseña
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                className="bg-[#0f0f0f] border-[#fbbf24]/30 text-white focus:border-[#fbbf24] rounded-xl h-12"
-                placeholder="Ingresá tu contraseña"
-                required
-              />
-            </div>
+          {step === 'configurar' && (
+            <TwoFactorSetup
+              cargarQr={() => startTwoFactorEnrollment(challenge)}
+              confirmar={handleConfirmEnrollment}
+              onTerminar={entrarAlPanel}
+              onCancelar={volverAlInicio}
+            />
+          )}
 
-            <div className="flex items-center gap-3">
-              <input
-                id="remember"
-                type="checkbox"
-                checked={rememberMe}
-                onChange={(e) => setRememberMe(e.target.checked)}
-                className="w-5 h-5 rounded border-[#fbbf24]/30 bg-[#0f0f0f] text-[#fbbf24] focus:ring-[#fbbf24] focus:ring-offset-0 cursor-pointer"
-              />
-              <Label htmlFor="remember" className="text-gray-300 text-sm cursor-pointer">
-                Recordar sesión
-              </Label>
-            </div>
-
-            <PoliceButton
-              type="submit"
-              variant="primary"
-              className="w-full"
-              disabled={isLoading}
+          {step === 'codigo' && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleVerifyCode();
+              }}
+              className="space-y-8"
             >
-              {isLoading ? 'Verificando...' : 'Ingresar al Panel'}
-            </PoliceButton>
-          </form>
+              <div className="text-center">
+                <ShieldCheck className="w-10 h-10 text-[#fbbf24] mx-auto mb-3" />
+                <p className="text-white font-semibold">Verificación en dos pasos</p>
+                <p className="text-gray-400 text-sm">
+                  {useRecoveryCode
+                    ? 'Ingresá uno de tus códigos de recuperación'
+                    : 'Ingresá el código de 6 dígitos de tu app autenticadora'}
+                </p>
+              </div>
+
+              {useRecoveryCode ? (
+                <Input
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="bg-[#0f0f0f] border-[#fbbf24]/30 text-white focus:border-[#fbbf24] rounded-xl h-12 text-center font-mono"
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="off"
+                  autoFocus
+                />
+              ) : (
+                <TwoFactorCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerifyCode}
+                  disabled={isLoading || !!lockedUntil}
+                />
+              )}
+
+              <PoliceButton
+                type="submit"
+                variant="primary"
+                className="w-full"
+                disabled={isLoading || !!lockedUntil || !code.trim()}
+              >
+                {isLoading ? 'Verificando...' : lockedUntil ? `Esperá ${formatearEspera(secondsLeft)}` : 'Verificar'}
+              </PoliceButton>
+
+              <div className="flex justify-between text-sm">
+                <button type="button" onClick={volverAlInicio} className="text-gray-400 hover:text-[#fbbf24] transition-colors">
+                  ← Volver
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode('');
+                  }}
+                  className="text-gray-400 hover:text-[#fbbf24] transition-colors"
+                >
+                  {useRecoveryCode ? 'Usar la app autenticadora' : 'Usar un código de recuperación'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {step === 'credenciales' && (
+            <form onSubmit={handleSubmit} className="space-y-8">
+              <div>
+                <Label htmlFor="username" className="text-gray-300 flex items-center gap-2 mb-3">
+                  <UserCircle className="w-5 h-5 text-[#fbbf24]" />
+                  Usuario
+                </Label>
+                <Input
+                  id="username"
+                  type="text"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  className="bg-[#0f0f0f] border-[#fbbf24]/30 text-white focus:border-[#fbbf24] rounded-xl h-12"
+                  placeholder="Ingresá tu usuario"
+                  required
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="password" className="text-gray-300 flex items-center gap-2 mb-3">
+                  <Lock className="w-5 h-5 text-[#fbbf24]" />
+                  Contraseña
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="bg-[#0f0f0f] border-[#fbbf24]/30 text-white focus:border-[#fbbf24] rounded-xl h-12"
+                  placeholder="Ingresá tu contraseña"
+                  required
+                />
+              </div>
+
+              <div className="flex items-center gap-3">
+                <input
+                  id="remember"
+                  type="checkbox"
+                  checked={rememberMe}
+                  onChange={(e) => setRememberMe(e.target.checked)}
+                  className="w-5 h-5 rounded border-[#fbbf24]/30 bg-[#0f0f0f] text-[#fbbf24] focus:ring-[#fbbf24] focus:ring-offset-0 cursor-pointer"
+                />
+                <Label htmlFor="remember" className="text-gray-300 text-sm cursor-pointer">
+                  Recordar sesión
+                </Label>
+              </div>
+
+              <PoliceButton
+                type="submit"
+                variant="primary"
+                className="w-full"
+                disabled={isLoading || !!lockedUntil}
+              >
+                {isLoading ? 'Verificando...' : lockedUntil ? `Esperá ${formatearEspera(secondsLeft)}` : 'Ingresar al Panel'}
+              </PoliceButton>
+            </form>
+          )}
         </div>
 
         {/* Back button */}
@@ -0,0 +1,121 @@
+// Cliente HTTP del panel de vendedores
+// Todas las peticiones autenticadas pasan por apiFetch: agrega el access token y, si el backend
+// responde 401 (el token de 15 minutos venció), lo renueva con el refresh token y reintenta una vez.
+// Si la sesión ya no se puede renovar (venció, se cerró desde otro lado o el usuario fue desactivado)
+// se borra y se avisa a AuthContext para volver al login.
+
+import { getApiUrl } from './api';
+
+const CLAVE_TOKEN = 'token';
+const CLAVE_REFRESH_TOKEN = 'refreshToken';
+const CLAVE_USUARIO = 'user';
+
+// Con "recordarme" la sesión vive en localStorage; sin él, en sessionStorage (se pierde al cerrar el navegador)
+const almacenamiento = (): Storage => (sessionStorage.getItem(CLAVE_TOKEN) ? sessionStorage : localStorage);
+
+export const leerToken = () => almacenamiento().getItem(CLAVE_TOKEN);
+export const leerRefreshToken = () => almacenamiento().getItem(CLAVE_REFRESH_TOKEN);
+export const leerUsuarioGuardado = () => almacenamiento().getItem(CLAVE_USUARIO);
+
+export function borrarSesion() {
+  for (const storage of [localStorage, sessionStorage]) {
+    storage.removeItem(CLAVE_TOKEN);
+    storage.removeItem(CLAVE_REFRESH_TOKEN);
+    storage.removeItem(CLAVE_USUARIO);
+  }
+}
+
+export function guardarSesion(token: string, refreshToken: string, recordar: boolean) {
+  borrarSesion();
+  const storage = recordar ? localStorage : sessionStorage;
+  storage.setItem(CLAVE_TOKEN, token);
+  storage.setItem(CLAVE_REFRESH_TOKEN, refreshToken);
+}
+
+export function guardarUsuario(usuario: unknown) {
+  almacenamiento().setItem(CLAVE_USUARIO, JSON.stringify(usuario));
+}
+
+// AuthContext se entera por acá cuando la sesión se renueva (con roles y permisos frescos) o se pierde
+type UsuarioRenovado = { username: string; roles: string[]; permisos: string[] };
+const alRenovar = new Set<(usuario: UsuarioRenovado) => void>();
+const alCerrar = new Set<() => void>();
+
+export function onSesionRenovada(callback: (usuario: UsuarioRenovado) => void) {
+  alRenovar.add(callback);
+  return () => { alRenovar.delete(callback); };
+}
+
+export function onSesionCerrada(callback: () => void) {
+  alCerrar.add(callback);
+  return () => { alCerrar.delete(callback); };
+}
+
+const pedirRenovacion = async (): Promise<boolean> => {
+  const refreshToken = leerRefreshToken();
+  if (!refreshToken) return false;
+
+  try {
+    const response = await fetch(getApiUrl('/api/auth/refresh'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refresh_token: refreshToken }),
+    });
+
+    if (response.ok) {
+      const data = await response.json();
+      const storage = almacenamiento();
+      storage.setItem(CLAVE_TOKEN, data.token);
+      storage.setItem(CLAVE_REFRESH_TOKEN, data.refresh_token);
+      alRenovar.forEach(callback => callback(data.usuario));
+      return true;
+    }
+
+    if (response.status === 401) {
+      // El refresh token se rota en cada uso: si otra pestaña lo renovó recién, usamos el nuevo
+      if (leerRefreshToken() !== refreshToken) return true;
+
+      borrarSesion();
+      alCerrar.forEach(callback => callback());
+    }
+    return false;
+  } catch (error) {
+    // Sin conexión no cerramos la sesión: se reintenta en la próxima petición
+    console.error('Error al renovar la sesión:', error);
+    return false;
+  }
+};
+
+// Si varias peticiones vencen a la vez, todas esperan la misma renovación
+let renovacionEnCurso: Promise<boolean> | null = null;
+
+export function renovarSesion(): Promise<boolean> {
+  if (!renovacionEnCurso) {
+    renovacionEnCurso = pedirRenovacion().finally(() => {
+      renovacionEnCurso = null;
+    });
+  }
+  return renovacionEnCurso;
+}
+
+// fetch con el token del panel (recibe la ruta de la API, por ejemplo '/api/compras')
+export async function apiFetch(ruta: string, opciones: RequestInit = {}): Promise<Response> {
+  const pedir = () => {
+    const headers = new Headers(opciones.headers);
+    const token = leerToken();
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(getApiUrl(ruta), { ...opciones, headers });
+  };
+
+  const response = await pedir();
+  if (response.status !== 401 || !leerRefreshToken()) {
+    return response;
+  }
+
+  const renovada = await renovarSesion();
+  return renovada ? pedir() : response;
+}
@@ -0,0 +1,29 @@
+// Estados de una compra y transiciones permitidas
+// Tiene que coincidir con TRANSICIONES_ESTADO de api/compras.js (el servidor es quien valida)
+
+import { OrderStatus } from '../types';
+
+export const ESTADOS_COMPRA: Record<OrderStatus, { label: string; color: string; accion: string }> = {
+  pendiente: { label: 'Pendiente de pago', color: 'bg-gray-600', accion: 'Volver a pendiente' },
+  pagado: { label: 'Pagado', color: 'bg-green-600', accion: 'Marcar como pagado' },
+  preparando: { label: 'En preparación', color: 'bg-amber-600', accion: 'Pasar a preparación' },
+  listo: { label: 'Listo', color: 'bg-blue-600', accion: 'Marcar como listo' },
+  entregado: { label: 'Entregado', color: 'bg-emerald-700', accion: 'Marcar como entregado' },
+  cancelado: { label: 'Cancelado', color: 'bg-red-700', accion: 'Cancelar pedido' },
+};
+
+export const TRANSICIONES_ESTADO: Record<OrderStatus, OrderStatus[]> = {
+  pendiente: ['pagado', 'cancelado'],
+  pagado: ['preparando', 'listo', 'pendiente', 'cancelado'],
+  preparando: ['listo', 'pagado', 'cancelado'],
+  listo: ['entregado', 'preparando', 'cancelado'],
+  entregado: ['listo'],
+  cancelado: [],
+};
+
+// Orden "hacia adelante" de los estados (cancelado queda afuera)
+export const ORDEN_ESTADOS: OrderStatus[] = ['pendiente', 'pagado', 'preparando', 'listo', 'entregado'];
+
+// Indica si pasar de un estado a otro es volver atrás (para mostrarlo como corrección)
+export const esRetroceso = (desde: OrderStatus, hacia: OrderStatus) =>
+  hacia !== 'cancelado' && ORDEN_ESTADOS.indexOf(hacia) < ORDEN_ESTADOS.indexOf(desde);
@@ -1,25 +1,141 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import { VendorUser } from '../types';
 import { getApiUrl } from '../config/api';
+import {
+  apiFetch,
+  borrarSesion,
+  guardarSesion,
+  guardarUsuario,
+  leerRefreshToken,
+  leerToken,
+  leerUsuarioGuardado,
+  onSesionCerrada,
+  onSesionRenovada,
+} from '../config/apiFetch';
+
+// Resultado de un intento de login (o de su segundo paso)
+// Si hay demasiados intentos fallidos, bloqueadoHasta dice desde cuándo se puede volver a probar.
+// Si falta la verificación en dos pasos, twoFactor trae el desafío para el segundo paso
+// (configurar: el rol la exige pero el usuario todavía no la configuró).
+export interface LoginResult {
+  success: boolean;
+  mensaje?: string;
+  bloqueadoHasta?: Date;
+  intentosRestantes?: number;
+  twoFactor?: { desafio: string; configurar: boolean };
+  desafioVencido?: boolean;
+  codigosRecuperacion?: string[];
+  codigosRecuperacionRestantes?: number;
+}
 
 interface AuthContextType {
   user: VendorUser | null;
   loading: boolean;
-  login: (username: string, password: string, remember?: boolean) => Promise<boolean>;
+  login: (username: string, password: string, remember?: boolean) => Promise<LoginResult>;
+  verifyTwoFactor: (desafio: string, codigo: string, remember?: boolean) => Promise<LoginResult>;
+  startTwoFactorEnrollment: (desafio: string) => Promise<{ secreto: string; qr: string }>;
+  completeTwoFactorEnrollment: (desafio: string, codigo: string, remember?: boolean) => Promise<LoginResult>;
   logout: () => void;
+  logoutAllSessions: () => Promise<boolean>;
+  refreshUser: () => Promise<void>;
+  hasPermission: (permiso: string) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Arma el usuario del front a partir del que devuelve el backend (login y /me)
+// Guardamos roles y permisos tal cual para poder mostrar solo lo que el backend va a permitir
+const armarUsuario = (usuario: { username: string; roles: string[]; permisos: string[] }): VendorUser => ({
+  username: usuario.username,
+  roles: usuario.roles,
+  permisos: usuario.permisos,
+});
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<VendorUser | null>(null);
   const [loading, setLoading] = useState(true);
 
+  const logout = useCallback(() => {
+    // Cerramos la sesión también en el servidor (si falla, igual la olvidamos en este navegador)
+    const refreshToken = leerRefreshToken();
+    if (refreshToken) {
+      fetch(getApiUrl('/api/auth/logout'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refresh_token: refreshToken }),
+      }).catch(error => console.error('Error al cerrar sesión en el servidor:', error));
+    }
+
+    // Limpiar los tokens y el usuario
+    borrarSesion();
+    setUser(null);
+  }, []);
+
+  // Cierra todas las sesiones del usuario (en todos los dispositivos), incluida esta
+  const logoutAllSessions = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/auth/cerrar-sesiones', { method: 'POST' });
+      if (!response.ok) return false;
+
+      borrarSesion();
+      setUser(null);
+      return true;
+    } catch (error) {
+      console.error('Error al cerrar las sesiones:', error);
+      return false;
+    }
+  }, []);
+
+  // apiFetch nos avisa cuando renueva el token (con roles y permisos frescos) o cuando la sesión se perdió
+  useEffect(() => {
+    const dejarDeEscucharRenovacion = onSesionRenovada((usuario) => {
+      const userData = armarUsuario(usuario);
+      setUser(userData);
+      guardarUsuario(userData);
+    });
+    const dejarDeEscucharCierre = onSesionCerrada(() => {
+      console.log('AuthContext: La sesión se cerró o venció');
+      setUser(null);
+    });
+    return () => {
+      dejarDeEscucharRenovacion();
+      dejarDeEscucharCierre();
+    };
+  }, []);
+
+  // Vuelve a pedir los roles y permisos al backend (si un admin los cambió, se ven sin reloguearse)
+  // Si la sesión ya no sirve (se cerró o el usuario fue desactivado), cerramos la sesión
+  const refreshUser = useCallback(async () => {
+    if (!leerToken()) return;
+
+    try {
+      const response = await apiFetch('/api/auth/me');
+
+      if (response.status === 401 || response.status === 404) {
+        console.log('AuthContext: La sesión ya no es válida, cerrando sesión');
+        logout();
+        return;
+      }
+
+      const data = await response.json();
+      if (data.success) {
+        const userData = armarUsuario(data.usuario);
+        setUser(userData);
+        guardarUsuario(userData);
+      }
+    } catch (error) {
+      // Sin conexión nos quedamos con los permisos que ya teníamos
+      console.error('Error al actualizar los permisos:', error);
+    }
+  }, [logout]);
+
   // Restaurar sesión al cargar
   useEffect(() => {
     console.log('AuthContext: Iniciando restauración de sesión...');
-    const token = localStorage.getItem('token');
-    const savedUser = localStorage.getItem('user');
+    const token = leerToken();
+    const savedUser = leerUsuarioGuardado();
     
     console.log('AuthContext: Token encontrado:', !!token);
     console.log('AuthContext: User encontrado:', !!savedUser);
@@ -28,11 +144,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       try {
         const parsedUser = JSON.parse(savedUser);
         console.log('AuthContext: Usuario restaurado:', parsedUser);
-        setUser(parsedUser);
+        setUser({ roles: [], permisos: [], ...parsedUser });
+        
+        // Las sesiones guardadas antes de que existieran los permisos no los traen:
+        // esperamos al /me para no tratar al usuario como si no tuviera ninguno
+        if (!Array.isArray(parsedUser.permisos)) {
+          refreshUser().finally(() => setLoading(false));
+          return;
+        }
+        refreshUser();
       } catch (error) {
         console.error('Error al restaurar sesión:', error);
-        localStorage.removeItem('token');
-        localStorage.removeItem('user');
+        borrarSesion();
       }
     } else {
       console.log('AuthContext: No hay sesión guardada');
@@ -40,62 +163,125 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     
     setLoading(false);
     console.log('AuthContext: Restauración completada');
-  }, []);
+  }, [refreshUser]);
+
+  // Al volver a la pestaña refrescamos los permisos
+  useEffect(() => {
+    if (!user) return;
+    window.addEventListener('focus', refreshUser);
+    return () => window.removeEventListener('focus', refreshUser);
+  }, [user?.username, refreshUser]);
+
+  // Interpreta la respuesta de /login y de sus segundos pasos: si trae los tokens, guarda la sesión
+  const procesarRespuestaLogin = (response: Response, data: any, remember: boolean): LoginResult => {
+    if (data.success && data.token) {
+      // Guardar la información del usuario
+      const userData = armarUsuario(data.usuario);
+      
+      setUser(userData);
+      
+      // Con "recordarme" la sesión queda en localStorage; si no, en sessionStorage
+      // (las peticiones del panel siguen teniendo el token, pero se pierde al cerrar el navegador)
+      console.log('AuthContext: Guardando sesión, remember:', remember);
+      guardarSesion(data.token, data.refresh_token, remember);
+      guardarUsuario(userData);
+      
+      return {
+        success: true,
+        codigosRecuperacion: data.codigos_recuperacion,
+        codigosRecuperacionRestantes: data.codigos_recuperacion_restantes,
+      };
+    }
+
+    // La contraseña está bien pero falta el código de verificación (o configurarlo)
+    if (data.success && data.requiere_2fa) {
+      return {
+        success: false,
+        mensaje: data.mensaje,
+        twoFactor: { desafio: data.desafio, configurar: !!data.configurar_2fa },
+      };
+    }
 
-  const login = async (username: string, password: string, remember: boolean = true): Promise<boolean> => {
+    // 429: demasiados intentos, el backend dice hasta cuándo hay que esperar
+    if (response.status === 429) {
+      return {
+        success: false,
+        mensaje: data.mensaje,
+        bloqueadoHasta: new Date(Date.now() + (data.reintentar_en || 0) * 1000),
+      };
+    }
+    
+    return {
+      success: false,
+      mensaje: data.mensaje,
+      intentosRestantes: data.intentos_restantes,
+      desafioVencido: !!data.desafio_vencido,
+    };
+  };
+
+  // POST sin token a las rutas de login
+  const pedirLogin = async (ruta: string, body: object) => {
+    const response = await fetch(getApiUrl(ruta), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    return { response, data: await response.json() };
+  };
+
+  const login = async (username: string, password: string, remember: boolean = true): Promise<LoginResult> => {
     console.log('AuthContext: Intentando login, remember:', remember);
     try {
       // Llamar al backend de autenticación
-      const response = await fetch(getApiUrl('/api/auth/login'), {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ username, password }),
-      });
-
-      const data = await response.json();
-
-      if (data.success && data.token) {
-        // Guardar la información del usuario
-        const userData = {
-          username: data.usuario.username,
-          role: (data.usuario.roles.includes('admin') ? 'admin' : 'vendor') as 'vendor',
-        };
-        
-        setUser(userData);
-        
-        // Solo guardar en localStorage si el usuario quiere recordar
-        if (remember) {
-          console.log('AuthContext: Guardando sesión en localStorage');
-          localStorage.setItem('token', data.token);
-          localStorage.setItem('user', JSON.stringify(userData));
-        } else {
-          console.log('AuthContext: No guardando sesión (remember=false)');
-          // Limpiar cualquier sesión previa
-          localStorage.removeItem('token');
-          localStorage.removeItem('user');
-        }
-        
-        return true;
-      }
-      
-      return false;
+      const { response, data } = await pedirLogin('/api/auth/login', { username, password, recordar: remember });
+      return procesarRespuestaLogin(response, data, remember);
     } catch (error) {
       console.error('Error al iniciar sesión:', error);
-      return false;
+      throw error;
     }
   };
 
-  const logout = () => {
-    // Limpiar el token y el usuario
-    localStorage.removeItem('token');
-    localStorage.removeItem('user');
-    setUser(null);
+  // Segundo paso: el código de la app autenticadora o uno de recuperación
+  const verifyTwoFactor = async (desafio: string, codigo: string, remember: boolean = true): Promise<LoginResult> => {
+    const { response, data } = await pedirLogin('/api/auth/login/2fa', { desafio, codigo });
+    return procesarRespuestaLogin(response, data, remember);
   };
 
+  // Configuración obligatoria durante el login (el rol exige 2FA y el usuario no la tiene)
+  const startTwoFactorEnrollment = async (desafio: string) => {
+    const { data } = await pedirLogin('/api/auth/login/2fa/configurar', { desafio });
+    if (!data.success) {
+      throw new Error(data.mensaje || 'No se pudo generar el código QR');
+    }
+    return { secreto: data.secreto, qr: data.qr };
+  };
+
+  const completeTwoFactorEnrollment = async (desafio: string, codigo: string, remember: boolean = true): Promise<LoginResult> => {
+    const { response, data } = await pedirLogin('/api/auth/login/2fa/activar', { desafio, codigo });
+    return procesarRespuestaLogin(response, data, remember);
+  };
+
+  const hasPermission = useCallback((permiso: string) => {
+    return !!user && user.permisos.includes(permiso);
+  }, [user]);
+
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        loading,
+        login,
+        verifyTwoFactor,
+        startTwoFactorEnrollment,
+        completeTwoFactorEnrollment,
+        logout,
+        logoutAllSessions,
+        refreshUser,
+        hasPermission,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,89 @@
+// Hook para recibir en vivo los eventos de compras (GET /api/compras/stream)
+// Usamos fetch (apiFetch) en lugar de EventSource porque EventSource no permite mandar el header Authorization
+// El servidor revisa la sesión al conectar y en cada latido: si se cerró (logout, "cerrar todas las sesiones",
+// usuario desactivado) corta el stream. Al reconectar, apiFetch no puede renovar el token y AuthContext vuelve al login
+
+import { useEffect, useRef } from 'react';
+import { apiFetch, leerRefreshToken } from '../config/apiFetch';
+
+export type ComprasStreamEvent = {
+  tipo: 'compra_creada' | 'compra_actualizada' | 'compra_eliminada';
+  datos: any;
+};
+
+// Espera antes de reconectar cuando se corta la conexión
+const ESPERA_RECONEXION_MS = 5000;
+
+export function useComprasStream(onEvento: (evento: ComprasStreamEvent) => void, activo: boolean = true) {
+  // Guardamos el callback en una ref para no reconectar cada vez que cambia
+  const onEventoRef = useRef(onEvento);
+  onEventoRef.current = onEvento;
+
+  useEffect(() => {
+    if (!activo) return;
+
+    const controller = new AbortController();
+    let reconexion: ReturnType<typeof setTimeout> | null = null;
+
+    // Procesa un bloque "event: ...\ndata: ..." del stream
+    const procesarBloque = (bloque: string) => {
+      let tipo = 'message';
+      let datos = '';
+      for (const linea of bloque.split('\n')) {
+        if (linea.startsWith('event:')) tipo = linea.slice(6).trim();
+        else if (linea.startsWith('data:')) datos += linea.slice(5).trim();
+      }
+      if (!datos) return; // Comentarios (latidos) y "retry:" no traen datos
+
+      try {
+        onEventoRef.current({ tipo: tipo as ComprasStreamEvent['tipo'], datos: JSON.parse(datos) });
+      } catch (error) {
+        console.error('Evento de compras inválido:', error);
+      }
+    };
+
+    const conectar = async () => {
+      try {
+        const response = await apiFetch('/api/compras/stream', {
+          signal: controller.signal,
+        });
+
+        // Sesión cerrada: apiFetch la borró y avisó para volver al login, no tiene sentido reintentar
+        if (response.status === 401 && !leerRefreshToken()) return;
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Stream de compras respondió ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const bloques = buffer.split('\n\n');
+          buffer = bloques.pop() || '';
+          bloques.forEach(procesarBloque);
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Conexión en vivo con compras cortada:', error);
+      }
+
+      // Si el servidor cerró la conexión (o falló), reintentamos
+      if (!controller.signal.aborted) {
+        reconexion = setTimeout(conectar, ESPERA_RECONEXION_MS);
+      }
+    };
+
+    conectar();
+
+    return () => {
+      controller.abort();
+      if (reconexion) clearTimeout(reconexion);
+    };
+  }, [activo]);
+}
@@ -0,0 +1,46 @@
+// Hook para mostrar el comprobante (o su miniatura) de una compra en un <img>
+// La ruta está protegida, así que lo descargamos con el token y armamos una URL local del blob
+
+import { useEffect, useState } from 'react';
+import { apiFetch } from '../config/apiFetch';
+
+export function useComprobanteUrl(purchaseId: number, miniatura: boolean = false) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let urlLocal: string | null = null;
+    let cancelado = false;
+
+    setUrl(null);
+    setError(false);
+
+    const cargar = async () => {
+      try {
+        const ruta = `/api/compras/${purchaseId}/comprobante${miniatura ? '/miniatura' : ''}`;
+        const response = await apiFetch(ruta);
+
+        if (!response.ok) {
+          throw new Error('Error al cargar el comprobante');
+        }
+
+        const imagen = await response.blob();
+        if (cancelado) return;
+        urlLocal = URL.createObjectURL(imagen);
+        setUrl(urlLocal);
+      } catch (err) {
+        if (!cancelado) setError(true);
+      }
+    };
+
+    cargar();
+
+    // Liberamos la imagen cuando el componente se desmonta o cambia la compra
+    return () => {
+      cancelado = true;
+      if (urlLocal) URL.revokeObjectURL(urlLocal);
+    };
+  }, [purchaseId, miniatura]);
+
+  return { url, error };
+}
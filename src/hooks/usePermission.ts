@@ -0,0 +1,9 @@
+// Hook para saber si el usuario logueado tiene un permiso
+// Usa los mismos nombres que verificarPermiso en el backend ('editar_compras', 'gestionar_productos', ...)
+
+import { useAuth } from '../context/AuthContext';
+
+export function usePermission(permiso: string) {
+  const { hasPermission } = useAuth();
+  return hasPermission(permiso);
+}
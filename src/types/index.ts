@@ -1,8 +1,15 @@
+// Producto que forma parte de un combo, con cuántas unidades lleva cada combo
+export interface ProductComponent {
+  productId: string;
+  name: string;
+  quantity: number;
+}
+
 export interface Product {
   id: string;
   name: string;
   price: number;
-  category: 'merienda-bebidas' | 'merienda-dulces' | 'merienda-salados' | 'cena-bebidas' | 'cena-comidas';
+  category: 'merienda-bebidas' | 'merienda-dulces' | 'merienda-salados' | 'merienda-combos' | 'cena-bebidas' | 'cena-comidas' | 'cena-combos';
   subcategoria?: string;
   image: string;
   description?: string;
@@ -13,6 +20,8 @@ export interface Product {
   categoria?: string;
   imagen_url?: string;
   disponible?: boolean;
+  // Solo en los combos: qué productos incluye (el stock del combo es cuántos se pueden armar con ellos)
+  components?: ProductComponent[];
 }
 
 export interface CartItem {
@@ -20,6 +29,21 @@ export interface CartItem {
   quantity: number;
 }
 
+export type OrderStatus = 'pendiente' | 'pagado' | 'preparando' | 'listo' | 'entregado' | 'cancelado';
+
+// Verificación del comprobante de una transferencia (null para pagos en efectivo)
+export type TransferVerification = 'pendiente' | 'aprobado' | 'rechazado';
+
+export interface OrderStatusChange {
+  id: number;
+  estado_anterior: OrderStatus | null;
+  estado_nuevo: OrderStatus;
+  nota: string | null;
+  fecha: string;
+  usuario: string | null;
+  usuario_nombre: string | null;
+}
+
 export interface Order {
   id: string;
   customerName: string;
@@ -28,11 +52,13 @@ export interface Order {
   total: number;
   paymentMethod: 'efectivo' | 'transferencia';
   proofImage?: string;
-  status: 'pendiente' | 'preparando' | 'listo' | 'entregado';
+  status: OrderStatus;
   createdAt: Date;
 }
 
 export interface VendorUser {
   username: string;
-  role: 'vendor';
+  roles: string[];
+  // Los mismos nombres de permiso que exige verificarPermiso en el backend
+  permisos: string[];
 }
@@ -0,0 +1,104 @@
+// Almacenamiento de comprobantes de transferencia
+// El driver se elige con la variable de entorno COMPROBANTES_STORAGE:
+//   postgres (por defecto) - bytea en la tabla archivos_comprobantes, funciona en Vercel
+//   local                  - archivos en public/uploads/comprobantes (servidor propio)
+//   s3                     - bucket S3 o compatible (ver storage/s3.js)
+//
+// Cada compra guarda con qué driver se subió su comprobante, así se puede cambiar
+// de driver sin perder el acceso a los comprobantes viejos.
+
+const crypto = require('crypto');
+const sharp = require('sharp');
+
+const DRIVERS = {
+  postgres: () => require('./postgres'),
+  local: () => require('./local'),
+  s3: () => require('./s3')
+};
+
+// Ancho máximo de las miniaturas que se muestran en el panel
+const ANCHO_MINIATURA = 240;
+
+const EXTENSIONES_POR_TIPO = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+function obtenerDriver(nombre = process.env.COMPROBANTES_STORAGE || 'postgres') {
+  const cargar = DRIVERS[nombre];
+  if (!cargar) {
+    throw new Error(`Driver de comprobantes desconocido: "${nombre}". Opciones: ${Object.keys(DRIVERS).join(', ')}`);
+  }
+  return cargar();
+}
+
+// Genera una miniatura JPEG chica para el listado del panel
+// Si la imagen no se puede procesar devolvemos null: el comprobante se guarda igual
+async function generarMiniatura(contenido) {
+  try {
+    return await sharp(contenido)
+      .rotate() // respeta la orientación EXIF de las fotos de celular
+      .resize({ width: ANCHO_MINIATURA, withoutEnlargement: true })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  } catch (error) {
+    console.error('No se pudo generar la miniatura del comprobante:', error.message);
+    return null;
+  }
+}
+
+// Convierte un comprobante viejo guardado como data:<tipo>;base64,<contenido>
+// Devuelve null si el texto no tiene ese formato
+function decodificarDataUrl(dataUrl) {
+  const coincidencia = /^data:([^;,]+);base64,(.*)$/s.exec(dataUrl || '');
+  if (!coincidencia) return null;
+  return { tipo: coincidencia[1], contenido: Buffer.from(coincidencia[2], 'base64') };
+}
+
+// Guarda un comprobante y su miniatura con el driver configurado
+// Devuelve lo que hay que guardar en la compra para poder leerlo después
+async function guardarComprobante(contenido, tipo) {
+  const driver = obtenerDriver();
+  const fecha = new Date().toISOString().slice(0, 7); // 2025-11: agrupa los archivos por mes
+  const id = crypto.randomUUID();
+  const clave = `${fecha}/${id}.${EXTENSIONES_POR_TIPO[tipo] || 'bin'}`;
+
+  await driver.guardar(clave, contenido, tipo);
+
+  let claveMiniatura = null;
+  const miniatura = await generarMiniatura(contenido);
+  if (miniatura) {
+    claveMiniatura = `${fecha}/${id}-miniatura.jpg`;
+    await driver.guardar(claveMiniatura, miniatura, 'image/jpeg');
+  }
+
+  return {
+    comprobante_driver: driver.nombre,
+    comprobante_clave: clave,
+    comprobante_tipo: tipo,
+    comprobante_miniatura_clave: claveMiniatura
+  };
+}
+
+// Lee un archivo guardado con el driver con el que se subió
+async function obtenerComprobante(nombreDriver, clave) {
+  return obtenerDriver(nombreDriver).obtener(clave);
+}
+
+// Borra el comprobante y la miniatura de una compra (si los tiene)
+async function eliminarComprobante(nombreDriver, clave, claveMiniatura) {
+  const driver = obtenerDriver(nombreDriver);
+  if (clave) await driver.eliminar(clave);
+  if (claveMiniatura) await driver.eliminar(claveMiniatura);
+}
+
+module.exports = {
+  obtenerDriver,
+  generarMiniatura,
+  decodificarDataUrl,
+  guardarComprobante,
+  obtenerComprobante,
+  eliminarComprobante
+};
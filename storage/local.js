@@ -0,0 +1,53 @@
+// Driver de comprobantes en disco local
+// Guarda los archivos en public/uploads/comprobantes (o en COMPROBANTES_DIR)
+// Solo sirve en un servidor propio: en Vercel el disco es de solo lectura
+// server.js bloquea el acceso estático a esta carpeta: los comprobantes se leen por la API
+
+const fs = require('fs/promises');
+const path = require('path');
+
+const DIRECTORIO = process.env.COMPROBANTES_DIR || path.join(__dirname, '..', 'public', 'uploads', 'comprobantes');
+
+// Tipo de archivo según la extensión (no guardamos metadata aparte)
+const TIPOS_POR_EXTENSION = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp'
+};
+
+// Evita que una clave rara escape de la carpeta (ej: "../../server.js")
+function rutaDeClave(clave) {
+  const ruta = path.resolve(DIRECTORIO, clave);
+  if (!ruta.startsWith(path.resolve(DIRECTORIO) + path.sep)) {
+    throw new Error(`Clave de comprobante inválida: ${clave}`);
+  }
+  return ruta;
+}
+
+async function guardar(clave, contenido) {
+  const ruta = rutaDeClave(clave);
+  await fs.mkdir(path.dirname(ruta), { recursive: true });
+  await fs.writeFile(ruta, contenido);
+}
+
+async function obtener(clave) {
+  try {
+    const contenido = await fs.readFile(rutaDeClave(clave));
+    const tipo = TIPOS_POR_EXTENSION[path.extname(clave).toLowerCase()] || 'application/octet-stream';
+    return { contenido, tipo };
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function eliminar(clave) {
+  try {
+    await fs.unlink(rutaDeClave(clave));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+  }
+}
+
+module.exports = { nombre: 'local', guardar, obtener, eliminar, DIRECTORIO };
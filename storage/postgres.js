@@ -0,0 +1,29 @@
+// Driver de comprobantes en PostgreSQL
+// Guarda el archivo como bytea en la tabla archivos_comprobantes
+// Es el driver por defecto porque funciona en Vercel (no hay disco donde escribir)
+
+const pool = require('../db/connection');
+
+async function guardar(clave, contenido, tipo) {
+  await pool.query(
+    `INSERT INTO archivos_comprobantes (clave, contenido, tipo)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (clave) DO UPDATE SET contenido = EXCLUDED.contenido, tipo = EXCLUDED.tipo`,
+    [clave, contenido, tipo]
+  );
+}
+
+async function obtener(clave) {
+  const result = await pool.query(
+    'SELECT contenido, tipo FROM archivos_comprobantes WHERE clave = $1',
+    [clave]
+  );
+  if (result.rows.length === 0) return null;
+  return { contenido: result.rows[0].contenido, tipo: result.rows[0].tipo };
+}
+
+async function eliminar(clave) {
+  await pool.query('DELETE FROM archivos_comprobantes WHERE clave = $1', [clave]);
+}
+
+module.exports = { nombre: 'postgres', guardar, obtener, eliminar };
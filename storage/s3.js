@@ -0,0 +1,122 @@
+// Driver de comprobantes en un bucket S3 (o compatible: MinIO, Cloudflare R2, etc.)
+// Firmamos las peticiones con AWS Signature V4 usando fetch, sin depender del SDK de AWS
+//
+// Variables de entorno:
+//   S3_BUCKET             - Nombre del bucket (obligatorio)
+//   S3_ACCESS_KEY_ID      - Access key (obligatorio)
+//   S3_SECRET_ACCESS_KEY  - Secret key (obligatorio)
+//   S3_REGION             - Región (por defecto us-east-1)
+//   S3_ENDPOINT           - URL del servicio (por defecto https://s3.<región>.amazonaws.com)
+//                           Para probar en local con MinIO: http://localhost:9000
+// Las URLs se arman con el bucket en la ruta (path-style), que es lo que soportan todos los compatibles
+
+const crypto = require('crypto');
+
+const REGION = process.env.S3_REGION || 'us-east-1';
+const ENDPOINT = (process.env.S3_ENDPOINT || `https://s3.${REGION}.amazonaws.com`).replace(/\/+$/, '');
+const BUCKET = process.env.S3_BUCKET;
+const ACCESS_KEY_ID = process.env.S3_ACCESS_KEY_ID;
+const SECRET_ACCESS_KEY = process.env.S3_SECRET_ACCESS_KEY;
+
+function sha256(contenido) {
+  return crypto.createHash('sha256').update(contenido).digest('hex');
+}
+
+function hmac(clave, texto) {
+  return crypto.createHmac('sha256', clave).update(texto).digest();
+}
+
+// Arma los headers firmados (Signature V4) para una petición al bucket
+function firmarPeticion(metodo, url, contenido, headersExtra = {}) {
+  if (!BUCKET || !ACCESS_KEY_ID || !SECRET_ACCESS_KEY) {
+    throw new Error('Faltan S3_BUCKET, S3_ACCESS_KEY_ID o S3_SECRET_ACCESS_KEY para usar el driver s3');
+  }
+
+  const ahora = new Date().toISOString().replace(/[:-]|\.\d{3}/g, ''); // 20250101T120000Z
+  const fecha = ahora.slice(0, 8);
+  const hashContenido = sha256(contenido || '');
+
+  const headers = {
+    host: url.host,
+    'x-amz-content-sha256': hashContenido,
+    'x-amz-date': ahora,
+    ...headersExtra
+  };
+
+  const nombres = Object.keys(headers).map(h => h.toLowerCase()).sort();
+  const headersCanonicos = nombres.map(h => `${h}:${String(headers[h]).trim()}\n`).join('');
+  const headersFirmados = nombres.join(';');
+
+  const peticionCanonica = [
+    metodo,
+    url.pathname,
+    '', // sin query string
+    headersCanonicos,
+    headersFirmados,
+    hashContenido
+  ].join('\n');
+
+  const alcance = `${fecha}/${REGION}/s3/aws4_request`;
+  const textoAFirmar = ['AWS4-HMAC-SHA256', ahora, alcance, sha256(peticionCanonica)].join('\n');
+
+  const claveFirma = hmac(hmac(hmac(hmac(`AWS4${SECRET_ACCESS_KEY}`, fecha), REGION), 's3'), 'aws4_request');
+  const firma = crypto.createHmac('sha256', claveFirma).update(textoAFirmar).digest('hex');
+
+  // fetch pone el header Host por su cuenta
+  const { host, ...resto } = headers;
+  return {
+    ...resto,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${ACCESS_KEY_ID}/${alcance}, SignedHeaders=${headersFirmados}, Signature=${firma}`
+  };
+}
+
+function urlDeClave(clave) {
+  const ruta = clave.split('/').map(encodeURIComponent).join('/');
+  return new URL(`${ENDPOINT}/${encodeURIComponent(BUCKET || '')}/${ruta}`);
+}
+
+async function guardar(clave, contenido, tipo) {
+  const url = urlDeClave(clave);
+  const response = await fetch(url, {
+    method: 'PUT',
+    headers: firmarPeticion('PUT', url, contenido, { 'content-type': tipo }),
+    body: contenido
+  });
+
+  if (!response.ok) {
+    throw new Error(`S3 respondió ${response.status} al guardar ${clave}: ${await response.text()}`);
+  }
+}
+
+async function obtener(clave) {
+  const url = urlDeClave(clave);
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: firmarPeticion('GET', url, '')
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`S3 respondió ${response.status} al leer ${clave}: ${await response.text()}`);
+  }
+
+  return {
+    contenido: Buffer.from(await response.arrayBuffer()),
+    tipo: response.headers.get('content-type') || 'application/octet-stream'
+  };
+}
+
+async function eliminar(clave) {
+  const url = urlDeClave(clave);
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: firmarPeticion('DELETE', url, '')
+  });
+
+  // S3 responde 204 aunque el objeto no exista
+  if (!response.ok && response.status !== 404) {
+    throw new Error(`S3 respondió ${response.status} al eliminar ${clave}: ${await response.text()}`);
+  }
+}
+
+module.exports = { nombre: 's3', guardar, obtener, eliminar };